@@ -11,7 +11,17 @@ import { createBodyShapeClient } from '@/lib';
 import type {
   BodyShapeGenerationOptions,
   BodyShapeGenerationResult,
+  GeneratedImage,
 } from '@/types';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeImage,
+  defaultPromptExperimentStore,
+  DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+  encodeImage,
+  readProvenance,
+} from '@/utils';
 
 import app from './index.js';
 
@@ -30,6 +40,13 @@ describe('Body Shape Endpoint', () => {
     return (await res.json()) as T;
   }
 
+  /** 単色の実 PNG 画像を生成 */
+  function createPngFile(width: number, height: number): File {
+    const data = new Uint8Array(width * height * 4).fill(200);
+    const png = encodeImage({ width, height, data }, 'image/png');
+    return new File([png], 'original.png', { type: 'image/png' });
+  }
+
   beforeEach(() => {
     vi.clearAllMocks();
     mockedCreateBodyShapeClient =
@@ -204,8 +221,7 @@ describe('Body Shape Endpoint', () => {
 
     it('変更なし（パススルーのみ）の場合は元画像のBase64とMIMEで返す', async () => {
       const form = new FormData();
-      const file = new File(['payload'], 'original.png', { type: 'image/png' });
-      form.append('image', file);
+      form.append('image', createPngFile(2, 2));
       form.append(
         'subject',
         JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
@@ -237,10 +253,92 @@ describe('Body Shape Endpoint', () => {
       expect(json.metadata?.model).toBe('original-image');
     });
 
-    it('パススルー時に options.returnMimeType を優先する', async () => {
+    it('パススルー画像の幅と高さをアップロード画像のヘッダーから設定する', async () => {
+      // 幅 640 x 高さ 960 の PNG ヘッダー
+      const png = new Uint8Array(33);
+      const view = new DataView(png.buffer);
+      png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 0);
+      view.setUint32(8, 13);
+      png.set([0x49, 0x48, 0x44, 0x52], 12);
+      view.setUint32(16, 640);
+      view.setUint32(20, 960);
+
       const form = new FormData();
-      const file = new File(['payload'], 'original.png', { type: 'image/png' });
-      form.append('image', file);
+      form.append('image', new File([png], 'original.png', { type: 'image/png' }));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 70, label: 'same' }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        success: boolean;
+        data: { images: Array<{ width: number; height: number }> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.images[0].width).toBe(640);
+      expect(json.data.images[0].height).toBe(960);
+    });
+
+    it('アップロード画像の EXIF（GPS 等）を除去してから生成・パススルーに使用する', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: false,
+        error: 'failed',
+      } as BodyShapeGenerationResult);
+
+      const jpeg = encodeImage(
+        { width: 4, height: 4, data: new Uint8Array(64).fill(128) },
+        'image/jpeg'
+      );
+      const exif = Array.from('Exif\0\0MM GPS:35.68N', (ch) =>
+        ch.charCodeAt(0)
+      );
+      const withExif = new Uint8Array([
+        0xff, 0xd8, 0xff, 0xe1, 0x00, exif.length + 2, ...exif,
+        ...jpeg.subarray(2),
+      ]);
+      const upload = () =>
+        new File([withExif], 'photo.jpg', { type: 'image/jpeg' });
+
+      // パススルー
+      const form = new FormData();
+      form.append('image', upload());
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 70, label: 'same' }]));
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        data: { images: Array<{ base64: string }> };
+      }>(res);
+      const passthrough = atob(json.data.images[0].base64);
+      expect(passthrough).not.toContain('Exif');
+      expect(passthrough).not.toContain('GPS');
+
+      // 生成リクエスト
+      const genForm = new FormData();
+      genForm.append('image', upload());
+      genForm.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      genForm.append('targets', JSON.stringify([{ weightKg: 65, label: 'g' }]));
+      await app.request(
+        '/',
+        { method: 'POST', body: genForm },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      expect(atob(callArg.imageBase64)).not.toContain('GPS');
+    });
+
+    it('パススルー時に options.returnMimeType の形式へ実際に変換する', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(4, 3));
       form.append(
         'subject',
         JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
@@ -251,12 +349,53 @@ describe('Body Shape Endpoint', () => {
       const res = await app.request('/', { method: 'POST', body: form });
       const json = await parseJson<{
         success: boolean;
-        data: { images: Array<{ mimeType: string }> };
+        data: {
+          images: Array<{
+            mimeType: string;
+            base64: string;
+            width: number;
+            height: number;
+          }>;
+        };
       }>(res);
 
       expect(res.status).toBe(200);
       expect(json.success).toBe(true);
       expect(json.data.images[0].mimeType).toBe('image/jpeg');
+      // バイト列も JPEG（SOI マーカー）であること
+      const bytes = base64ToBytes(json.data.images[0].base64);
+      expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+      expect(json.data.images[0].width).toBe(4);
+      expect(json.data.images[0].height).toBe(3);
+    });
+
+    it('デコードできない形式のパススルーは元の形式のまま実際の MIME を返す', async () => {
+      // RIFF....WEBP ヘッダーを持つ WebP（デコード非対応）
+      const webp = new Uint8Array(30);
+      webp.set(Array.from('RIFF', (ch) => ch.charCodeAt(0)), 0);
+      webp.set(Array.from('WEBPVP8X', (ch) => ch.charCodeAt(0)), 8);
+      webp[16] = 10; // VP8X チャンク長
+
+      const form = new FormData();
+      form.append(
+        'image',
+        new File([webp], 'original.webp', { type: 'image/webp' })
+      );
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 70, label: 'same' }]));
+      form.append('options', JSON.stringify({ returnMimeType: 'image/jpeg' }));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        success: boolean;
+        data: { images: Array<{ mimeType: string }> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.images[0].mimeType).toBe('image/webp');
     });
 
     it('変更ありとパススルーが混在する場合、順序を保ってマージする', async () => {
@@ -279,10 +418,7 @@ describe('Body Shape Endpoint', () => {
       } satisfies BodyShapeGenerationResult);
 
       const form = new FormData();
-      const file = new File(['payload'], 'original.webp', {
-        type: 'image/webp',
-      });
-      form.append('image', file);
+      form.append('image', createPngFile(2, 2));
       form.append(
         'subject',
         JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
@@ -328,8 +464,7 @@ describe('Body Shape Endpoint', () => {
       } as BodyShapeGenerationResult);
 
       const form = new FormData();
-      const file = new File(['payload'], 'original.png', { type: 'image/png' });
-      form.append('image', file);
+      form.append('image', createPngFile(2, 2));
       form.append(
         'subject',
         JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
@@ -353,15 +488,16 @@ describe('Body Shape Endpoint', () => {
     });
 
     it('ファイル変換に失敗した場合は FILE001 で 422 を返す', async () => {
-      // utils の部分モックで fileToBase64 だけ失敗させる
+      // utils の部分モックで sanitizeAndDownscaleImage だけ失敗させる
       const mod = await import('@/utils');
       const spy = vi
-        .spyOn(mod, 'fileToBase64')
-        .mockRejectedValue(new mod.ImageConversionError('Read error'));
+        .spyOn(mod, 'sanitizeAndDownscaleImage')
+        .mockImplementation(() => {
+          throw new mod.ImageConversionError('Read error');
+        });
 
       const form = new FormData();
-      const file = new File(['payload'], 'original.png', { type: 'image/png' });
-      form.append('image', file);
+      form.append('image', createPngFile(2, 2));
       form.append(
         'subject',
         JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
@@ -381,5 +517,2017 @@ describe('Body Shape Endpoint', () => {
 
       spy.mockRestore();
     });
+
+    it('画像の内容が申告された MIME と一致しない場合は FILE003 で 415 を返す', async () => {
+      // 中身は PNG だが image/jpeg と申告
+      const png = await createPngFile(2, 2).arrayBuffer();
+      const form = new FormData();
+      form.append(
+        'image',
+        new File([new Uint8Array(png)], 'renamed.jpg', {
+          type: 'image/jpeg',
+        })
+      );
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65, label: 'g' }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        success: boolean;
+        error?: { code?: string };
+      }>(res);
+
+      expect(res.status).toBe(415);
+      expect(json.success).toBe(false);
+      expect(json.error?.code).toBe('FILE003');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('生成クライアントにはスニッフィングで判別した MIME を渡す', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: false,
+        error: 'failed',
+      } as BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65, label: 'g' }]));
+
+      await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      expect(callArg.mimeType).toBe('image/png');
+    });
+
+    it('長辺が上限を超える画像は縮小してから生成クライアントへ渡し、サイズをメタデータに記録する', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: 'generated',
+            mimeType: 'image/png',
+            width: 16,
+            height: 8,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 0.9,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(64, 32));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test', MAX_INPUT_IMAGE_LONG_EDGE: '16' }
+      );
+      const json = await parseJson<{
+        success: boolean;
+        data: { images: Array<{ width: number; height: number }> };
+        metadata: { inputImage: Record<string, unknown> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      const sent = decodeImage(base64ToBytes(callArg.imageBase64));
+      expect(sent.width).toBe(16);
+      expect(sent.height).toBe(8);
+      expect(json.metadata.inputImage).toEqual({
+        originalWidth: 64,
+        originalHeight: 32,
+        width: 16,
+        height: 8,
+        resized: true,
+      });
+      // パススルーは縮小前の画像を返す
+      expect(json.data.images[0]).toMatchObject({ width: 64, height: 32 });
+    });
+
+    it('options.composite 指定時は元画像と各ターゲットを並べた合成画像を返す', async () => {
+      const generated = encodeImage(
+        { width: 20, height: 40, data: new Uint8Array(20 * 40 * 4).fill(90) },
+        'image/png'
+      );
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: bytesToBase64(generated),
+            mimeType: 'image/png',
+            width: 20,
+            height: 40,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 0.9,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+      form.append(
+        'options',
+        JSON.stringify({ composite: { layout: 'horizontal', height: 64 } })
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          images: unknown[];
+          composite: {
+            base64: string;
+            mimeType: string;
+            width: number;
+            height: number;
+            layout: string;
+          };
+        };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.images).toHaveLength(2);
+      const { composite } = json.data;
+      expect(composite.mimeType).toBe('image/png');
+      expect(composite.layout).toBe('horizontal');
+      // 元画像 64x64 + パススルー 64x64 + 生成 32x64 + 余白（高さ 64 では文字倍率 1 のため 4px）
+      expect(composite.width).toBe(4 + 64 + 4 + 64 + 4 + 32 + 4);
+      const decoded = decodeImage(base64ToBytes(composite.base64));
+      expect(decoded.width).toBe(composite.width);
+      expect(decoded.height).toBe(composite.height);
+    });
+
+    it('生成画像と合成画像にのみ来歴メタデータを埋め込み、パススルー画像には埋め込まない', async () => {
+      const generated = encodeImage(
+        { width: 20, height: 40, data: new Uint8Array(20 * 40 * 4).fill(90) },
+        'image/png'
+      );
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: bytesToBase64(generated),
+            mimeType: 'image/png',
+            width: 20,
+            height: 40,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 0.9,
+          model: 'gemini-image-edit',
+          promptVersion: 'structured-xml-v1',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+      form.append('options', JSON.stringify({ composite: {} }));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          images: Array<{ base64: string }>;
+          composite: { base64: string };
+        };
+        metadata: { requestId: string };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      const [passthrough, stamped] = json.data.images;
+      expect(readProvenance(base64ToBytes(passthrough.base64))).toBeUndefined();
+      expect(readProvenance(base64ToBytes(stamped.base64))).toMatchObject({
+        model: 'gemini-image-edit',
+        promptVersion: 'structured-xml-v1',
+        requestId: json.metadata.requestId,
+      });
+      expect(decodeImage(base64ToBytes(stamped.base64)).data).toEqual(
+        decodeImage(generated).data
+      );
+      expect(
+        readProvenance(base64ToBytes(json.data.composite.base64))
+          ?.digitalSourceType
+      ).toBe(DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA);
+    });
+
+    it('合成画像を生成できない形式の場合は composite を返さず理由を記録する', async () => {
+      const webp = new Uint8Array(30);
+      webp.set([0x52, 0x49, 0x46, 0x46, 22, 0, 0, 0]);
+      webp.set([0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x58, 10], 8);
+
+      const form = new FormData();
+      form.append('image', new File([webp], 'a.webp', { type: 'image/webp' }));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 70, label: 'A' }]));
+      form.append('options', JSON.stringify({ composite: {} }));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: { images: unknown[]; composite?: unknown };
+        metadata: { compositeError?: string };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.images).toHaveLength(1);
+      expect(json.data.composite).toBeUndefined();
+      expect(json.metadata.compositeError).toBeDefined();
+    });
+
+    it('options.includeDiffMap 指定時は生成画像ごとに差分ヒートマップと統計を返す', async () => {
+      // 元画像（40x40、値 200）の左上 10x20 だけを変化させた生成画像
+      const data = new Uint8Array(40 * 40 * 4).fill(200);
+      for (let y = 0; y < 20; y++) {
+        for (let x = 0; x < 10; x++) data.set([0, 0, 0], (y * 40 + x) * 4);
+      }
+      const generated = encodeImage({ width: 40, height: 40, data }, 'image/png');
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: bytesToBase64(generated),
+            mimeType: 'image/png',
+            width: 40,
+            height: 40,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+      form.append('options', JSON.stringify({ includeDiffMap: true }));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          diffMaps: Array<{
+            label: string;
+            base64: string;
+            mimeType: string;
+            width: number;
+            height: number;
+          }>;
+        };
+        metadata: { diffStats: unknown[] };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.diffMaps).toHaveLength(1);
+      const [diffMap] = json.data.diffMaps;
+      expect(diffMap).toMatchObject({
+        label: 'B',
+        mimeType: 'image/png',
+        width: 40,
+        height: 40,
+      });
+      expect(decodeImage(base64ToBytes(diffMap.base64)).width).toBe(40);
+      expect(json.metadata.diffStats).toEqual([
+        {
+          label: 'B',
+          changedPercent: 12.5,
+          boundingBox: { x: 0, y: 0, width: 10, height: 20 },
+        },
+      ]);
+    });
+
+    it('差分ヒートマップを生成できない形式の場合は diffMaps を返さず理由を記録する', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: 'AAAA',
+            mimeType: 'image/webp',
+            width: 0,
+            height: 0,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65, label: 'B' }]));
+      form.append('options', JSON.stringify({ includeDiffMap: true }));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: { images: unknown[]; diffMaps?: unknown };
+        metadata: { diffStats?: unknown; diffMapError?: string };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.images).toHaveLength(1);
+      expect(json.data.diffMaps).toBeUndefined();
+      expect(json.metadata.diffStats).toBeUndefined();
+      expect(json.metadata.diffMapError).toBeDefined();
+    });
+
+    it('Accept: image/png かつターゲットが 1 件の場合は画像をバイト列のまま返す', async () => {
+      const generated = encodeImage(
+        { width: 20, height: 40, data: new Uint8Array(20 * 40 * 4).fill(90) },
+        'image/png'
+      );
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: bytesToBase64(generated),
+            mimeType: 'image/png',
+            width: 20,
+            height: 40,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 1234,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65, label: 'B' }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form, headers: { Accept: 'image/png' } },
+        { GEMINI_API_KEY: 'test' }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/png');
+      expect(res.headers.get('X-Processing-Time-Ms')).toBe('1234');
+      expect(res.headers.get('X-Model')).toBe('gemini-image-edit');
+      const bytes = new Uint8Array(await res.arrayBuffer());
+      expect(decodeImage(bytes).data).toEqual(decodeImage(generated).data);
+      // 生成クライアントには Accept の形式を出力形式として渡す
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      expect(callArg.options.returnMimeType).toBe('image/png');
+    });
+
+    it('Accept が画像形式でターゲットが複数の場合は生成せずに 406/VAL014', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([{ weightKg: 65 }, { weightKg: 60 }])
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form, headers: { Accept: 'image/jpeg' } },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        success: boolean;
+        error: { code: string };
+      }>(res);
+
+      expect(res.status).toBe(406);
+      expect(json.error.code).toBe('VAL014');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('Accept: multipart/mixed の場合は JSON のメタデータに続けて各画像を個別のパートで返す', async () => {
+      const generated = encodeImage(
+        { width: 20, height: 40, data: new Uint8Array(20 * 40 * 4).fill(90) },
+        'image/png'
+      );
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: bytesToBase64(generated),
+            mimeType: 'image/png',
+            width: 20,
+            height: 40,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const form = new FormData();
+      form.append('image', createPngFile(40, 40));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form, headers: { Accept: 'multipart/mixed' } },
+        { GEMINI_API_KEY: 'test' }
+      );
+
+      expect(res.status).toBe(200);
+      const contentType = res.headers.get('Content-Type') ?? '';
+      expect(contentType).toMatch(/^multipart\/mixed; boundary=/);
+      const boundary = contentType.split('boundary=')[1];
+      const text = new TextDecoder('latin1').decode(
+        new Uint8Array(await res.arrayBuffer())
+      );
+      const parts = text
+        .split(`--${boundary}`)
+        .slice(1, -1)
+        .map((part) => {
+          const separator = part.indexOf('\r\n\r\n');
+          return {
+            headers: part.slice(0, separator),
+            body: part.slice(separator + 4, -2),
+          };
+        });
+
+      expect(parts).toHaveLength(3);
+      const json = JSON.parse(parts[0].body);
+      expect(json.data.images).toEqual([
+        expect.objectContaining({ label: 'A', part: 'image-0' }),
+        expect.objectContaining({ label: 'B', part: 'image-1' }),
+      ]);
+      expect(json.data.images[0].base64).toBeUndefined();
+      expect(json.metadata.requestId).toEqual(expect.any(String));
+      expect(parts[2].headers).toContain('Content-Type: image/png');
+      expect(parts[2].headers).toContain('name="image-1"');
+      const bytes = Uint8Array.from(parts[2].body, (ch) => ch.charCodeAt(0));
+      expect(decodeImage(bytes).width).toBe(20);
+    });
+
+    it('options.watermark を生成クライアントへ渡し、パススルー画像には透かしを描画しない', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'B',
+            base64: 'generated',
+            mimeType: 'image/png',
+            width: 16,
+            height: 16,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 0.9,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+
+      const file = createPngFile(200, 200);
+      const original = new Uint8Array(await file.arrayBuffer());
+      const form = new FormData();
+      form.append('image', file);
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'A' }, // パススルー
+          { weightKg: 65, label: 'B' }, // 生成
+        ])
+      );
+      form.append(
+        'options',
+        JSON.stringify({ watermark: { text: 'AI', opacity: 1 } })
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: { images: Array<{ base64: string }> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      expect(callArg.options.watermark).toEqual({ text: 'AI', opacity: 1 });
+      expect(base64ToBytes(json.data.images[0].base64)).toEqual(original);
+    });
+
+    it('透かしの文言に描画できない文字が含まれる場合は 400 を返す', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65, label: 'B' }]));
+      form.append(
+        'options',
+        JSON.stringify({ watermark: { text: 'AI生成' } })
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+
+      expect(res.status).toBe(400);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('上限以下の画像は縮小せず、その旨をメタデータに記録する', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(4, 3));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 70, label: 'A' }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        metadata: { inputImage: Record<string, unknown> };
+      }>(res);
+
+      expect(json.metadata.inputImage).toEqual({
+        originalWidth: 4,
+        originalHeight: 3,
+        width: 4,
+        height: 3,
+        resized: false,
+      });
+    });
+
+    it('timeline 指定時は開始〜終了体重を等間隔の段階へ展開して生成し、各段階の BMI を返す', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(async ({ targets }) => ({
+        success: true,
+        images: targets.map(({ label }) => ({
+          label,
+          base64: bytesToBase64(
+            encodeImage(
+              { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+              'image/png'
+            )
+          ),
+          mimeType: 'image/png',
+          width: 2,
+          height: 2,
+        })),
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      }));
+
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 95 })
+      );
+      form.append(
+        'timeline',
+        JSON.stringify({ startWeightKg: 95, endWeightKg: 70, steps: 5 })
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          images: Array<{ label?: string }>;
+          timeline: Array<{
+            step: number;
+            label: string;
+            weightKg: number;
+            bmi: number;
+            category: string;
+            categoryLabel: string;
+          }>;
+        };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].targets).toEqual([
+        { weightKg: 90, label: 'step-1' },
+        { weightKg: 85, label: 'step-2' },
+        { weightKg: 80, label: 'step-3' },
+        { weightKg: 75, label: 'step-4' },
+        { weightKg: 70, label: 'step-5' },
+      ]);
+      expect(json.data.images.map((image) => image.label)).toEqual([
+        'step-1',
+        'step-2',
+        'step-3',
+        'step-4',
+        'step-5',
+      ]);
+      expect(json.data.timeline[0]).toEqual({
+        step: 1,
+        label: 'step-1',
+        weightKg: 90,
+        bmi: 31.1,
+        category: 'Obesity, Class 1',
+        categoryLabel: 'Obesity, Class 1',
+      });
+      expect(json.data.timeline[4]).toMatchObject({
+        weightKg: 70,
+        bmi: 24.2,
+        category: 'Normal weight',
+      });
+    });
+
+    it('timeline の段階数が範囲外なら 400/VAL015', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 95 })
+      );
+      form.append(
+        'timeline',
+        JSON.stringify({ startWeightKg: 95, endWeightKg: 70, steps: 9 })
+      );
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: { details: { code: string } };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL015');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('targets と timeline を同時に指定した場合は 400/VAL015', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 95 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 80 }]));
+      form.append(
+        'timeline',
+        JSON.stringify({ startWeightKg: 95, endWeightKg: 70, steps: 3 })
+      );
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: { details: { code: string } };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL015');
+    });
+
+    it('unitSystem=us ではヤード・ポンド法の値をメートル法へ変換して生成し、入力と同じ単位で返す', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'A',
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append('unitSystem', 'us');
+      form.append(
+        'subject',
+        JSON.stringify({ heightFt: 5, heightIn: 10, currentWeightLb: 180 })
+      );
+      form.append('targets', JSON.stringify([{ weightLb: 160, label: 'A' }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          unitSystem: string;
+          subject: Record<string, number>;
+          targets: Array<Record<string, number | string>>;
+        };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0]).toMatchObject({
+        subject: { heightCm: 177.8, currentWeightKg: 81.65 },
+        targets: [{ weightKg: 72.57, label: 'A' }],
+      });
+      expect(json.data.unitSystem).toBe('us');
+      expect(json.data.subject).toEqual({
+        heightFt: 5,
+        heightIn: 10,
+        currentWeightLb: 180,
+      });
+      expect(json.data.targets).toEqual([{ weightLb: 160, label: 'A' }]);
+    });
+
+    it('ヤード・ポンド法の値が範囲外なら、その単位系の範囲をメッセージに含める', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append('unitSystem', 'us');
+      form.append(
+        'subject',
+        JSON.stringify({ heightFt: 5, heightIn: 10, currentWeightLb: 700 })
+      );
+      form.append('targets', JSON.stringify([{ weightLb: 160 }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: {
+          details: { code: string; fieldErrors: Record<string, string[]> };
+        };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL009');
+      expect(json.error.details.fieldErrors.subject[0]).toContain(
+        '44.1 and 661.3 lb'
+      );
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('未対応の unitSystem は 400/VAL017', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append('unitSystem', 'imperial');
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65 }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: { details: { code: string } };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL017');
+    });
+
+    it('subject の性別・年齢・体脂肪率・体格を生成へ渡し、応答の subject にも含める', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const profile = {
+        sex: 'female',
+        ageYears: 42,
+        bodyFatPercent: 31.5,
+        build: 'average',
+      };
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 160, currentWeightKg: 68, ...profile })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 60 }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: { subject: Record<string, number | string> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].subject).toEqual({
+        heightCm: 160,
+        currentWeightKg: 68,
+        ...profile,
+      });
+      expect(json.data.subject).toEqual({
+        heightCm: 160,
+        currentWeightKg: 68,
+        ...profile,
+      });
+    });
+
+    it('subject の性別・体格が選択肢外、年齢・体脂肪率が範囲外なら 400/VAL009', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({
+          heightCm: 170,
+          currentWeightKg: 70,
+          sex: 'unknown',
+          ageYears: 130,
+          bodyFatPercent: 80,
+          build: 'stocky',
+        })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 65 }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: {
+          details: { code: string; fieldErrors: Record<string, string[]> };
+        };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL009');
+      expect(json.error.details.fieldErrors.subject).toEqual([
+        'Sex must be one of: female, male',
+        'Age must be between 1 and 120 years',
+        'Body fat must be between 3 and 70 %',
+        'Build must be one of: slim, average, muscular',
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('transformation=recomposition は現在と同じ体重でもパススルーせずに生成する', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'recomp',
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([
+          { weightKg: 70, label: 'recomp', transformation: 'recomposition' },
+          { weightKg: 70, label: 'current' },
+        ])
+      );
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<{
+        data: {
+          targets: Array<Record<string, number | string>>;
+          images: Array<{ label?: string }>;
+        };
+        metadata: { model: string };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].targets).toEqual([
+        { weightKg: 70, label: 'recomp', transformation: 'recomposition' },
+      ]);
+      expect(json.data.images.map((image) => image.label)).toEqual([
+        'recomp',
+        'current',
+      ]);
+      expect(json.data.targets[0]).toEqual({
+        weightKg: 70,
+        label: 'recomp',
+        transformation: 'recomposition',
+      });
+      expect(json.metadata.model).toBe('gemini-image-edit-with-passthrough');
+    });
+
+    it('体重の増減と矛盾する transformation は 400/VAL010', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([{ weightKg: 75, transformation: 'fat-loss' }])
+      );
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: {
+          details: { code: string; fieldErrors: Record<string, string[]> };
+        };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL010');
+      expect(json.error.details.fieldErrors.targets).toEqual([
+        'Transformation fat-loss requires a target weight lighter than the current weight',
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('未対応の transformation は 400/VAL010', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append(
+        'targets',
+        JSON.stringify([{ weightKg: 65, transformation: 'bulk' }])
+      );
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: {
+          details: { code: string; fieldErrors: Record<string, string[]> };
+        };
+      }>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL010');
+      expect(json.error.details.fieldErrors.targets).toEqual([
+        'Transformation must be one of: fat-loss, fat-gain, muscle-gain, recomposition, toned',
+      ]);
+    });
+
+    it('options.intensityOverride を生成へ渡し、未対応の段階は 400 を返す', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const createForm = (intensityOverride: string) => {
+        const form = new FormData();
+        form.append('image', createPngFile(2, 2));
+        form.append(
+          'subject',
+          JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+        );
+        form.append('targets', JSON.stringify([{ weightKg: 68 }]));
+        form.append('options', JSON.stringify({ intensityOverride }));
+        return form;
+      };
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: createForm('dramatic') },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const invalidRes = await app.request('/', {
+        method: 'POST',
+        body: createForm('extreme'),
+      });
+
+      expect(res.status).toBe(200);
+      expect(
+        mockedGenerateBodyShapeImages.mock.calls[0][0].options
+      ).toMatchObject({ intensityOverride: 'dramatic' });
+      expect(invalidRes.status).toBe(400);
+      expect(mockedGenerateBodyShapeImages).toHaveBeenCalledTimes(1);
+    });
+
+    it('Accept-Language が日本語なら JASSO の判定基準と日本語の分類名を使用する', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(async ({ targets }) => ({
+        success: true,
+        images: targets.map((target) => ({
+          label: target.label,
+          base64: bytesToBase64(
+            encodeImage(
+              { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+              'image/png'
+            )
+          ),
+          mimeType: 'image/png',
+          width: 2,
+          height: 2,
+        })),
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      }));
+
+      const createForm = (options?: object) => {
+        const form = new FormData();
+        form.append('image', createPngFile(2, 2));
+        form.append(
+          'subject',
+          JSON.stringify({ heightCm: 170, currentWeightKg: 80 })
+        );
+        form.append(
+          'timeline',
+          JSON.stringify({ startWeightKg: 80, endWeightKg: 74, steps: 1 })
+        );
+        if (options) form.append('options', JSON.stringify(options));
+        return form;
+      };
+      type TimelineJson = {
+        data: { timeline: Array<{ category: string; categoryLabel: string }> };
+        metadata: { bmiStandard: string };
+      };
+
+      const res = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: createForm(),
+          headers: { 'Accept-Language': 'ja-JP,ja;q=0.9,en;q=0.8' },
+        },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson<TimelineJson>(res);
+      const whoRes = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: createForm({ bmiStandard: 'who' }),
+          headers: { 'Accept-Language': 'ja' },
+        },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const whoJson = await parseJson<TimelineJson>(whoRes);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Vary')).toBe('Accept, Accept-Language');
+      expect(json.data.timeline[0]).toMatchObject({
+        category: 'Obesity, Grade 1',
+        categoryLabel: '肥満（1度）',
+      });
+      expect(json.metadata.bmiStandard).toBe('jasso');
+      expect(
+        mockedGenerateBodyShapeImages.mock.calls[0][0].options
+      ).toMatchObject({ bmiStandard: 'jasso' });
+      expect(whoJson.data.timeline[0]).toMatchObject({
+        category: 'Overweight',
+        categoryLabel: '過体重',
+      });
+      expect(whoJson.metadata.bmiStandard).toBe('who');
+    });
+
+    it('プロンプトのバージョンは options.promptVersion、環境変数 PROMPT_VERSION、既定の順に選ぶ', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(async ({ options }) => ({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+          promptVersion: options.promptVersion,
+        },
+      }));
+
+      const createForm = (options?: object) => {
+        const form = new FormData();
+        form.append('image', createPngFile(2, 2));
+        form.append(
+          'subject',
+          JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+        );
+        form.append('targets', JSON.stringify([{ weightKg: 65 }]));
+        if (options) form.append('options', JSON.stringify(options));
+        return form;
+      };
+      const post = async (form: FormData, env: Record<string, string>) => {
+        const res = await app.request('/', { method: 'POST', body: form }, {
+          GEMINI_API_KEY: 'test',
+          ...env,
+        });
+        return parseJson<{ metadata: { promptVersion: string } }>(res);
+      };
+
+      const requested = await post(
+        createForm({ promptVersion: 'body-shape@v1' }),
+        { PROMPT_VERSION: 'body-shape@v2' }
+      );
+      const fromEnv = await post(createForm(), {
+        PROMPT_VERSION: 'body-shape@v1',
+      });
+      const fallback = await post(createForm(), {
+        PROMPT_VERSION: 'body-shape@v99',
+      });
+
+      expect(requested.metadata.promptVersion).toBe('body-shape@v1');
+      expect(fromEnv.metadata.promptVersion).toBe('body-shape@v1');
+      expect(fallback.metadata.promptVersion).toBe('body-shape@v2');
+      expect(
+        mockedGenerateBodyShapeImages.mock.calls.map(
+          ([call]) => call.options.promptVersion
+        )
+      ).toEqual(['body-shape@v1', 'body-shape@v1', 'body-shape@v2']);
+    });
+
+    it('PROMPT_EXPERIMENT の実験では X-Client-Id ごとに同じバリアントを割り当て、metadata.experiment に記録する', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(async ({ options }) => ({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+          promptVersion: options.promptVersion,
+        },
+      }));
+
+      const createForm = (options?: object) => {
+        const form = new FormData();
+        form.append('image', createPngFile(2, 2));
+        form.append(
+          'subject',
+          JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+        );
+        form.append('targets', JSON.stringify([{ weightKg: 65 }]));
+        if (options) form.append('options', JSON.stringify(options));
+        return form;
+      };
+      const env = {
+        GEMINI_API_KEY: 'test',
+        PROMPT_EXPERIMENT: JSON.stringify({
+          id: 'wording-1',
+          variants: [
+            { name: 'control', promptVersion: 'body-shape@v2', percent: 50 },
+            { name: 'legacy', promptVersion: 'body-shape@v1', percent: 50 },
+          ],
+        }),
+      };
+      const post = async (form: FormData, clientId: string) => {
+        const res = await app.request(
+          '/',
+          { method: 'POST', body: form, headers: { 'X-Client-Id': clientId } },
+          env
+        );
+        return parseJson<{
+          metadata: {
+            promptVersion: string;
+            experiment?: { id: string; variant: string; sticky: boolean };
+          };
+        }>(res);
+      };
+
+      const first = await post(createForm(), 'user-1');
+      const second = await post(createForm(), 'user-1');
+      const requested = await post(
+        createForm({ promptVersion: 'body-shape@v1' }),
+        'user-1'
+      );
+
+      expect(first.metadata.experiment).toMatchObject({
+        id: 'wording-1',
+        sticky: true,
+      });
+      expect(second.metadata.experiment).toEqual(first.metadata.experiment);
+      expect(second.metadata.promptVersion).toBe(first.metadata.promptVersion);
+      expect(first.metadata.promptVersion).toBe(
+        first.metadata.experiment?.variant === 'legacy'
+          ? 'body-shape@v1'
+          : 'body-shape@v2'
+      );
+      // 明示的なバージョンの指定は実験より優先する
+      expect(requested.metadata.experiment).toBeUndefined();
+      expect(requested.metadata.promptVersion).toBe('body-shape@v1');
+      // 割り当て数はストアに記録する（バージョンを指定したリクエストは含めない）
+      expect(defaultPromptExperimentStore.getCounts('wording-1')).toEqual({
+        [first.metadata.experiment?.variant ?? '']: 2,
+      });
+    });
+
+    describe('複数の視点の入力画像', () => {
+      /** 視点ごとに色の異なる生成画像を返すモック（sideFailed 指定時は側面の生成が失敗した結果） */
+      function mockViewImages(sideFailed = false) {
+        const createImage = (label: string, fill: number) => ({
+          label,
+          base64: bytesToBase64(
+            encodeImage(
+              { width: 2, height: 2, data: new Uint8Array(16).fill(fill) },
+              'image/png'
+            )
+          ),
+          mimeType: 'image/png',
+          width: 2,
+          height: 2,
+        });
+        mockedGenerateBodyShapeImages.mockResolvedValue({
+          success: true,
+          images: [createImage('B', 90)],
+          views: [
+            { view: 'front', images: [createImage('B', 90)] },
+            {
+              view: 'side',
+              images: sideFailed ? [] : [createImage('B', 120)],
+            },
+          ],
+          metadata: {
+            processingTimeMs: 10,
+            confidence: 1,
+            model: 'gemini-image-edit',
+            ...(sideFailed && { partialFailures: 1 }),
+          },
+        });
+      }
+
+      function createViewForm(imageCount: number, views?: string[]) {
+        const form = new FormData();
+        for (let index = 0; index < imageCount; index++) {
+          form.append('image', createPngFile(4, 4));
+        }
+        if (views) form.append('views', JSON.stringify(views));
+        form.append(
+          'subject',
+          JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+        );
+        form.append(
+          'targets',
+          JSON.stringify([
+            { weightKg: 70, label: 'A' }, // パススルー
+            { weightKg: 65, label: 'B' }, // 生成
+          ])
+        );
+        return form;
+      }
+
+      it('image を繰り返すと全視点をクライアントへ渡し、視点 × ターゲットの画像を views にまとめて返す', async () => {
+        mockViewImages();
+
+        const res = await app.request(
+          '/',
+          { method: 'POST', body: createViewForm(2, ['front', 'side']) },
+          { GEMINI_API_KEY: 'test' }
+        );
+        const json = await parseJson<{
+          data: {
+            images: GeneratedImage[];
+            views: Array<{ view: string; images: GeneratedImage[] }>;
+          };
+          metadata: { inputImages: Array<{ view: string }> };
+        }>(res);
+
+        expect(res.status).toBe(200);
+        const [request] = mockedGenerateBodyShapeImages.mock.calls[0];
+        expect(request.view).toBe('front');
+        expect(request.additionalViews).toEqual([
+          expect.objectContaining({ view: 'side', mimeType: 'image/png' }),
+        ]);
+        expect(
+          json.data.views.map(({ view, images }) => ({
+            view,
+            labels: images.map((image) => image.label),
+          }))
+        ).toEqual([
+          { view: 'front', labels: ['A', 'B'] },
+          { view: 'side', labels: ['A', 'B'] },
+        ]);
+        expect(json.data.images).toEqual(json.data.views[0].images);
+        expect(
+          decodeImage(base64ToBytes(json.data.views[1].images[1].base64))
+            .data[0]
+        ).toBe(120);
+        expect(
+          readProvenance(base64ToBytes(json.data.views[1].images[1].base64))
+        ).toMatchObject({ model: 'gemini-image-edit' });
+        expect(json.metadata.inputImages.map(({ view }) => view)).toEqual([
+          'front',
+          'side',
+        ]);
+      });
+
+      it('一部の視点の生成に失敗した場合は 500 にせず、視点ごとに成功した画像を返す', async () => {
+        mockViewImages(true);
+
+        const res = await app.request(
+          '/',
+          { method: 'POST', body: createViewForm(2, ['front', 'side']) },
+          { GEMINI_API_KEY: 'test' }
+        );
+        const json = await parseJson<{
+          data: { views: Array<{ view: string; images: GeneratedImage[] }> };
+          metadata: { partialFailures: number };
+        }>(res);
+
+        expect(res.status).toBe(200);
+        expect(
+          json.data.views.map(({ view, images }) => ({
+            view,
+            labels: images.map((image) => image.label),
+          }))
+        ).toEqual([
+          { view: 'front', labels: ['A', 'B'] },
+          { view: 'side', labels: ['A'] },
+        ]);
+        expect(json.metadata.partialFailures).toBe(1);
+      });
+
+      it('Accept: multipart/mixed の場合は 2 つ目以降の視点の画像を view-V-image-N のパートで返す', async () => {
+        mockViewImages();
+
+        const res = await app.request(
+          '/',
+          {
+            method: 'POST',
+            body: createViewForm(2),
+            headers: { Accept: 'multipart/mixed' },
+          },
+          { GEMINI_API_KEY: 'test' }
+        );
+        const text = await res.text();
+        const json = JSON.parse(
+          text.slice(text.indexOf('{'), text.indexOf('\r\n--'))
+        );
+
+        expect(res.status).toBe(200);
+        expect(json.data.views).toEqual([
+          {
+            view: 'view-1',
+            images: [
+              expect.objectContaining({ label: 'A', part: 'image-0' }),
+              expect.objectContaining({ label: 'B', part: 'image-1' }),
+            ],
+          },
+          {
+            view: 'view-2',
+            images: [
+              expect.objectContaining({ label: 'A', part: 'view-1-image-0' }),
+              expect.objectContaining({ label: 'B', part: 'view-1-image-1' }),
+            ],
+          },
+        ]);
+        expect(text).toContain('name="view-1-image-1"');
+      });
+
+      it('4 枚以上の画像は 400/VAL002', async () => {
+        const res = await app.request('/', {
+          method: 'POST',
+          body: createViewForm(4),
+        });
+        const json = await parseJson<{
+          error: {
+            details: { code: string; fieldErrors: Record<string, string[]> };
+          };
+        }>(res);
+
+        expect(res.status).toBe(400);
+        expect(json.error.details.code).toBe('VAL002');
+        expect(json.error.details.fieldErrors.image).toEqual([
+          'Up to 3 images can be uploaded per request',
+        ]);
+        expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+      });
+
+      it('Accept: image/png は複数の画像では 406/VAL014', async () => {
+        const form = createViewForm(2);
+        form.set('targets', JSON.stringify([{ weightKg: 65 }]));
+
+        const res = await app.request('/', {
+          method: 'POST',
+          body: form,
+          headers: { Accept: 'image/png' },
+        });
+        const json = await parseJson<{ error: { code: string } }>(res);
+
+        expect(res.status).toBe(406);
+        expect(json.error.code).toBe('VAL014');
+      });
+    });
+
+    it('安全性ポリシーの BMI の下限を下回る目標は生成せずに 422/VAL018', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 35, label: 'x' }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{
+        error: {
+          code: string;
+          message: string;
+          details: { violations: Array<{ rule: string }> };
+        };
+      }>(res);
+
+      expect(res.status).toBe(422);
+      expect(json.error.code).toBe('VAL018');
+      expect(json.error.message).toBe(
+        'Target x BMI 12.1 is below the minimum of 17.5'
+      );
+      expect(json.error.details.violations).toEqual([
+        expect.objectContaining({ rule: 'min-target-bmi', label: 'x' }),
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('未成年の被写体は 422/VAL018', async () => {
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 160, currentWeightKg: 55, ageYears: 16 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 52 }]));
+
+      const res = await app.request('/', { method: 'POST', body: form });
+      const json = await parseJson<{ error: { code: string } }>(res);
+
+      expect(res.status).toBe(422);
+      expect(json.error.code).toBe('VAL018');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('警告に該当する目標は生成し、metadata.warnings に記録する（ポリシーは環境変数で調整できる）', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const form = new FormData();
+      form.append('image', createPngFile(2, 2));
+      form.append(
+        'subject',
+        JSON.stringify({ heightCm: 170, currentWeightKg: 70 })
+      );
+      form.append('targets', JSON.stringify([{ weightKg: 48 }]));
+
+      const res = await app.request(
+        '/',
+        { method: 'POST', body: form },
+        {
+          GEMINI_API_KEY: 'test',
+          SAFETY_MIN_TARGET_BMI_ACTION: 'warn',
+          SAFETY_MAX_CHANGE_PERCENT_ACTION: 'off',
+        }
+      );
+      const json = await parseJson<{
+        metadata: { warnings: Array<{ rule: string; message: string }> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages).toHaveBeenCalledTimes(1);
+      expect(json.metadata.warnings).toEqual([
+        {
+          rule: 'min-target-bmi',
+          message: 'Target BMI 16.6 is below the minimum of 17.5',
+        },
+      ]);
+    });
+  });
+
+  describe('POST / (application/json)', () => {
+    /** 単色の実 PNG 画像（Base64） */
+    function createPngBase64(width: number, height: number): string {
+      const data = new Uint8Array(width * height * 4).fill(200);
+      return bytesToBase64(encodeImage({ width, height, data }, 'image/png'));
+    }
+
+    function postJson(body: unknown) {
+      return app.request(
+        '/',
+        {
+          method: 'POST',
+          body: JSON.stringify(body),
+          headers: { 'Content-Type': 'application/json' },
+        },
+        { GEMINI_API_KEY: 'test' }
+      );
+    }
+
+    type ValidationErrorJson = {
+      success: boolean;
+      error: {
+        details: {
+          code: string;
+          fieldErrors: Record<string, string[] | undefined>;
+        };
+      };
+    };
+
+    beforeEach(() => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            label: 'slim',
+            base64: 'generated',
+            mimeType: 'image/png',
+            width: 0,
+            height: 0,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      } satisfies BodyShapeGenerationResult);
+    });
+
+    it('{ base64, mimeType } の画像とネストしたオブジェクトを受け付ける', async () => {
+      const res = await postJson({
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65, label: 'slim' }],
+        options: { returnMimeType: 'image/png' },
+      });
+
+      expect(res.status).toBe(200);
+      const callArg = mockedGenerateBodyShapeImages.mock
+        .calls[0][0] as BodyShapeGenerationOptions;
+      expect(callArg.mimeType).toBe('image/png');
+      expect(callArg.subject).toEqual({ heightCm: 170, currentWeightKg: 70 });
+      expect(callArg.targets).toEqual([{ weightKg: 65, label: 'slim' }]);
+      expect(callArg.options.returnMimeType).toBe('image/png');
+      expect(decodeImage(base64ToBytes(callArg.imageBase64)).width).toBe(8);
+    });
+
+    it('data URL の画像を受け付ける', async () => {
+      const res = await postJson({
+        image: `data:image/png;base64,${createPngBase64(8, 8)}`,
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65, label: 'slim' }],
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages).toHaveBeenCalledTimes(1);
+    });
+
+    it('ラベルの無いターゲットの一部が失敗した場合は、失敗したターゲットを除いて順序で対応付ける', async () => {
+      const generated = createPngBase64(2, 2);
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          { base64: generated, mimeType: 'image/png', width: 2, height: 2 },
+        ],
+        failures: [{ targetIndex: 0, viewIndex: 0 }],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+          partialFailures: 1,
+        },
+      });
+
+      const res = await postJson({
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }, { weightKg: 60 }],
+      });
+      const json = await parseJson<{
+        data: { images: GeneratedImage[] };
+        metadata: { partialFailures: number };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      // 1 件目の失敗を 2 件目の画像で埋めたり、同じ画像を重複させたりしない
+      expect(json.data.images).toHaveLength(1);
+      expect(decodeImage(base64ToBytes(json.data.images[0].base64)).width).toBe(
+        2
+      );
+      expect(json.metadata.partialFailures).toBe(1);
+    });
+
+    it('合成画像は画像をターゲットの添字で並べ、生成に失敗したラベルの無いターゲットを重複させない', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            base64: createPngBase64(2, 2),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        failures: [{ targetIndex: 1, viewIndex: 0 }],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const res = await postJson({
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }, { weightKg: 60 }],
+        options: { composite: { layout: 'horizontal', height: 64 } },
+      });
+      const json = await parseJson<{
+        data: { composite: { width: number } };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      // 元画像と 1 件目のターゲットの 2 枚のみ（余白 4px）
+      expect(json.data.composite.width).toBe(4 + 64 + 4 + 64 + 4);
+    });
+
+    it('data URL でも Base64 でもない画像は 400/VAL002', async () => {
+      const res = await postJson({
+        image: 'https://example.com/a.png',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }],
+      });
+      const json = await parseJson<ValidationErrorJson>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL002');
+      expect(json.error.details.fieldErrors.image).toBeDefined();
+    });
+
+    it('image の配列は視点ごとに処理し、views 未指定時は view-N のラベルでまとめる', async () => {
+      const image = { base64: createPngBase64(8, 8), mimeType: 'image/png' };
+      const res = await postJson({
+        image: [image, `data:image/png;base64,${createPngBase64(6, 6)}`],
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 70, label: 'same' }],
+      });
+      const json = await parseJson<{
+        data: { views: Array<{ view: string; images: GeneratedImage[] }> };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(
+        json.data.views.map(({ view, images }) => [view, images[0].width])
+      ).toEqual([
+        ['view-1', 8],
+        ['view-2', 6],
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('画像と数が合わない・重複した views は 400/VAL019', async () => {
+      const image = { base64: createPngBase64(8, 8), mimeType: 'image/png' };
+      const post = async (views: string[]) =>
+        parseJson<ValidationErrorJson>(
+          await postJson({
+            image: [image, image],
+            views,
+            subject: { heightCm: 170, currentWeightKg: 70 },
+            targets: [{ weightKg: 65 }],
+          })
+        );
+
+      const mismatched = await post(['front']);
+      const duplicated = await post(['front', 'front']);
+
+      expect(mismatched.error.details.code).toBe('VAL019');
+      expect(mismatched.error.details.fieldErrors.views).toEqual([
+        'Views must have one label per image',
+      ]);
+      expect(duplicated.error.details.fieldErrors.views).toEqual([
+        'View labels must be unique',
+      ]);
+    });
+
+    it('許可されていない MIME タイプの画像は multipart と同じく 400/VAL002', async () => {
+      const res = await postJson({
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/gif' },
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }],
+      });
+      const json = await parseJson<ValidationErrorJson>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.code).toBe('VAL002');
+      expect(json.error.details.fieldErrors.image).toEqual([
+        'File type must be one of: image/jpeg, image/png, image/webp',
+      ]);
+    });
+
+    it('subject / targets の検証エラーは multipart と同じエラーコードを返す', async () => {
+      const image = { base64: createPngBase64(8, 8), mimeType: 'image/png' };
+
+      const subjectRes = await postJson({
+        image,
+        subject: { heightCm: 100, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }],
+      });
+      const targetsRes = await postJson({
+        image,
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 65 }, { weightKg: 60 }, { weightKg: 55 }],
+      });
+
+      expect(subjectRes.status).toBe(400);
+      expect(
+        (await parseJson<ValidationErrorJson>(subjectRes)).error.details.code
+      ).toBe('VAL009');
+      expect(targetsRes.status).toBe(400);
+      expect(
+        (await parseJson<ValidationErrorJson>(targetsRes)).error.details.code
+      ).toBe('VAL010');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('unitSystem=uk では st/lb の体重を受け付け、入力と同じ単位で返す', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: true,
+        images: [
+          {
+            base64: bytesToBase64(
+              encodeImage(
+                { width: 2, height: 2, data: new Uint8Array(16).fill(90) },
+                'image/png'
+              )
+            ),
+            mimeType: 'image/png',
+            width: 2,
+            height: 2,
+          },
+        ],
+        metadata: {
+          processingTimeMs: 10,
+          confidence: 1,
+          model: 'gemini-image-edit',
+        },
+      });
+
+      const res = await postJson({
+        image: { base64: createPngBase64(2, 2), mimeType: 'image/png' },
+        unitSystem: 'uk',
+        subject: { heightFt: 6, currentWeightSt: 14 },
+        targets: [{ weightSt: 12, weightLb: 6 }],
+      });
+      const json = await parseJson<{
+        data: {
+          unitSystem: string;
+          subject: Record<string, number>;
+          targets: Array<Record<string, number>>;
+        };
+      }>(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0]).toMatchObject({
+        subject: { heightCm: 182.9, currentWeightKg: 88.9 },
+        targets: [{ weightKg: 78.93 }],
+      });
+      expect(json.data.unitSystem).toBe('uk');
+      expect(json.data.targets).toEqual([{ weightSt: 12, weightLb: 6 }]);
+    });
+
+    it('未登録の options.promptVersion は 400 を返す', async () => {
+      const res = await postJson({
+        image: { base64: createPngBase64(2, 2), mimeType: 'image/png' },
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        targets: [{ weightKg: 74 }],
+        options: { promptVersion: 'body-shape@v99' },
+      });
+      const json = await parseJson<ValidationErrorJson>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.fieldErrors.options).toEqual([
+        'Prompt version must be one of: body-shape@v1, body-shape@v2',
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('未対応の options.bmiStandard は 400 を返す', async () => {
+      const res = await postJson({
+        image: { base64: createPngBase64(2, 2), mimeType: 'image/png' },
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        targets: [{ weightKg: 74 }],
+        options: { bmiStandard: 'cdc' },
+      });
+      const json = await parseJson<ValidationErrorJson>(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error.details.fieldErrors.options).toEqual([
+        'BMI standard must be one of: who, who-asia-pacific, jasso',
+      ]);
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
   });
 });
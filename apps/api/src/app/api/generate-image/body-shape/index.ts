@@ -1,18 +1,83 @@
 import { zValidator } from '@hono/zod-validator';
-import { Hono } from 'hono';
+import { type Context, Hono } from 'hono';
 import { z } from 'zod';
 
 import { API_ERRORS } from '@/constants';
 import { createBodyShapeClient } from '@/lib';
+import type {
+  BodyShapeOptions,
+  CompositeImage,
+  DiffStats,
+  GeneratedImage,
+  ResponseMetadata,
+  Subject,
+  TargetWeight,
+  TimelineOptions,
+  TimelineStep,
+  ViewImages,
+} from '@/types';
 import { Env } from '@/types';
 import {
+  assignPromptVariant,
+  base64ToBytes,
+  binaryResponse,
+  BMI_LOCALES,
+  BMI_STANDARDS,
+  type BMILocale,
+  type BMIStandard,
+  bytesToBase64,
+  calculateBMI,
+  canRenderText,
+  composeImages,
+  computeDiffMap,
+  convertImageFormat,
+  decodeImage,
+  DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+  embedProvenanceBase64,
+  encodeImage,
   errorResponse,
-  fileToBase64,
+  evaluateSafetyPolicy,
+  formatWeight,
+  getBMICategory,
+  getDefaultBMIStandard,
+  getRequestId,
   ImageConversionError,
+  ImageValidationError,
+  INTENSITY_LEVELS,
+  isConsistentTransformation,
+  isPassthroughTarget,
+  type MultipartPart,
+  multipartResponse,
+  negotiateLanguage,
+  negotiateMediaType,
+  parseMaxLongEdge,
+  parsePromptExperiment,
+  parseSafetyPolicy,
+  PROMPT_VERSIONS,
+  type ProvenanceInfo,
+  type ResizeInfo,
+  resolvePromptVersion,
+  sanitizeAndDownscaleImage,
+  sniffImageContent,
   successResponse,
+  toHeightFields,
+  toKilograms,
+  toWeightFields,
+  TRANSFORMATION_TYPES,
+  TRANSFORMATION_WEIGHT_CHANGES,
+  type UnitSystem,
   validationErrorResponse,
 } from '@/utils';
 
+import {
+  ALLOWED_MIME_TYPES,
+  base64ImageSchema,
+  createSubjectSchema,
+  MAX_FILE_SIZE,
+  watermarkSchema,
+  weightRangeSchema,
+  weightShape,
+} from '../../schemas';
 import demo from './demo';
 
 /**
@@ -30,129 +95,946 @@ const app = new Hono<Env>();
  */
 app.route('/demo', demo);
 
-/** アップロード画像の最大サイズ（10MB）。 */
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-/** 受け付け可能な画像の MIME タイプ。 */
-const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
-
-/**
- * 被写体（現在の体格）入力のスキーマ。
- */
-const subjectSchema = z.object({
-  /** 身長[cm]（120〜220） */
-  heightCm: z
-    .number()
-    .min(120, 'Height must be between 120 and 220 cm')
-    .max(220, 'Height must be between 120 and 220 cm'),
-  /** 現在体重[kg]（20〜300） */
-  currentWeightKg: z
-    .number()
-    .min(20, 'Weight must be between 20 and 300 kg')
-    .max(300, 'Weight must be between 20 and 300 kg'),
+/** 入力画像（同じ被写体の視点）の最大数。 */
+const MAX_INPUT_VIEWS = 3;
+/** 視点のラベルの最大文字数。 */
+const MAX_VIEW_LABEL_LENGTH = 32;
+/** 応答可能な形式（Accept ヘッダーで選択。先頭が既定）。 */
+const RESPONSE_MEDIA_TYPES = [
+  'application/json',
+  'image/png',
+  'image/jpeg',
+  'multipart/mixed',
+] as const;
+/** multipart/mixed のパートのファイル名に使う拡張子。 */
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/**
+ * 目標体重の変化の種類（単位系によらず共通）。
+ * recomposition・toned は現在と同じ体重でも生成し、体重の増減と矛盾する種類は VAL010 になります。
+ */
+const transformationSchema = z.object({
+  /** 変化の種類（未指定時は体重の増減から決定） */
+  transformation: z
+    .enum(TRANSFORMATION_TYPES, {
+      message: `Transformation must be one of: ${TRANSFORMATION_TYPES.join(
+        ', '
+      )}`,
+    })
+    .optional(),
 });
 
 /**
  * 目標体重のスキーマ。
+ * 単位系のフィールドで受け取り、メートル法へ変換してから範囲を検証します。
  */
-const targetWeightSchema = z.object({
-  /** 目標体重[kg]（20〜300） */
-  weightKg: z
-    .number()
-    .min(20, 'Target weight must be between 20 and 300 kg')
-    .max(300, 'Target weight must be between 20 and 300 kg'),
-  /** レスポンス画像に付与する任意ラベル */
-  label: z.string().optional(),
-});
+function createTargetWeightSchema(unitSystem: UnitSystem) {
+  return z
+    .object({
+      ...weightShape(unitSystem, 'weight'),
+      /** レスポンス画像に付与する任意ラベル */
+      label: z.string().optional(),
+    })
+    .and(transformationSchema)
+    .transform(({ label, transformation, ...fields }) => ({
+      weightKg: toKilograms(fields, unitSystem, 'weight'),
+      ...(label !== undefined && { label }),
+      ...(transformation !== undefined && { transformation }),
+    }))
+    .pipe(
+      z.object({
+        /** 目標体重[kg]（20〜300） */
+        weightKg: weightRangeSchema(unitSystem, 'Target weight'),
+        label: z.string().optional(),
+        ...transformationSchema.shape,
+      })
+    );
+}
+
+/**
+ * 目標体重の配列（1〜2要素）のスキーマ。
+ */
+function createTargetsSchema(unitSystem: UnitSystem) {
+  return z
+    .array(createTargetWeightSchema(unitSystem), {
+      message: 'Targets must be an array',
+    })
+    .min(1, 'Targets array must have 1 to 2 elements')
+    .max(2, 'Targets array must have 1 to 2 elements');
+}
+
+/** タイムラインの段階数の上限。 */
+const MAX_TIMELINE_STEPS = 8;
+
+/**
+ * タイムライン（開始体重から終了体重までの段階）のスキーマ。
+ * 単位系のフィールドで受け取り、メートル法へ変換してから範囲を検証します。
+ * 等間隔の各段階（ラベル `step-N`）の画像を順に生成し、各段階の体重・BMI・分類を `timeline` に返します。
+ */
+function createTimelineSchema(unitSystem: UnitSystem) {
+  return z
+    .object({
+      ...weightShape(unitSystem, 'startWeight'),
+      ...weightShape(unitSystem, 'endWeight'),
+      /** 段階数（1〜8） */
+      steps: z.number().int().min(1).max(MAX_TIMELINE_STEPS),
+    })
+    .transform(({ steps, ...fields }) => ({
+      startWeightKg: toKilograms(fields, unitSystem, 'startWeight'),
+      endWeightKg: toKilograms(fields, unitSystem, 'endWeight'),
+      steps: steps as number,
+    }))
+    .pipe(
+      z
+        .object({
+          /** 開始体重[kg]（20〜300） */
+          startWeightKg: weightRangeSchema(unitSystem, 'Start weight'),
+          /** 終了体重[kg]（20〜300） */
+          endWeightKg: weightRangeSchema(unitSystem, 'End weight'),
+          steps: z.number(),
+        })
+        .refine((timeline) => timeline.startWeightKg !== timeline.endWeightKg, {
+          message: 'Timeline start and end weights must differ',
+        })
+    );
+}
+
+/**
+ * 視点のラベルが入力画像ごとに 1 つずつ、重複なく指定されていることを検証する。
+ */
+function refineViews(
+  data: { image?: unknown[]; views?: string[] },
+  ctx: z.RefinementCtx
+): void {
+  const { image, views } = data;
+  if (!image || !views) return;
+  if (views.length !== image.length) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['views'],
+      message: 'Views must have one label per image',
+    });
+  } else if (new Set(views).size !== views.length) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['views'],
+      message: 'View labels must be unique',
+    });
+  }
+}
+
+/**
+ * `targets` と `timeline` のどちらか一方のみが指定されていることを検証する。
+ */
+function refineTargetsOrTimeline(
+  data: { targets?: unknown; timeline?: unknown },
+  ctx: z.RefinementCtx
+): void {
+  if (data.targets === undefined && data.timeline === undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['targets'],
+      message: 'Targets or timeline is required',
+    });
+  } else if (data.targets !== undefined && data.timeline !== undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['timeline'],
+      message: 'Specify either targets or timeline, not both',
+    });
+  }
+}
+
+/**
+ * 目標体重ごとの変化の種類が、現在体重からの体重の増減と矛盾しないことを検証する。
+ */
+function refineTransformations(
+  data: { subject?: Subject; targets?: TargetWeight[] },
+  ctx: z.RefinementCtx
+): void {
+  const { subject, targets } = data;
+  if (!subject || !targets) return;
+  for (const { weightKg, transformation } of targets) {
+    if (
+      !transformation ||
+      isConsistentTransformation(
+        transformation,
+        subject.currentWeightKg,
+        weightKg
+      )
+    ) {
+      continue;
+    }
+    const allowed = TRANSFORMATION_WEIGHT_CHANGES[transformation]
+      .map((change) => (change === 'same' ? 'equal to' : `${change} than`))
+      .join(' or ');
+    ctx.addIssue({
+      code: 'custom',
+      path: ['targets'],
+      message: `Transformation ${transformation} requires a target weight ${allowed} the current weight`,
+    });
+  }
+}
 
 /**
  * 追加オプションのスキーマ。
  */
 const optionsSchema = z.object({
-  /** 出力画像の MIME（既定 `image/png`） */
+  /** 出力画像の MIME（未指定時は元の形式のまま） */
   returnMimeType: z.enum(['image/png', 'image/jpeg']).optional(),
+  /** JPEG 出力時の品質（1〜100、既定 90） */
+  jpegQuality: z.number().int().min(1).max(100).optional(),
   /** 生成のシード値 */
   seed: z.number().optional(),
+  /** 生成画像へ焼き込む透かし（パススルー画像・元画像には描画しない） */
+  watermark: watermarkSchema.optional(),
+  /** 比較用の合成画像（指定時のみ生成。生成できない場合は `metadata.compositeError`） */
+  composite: z
+    .object({
+      /** レイアウト（横一列 / グリッド） */
+      layout: z.enum(['horizontal', 'grid']).optional(),
+      /** 各画像の共通の高さ[px]（64〜2048） */
+      height: z.number().int().min(64).max(2048).optional(),
+    })
+    .optional(),
+  /**
+   * 生成画像ごとの差分ヒートマップを返すかどうか
+   * （変化した画素の割合と外接矩形は `metadata.diffStats`、生成できない場合は `metadata.diffMapError`）
+   */
+  includeDiffMap: z.boolean().optional(),
+  /** 生成画像の色調を元画像に合わせる補正 */
+  colorMatch: z
+    .object({
+      /** 補正の方式（ヒストグラム / Lab の平均・分散） */
+      method: z.enum(['histogram', 'lab']).optional(),
+      /** 補正の強さ（0〜1、既定 1） */
+      strength: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  /**
+   * 背景の変化の検査（類似度は常に計測し、閾値未満なら 1 回だけ再生成）。
+   * 類似度は `metadata.backgroundChecks`、その最小値は `metadata.confidence` に記録
+   */
+  backgroundCheck: z
+    .object({
+      /** 合格とみなす背景の類似度の閾値（0〜1、既定 0.5） */
+      threshold: z.number().min(0).max(1).optional(),
+      /** 閾値未満の場合に再生成するかどうか */
+      retry: z.boolean().optional(),
+    })
+    .optional(),
+  /** 体型変化の強度の段階（未指定時は体重の変化率と BMI 分類から決定。`metadata.intensities` に記録） */
+  intensityOverride: z.enum(INTENSITY_LEVELS).optional(),
+  /**
+   * BMI 分類の判定基準（未指定時は Accept-Language が日本語なら jasso、それ以外は who）。
+   * プロンプトと `timeline` の `category` に反映し、`metadata.bmiStandard` に記録
+   */
+  bmiStandard: z
+    .enum(BMI_STANDARDS, {
+      message: `BMI standard must be one of: ${BMI_STANDARDS.join(', ')}`,
+    })
+    .optional(),
+  /**
+   * プロンプトテンプレートのバージョン（未指定時は環境変数 PROMPT_EXPERIMENT の実験の割り当て・
+   * PROMPT_VERSION・既定のバージョンの順）。`metadata.promptVersion` と来歴メタデータに記録
+   */
+  promptVersion: z
+    .enum(PROMPT_VERSIONS, {
+      message: `Prompt version must be one of: ${PROMPT_VERSIONS.join(', ')}`,
+    })
+    .optional(),
 });
 
 /**
- * multipart/form-data で受け取るフォーム全体のスキーマ。
+ * 入力画像ファイルのスキーマ。
+ */
+const imageFileSchema = z
+  .instanceof(File, { message: 'Image file is required' })
+  .refine((file) => file.size <= MAX_FILE_SIZE, {
+    message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+  })
+  .refine((file) => ALLOWED_MIME_TYPES.includes(file.type), {
+    message: `File type must be one of: ${ALLOWED_MIME_TYPES.join(', ')}`,
+  });
+
+/**
+ * JSON で受け取る入力画像のスキーマ。
+ * `{ base64, mimeType }` または data URL の文字列を検証し、multipart と同じく File へ変換します。
+ */
+const jsonImageSchema = base64ImageSchema.transform(
+  ({ bytes, mimeType }) => new File([bytes], 'image', { type: mimeType })
+);
+
+/**
+ * 入力画像の一覧のスキーマ（1〜`MAX_INPUT_VIEWS` 枚）。
+ * 単一の画像は 1 枚の一覧として扱い、各画像は `schema` で検証します。
+ */
+function createImageListSchema<T extends z.ZodType>(schema: T) {
+  return z.preprocess(
+    (value) => (Array.isArray(value) ? value : [value]),
+    z
+      .array(schema)
+      .max(
+        MAX_INPUT_VIEWS,
+        `Up to ${MAX_INPUT_VIEWS} images can be uploaded per request`
+      )
+  );
+}
+
+/**
+ * 視点のラベルの一覧のスキーマ（`image` と同じ順序、未指定時は `view-N`）。
+ * 各視点の生成ですべての視点の画像を参照させ、視点 × ターゲットの画像を `views` にまとめて返します。
+ */
+const viewsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, 'View labels must not be empty')
+      .max(
+        MAX_VIEW_LABEL_LENGTH,
+        `View labels must be at most ${MAX_VIEW_LABEL_LENGTH} characters`
+      )
+  )
+  .min(1, 'Views must not be empty')
+  .max(MAX_INPUT_VIEWS, `Up to ${MAX_INPUT_VIEWS} views can be labelled`);
+
+/**
+ * multipart/form-data の JSON 文字列のフィールドをパースしてスキーマで検証する。
+ * 範囲外・選択肢外の値はスキーマのメッセージ（入力の単位系で表記）を、それ以外は `message` を報告します。
+ */
+function parseJsonField<T extends z.ZodType>(
+  str: string,
+  schema: T,
+  ctx: z.RefinementCtx,
+  message: string
+): z.output<T> {
+  try {
+    const result = schema.safeParse(JSON.parse(str));
+    if (result.success) return result.data;
+    const messages = result.error.issues.map((issue) =>
+      issue.code === 'too_small' ||
+      issue.code === 'too_big' ||
+      issue.code === 'invalid_value'
+        ? issue.message
+        : message
+    );
+    for (const issueMessage of new Set(messages)) {
+      ctx.addIssue({ code: 'custom', message: issueMessage });
+    }
+  } catch {
+    ctx.addIssue({ code: 'custom', message });
+  }
+  return z.NEVER;
+}
+
+/**
+ * 単位系の指定のスキーマ（メートル法は省略可）。
+ * 身長・体重はその単位系のフィールドで受け付け、検証エラーのメッセージも同じ単位系で表記します。
+ */
+function unitSystemSchema<U extends UnitSystem>(unitSystem: U) {
+  return unitSystem === 'metric'
+    ? z.literal([unitSystem, undefined]).optional()
+    : z.literal([unitSystem]);
+}
+
+/**
+ * multipart/form-data で受け取るフォーム全体のスキーマ（単位系ごと）。
  * 文字列として送られる `subject` / `targets` / `options` は JSON としてパースして検証します。
  */
-const bodyShapeSchema = z.object({
-  /** 入力画像 */
-  image: z
-    .instanceof(File, { message: 'Image file is required' })
-    .refine((file) => file.size <= MAX_FILE_SIZE, {
-      message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+function createBodyShapeSchema<U extends UnitSystem>(unitSystem: U) {
+  const subjectSchema = createSubjectSchema(unitSystem);
+  const targetsSchema = createTargetsSchema(unitSystem);
+  const timelineSchema = createTimelineSchema(unitSystem);
+  return z
+    .object({
+      /** 単位系（未指定時はメートル法） */
+      unitSystem: unitSystemSchema(unitSystem),
+      /** 入力画像（同じ被写体の視点ごとに `image` を繰り返して最大 3 枚） */
+      image: createImageListSchema(imageFileSchema),
+      /** 視点のラベル（`image` と同じ順序の JSON 配列） */
+      views: z
+        .string()
+        .min(1, 'Views is required')
+        .transform((str, ctx) =>
+          parseJsonField(str, viewsSchema, ctx, API_ERRORS.VAL019.message)
+        )
+        .optional(),
+      /** 被写体（現在の体格） */
+      subject: z
+        .string()
+        .min(1, 'Subject is required')
+        .transform((str, ctx) =>
+          parseJsonField(
+            str,
+            subjectSchema,
+            ctx,
+            'Subject must be valid JSON with heightCm and currentWeightKg'
+          )
+        ),
+      /** 目標体重 */
+      targets: z
+        .string()
+        .min(1, 'Targets is required')
+        .transform((str, ctx) =>
+          parseJsonField(
+            str,
+            targetsSchema,
+            ctx,
+            'Targets must be valid JSON array'
+          )
+        )
+        .optional(),
+      /** タイムライン（`targets` の代わりに指定） */
+      timeline: z
+        .string()
+        .min(1, 'Timeline is required')
+        .transform((str, ctx) =>
+          parseJsonField(str, timelineSchema, ctx, API_ERRORS.VAL015.message)
+        )
+        .optional(),
+      /** 追加オプション */
+      options: z
+        .string()
+        .optional()
+        .transform((str, ctx) => {
+          if (!str) return undefined;
+          try {
+            const parsed = JSON.parse(str);
+            return optionsSchema.parse(parsed);
+          } catch {
+            ctx.addIssue({
+              code: 'custom',
+              message: 'Options must be valid JSON',
+            });
+            return z.NEVER;
+          }
+        }),
     })
-    .refine((file) => ALLOWED_MIME_TYPES.includes(file.type), {
-      message: `File type must be one of: ${ALLOWED_MIME_TYPES.join(', ')}`,
-    }),
-  /** 被写体（現在の体格） */
-  subject: z
-    .string()
-    .min(1, 'Subject is required')
-    .transform((str, ctx) => {
-      try {
-        const parsed = JSON.parse(str);
-        return subjectSchema.parse(parsed);
-      } catch {
-        ctx.addIssue({
-          code: 'custom',
-          message:
-            'Subject must be valid JSON with heightCm and currentWeightKg',
-        });
-        return z.NEVER;
-      }
-    }),
-  /** 目標体重 */
-  targets: z
-    .string()
-    .min(1, 'Targets is required')
-    .transform((str, ctx) => {
-      try {
-        const parsed = JSON.parse(str);
-        if (!Array.isArray(parsed)) {
-          ctx.addIssue({
-            code: 'custom',
-            message: 'Targets must be an array',
-          });
-          return z.NEVER;
-        }
-        if (parsed.length < 1 || parsed.length > 2) {
-          ctx.addIssue({
-            code: 'custom',
-            message: 'Targets array must have 1 to 2 elements',
-          });
-          return z.NEVER;
-        }
-        return z.array(targetWeightSchema).parse(parsed);
-      } catch {
-        ctx.addIssue({
-          code: 'custom',
-          message: 'Targets must be valid JSON array',
-        });
-        return z.NEVER;
-      }
-    }),
-  /** 追加オプション */
-  options: z
-    .string()
-    .optional()
-    .transform((str, ctx) => {
-      if (!str) return undefined;
-      try {
-        const parsed = JSON.parse(str);
-        return optionsSchema.parse(parsed);
-      } catch {
-        ctx.addIssue({
-          code: 'custom',
-          message: 'Options must be valid JSON',
-        });
-        return z.NEVER;
-      }
+    .superRefine(refineViews)
+    .superRefine(refineTargetsOrTimeline)
+    .superRefine(refineTransformations);
+}
+
+/**
+ * multipart/form-data で受け取るフォーム全体のスキーマ。
+ * `unitSystem` で選択した単位系のフィールドで検証し、メートル法へ変換します。
+ */
+const bodyShapeSchema = z.discriminatedUnion('unitSystem', [
+  createBodyShapeSchema('metric'),
+  createBodyShapeSchema('us'),
+  createBodyShapeSchema('uk'),
+]);
+
+/**
+ * application/json で受け取るリクエスト全体のスキーマ（単位系ごと）。
+ * 画像は Base64 で受け取り、`subject` / `targets` / `options` はネストしたオブジェクトのまま検証します。
+ * 検証後の値は multipart/form-data のスキーマと同じ形になります。
+ */
+function createBodyShapeJsonSchema<U extends UnitSystem>(unitSystem: U) {
+  return z
+    .object({
+      /** 単位系（未指定時はメートル法） */
+      unitSystem: unitSystemSchema(unitSystem),
+      /** 入力画像（`{ base64, mimeType }` または data URL。視点ごとの配列で最大 3 枚） */
+      image: createImageListSchema(jsonImageSchema),
+      /** 視点のラベル（`image` と同じ順序） */
+      views: viewsSchema.optional(),
+      /** 被写体（現在の体格） */
+      subject: createSubjectSchema(unitSystem),
+      /** 目標体重 */
+      targets: createTargetsSchema(unitSystem).optional(),
+      /** タイムライン（`targets` の代わりに指定） */
+      timeline: createTimelineSchema(unitSystem).optional(),
+      /** 追加オプション */
+      options: optionsSchema.optional(),
+    })
+    .superRefine(refineViews)
+    .superRefine(refineTargetsOrTimeline)
+    .superRefine(refineTransformations);
+}
+
+/**
+ * application/json で受け取るリクエスト全体のスキーマ。
+ */
+const bodyShapeJsonSchema = z.discriminatedUnion('unitSystem', [
+  createBodyShapeJsonSchema('metric'),
+  createBodyShapeJsonSchema('us'),
+  createBodyShapeJsonSchema('uk'),
+]);
+
+/**
+ * パススルー用に元画像を `returnMimeType` の形式へ変換する。
+ * 変換不要・変換不能な場合は元画像をそのまま返し、MIME は実際の形式を設定します。
+ */
+function createPassthroughImage(
+  imageBytes: Uint8Array,
+  base64: string,
+  mimeType: string,
+  options: BodyShapeOptions | undefined
+): Omit<GeneratedImage, 'label'> {
+  const converted = convertImageFormat(imageBytes, {
+    targetMimeType: options?.returnMimeType,
+    jpegQuality: options?.jpegQuality,
+    fallbackMimeType: mimeType,
+  });
+  return {
+    base64:
+      converted.bytes === imageBytes ? base64 : bytesToBase64(converted.bytes),
+    mimeType: converted.mimeType,
+    width: converted.width,
+    height: converted.height,
+  };
+}
+
+/**
+ * Gemini へ送れる形に整えた入力画像。
+ */
+interface PreparedInputImage {
+  /** メタデータを除去した縮小前の画像（パススルーに使用。向きを適用した場合は縮小後の画像） */
+  imageBytes: Uint8Array;
+  /** マジックバイトから判定した実際の形式 */
+  mimeType: string;
+  /** 長辺の上限まで縮小した画像（比較・差分に使用） */
+  inputBytes: Uint8Array;
+  /** 縮小後の画像の Base64 */
+  base64: string;
+  /** 元・縮小後のサイズ */
+  inputImage: ResizeInfo;
+}
+
+/**
+ * 入力画像の形式を検証し、メタデータ（EXIF/GPS 等）の除去・向きの適用・縮小を行う。
+ * 読み込み・変換に失敗した場合は 500/FILE001、内容が申告形式と一致しない場合は 415/FILE003 のレスポンスを返します。
+ */
+async function prepareInputImage(
+  c: Context<Env>,
+  image: File,
+  jpegQuality: number | undefined
+): Promise<PreparedInputImage | Response> {
+  let imageBytes: Uint8Array;
+  try {
+    imageBytes = new Uint8Array(await image.arrayBuffer());
+  } catch {
+    return errorResponse(c, 'FILE001', 'ファイルの変換に失敗しました');
+  }
+
+  // マジックバイトから実際の形式を検証（申告された File.type は信用しない）
+  let mimeType: string;
+  try {
+    mimeType = sniffImageContent(imageBytes, image.type, ALLOWED_MIME_TYPES);
+  } catch (error) {
+    if (error instanceof ImageValidationError) {
+      return errorResponse(c, 'FILE003', error.message);
+    }
+    throw error;
+  }
+
+  try {
+    // メタデータ（EXIF/GPS 等）の除去・向きの適用・長辺の上限までの縮小を 1 回のデコードで行い、
+    // 縮小した画像を Base64 へ変換（パススルーは再エンコードが不要なら縮小前の画像を使用）
+    const downscaled = sanitizeAndDownscaleImage(imageBytes, {
+      maxLongEdge: parseMaxLongEdge(c.env?.MAX_INPUT_IMAGE_LONG_EDGE),
+      jpegQuality,
+    });
+    return {
+      imageBytes: downscaled.fullSizeBytes,
+      mimeType,
+      inputBytes: downscaled.bytes,
+      base64: bytesToBase64(downscaled.bytes),
+      inputImage: downscaled.info,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof ImageConversionError
+        ? error.message
+        : 'ファイルの変換に失敗しました';
+
+    return errorResponse(c, 'FILE001', errorMessage);
+  }
+}
+
+/**
+ * パススルーのターゲットごとに、入力画像を変化させずに返す画像を構築する。
+ */
+function createPassthroughImages(
+  prepared: PreparedInputImage,
+  targets: TargetWeight[],
+  options: BodyShapeOptions
+): GeneratedImage[] {
+  if (targets.length === 0) return [];
+  const { imageBytes, inputBytes, base64, mimeType } = prepared;
+  const passthroughImage = createPassthroughImage(
+    imageBytes,
+    imageBytes === inputBytes ? base64 : bytesToBase64(imageBytes),
+    mimeType,
+    options
+  );
+  return targets.map((target) => ({
+    label: target.label,
+    ...passthroughImage,
+  }));
+}
+
+/**
+ * 生成画像とパススルー画像をターゲットの順序でマージする。
+ * ラベルは任意のため、パススルー画像・生成画像ともにターゲットの順序で対応付け、
+ * ターゲットと同じ添字で返します。生成に失敗したターゲット（変更ターゲットの添字）は `undefined` です。
+ */
+function mergeTargetImages(
+  targets: TargetWeight[],
+  isPassthrough: (target: TargetWeight) => boolean,
+  passthroughImages: GeneratedImage[],
+  generatedImages: GeneratedImage[] | undefined,
+  failedTargetIndices: ReadonlySet<number>
+): Array<GeneratedImage | undefined> {
+  let passthroughIndex = 0;
+  let changeIndex = 0;
+  let generatedIndex = 0;
+  return targets.map((target) => {
+    if (isPassthrough(target)) return passthroughImages[passthroughIndex++];
+    // 生成画像は変更ターゲットの順序で並び、失敗したターゲットの分だけ詰められている
+    if (failedTargetIndices.has(changeIndex++)) return undefined;
+    return generatedImages?.[generatedIndex++];
+  });
+}
+
+/**
+ * タイムラインを等間隔の段階へ展開し、各段階の BMI と分類を求める。
+ * 段階の体重は小数点以下 1 桁に丸め、最後の段階は終了体重と一致します。
+ * 分類は判定基準の英語の分類名（`category`）と `locale` の分類名（`categoryLabel`）で返します。
+ */
+function expandTimeline(
+  subject: Subject,
+  timeline: TimelineOptions,
+  bmiStandard: BMIStandard,
+  locale: BMILocale
+): TimelineStep[] {
+  const { startWeightKg, endWeightKg, steps } = timeline;
+  return Array.from({ length: steps }, (_, index) => {
+    const step = index + 1;
+    const weightKg =
+      Math.round(
+        (startWeightKg + ((endWeightKg - startWeightKg) * step) / steps) * 10
+      ) / 10;
+    const bmi = calculateBMI(subject.heightCm, weightKg);
+    return {
+      step,
+      label: `step-${step}`,
+      weightKg,
+      bmi,
+      category: getBMICategory(bmi, bmiStandard),
+      categoryLabel: getBMICategory(bmi, bmiStandard, locale),
+    };
+  });
+}
+
+/**
+ * 合成画像に描画するキャプションを生成する。
+ * ラベルが組み込みフォントで描画できない場合（日本語など）は体重のみを表示します。
+ */
+function createCaption(
+  prefix: string,
+  label: string | undefined,
+  weightKg: number,
+  unitSystem: UnitSystem
+): string {
+  const name = label && canRenderText(label) ? label : prefix;
+  return unitSystem === 'metric'
+    ? `${name} ${weightKg}kg`
+    : `${name} ${formatWeight(weightKg, unitSystem)}`;
+}
+
+/**
+ * 元画像と各ターゲットの画像を並べた比較用の合成画像を生成する。
+ * `images` はターゲットと同じ添字で渡し、画像の無い（生成に失敗した）ターゲットは並べません。
+ *
+ * @throws {ImageConversionError} デコードできない形式（WebP など）の画像が含まれる場合
+ */
+function createCompositeImage(
+  originalBytes: Uint8Array,
+  subject: Subject,
+  targets: TargetWeight[],
+  images: Array<GeneratedImage | undefined>,
+  options: BodyShapeOptions,
+  unitSystem: UnitSystem
+): CompositeImage {
+  const layout = options.composite?.layout ?? 'horizontal';
+  const composite = composeImages(
+    [
+      {
+        image: decodeImage(originalBytes),
+        caption: createCaption(
+          'Before',
+          undefined,
+          subject.currentWeightKg,
+          unitSystem
+        ),
+      },
+      ...targets.flatMap((target, index) => {
+        const image = images[index];
+        return image
+          ? [
+              {
+                image: decodeImage(base64ToBytes(image.base64)),
+                caption: createCaption(
+                  'After',
+                  target.label,
+                  target.weightKg,
+                  unitSystem
+                ),
+              },
+            ]
+          : [];
+      }),
+    ],
+    { layout, height: options.composite?.height }
+  );
+  const mimeType = options.returnMimeType ?? 'image/png';
+
+  return {
+    base64: bytesToBase64(encodeImage(composite, mimeType, options)),
+    mimeType,
+    width: composite.width,
+    height: composite.height,
+    layout,
+  };
+}
+
+/**
+ * `options.composite` 指定時に合成画像を生成する。
+ * 生成できない場合は画像を返さず、理由をメタデータへ記録できるようにします。
+ */
+function tryCreateCompositeImage(
+  ...args: Parameters<typeof createCompositeImage>
+): { composite?: CompositeImage; compositeError?: string } {
+  if (!args[4].composite) return {};
+  try {
+    return { composite: createCompositeImage(...args) };
+  } catch (error) {
+    if (error instanceof ImageConversionError) {
+      return { compositeError: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 生成画像ごとに元画像との差分ヒートマップと変化の統計を生成する。
+ * ヒートマップは生成画像と同じサイズで、`returnMimeType`（未指定時は PNG）で返します。
+ *
+ * @throws {ImageConversionError} デコードできない形式（WebP など）の画像が含まれる場合
+ */
+function createDiffMaps(
+  originalBytes: Uint8Array,
+  images: GeneratedImage[],
+  options: BodyShapeOptions
+): { diffMaps: GeneratedImage[]; diffStats: DiffStats[] } {
+  const original = decodeImage(originalBytes);
+  const mimeType = options.returnMimeType ?? 'image/png';
+  const diffMaps: GeneratedImage[] = [];
+  const diffStats: DiffStats[] = [];
+
+  for (const image of images) {
+    const { heatmap, changedPercent, boundingBox } = computeDiffMap(
+      original,
+      decodeImage(base64ToBytes(image.base64))
+    );
+    diffMaps.push({
+      label: image.label,
+      base64: bytesToBase64(encodeImage(heatmap, mimeType, options)),
+      mimeType,
+      width: heatmap.width,
+      height: heatmap.height,
+    });
+    diffStats.push({
+      label: image.label,
+      changedPercent: Math.round(changedPercent * 100) / 100,
+      boundingBox,
+    });
+  }
+  return { diffMaps, diffStats };
+}
+
+/**
+ * `options.includeDiffMap` 指定時に差分ヒートマップを生成する。
+ * 生成できない場合は画像を返さず、理由をメタデータへ記録できるようにします。
+ */
+function tryCreateDiffMaps(...args: Parameters<typeof createDiffMaps>): {
+  diffMaps?: GeneratedImage[];
+  diffStats?: DiffStats[];
+  diffMapError?: string;
+} {
+  if (!args[2].includeDiffMap || args[1].length === 0) return {};
+  try {
+    return createDiffMaps(...args);
+  } catch (error) {
+    if (error instanceof ImageConversionError) {
+      return { diffMapError: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 呼び出し元の単位系で表記した入力値。
+ */
+interface UnitEcho {
+  unitSystem: UnitSystem;
+  subject: Record<string, number | string>;
+  targets: Array<Record<string, number | string>>;
+  timeline?: Array<TimelineStep & Record<string, number | string>>;
+}
+
+/**
+ * 被写体・目標体重・タイムラインの各段階を呼び出し元の単位系の表記へ変換する。
+ * 被写体の性別・年齢・体脂肪率・体格は単位系によらずそのまま返します。
+ * タイムラインの各段階には kg に加えて単位系の体重のフィールドを追加します。
+ */
+function createUnitEcho(
+  unitSystem: UnitSystem,
+  subject: Subject,
+  targets: TargetWeight[],
+  timeline: TimelineStep[] | undefined
+): UnitEcho {
+  const { heightCm, currentWeightKg, ...profile } = subject;
+  return {
+    unitSystem,
+    subject: {
+      ...toHeightFields(heightCm, unitSystem),
+      ...toWeightFields(currentWeightKg, unitSystem, 'currentWeight'),
+      ...profile,
+    },
+    targets: targets.map((target) => ({
+      ...toWeightFields(target.weightKg, unitSystem, 'weight'),
+      ...(target.label !== undefined && { label: target.label }),
+      ...(target.transformation !== undefined && {
+        transformation: target.transformation,
+      }),
+    })),
+    ...(timeline && {
+      timeline: timeline.map((step) => ({
+        ...step,
+        ...toWeightFields(step.weightKg, unitSystem, 'weight'),
+      })),
     }),
-});
+  };
+}
+
+/**
+ * レスポンスに含める入力値と画像一式。
+ */
+interface BodyShapeResponseData extends UnitEcho {
+  images: GeneratedImage[];
+  views?: ViewImages[];
+  composite?: CompositeImage;
+  diffMaps?: GeneratedImage[];
+}
+
+/**
+ * 画像を multipart/mixed のパートへ変換し、JSON パートには Base64 の代わりにパート名を記録する。
+ */
+function toMultipartEntry<I extends Omit<GeneratedImage, 'label'>>(
+  image: I,
+  name: string
+): { descriptor: Omit<I, 'base64'> & { part: string }; part: MultipartPart } {
+  const { base64, ...descriptor } = image;
+  const extension = FILE_EXTENSIONS[image.mimeType] ?? 'bin';
+  return {
+    descriptor: { ...descriptor, part: name },
+    part: {
+      name,
+      mimeType: image.mimeType,
+      body: base64ToBytes(base64),
+      filename: `${name}.${extension}`,
+    },
+  };
+}
+
+/**
+ * Accept ヘッダーで選択した形式でレスポンスを返す。
+ *
+ * - `application/json`: `{ success, data, metadata }`
+ * - `image/png` / `image/jpeg`: 1 枚の画像をそのまま返す（実際の形式が一致しない場合は 406/VAL014）
+ * - `multipart/mixed`: 先頭の JSON パートに続けて各画像を個別のパートで返す
+ *   （最初の視点の画像は `image-N` のパートを共有し、以降の視点は `view-V-image-N` のパート）
+ */
+function createBodyShapeResponse(
+  c: Context<Env>,
+  responseType: (typeof RESPONSE_MEDIA_TYPES)[number],
+  data: BodyShapeResponseData,
+  metadata: ResponseMetadata
+): Response {
+  if (responseType === 'application/json') {
+    return successResponse(c, data, { metadata });
+  }
+
+  if (responseType === 'multipart/mixed') {
+    const entries = data.images.map((image, index) =>
+      toMultipartEntry(image, `image-${index}`)
+    );
+    const composite =
+      data.composite && toMultipartEntry(data.composite, 'composite');
+    const diffMaps = data.diffMaps?.map((image, index) =>
+      toMultipartEntry(image, `diff-map-${index}`)
+    );
+    const views = data.views?.map(({ view, images }, viewIndex) => ({
+      view,
+      entries:
+        viewIndex === 0
+          ? entries
+          : images.map((image, index) =>
+              toMultipartEntry(image, `view-${viewIndex}-image-${index}`)
+            ),
+    }));
+    return multipartResponse(
+      c,
+      {
+        unitSystem: data.unitSystem,
+        subject: data.subject,
+        targets: data.targets,
+        images: entries.map((entry) => entry.descriptor),
+        ...(views && {
+          views: views.map((group) => ({
+            view: group.view,
+            images: group.entries.map((entry) => entry.descriptor),
+          })),
+        }),
+        ...(data.timeline && { timeline: data.timeline }),
+        ...(composite && { composite: composite.descriptor }),
+        ...(diffMaps && {
+          diffMaps: diffMaps.map((entry) => entry.descriptor),
+        }),
+      },
+      [
+        ...entries.map((entry) => entry.part),
+        ...(views ?? [])
+          .slice(1)
+          .flatMap((group) => group.entries.map((entry) => entry.part)),
+        ...(composite ? [composite.part] : []),
+        ...(diffMaps ?? []).map((entry) => entry.part),
+      ],
+      { metadata }
+    );
+  }
+
+  // デコードできない形式（WebP など）は要求された形式へ変換できない
+  const [image] = data.images;
+  if (image.mimeType !== responseType) {
+    return errorResponse(
+      c,
+      'VAL014',
+      `Image cannot be returned as ${responseType}`
+    );
+  }
+  return binaryResponse(c, base64ToBytes(image.base64), image.mimeType, {
+    metadata,
+  });
+}
 
 function mapBodyShapeFieldToErrorKey(
   fieldName: string
@@ -160,17 +1042,32 @@ function mapBodyShapeFieldToErrorKey(
   if (fieldName === 'image') return 'VAL002';
   if (fieldName === 'subject') return 'VAL009';
   if (fieldName === 'targets') return 'VAL010';
+  if (fieldName === 'timeline') return 'VAL015';
+  if (fieldName === 'unitSystem') return 'VAL017';
+  if (fieldName === 'views') return 'VAL019';
   return 'VAL001';
 }
 
 /**
- * 入力バリデータ。
+ * リクエストボディが JSON かどうか（Hono のバリデータと同じ判定）。
+ */
+function isJsonRequest(c: Context): boolean {
+  return /^application\/([a-z-.]+\+)?json(;|$)/i.test(
+    c.req.header('Content-Type') ?? ''
+  );
+}
+
+/**
+ * 検証失敗時のフック。
  *
  * 失敗時は 400 を返し、`code: VALIDATION_ERROR` と共に最初のエラー要約と
  * `details.fieldErrors` を返却します。`invalid_type` の場合はフィールド別の
  * 分かりやすいメッセージに差し替えます。
  */
-const validator = zValidator('form', bodyShapeSchema, (result, c) => {
+const validationHook = (
+  result: { success: true } | { success: false; error: z.core.$ZodError },
+  c: Context
+) => {
   if (!result.success) {
     const firstError = result.error.issues[0];
     const fieldName = firstError.path[0] as string;
@@ -186,72 +1083,186 @@ const validator = zValidator('form', bodyShapeSchema, (result, c) => {
     );
   }
   return undefined;
-});
+};
+
+/**
+ * 入力バリデータ（multipart/form-data）。JSON のリクエストでは何もしません。
+ */
+const formValidator = zValidator('form', bodyShapeSchema, validationHook);
+const validateForm: typeof formValidator = (c, next) =>
+  isJsonRequest(c) ? next() : formValidator(c, next);
+
+/**
+ * 入力バリデータ（application/json）。JSON 以外のリクエストでは何もしません。
+ */
+const jsonValidator = zValidator('json', bodyShapeJsonSchema, validationHook);
+const validateJson: typeof jsonValidator = (c, next) =>
+  isJsonRequest(c) ? jsonValidator(c, next) : next();
 
 /**
  * POST `/api/generate-image/body-shape`
  *
- * 体型変化イメージを生成します。入力画像を base64 に変換し、Gemini クライアントへ
- * リクエストします。生成に成功すると、1〜2 枚の処理済み画像とメタデータを返します。
+ * 体型変化イメージを生成します。入力画像のメタデータを除去・縮小してから Gemini クライアントへ
+ * リクエストし、目標体重（または `timeline` の各段階）ごとの処理済み画像とメタデータを返します。
+ * 目標は安全性ポリシーで検査し、生成画像には AI 生成の来歴メタデータを埋め込みます。
+ *
+ * リクエスト: multipart/form-data（`image`, `views?`, `unitSystem?`, `subject`, `targets` または `timeline`, `options?`）
+ * または同じ構造の application/json（`image` は Base64）。レスポンス形式は Accept ヘッダー
+ * （JSON / `image/png` / `image/jpeg` / `multipart/mixed`）で選択します。
  *
- * リクエスト: multipart/form-data（`image`, `subject`, `targets`, `options`）
  * レスポンス:
- * - 200: `{ success: true, images, metadata }`
+ * - 200: `{ success: true, unitSystem, subject, targets, images, views?, timeline?, composite?, diffMaps?, metadata }`
  * - 400: `{ success: false, code: 'VALIDATION_ERROR', ... }`
+ * - 406: `{ success: false, code: 'VAL014', ... }`（Accept で要求された画像形式で返せない）
+ * - 415: `{ success: false, code: 'FILE003', ... }`（画像の内容が申告形式と不一致）
+ * - 422: `{ success: false, code: 'VAL018', ... }`（目標が安全性ポリシーに違反）
  * - 500: `{ success: false, code: 'FILE_CONVERSION_ERROR' | 'GENERATION_ERROR' | 'INTERNAL_ERROR', ... }`
  */
-app.post('/', validator, async (c) => {
+app.post('/', validateForm, validateJson, async (c) => {
   try {
-    const validatedData = c.req.valid('form');
-    const { image, subject, targets, options } = validatedData;
+    const validatedData = isJsonRequest(c)
+      ? c.req.valid('json')
+      : c.req.valid('form');
+    const { image: images, subject, options } = validatedData;
+    const unitSystem = validatedData.unitSystem ?? 'metric';
+    // 複数の視点の画像は視点ごとにまとめて返す（ラベルの未指定時は view-N）
+    const viewLabels =
+      images.length > 1
+        ? validatedData.views ?? images.map((_, index) => `view-${index + 1}`)
+        : undefined;
+    // BMI 分類の判定基準は未指定時に Accept-Language の言語から決め、分類名もその言語で返す
+    const locale =
+      negotiateLanguage(c.req.header('Accept-Language'), BMI_LOCALES) ?? 'en';
+    const bmiStandard = options?.bmiStandard ?? getDefaultBMIStandard(locale);
+    // タイムライン指定時は各段階を目標体重へ展開する
+    const timeline = validatedData.timeline
+      ? expandTimeline(subject, validatedData.timeline, bmiStandard, locale)
+      : undefined;
+    const targets: TargetWeight[] = timeline
+      ? timeline.map(({ weightKg, label }) => ({ weightKg, label }))
+      : validatedData.targets ?? [];
+    // 入力値は呼び出し元の単位系で返す
+    const unitEcho = createUnitEcho(unitSystem, subject, targets, timeline);
+    const requestId = getRequestId(c);
 
-    let base64: string;
-    try {
-      // 画像を Base64 へ変換
-      base64 = await fileToBase64(image);
-    } catch (error) {
-      const errorMessage =
-        error instanceof ImageConversionError
-          ? error.message
-          : 'ファイルの変換に失敗しました';
+    // 極端・不健康な目標は生成せずに拒否し、警告はメタデータに記録する
+    const safety = evaluateSafetyPolicy(
+      parseSafetyPolicy(c.env ?? {}),
+      subject,
+      targets
+    );
+    if (safety.blocks.length > 0) {
+      return errorResponse(c, 'VAL018', safety.blocks[0].message, {
+        details: { violations: safety.blocks },
+        metadata: { requestId },
+      });
+    }
+    const warnings = safety.warnings.length > 0 ? safety.warnings : undefined;
 
-      return errorResponse(c, 'FILE001', errorMessage);
+    // 受け付けられない形式のみが指定された場合も後方互換性のため JSON で応答する
+    const responseType =
+      negotiateMediaType(c.req.header('Accept'), RESPONSE_MEDIA_TYPES) ??
+      'application/json';
+    c.header('Vary', 'Accept, Accept-Language');
+    const rawImageType =
+      responseType === 'image/png' || responseType === 'image/jpeg'
+        ? responseType
+        : undefined;
+    if (
+      rawImageType &&
+      (images.length !== 1 ||
+        targets.length !== 1 ||
+        options?.composite ||
+        options?.includeDiffMap)
+    ) {
+      return errorResponse(
+        c,
+        'VAL014',
+        `${rawImageType} responses require exactly one image and one target without composite or diff maps`
+      );
     }
+    // 画像をそのまま返す場合は Accept の形式で出力する
+    const bodyOptions: BodyShapeOptions = {
+      ...options,
+      bmiStandard,
+      promptVersion: resolvePromptVersion(
+        options?.promptVersion,
+        c.env?.PROMPT_VERSION
+      ),
+      ...(rawImageType && { returnMimeType: rawImageType }),
+    };
+
+    // 視点ごとの入力画像を検証・縮小する（先頭の画像が合成画像・差分の基準）
+    const preparedImages: PreparedInputImage[] = [];
+    for (const file of images) {
+      const prepared = await prepareInputImage(
+        c,
+        file,
+        bodyOptions.jpegQuality
+      );
+      if (prepared instanceof Response) return prepared;
+      preparedImages.push(prepared);
+    }
+    const [{ mimeType, inputBytes, base64, inputImage }] = preparedImages;
+    const inputImages = viewLabels?.map((view, index) => ({
+      view,
+      ...preparedImages[index].inputImage,
+    }));
 
     // ターゲットをパススルーと変更に分離
-    const passthroughTargets = targets.filter(
-      (target) => target.weightKg === subject.currentWeightKg
-    );
-    const changeTargets = targets.filter(
-      (target) => target.weightKg !== subject.currentWeightKg
-    );
+    // （リコンポジション・引き締めは同じ体重でも生成する）
+    const isPassthrough = (target: TargetWeight) =>
+      isPassthroughTarget(
+        subject.currentWeightKg,
+        target.weightKg,
+        target.transformation
+      );
+    const passthroughTargets = targets.filter(isPassthrough);
+    const changeTargets = targets.filter((target) => !isPassthrough(target));
 
-    // パススルー画像エントリーを構築（実際のMIMEタイプを使用）
-    const passthroughMimeType = options?.returnMimeType || image.type;
-    const passthroughImages = passthroughTargets.map((target) => ({
-      label: target.label,
-      base64: base64,
-      mimeType: passthroughMimeType,
-      width: 1024,
-      height: 1024,
-    }));
+    // 視点ごとのパススルー画像エントリーを構築（returnMimeType 指定時は実際に変換する）
+    const viewPassthroughImages = preparedImages.map((prepared) =>
+      createPassthroughImages(prepared, passthroughTargets, bodyOptions)
+    );
+    const [passthroughImages] = viewPassthroughImages;
 
     // 変更ターゲットがない場合はパススルーのみ返す
     if (changeTargets.length === 0) {
       const model =
         passthroughTargets.length > 1 ? 'passthrough-only' : 'original-image';
-      return successResponse(
+      const { composite, compositeError } = tryCreateCompositeImage(
+        inputBytes,
+        subject,
+        targets,
+        passthroughImages,
+        bodyOptions,
+        unitSystem
+      );
+      return createBodyShapeResponse(
         c,
+        responseType,
         {
+          ...unitEcho,
           images: passthroughImages,
+          ...(viewLabels && {
+            views: viewLabels.map((view, index) => ({
+              view,
+              images: viewPassthroughImages[index],
+            })),
+          }),
+          ...(composite && { composite }),
         },
         {
-          metadata: {
-            processingTimeMs: 0,
-            confidence: 1.0,
-            model: model,
-            note: 'No body shape change needed - returning original image',
-          },
+          processingTimeMs: 0,
+          confidence: 1.0,
+          model: model,
+          note: 'No body shape change needed - returning original image',
+          requestId,
+          inputImage,
+          ...(inputImages && { inputImages }),
+          bmiStandard,
+          ...(compositeError && { compositeError }),
+          ...(warnings && { warnings }),
         }
       );
     }
@@ -259,44 +1270,113 @@ app.post('/', validator, async (c) => {
     // 変更ターゲットのみで体型変化専用クライアントを使用
     const client = createBodyShapeClient(c.env);
 
+    // プロンプトの実験中は、バージョンを指定していないリクエストへバリアントを割り当てる
+    const experiment = options?.promptVersion
+      ? undefined
+      : parsePromptExperiment(c.env ?? {});
+    const assignment =
+      experiment &&
+      assignPromptVariant(experiment, {
+        clientId: c.req.header('X-Client-Id'),
+        requestId,
+      });
+
     const result = await client.generateBodyShapeImages({
       imageBase64: base64,
-      mimeType: image.type,
+      mimeType,
       subject,
       targets: changeTargets, // 変更ターゲットのみ
-      options: options || {},
+      // 視点ごとの生成で他の視点の画像も参照させ、体型変化を揃える
+      ...(viewLabels && {
+        view: viewLabels[0],
+        additionalViews: preparedImages.slice(1).map((prepared, index) => ({
+          view: viewLabels[index + 1],
+          imageBase64: prepared.base64,
+          mimeType: prepared.mimeType,
+        })),
+      }),
+      options: assignment
+        ? { ...bodyOptions, promptVersion: assignment.promptVersion }
+        : bodyOptions,
     });
 
     if (!result.success) {
       return errorResponse(c, 'GEN002', result.error);
     }
 
-    // 生成画像とパススルー画像をマージし、ラベル順序を保持
-    const mergedImages = targets.map((target) => {
-      if (target.weightKg === subject.currentWeightKg) {
-        // パススルー画像を返す
-        const passthroughImage = passthroughImages.find(
-          (img) => img.label === target.label
-        );
-        if (!passthroughImage) {
-          throw new Error(
-            `Passthrough image not found for label: ${target.label}`
-          );
-        }
-        return passthroughImage;
-      } else {
-        // 生成画像を返す
-        const generatedImage = result.images?.find(
-          (img) => img.label === target.label
-        );
-        if (!generatedImage) {
-          throw new Error(
-            `Generated image not found for label: ${target.label}`
-          );
-        }
-        return generatedImage;
+    // 視点ごとに生成画像とパススルー画像をターゲットの添字でマージする
+    const targetImages = viewPassthroughImages.map((viewPassthrough, index) =>
+      mergeTargetImages(
+        targets,
+        isPassthrough,
+        viewPassthrough,
+        index === 0 ? result.images : result.views?.[index]?.images,
+        new Set(
+          result.failures
+            ?.filter(({ viewIndex }) => viewIndex === index)
+            .map(({ targetIndex }) => targetIndex)
+        )
+      )
+    );
+    // 生成に失敗したターゲットを除き、生成できた画像のみを返す
+    let viewImages = targetImages.map((images) =>
+      images.filter((image) => image !== undefined)
+    );
+    const [mergedImages] = viewImages;
+
+    // 比較用の合成画像（options.composite 指定時のみ）
+    const created = tryCreateCompositeImage(
+      inputBytes,
+      subject,
+      targets,
+      targetImages[0],
+      bodyOptions,
+      unitSystem
+    );
+    let composite = created.composite;
+    const compositeError = created.compositeError;
+
+    // 生成画像ごとの差分ヒートマップ（options.includeDiffMap 指定時のみ）
+    const { diffMaps, diffStats, diffMapError } = tryCreateDiffMaps(
+      inputBytes,
+      mergedImages.filter((image) => !passthroughImages.includes(image)),
+      bodyOptions
+    );
+
+    // 生成画像と合成画像へ AI 生成の来歴メタデータを埋め込む（パススルー画像は対象外）
+    const provenance: ProvenanceInfo = {
+      model: result.metadata?.model ?? 'unknown',
+      promptVersion: result.metadata?.promptVersion,
+      createdAt: new Date().toISOString(),
+      requestId,
+    };
+    try {
+      viewImages = viewImages.map((images, index) =>
+        images.map((image) =>
+          viewPassthroughImages[index].includes(image)
+            ? image
+            : {
+                ...image,
+                base64: embedProvenanceBase64(image.base64, provenance),
+              }
+        )
+      );
+      if (composite) {
+        composite = {
+          ...composite,
+          base64: embedProvenanceBase64(composite.base64, {
+            ...provenance,
+            digitalSourceType:
+              DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+          }),
+        };
       }
-    });
+    } catch (error) {
+      if (error instanceof ImageConversionError) {
+        return errorResponse(c, 'GEN003', error.message);
+      }
+      throw error;
+    }
 
     // メタデータを調整
     const adjustedMetadata = {
@@ -305,16 +1385,39 @@ app.post('/', validator, async (c) => {
         passthroughTargets.length > 0
           ? 'gemini-image-edit-with-passthrough'
           : result.metadata?.model || 'gemini-image-edit',
+      requestId,
+      inputImage,
+      ...(inputImages && { inputImages }),
+      bmiStandard,
+      ...(assignment && {
+        experiment: {
+          id: assignment.experimentId,
+          variant: assignment.variant,
+          sticky: assignment.sticky,
+        },
+      }),
+      ...(compositeError && { compositeError }),
+      ...(diffStats && { diffStats }),
+      ...(diffMapError && { diffMapError }),
+      ...(warnings && { warnings }),
     };
 
-    return successResponse(
+    return createBodyShapeResponse(
       c,
+      responseType,
       {
-        images: mergedImages,
+        ...unitEcho,
+        images: viewImages[0],
+        ...(viewLabels && {
+          views: viewLabels.map((view, index) => ({
+            view,
+            images: viewImages[index],
+          })),
+        }),
+        ...(composite && { composite }),
+        ...(diffMaps && { diffMaps }),
       },
-      {
-        metadata: adjustedMetadata,
-      }
+      adjustedMetadata
     );
   } catch (error) {
     return errorResponse(
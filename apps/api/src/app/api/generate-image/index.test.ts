@@ -9,6 +9,13 @@ import {
 
 import { createGeminiClient } from '@/lib/client/gemini-client';
 import type { ApiResponse as StandardApiResponse } from '@/types/response';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeImage,
+  encodeImage,
+  readProvenance,
+} from '@/utils';
 
 import app from './index.js';
 
@@ -19,6 +26,24 @@ type GenerateImageSuccessData = {
 
 type ApiResponse = StandardApiResponse<GenerateImageSuccessData>;
 
+/** 形式ごとの先頭マジックバイト */
+const IMAGE_SIGNATURES: Record<string, number[]> = {
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'image/jpeg': [0xff, 0xd8, 0xff, 0xd9],
+  'image/webp': [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50],
+};
+
+/** 指定形式のマジックバイトを持つ画像ファイルを生成 */
+function createImageFile(
+  name: string,
+  contentType: string,
+  declaredType = contentType
+): File {
+  return new File([new Uint8Array(IMAGE_SIGNATURES[contentType])], name, {
+    type: declaredType,
+  });
+}
+
 // モックの設定
 vi.mock('@/lib/client/gemini-client', () => ({
   createGeminiClient: vi.fn().mockReturnValue({
@@ -154,7 +179,7 @@ describe('Generate Image Endpoint', () => {
 
       const formData = new FormData();
       formData.append('prompt', 'a'.repeat(1000));
-      const file = new File(['test'], 'test.png', { type: 'image/png' });
+      const file = createImageFile('test.png', 'image/png');
       formData.append('image', file);
 
       const response = await app.request(
@@ -179,7 +204,7 @@ describe('Generate Image Endpoint', () => {
 
       const formData = new FormData();
       formData.append('prompt', 'Test prompt');
-      const file = new File(['test'], 'test.png', { type: 'image/png' });
+      const file = createImageFile('test.png', 'image/png');
       formData.append('image', file);
 
       const response = await app.request(
@@ -200,6 +225,234 @@ describe('Generate Image Endpoint', () => {
       }
     });
 
+    it('長辺が上限を超える画像は縮小して送信し、元と縮小後のサイズを metadata.inputImage に記録する', async () => {
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: 'generatedImageBase64',
+      });
+
+      const png = encodeImage(
+        { width: 30, height: 60, data: new Uint8Array(30 * 60 * 4).fill(100) },
+        'image/png'
+      );
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append(
+        'image',
+        new File([png], 'large.png', { type: 'image/png' })
+      );
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData },
+        { GEMINI_API_KEY: 'test-api-key', MAX_INPUT_IMAGE_LONG_EDGE: '20' }
+      );
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as ApiResponse;
+      expect(data.success && data.metadata?.inputImage).toEqual({
+        originalWidth: 30,
+        originalHeight: 60,
+        width: 10,
+        height: 20,
+        resized: true,
+      });
+      const callArg = mockGenerateImage.mock.calls[0][0] as {
+        imageBase64: string;
+      };
+      expect(decodeImage(base64ToBytes(callArg.imageBase64)).height).toBe(20);
+    });
+
+    it('watermark 指定時は生成画像に透かしを焼き込んで返す', async () => {
+      const generated = encodeImage(
+        {
+          width: 160,
+          height: 160,
+          data: new Uint8Array(160 * 160 * 4).map((_, i) =>
+            i % 4 === 3 ? 255 : 0
+          ),
+        },
+        'image/png'
+      );
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: bytesToBase64(generated),
+      });
+
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+      formData.append(
+        'watermark',
+        JSON.stringify({ position: 'bottom-right', opacity: 1 })
+      );
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as ApiResponse;
+      const marked = decodeImage(
+        base64ToBytes((data.success && data.data?.imageBase64) || '')
+      );
+      expect(data.success && data.data?.mimeType).toBe('image/png');
+      expect(marked.width).toBe(160);
+      expect(marked.data.some((value, i) => i % 4 === 0 && value === 255)).toBe(
+        true
+      );
+    });
+
+    it('生成画像に AI 生成の来歴メタデータを埋め込み、リクエスト ID を metadata に返す', async () => {
+      const generated = encodeImage(
+        { width: 4, height: 4, data: new Uint8Array(4 * 4 * 4).fill(255) },
+        'image/png'
+      );
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: bytesToBase64(generated),
+        model: 'gemini-test-model',
+      } as { success: boolean; imageBase64?: string });
+
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as ApiResponse;
+      const requestId = data.success && data.metadata?.requestId;
+      expect(requestId).toEqual(expect.any(String));
+      const provenance = readProvenance(
+        base64ToBytes((data.success && data.data?.imageBase64) || '')
+      );
+      expect(provenance).toMatchObject({
+        digitalSourceType:
+          'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+        model: 'gemini-test-model',
+        requestId,
+      });
+    });
+
+    it('Accept: image/jpeg の場合は JPEG へ変換してバイト列のまま返し、メタデータをヘッダーに設定する', async () => {
+      const generated = encodeImage(
+        { width: 8, height: 8, data: new Uint8Array(8 * 8 * 4).fill(255) },
+        'image/png'
+      );
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: bytesToBase64(generated),
+        model: 'gemini-test-model',
+      } as { success: boolean; imageBase64?: string });
+
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+
+      const response = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: formData,
+          headers: { Accept: 'image/jpeg' },
+        },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+      expect(response.headers.get('X-Model')).toBe('gemini-test-model');
+      expect(response.headers.get('X-Processing-Time-Ms')).toMatch(/^\d+$/);
+      expect(response.headers.get('X-Request-Id')).toEqual(expect.any(String));
+      expect(response.headers.get('Vary')).toBe('Accept');
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      expect(decodeImage(bytes).width).toBe(8);
+      expect(readProvenance(bytes)?.requestId).toBe(
+        response.headers.get('X-Request-Id')
+      );
+    });
+
+    it('Accept の画像形式へ変換できない場合は 406/VAL014', async () => {
+      // デコードできない WebP（VP8L: 幅 3・高さ 2。ビットストリームは省略）
+      const webp = new Uint8Array(30);
+      const view = new DataView(webp.buffer);
+      webp.set(new TextEncoder().encode('RIFF'), 0);
+      view.setUint32(4, webp.length - 8, true);
+      webp.set(new TextEncoder().encode('WEBPVP8L'), 8);
+      view.setUint32(16, 10, true);
+      webp.set([0x2f, 0x02, 0x40, 0x00, 0x10], 20);
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: bytesToBase64(webp),
+      });
+
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData, headers: { Accept: 'image/png' } },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(406);
+      const data = (await response.json()) as ApiResponse;
+      expect(!data.success && data.error.code).toBe('VAL014');
+    });
+
+    it('watermark が不正な場合は 400/VAL013', async () => {
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+      formData.append('watermark', JSON.stringify({ opacity: 2 }));
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(400);
+      const data = (await response.json()) as ApiResponse;
+      expect(data.success).toBe(false);
+      if (!data.success) {
+        expect(data.error.details?.code).toBe('VAL013');
+      }
+      expect(mockGenerateImage).not.toHaveBeenCalled();
+    });
+
+    it('透かしを焼き込めない生成画像は返さず 500/GEN003', async () => {
+      mockGenerateImage.mockResolvedValue({
+        success: true,
+        imageBase64: 'generatedImageBase64',
+      });
+
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append('image', createImageFile('test.png', 'image/png'));
+      formData.append('watermark', JSON.stringify({}));
+
+      const response = await app.request(
+        '/',
+        { method: 'POST', body: formData },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(500);
+      const data = (await response.json()) as ApiResponse;
+      if (!data.success) {
+        expect(data.error.code).toBe('GEN003');
+      }
+    });
+
     it('Gemini API エラーで 500/GEN001', async () => {
       mockGenerateImage.mockResolvedValue({
         success: false,
@@ -208,7 +461,7 @@ describe('Generate Image Endpoint', () => {
 
       const formData = new FormData();
       formData.append('prompt', 'Test prompt');
-      const file = new File(['test'], 'test.png', { type: 'image/png' });
+      const file = createImageFile('test.png', 'image/png');
       formData.append('image', file);
 
       const response = await app.request(
@@ -234,7 +487,7 @@ describe('Generate Image Endpoint', () => {
 
       const formData = new FormData();
       formData.append('prompt', 'Test prompt');
-      const file = new File(['test'], 'test.png', { type: 'image/png' });
+      const file = createImageFile('test.png', 'image/png');
       formData.append('image', file);
 
       const response = await app.request(
@@ -270,9 +523,7 @@ describe('Generate Image Endpoint', () => {
       for (const imageType of imageTypes) {
         const formData = new FormData();
         formData.append('prompt', 'Test prompt');
-        const file = new File(['test'], `test.${imageType.ext}`, {
-          type: imageType.type,
-        });
+        const file = createImageFile(`test.${imageType.ext}`, imageType.type);
         formData.append('image', file);
 
         const response = await app.request(
@@ -294,5 +545,57 @@ describe('Generate Image Endpoint', () => {
         );
       }
     });
+
+    it('申告された MIME と内容が一致しない場合は 415/FILE003', async () => {
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      // 中身は JPEG だが image/png と申告
+      formData.append(
+        'image',
+        createImageFile('renamed.png', 'image/jpeg', 'image/png')
+      );
+
+      const response = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: formData,
+        },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(415);
+      const data = (await response.json()) as ApiResponse;
+      expect(data.success).toBe(false);
+      if (!data.success) {
+        expect(data.error?.code).toBe('FILE003');
+      }
+      expect(mockGenerateImage).not.toHaveBeenCalled();
+    });
+
+    it('画像として認識できない内容は 415/FILE003', async () => {
+      const formData = new FormData();
+      formData.append('prompt', 'Test prompt');
+      formData.append(
+        'image',
+        new File(['not an image'], 'fake.png', { type: 'image/png' })
+      );
+
+      const response = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: formData,
+        },
+        { GEMINI_API_KEY: 'test-api-key' }
+      );
+
+      expect(response.status).toBe(415);
+      const data = (await response.json()) as ApiResponse;
+      if (!data.success) {
+        expect(data.error?.code).toBe('FILE003');
+      }
+      expect(mockGenerateImage).not.toHaveBeenCalled();
+    });
   });
 });
@@ -6,13 +6,27 @@ import { API_ERRORS } from '@/constants';
 import { createGeminiClient } from '@/lib';
 import { Env } from '@/types';
 import {
+  base64ToBytes,
+  binaryResponse,
+  bytesToBase64,
+  convertImageFormat,
+  createWatermarkTransform,
+  detectImageMimeType,
+  embedProvenanceBase64,
   errorResponse,
-  fileToBase64,
+  getRequestId,
   ImageConversionError,
+  ImageValidationError,
+  negotiateMediaType,
+  parseMaxLongEdge,
+  type ResizeInfo,
+  sanitizeAndDownscaleImage,
+  sniffImageContent,
   successResponse,
   validationErrorResponse,
 } from '@/utils';
 
+import { watermarkSchema } from '../schemas';
 import bodyShape from './body-shape';
 
 const app = new Hono<Env>();
@@ -27,6 +41,15 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024;
  */
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
+/**
+ * 応答可能な形式（Accept ヘッダーで選択。先頭が既定）
+ */
+const RESPONSE_MEDIA_TYPES = [
+  'application/json',
+  'image/png',
+  'image/jpeg',
+] as const;
+
 /**
  * 画像生成API用のバリデーションスキーマ
  *
@@ -45,8 +68,39 @@ const generateImageSchema = z.object({
     .refine((file) => ALLOWED_MIME_TYPES.includes(file.type), {
       message: `File type must be one of: ${ALLOWED_MIME_TYPES.join(', ')}`,
     }),
+  /** 生成画像へ焼き込む透かし（JSON 文字列） */
+  watermark: z
+    .string()
+    .optional()
+    .transform((str, ctx) => {
+      if (!str) return undefined;
+      try {
+        return watermarkSchema.parse(JSON.parse(str));
+      } catch {
+        ctx.addIssue({
+          code: 'custom',
+          message: API_ERRORS.VAL013.message,
+        });
+        return z.NEVER;
+      }
+    }),
 });
 
+/**
+ * 生成画像のシグネチャから MIME タイプを判別する
+ *
+ * @param base64 - 生成画像の Base64 文字列
+ * @returns 判別できた MIME タイプ（判別できない場合は `image/png`）
+ */
+function detectMimeTypeFromBase64(base64: string | undefined): string {
+  if (!base64) return 'image/png';
+  try {
+    return detectImageMimeType(base64ToBytes(base64)) ?? 'image/png';
+  } catch {
+    return 'image/png';
+  }
+}
+
 /**
  * バリデーション処理
  *
@@ -59,6 +113,7 @@ function mapGenerateImageFieldToErrorKey(
 ): keyof typeof API_ERRORS {
   if (fieldName === 'prompt') return 'VAL001';
   if (fieldName === 'image') return 'VAL002';
+  if (fieldName === 'watermark') return 'VAL013';
   return 'VAL001';
 }
 const validator = zValidator('form', generateImageSchema, (result, c) => {
@@ -84,7 +139,11 @@ const validator = zValidator('form', generateImageSchema, (result, c) => {
  * 画像生成エンドポイント
  *
  * @route POST /
- * @description Gemini APIを使用してアップロードされた画像を元に新しい画像を生成する
+ * @description Gemini APIを使用してアップロードされた画像を元に新しい画像を生成する。
+ * `watermark` 指定時は生成画像へ透かしを焼き込む。生成画像には AI 生成の来歴メタデータ
+ * （PNG: tEXt / iTXt、JPEG: XMP）を埋め込む。`Accept: image/png` / `image/jpeg` の場合は
+ * 画像をその形式へ変換し、JSON で包まずにバイト列のまま返す（メタデータは `X-Processing-Time-Ms` /
+ * `X-Model` / `X-Request-Id` ヘッダー）。変換できない場合は 406/VAL014
  */
 app.post(
   '/',
@@ -93,14 +152,50 @@ app.post(
   // メインハンドラー
   async (c) => {
     try {
-      // 1. バリデーション済みデータの取得
+      // 1. バリデーション済みデータと応答形式の取得
+      const startTime = Date.now();
       const validatedData = c.req.valid('form');
-      const { prompt, image } = validatedData;
+      const { prompt, image, watermark } = validatedData;
+      // 受け付けられない形式のみが指定された場合も後方互換性のため JSON で応答する
+      const responseType =
+        negotiateMediaType(c.req.header('Accept'), RESPONSE_MEDIA_TYPES) ??
+        'application/json';
+      const rawImageType =
+        responseType === 'application/json' ? undefined : responseType;
+      c.header('Vary', 'Accept');
+
+      // 2. ファイルの読み込み
+      let imageBytes: Uint8Array;
+      try {
+        imageBytes = new Uint8Array(await image.arrayBuffer());
+      } catch {
+        return errorResponse(c, 'FILE001', 'ファイルの変換に失敗しました');
+      }
 
-      // 2. ファイルをBase64に変換（Cloudflare Workers対応）
+      // 3. マジックバイトから実際の形式を検証（申告された File.type は信用しない）
+      let mimeType: string;
+      try {
+        mimeType = sniffImageContent(
+          imageBytes,
+          image.type,
+          ALLOWED_MIME_TYPES
+        );
+      } catch (error) {
+        if (error instanceof ImageValidationError) {
+          return errorResponse(c, 'FILE003', error.message);
+        }
+        throw error;
+      }
+
+      // 4. メタデータ（EXIF/GPS 等）を除去して向きを適用し、長辺の上限まで縮小してからBase64に変換
       let base64: string;
+      let inputImage: ResizeInfo;
       try {
-        base64 = await fileToBase64(image);
+        const downscaled = sanitizeAndDownscaleImage(imageBytes, {
+          maxLongEdge: parseMaxLongEdge(c.env?.MAX_INPUT_IMAGE_LONG_EDGE),
+        });
+        inputImage = downscaled.info;
+        base64 = bytesToBase64(downscaled.bytes);
       } catch (error) {
         const errorMessage =
           error instanceof ImageConversionError
@@ -110,28 +205,93 @@ app.post(
         return errorResponse(c, 'FILE001', errorMessage);
       }
 
-      // 3. Gemini APIクライアントの作成
+      // 5. Gemini APIクライアントの作成
       const client = createGeminiClient(c.env);
 
-      // 4. 画像生成の実行
+      // 6. 画像生成の実行
       const result = await client.generateImage({
         prompt,
         imageBase64: base64,
-        mimeType: image.type,
+        mimeType,
       });
 
-      // 5. API呼び出し結果の検証
+      // 7. API呼び出し結果の検証
       if (!result.success) {
         return errorResponse(c, 'GEN001', result.error);
       }
 
-      // 6. 成功レスポンスの返却
-      return successResponse(c, {
-        imageBase64: result.imageBase64,
-        mimeType: 'image/png',
-      });
+      // 8. 透かしの焼き込みと応答形式への変換（指定時のみ。焼き込めない画像は返さない）
+      let imageBase64 = result.imageBase64;
+      if (watermark || rawImageType) {
+        try {
+          const bytes = base64ToBytes(result.imageBase64 ?? '');
+          const converted = convertImageFormat(bytes, {
+            targetMimeType: rawImageType,
+            transform:
+              watermark &&
+              createWatermarkTransform(watermark, c.env?.WATERMARK_LOGO_BASE64),
+          });
+          if (converted.bytes !== bytes) {
+            imageBase64 = bytesToBase64(converted.bytes);
+          }
+        } catch (error) {
+          if (error instanceof ImageConversionError) {
+            return errorResponse(c, 'GEN003', error.message);
+          }
+          throw error;
+        }
+      }
+
+      // 9. AI 生成の来歴メタデータ（IPTC DigitalSourceType 等）の埋め込み
+      const requestId = getRequestId(c);
+      if (imageBase64) {
+        try {
+          imageBase64 = embedProvenanceBase64(imageBase64, {
+            model: result.model ?? 'unknown',
+            createdAt: new Date().toISOString(),
+            requestId,
+          });
+        } catch (error) {
+          if (error instanceof ImageConversionError) {
+            return errorResponse(c, 'GEN003', error.message);
+          }
+          throw error;
+        }
+      }
+
+      // 10. 成功レスポンスの返却（MIME は実際の画像形式から判別）
+      const outputMimeType = detectMimeTypeFromBase64(imageBase64);
+      const metadata = {
+        processingTimeMs: Date.now() - startTime,
+        model: result.model,
+        requestId,
+        inputImage,
+      };
+      if (rawImageType) {
+        // デコードできない形式（WebP など）は要求された形式へ変換できない
+        if (!imageBase64 || outputMimeType !== rawImageType) {
+          return errorResponse(
+            c,
+            'VAL014',
+            `Generated image cannot be returned as ${rawImageType}`
+          );
+        }
+        return binaryResponse(c, base64ToBytes(imageBase64), outputMimeType, {
+          metadata,
+        });
+      }
+      return successResponse(
+        c,
+        {
+          imageBase64,
+          mimeType: outputMimeType,
+        },
+        {
+          metadata,
+        }
+      );
     } catch (error) {
-      // 7. エラーハンドリング
+      // 11. エラーハンドリング
       return errorResponse(
         c,
         'SYS001',
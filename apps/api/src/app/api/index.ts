@@ -1,9 +1,11 @@
 import { Hono } from 'hono';
 
 import generateImage from './generate-image';
+import plan from './plan';
 
 const app = new Hono();
 
 app.route('/generate-image', generateImage);
+app.route('/plan', plan);
 
 export default app;
\ No newline at end of file
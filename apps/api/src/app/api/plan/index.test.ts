@@ -0,0 +1,461 @@
+import {
+  beforeEach,
+  describe,
+  expect,
+  it,
+  type MockedFunction,
+  vi,
+} from 'vitest';
+
+import { createBodyShapeClient } from '@/lib';
+import type {
+  BodyShapeGenerationOptions,
+  BodyShapeGenerationResult,
+  PlanResponseData,
+} from '@/types';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  defaultPromptExperimentStore,
+  encodeImage,
+  readProvenance,
+} from '@/utils';
+
+import app from './index.js';
+
+// lib のモック（体型変化クライアント）
+vi.mock('@/lib', () => ({
+  createBodyShapeClient: vi.fn(),
+}));
+
+describe('Plan Endpoint', () => {
+  let mockedGenerateBodyShapeImages: MockedFunction<
+    (options: BodyShapeGenerationOptions) => Promise<BodyShapeGenerationResult>
+  >;
+
+  type PlanJson = {
+    success: boolean;
+    data: PlanResponseData;
+    metadata: Record<string, unknown>;
+    error?: { code: string; details?: { code?: string } };
+  };
+
+  async function parseJson(res: Response): Promise<PlanJson> {
+    return (await res.json()) as PlanJson;
+  }
+
+  /** 単色の PNG 画像の Base64 */
+  function createPngBase64(width: number, height: number): string {
+    const data = new Uint8Array(width * height * 4).fill(200);
+    return bytesToBase64(encodeImage({ width, height, data }, 'image/png'));
+  }
+
+  function postPlan(body: unknown) {
+    return app.request(
+      '/',
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      },
+      { GEMINI_API_KEY: 'test' }
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedGenerateBodyShapeImages = vi.fn();
+    (
+      createBodyShapeClient as unknown as MockedFunction<
+        typeof createBodyShapeClient
+      >
+    ).mockReturnValue({
+      generateBodyShapeImages: mockedGenerateBodyShapeImages,
+      generateBodyShapePrompt: vi.fn(),
+    } as unknown as ReturnType<typeof createBodyShapeClient>);
+    mockedGenerateBodyShapeImages.mockImplementation(async ({ targets }) => ({
+      success: true,
+      images: targets.map(({ label }) => ({
+        label,
+        base64: createPngBase64(4, 4),
+        mimeType: 'image/png',
+        width: 4,
+        height: 4,
+      })),
+      metadata: {
+        processingTimeMs: 10,
+        confidence: 1,
+        model: 'gemini-image-edit',
+      },
+    }));
+  });
+
+  describe('POST /', () => {
+    it('マイルストーンのスケジュールを返し、画像は生成しない', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        startDate: '2025-01-01',
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data).toMatchObject({
+        goalWeightKg: 74,
+        direction: 'loss',
+        weeklyRateKg: 0.5,
+        totalWeeks: 12,
+        startDate: '2025-01-01',
+        targetDate: '2025-03-26',
+      });
+      expect(json.data.milestones.map((m) => m.weightKg)).toEqual([78, 76, 74]);
+      expect(json.data.milestones[2]).toMatchObject({
+        bmi: 25.6,
+        category: 'Overweight',
+      });
+      expect(json.data.images).toBeUndefined();
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('Accept-Language が日本語なら JASSO の判定基準と日本語の分類名でマイルストーンを返す', async () => {
+      const res = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            subject: { heightCm: 170, currentWeightKg: 80 },
+            goalWeightKg: 74,
+            startDate: '2025-01-01',
+            generateImages: true,
+            image: { base64: createPngBase64(4, 4), mimeType: 'image/png' },
+          }),
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept-Language': 'ja',
+          },
+        },
+        { GEMINI_API_KEY: 'test' }
+      );
+      const json = await parseJson(res);
+      const whoRes = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        startDate: '2025-01-01',
+        options: { bmiStandard: 'who-asia-pacific' },
+      });
+      const whoJson = await parseJson(whoRes);
+
+      expect(res.status).toBe(200);
+      expect(json.metadata.bmiStandard).toBe('jasso');
+      expect(json.data.milestones[2]).toMatchObject({
+        category: 'Obesity, Grade 1',
+        categoryLabel: '肥満（1度）',
+      });
+      expect(
+        mockedGenerateBodyShapeImages.mock.calls[0][0].options
+      ).toMatchObject({ bmiStandard: 'jasso' });
+      expect(whoJson.metadata.bmiStandard).toBe('who-asia-pacific');
+      expect(whoJson.data.milestones[2]).toMatchObject({
+        category: 'Obesity, Class 1',
+        categoryLabel: 'Obesity, Class 1',
+      });
+    });
+
+    it('上限を超える変化量は上限に丸めて rateAdjustment に記録する', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        goalWeightKg: 80,
+        weeklyRateKg: 1.5,
+        startDate: '2025-01-01',
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(json.data.weeklyRateKg).toBe(0.5);
+      expect(json.data.totalWeeks).toBe(20);
+      expect(json.data.rateAdjustment).toMatchObject({
+        requestedWeeklyRateKg: 1.5,
+        appliedWeeklyRateKg: 0.5,
+      });
+    });
+
+    it('generateImages 指定時は選択したマイルストーンの画像を生成して来歴を埋め込む', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        startDate: '2025-01-01',
+        generateImages: true,
+        image: `data:image/png;base64,${createPngBase64(8, 8)}`,
+        imageMilestones: [1, 3],
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages).toHaveBeenCalledTimes(1);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0]).toMatchObject({
+        mimeType: 'image/png',
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        targets: [
+          { weightKg: 78, label: 'week-4' },
+          { weightKg: 74, label: 'week-12' },
+        ],
+      });
+      expect(json.data.images?.map((image) => image.label)).toEqual([
+        'week-4',
+        'week-12',
+      ]);
+      expect(
+        readProvenance(base64ToBytes(json.data.images?.[0].base64 ?? ''))
+      ).toMatchObject({ model: 'gemini-image-edit' });
+    });
+
+    it('丸めると現在体重と同じになる週は選択できるマイルストーンに含めない', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 79.8,
+        weeklyRateKg: 0.05,
+        milestoneIntervalWeeks: 1,
+        startDate: '2025-01-01',
+        generateImages: true,
+        image: `data:image/png;base64,${createPngBase64(8, 8)}`,
+        imageMilestones: [1],
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(json.metadata.imageError).toBeUndefined();
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].targets).toEqual([
+        { weightKg: 79.9, label: 'week-2' },
+      ]);
+    });
+
+    it('options.promptVersion のテンプレートで生成し、metadata.promptVersion に記録する', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(
+        async ({ targets, options }) => ({
+          success: true,
+          images: targets.map(({ label }) => ({
+            label,
+            base64: createPngBase64(4, 4),
+            mimeType: 'image/png',
+            width: 4,
+            height: 4,
+          })),
+          metadata: {
+            processingTimeMs: 10,
+            confidence: 1,
+            model: 'gemini-image-edit',
+            promptVersion: options.promptVersion,
+          },
+        })
+      );
+
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+        options: { promptVersion: 'body-shape@v1' },
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(
+        mockedGenerateBodyShapeImages.mock.calls[0][0].options
+      ).toMatchObject({ promptVersion: 'body-shape@v1' });
+      expect(json.metadata.promptVersion).toBe('body-shape@v1');
+      expect(
+        readProvenance(base64ToBytes(json.data.images?.[0].base64 ?? ''))
+      ).toMatchObject({ promptVersion: 'body-shape@v1' });
+    });
+
+    it('PROMPT_EXPERIMENT の実験で割り当てたバリアントで生成し、metadata.experiment に記録する', async () => {
+      mockedGenerateBodyShapeImages.mockImplementation(
+        async ({ targets, options }) => ({
+          success: true,
+          images: targets.map(({ label }) => ({
+            label,
+            base64: createPngBase64(4, 4),
+            mimeType: 'image/png',
+            width: 4,
+            height: 4,
+          })),
+          metadata: {
+            processingTimeMs: 10,
+            confidence: 1,
+            model: 'gemini-image-edit',
+            promptVersion: options.promptVersion,
+          },
+        })
+      );
+
+      const res = await app.request(
+        '/',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            subject: { heightCm: 170, currentWeightKg: 80 },
+            goalWeightKg: 74,
+            generateImages: true,
+            image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+          }),
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Client-Id': 'user-1',
+          },
+        },
+        {
+          GEMINI_API_KEY: 'test',
+          PROMPT_EXPERIMENT: JSON.stringify({
+            id: 'legacy-only',
+            variants: [
+              { name: 'legacy', promptVersion: 'body-shape@v1', percent: 100 },
+            ],
+          }),
+        }
+      );
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(json.metadata.promptVersion).toBe('body-shape@v1');
+      expect(json.metadata.experiment).toEqual({
+        id: 'legacy-only',
+        variant: 'legacy',
+        sticky: true,
+      });
+      // 割り当て数はストアに記録する
+      expect(defaultPromptExperimentStore.getCounts('legacy-only')).toEqual({
+        legacy: 1,
+      });
+    });
+
+    it('画像を生成できない場合は計画のみを返し、理由を記録する', async () => {
+      mockedGenerateBodyShapeImages.mockResolvedValue({
+        success: false,
+        error: 'quota exceeded',
+      });
+
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].targets).toEqual([
+        { weightKg: 74, label: 'week-12' },
+      ]);
+      expect(json.data.milestones).toHaveLength(3);
+      expect(json.data.images).toBeUndefined();
+      expect(json.metadata.imageError).toBe('quota exceeded');
+    });
+
+    it('subject の性別・年齢・体脂肪率・体格を画像生成へ渡す', async () => {
+      const subject = {
+        heightCm: 170,
+        currentWeightKg: 80,
+        sex: 'male',
+        ageYears: 35,
+        bodyFatPercent: 24,
+        build: 'muscular',
+      };
+      const res = await postPlan({
+        subject,
+        goalWeightKg: 74,
+        generateImages: true,
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(200);
+      expect(mockedGenerateBodyShapeImages.mock.calls[0][0].subject).toEqual(
+        subject
+      );
+      expect(json.data.subject).toEqual(subject);
+    });
+
+    it('目標体重が安全性ポリシーの BMI の下限を下回る場合は 422/VAL018', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        goalWeightKg: 45,
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(422);
+      expect(json.error?.code).toBe('VAL018');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('目標体重が現在体重と同じ場合は 400/VAL016', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        goalWeightKg: 70,
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error?.details?.code).toBe('VAL016');
+    });
+
+    it('generateImages 指定時に画像が無い場合は 400/VAL002', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error?.details?.code).toBe('VAL002');
+    });
+
+    it('上限を超える長さの Base64 画像はデコードせずに 400', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+        image: {
+          // 不正な文字を含むが、デコードする前に長さで拒否する
+          base64: '!'.repeat(Math.ceil((10 * 1024 * 1024) / 3) * 4 + 4),
+          mimeType: 'image/png',
+        },
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(400);
+      expect(JSON.stringify(json.error)).toContain(
+        'File size must be less than 10MB'
+      );
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('範囲外のマイルストーン番号は生成せずに 400/VAL016', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/png' },
+        imageMilestones: [4],
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(400);
+      expect(json.error?.code).toBe('VAL016');
+      expect(mockedGenerateBodyShapeImages).not.toHaveBeenCalled();
+    });
+
+    it('画像の内容が申告された MIME と一致しない場合は FILE003 で 415 を返す', async () => {
+      const res = await postPlan({
+        subject: { heightCm: 170, currentWeightKg: 80 },
+        goalWeightKg: 74,
+        generateImages: true,
+        image: { base64: createPngBase64(8, 8), mimeType: 'image/jpeg' },
+      });
+      const json = await parseJson(res);
+
+      expect(res.status).toBe(415);
+      expect(json.error?.code).toBe('FILE003');
+    });
+  });
+});
@@ -0,0 +1,398 @@
+import { zValidator } from '@hono/zod-validator';
+import { type Context, Hono } from 'hono';
+import { z } from 'zod';
+
+import { API_ERRORS } from '@/constants';
+import { createBodyShapeClient } from '@/lib';
+import type {
+  BodyShapeOptions,
+  GeneratedImage,
+  PlanMilestone,
+  PlanResponseData,
+  Subject,
+} from '@/types';
+import { Env } from '@/types';
+import {
+  assignPromptVariant,
+  BMI_LOCALES,
+  BMI_STANDARDS,
+  bytesToBase64,
+  createWeightPlan,
+  embedProvenanceBase64,
+  errorResponse,
+  evaluateSafetyPolicy,
+  getDefaultBMIStandard,
+  getRequestId,
+  ImageConversionError,
+  ImageValidationError,
+  negotiateLanguage,
+  parseMaxLongEdge,
+  parsePromptExperiment,
+  parseSafetyPolicy,
+  PROMPT_VERSIONS,
+  resolvePromptVersion,
+  sanitizeAndDownscaleImage,
+  sniffImageContent,
+  successResponse,
+  validationErrorResponse,
+} from '@/utils';
+
+import {
+  ALLOWED_MIME_TYPES,
+  base64ImageSchema,
+  createSubjectSchema,
+} from '../schemas';
+
+/**
+ * 減量・増量計画 API モジュール
+ *
+ * 現在の体格情報と目標体重・週あたりの変化量から、マイルストーン（予定日・予定体重・BMI）の
+ * スケジュールを作成するエンドポイントを提供します。指定時は選択したマイルストーンの
+ * 体型変化イメージを体型変化クライアントで生成します。
+ */
+
+const app = new Hono<Env>();
+
+/** 計画のマイルストーン数の上限。 */
+const MAX_PLAN_MILESTONES = 104;
+/** 画像を生成するマイルストーン数の上限。 */
+const MAX_PLAN_IMAGES = 3;
+
+/**
+ * リクエスト全体のスキーマ。
+ */
+const planSchema = z
+  .object({
+    /** 被写体（現在の体格。計画はメートル法で受け取る） */
+    subject: createSubjectSchema('metric'),
+    /** 目標体重[kg]（20〜300） */
+    goalWeightKg: z
+      .number()
+      .min(20, 'Target weight must be between 20 and 300 kg')
+      .max(300, 'Target weight must be between 20 and 300 kg'),
+    /** 週あたりの変化量[kg]（0.05〜5。上限を超える値は計画の作成時に丸める） */
+    weeklyRateKg: z.number().min(0.05).max(5).optional(),
+    /** マイルストーンの間隔[週]（1〜52、既定 4） */
+    milestoneIntervalWeeks: z.number().int().min(1).max(52).optional(),
+    /** 開始日（YYYY-MM-DD、既定はリクエスト日） */
+    startDate: z.iso.date().optional(),
+    /** マイルストーンの体型変化画像を生成するかどうか */
+    generateImages: z.boolean().optional(),
+    /** 入力画像（`generateImages` 指定時は必須） */
+    image: base64ImageSchema.optional(),
+    /** 画像を生成するマイルストーンの番号（既定は最後のマイルストーン） */
+    imageMilestones: z
+      .array(z.number().int().min(1))
+      .min(1)
+      .max(MAX_PLAN_IMAGES)
+      .optional(),
+    /** 画像生成のオプションと BMI 分類の判定基準 */
+    options: z
+      .object({
+        /** 出力画像の MIME（未指定時は生成画像の形式のまま） */
+        returnMimeType: z.enum(['image/png', 'image/jpeg']).optional(),
+        /** JPEG 出力時の品質（1〜100、既定 90） */
+        jpegQuality: z.number().int().min(1).max(100).optional(),
+        /** 生成のシード値 */
+        seed: z.number().optional(),
+        /** BMI 分類の判定基準（未指定時は Accept-Language から決定） */
+        bmiStandard: z
+          .enum(BMI_STANDARDS, {
+            message: `BMI standard must be one of: ${BMI_STANDARDS.join(', ')}`,
+          })
+          .optional(),
+        /** プロンプトテンプレートのバージョン（未指定時は環境変数 PROMPT_VERSION・既定のバージョン） */
+        promptVersion: z
+          .enum(PROMPT_VERSIONS, {
+            message: `Prompt version must be one of: ${PROMPT_VERSIONS.join(
+              ', '
+            )}`,
+          })
+          .optional(),
+      })
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.goalWeightKg === data.subject.currentWeightKg) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['goalWeightKg'],
+        message: 'Goal weight must differ from the current weight',
+      });
+    }
+    if (data.generateImages && !data.image) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['image'],
+        message: 'Image is required to generate milestone images',
+      });
+    }
+  });
+
+function mapPlanFieldToErrorKey(fieldName: string): keyof typeof API_ERRORS {
+  if (fieldName === 'subject') return 'VAL009';
+  if (fieldName === 'image') return 'VAL002';
+  return 'VAL016';
+}
+
+/**
+ * 選択したマイルストーンの体型変化画像を生成し、来歴メタデータを埋め込む。
+ * 画像を生成できない場合は計画のみを返せるよう、理由を `imageError` として返します。
+ */
+async function generateMilestoneImages(
+  c: Context<Env>,
+  image: { bytes: Uint8Array; mimeType: string },
+  subject: Subject,
+  milestones: PlanMilestone[],
+  options: BodyShapeOptions,
+  requestId: string
+): Promise<{
+  images?: GeneratedImage[];
+  imageError?: string;
+  model?: string;
+  promptVersion?: string;
+}> {
+  // メタデータ（EXIF/GPS 等）を除去し、向きを適用して長辺の上限まで縮小してから生成に使用する
+  const { bytes } = sanitizeAndDownscaleImage(image.bytes, {
+    maxLongEdge: parseMaxLongEdge(c.env?.MAX_INPUT_IMAGE_LONG_EDGE),
+    jpegQuality: options.jpegQuality,
+  });
+
+  const client = createBodyShapeClient(c.env);
+  const result = await client.generateBodyShapeImages({
+    imageBase64: bytesToBase64(bytes),
+    mimeType: image.mimeType,
+    subject,
+    targets: milestones.map(({ weightKg, label }) => ({ weightKg, label })),
+    options,
+  });
+  if (!result.success || !result.images) {
+    return { imageError: result.error ?? 'Failed to generate images' };
+  }
+
+  const model = result.metadata?.model ?? 'unknown';
+  const promptVersion = result.metadata?.promptVersion;
+  const provenance = {
+    model,
+    promptVersion,
+    createdAt: new Date().toISOString(),
+    requestId,
+  };
+  return {
+    images: result.images.map((generated) => ({
+      ...generated,
+      base64: embedProvenanceBase64(generated.base64, provenance),
+    })),
+    model,
+    promptVersion,
+  };
+}
+
+/**
+ * POST `/api/plan`
+ *
+ * 目標体重までのマイルストーンのスケジュールを作成します。週あたりの変化量が
+ * 医学的に妥当な上限（減量: 1kg と現在体重の 1% の小さい方、増量: 0.5kg）を超える場合は
+ * 上限に丸め、`rateAdjustment` に調整内容を記録します。`generateImages` 指定時は
+ * `imageMilestones`（既定は最後のマイルストーン）の予定体重の体型変化イメージを生成し、
+ * AI 生成の来歴メタデータを埋め込んで `images` に返します。
+ *
+ * リクエスト: application/json（`subject`, `goalWeightKg`, `weeklyRateKg?`,
+ * `milestoneIntervalWeeks?`, `startDate?`, `generateImages?`, `image?`, `imageMilestones?`, `options?`）
+ *
+ * レスポンス:
+ * - 200: `{ success: true, data: { milestones, weeklyRateKg, rateAdjustment?, images?, ... }, metadata }`
+ *   （画像を生成できない場合は計画のみを返し、`metadata.imageError` に理由を記録。
+ *   安全性ポリシーの警告に該当する場合は `metadata.warnings` に記録。マイルストーンの `category` は
+ *   `metadata.bmiStandard` の判定基準の分類名、`categoryLabel` は Accept-Language の言語（英語・日本語）の分類名。
+ *   画像の生成に使用したプロンプトテンプレートのバージョン（`options.promptVersion` または環境変数 `PROMPT_VERSION`）は
+ *   `metadata.promptVersion` に記録。環境変数 `PROMPT_EXPERIMENT` の実験で割り当てたバリアントは
+ *   `X-Client-Id` ヘッダーごとに固定され、`metadata.experiment` に記録）
+ * - 400: `{ success: false, code: 'VALIDATION_ERROR', ... }`（`details.code` は VAL009 / VAL002 / VAL016）
+ * - 415: `{ success: false, code: 'FILE003', ... }`（画像の内容が申告形式と不一致）
+ * - 422: `{ success: false, code: 'VAL018', ... }`（目標体重が安全性ポリシーに違反。該当内容は `details.violations`）
+ * - 500: `{ success: false, code: 'INTERNAL_ERROR', ... }`
+ */
+app.post(
+  '/',
+  zValidator('json', planSchema, (result, c) => {
+    if (!result.success) {
+      const fieldName = result.error.issues[0].path[0] as string;
+      const errorKey = mapPlanFieldToErrorKey(fieldName);
+
+      return validationErrorResponse(
+        c,
+        (result.error as import('zod').ZodError).flatten().fieldErrors,
+        {
+          message: API_ERRORS[errorKey].message,
+          additionalDetails: { code: API_ERRORS[errorKey].code },
+        }
+      );
+    }
+    return undefined;
+  }),
+  async (c) => {
+    try {
+      const startTime = Date.now();
+      const requestId = getRequestId(c);
+      const {
+        subject,
+        goalWeightKg,
+        weeklyRateKg,
+        milestoneIntervalWeeks,
+        startDate,
+        generateImages,
+        image,
+        imageMilestones,
+        options,
+      } = c.req.valid('json');
+
+      // 極端・不健康な目標体重は計画を作成せずに拒否し、警告はメタデータに記録する
+      const safety = evaluateSafetyPolicy(
+        parseSafetyPolicy(c.env ?? {}),
+        subject,
+        [{ weightKg: goalWeightKg }]
+      );
+      if (safety.blocks.length > 0) {
+        return errorResponse(c, 'VAL018', safety.blocks[0].message, {
+          details: { violations: safety.blocks },
+          metadata: { requestId },
+        });
+      }
+      const warnings = safety.warnings.length > 0 ? safety.warnings : undefined;
+
+      // BMI 分類の判定基準は未指定時に Accept-Language の言語から決め、分類名もその言語で返す
+      const locale =
+        negotiateLanguage(c.req.header('Accept-Language'), BMI_LOCALES) ?? 'en';
+      const bmiStandard = options?.bmiStandard ?? getDefaultBMIStandard(locale);
+
+      const plan = createWeightPlan({
+        heightCm: subject.heightCm,
+        currentWeightKg: subject.currentWeightKg,
+        goalWeightKg,
+        weeklyRateKg,
+        milestoneIntervalWeeks,
+        startDate: startDate ? new Date(startDate) : new Date(),
+        bmiStandard,
+        locale,
+      });
+      if (plan.milestones.length > MAX_PLAN_MILESTONES) {
+        return errorResponse(
+          c,
+          'VAL016',
+          `Plan must have at most ${MAX_PLAN_MILESTONES} milestones; increase milestoneIntervalWeeks or weeklyRateKg`
+        );
+      }
+
+      const data: PlanResponseData = {
+        subject,
+        goalWeightKg,
+        ...plan,
+      };
+      if (!generateImages || !image) {
+        return successResponse(c, data, {
+          metadata: {
+            processingTimeMs: Date.now() - startTime,
+            requestId,
+            bmiStandard,
+            ...(warnings && { warnings }),
+          },
+        });
+      }
+
+      const selected = (imageMilestones ?? [plan.milestones.length]).map(
+        (number) => plan.milestones[number - 1]
+      );
+      if (selected.some((milestone) => !milestone)) {
+        return errorResponse(
+          c,
+          'VAL016',
+          `Image milestones must be between 1 and ${plan.milestones.length}`
+        );
+      }
+
+      // マジックバイトから実際の形式を検証（申告された MIME は信用しない）
+      let mimeType: string;
+      try {
+        mimeType = sniffImageContent(
+          image.bytes,
+          image.mimeType,
+          ALLOWED_MIME_TYPES
+        );
+      } catch (error) {
+        if (error instanceof ImageValidationError) {
+          return errorResponse(c, 'FILE003', error.message);
+        }
+        throw error;
+      }
+
+      // プロンプトの実験中は、バージョンを指定していないリクエストへバリアントを割り当てる
+      const experiment = options?.promptVersion
+        ? undefined
+        : parsePromptExperiment(c.env ?? {});
+      const assignment =
+        experiment &&
+        assignPromptVariant(experiment, {
+          clientId: c.req.header('X-Client-Id'),
+          requestId,
+        });
+
+      let generated: Awaited<ReturnType<typeof generateMilestoneImages>>;
+      try {
+        generated = await generateMilestoneImages(
+          c,
+          { bytes: image.bytes, mimeType },
+          subject,
+          selected,
+          {
+            ...options,
+            bmiStandard,
+            promptVersion:
+              assignment?.promptVersion ??
+              resolvePromptVersion(
+                options?.promptVersion,
+                c.env?.PROMPT_VERSION
+              ),
+          },
+          requestId
+        );
+      } catch (error) {
+        if (!(error instanceof ImageConversionError)) throw error;
+        generated = { imageError: error.message };
+      }
+
+      return successResponse(
+        c,
+        { ...data, ...(generated.images && { images: generated.images }) },
+        {
+          metadata: {
+            processingTimeMs: Date.now() - startTime,
+            requestId,
+            bmiStandard,
+            ...(generated.model && { model: generated.model }),
+            ...(generated.promptVersion && {
+              promptVersion: generated.promptVersion,
+            }),
+            ...(assignment && {
+              experiment: {
+                id: assignment.experimentId,
+                variant: assignment.variant,
+                sticky: assignment.sticky,
+              },
+            }),
+            ...(generated.imageError && { imageError: generated.imageError }),
+            ...(warnings && { warnings }),
+          },
+        }
+      );
+    } catch (error) {
+      return errorResponse(
+        c,
+        'SYS001',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+  }
+);
+
+export default app;
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+
+import {
+  base64ToBytes,
+  canRenderText,
+  formatHeightRange,
+  formatWeightRange,
+  toCentimeters,
+  toKilograms,
+  type UnitSystem,
+} from '@/utils';
+
+/**
+ * API ルート共通の入力スキーマ
+ *
+ * 体型変化・計画のエンドポイントが共通して受け取る被写体（現在の体格）と
+ * Base64 の入力画像、画像生成のエンドポイントが共通して受け取る透かし設定の検証を提供し、
+ * ルート間で規則がずれないようにします。
+ */
+
+/** アップロード画像の最大サイズ（10MB）。 */
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+/** 受け付け可能な画像の MIME タイプ。 */
+export const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** 身長の範囲[cm]。 */
+export const HEIGHT_RANGE_CM = [120, 220] as const;
+/** 体重・目標体重の範囲[kg]。 */
+export const WEIGHT_RANGE_KG = [20, 300] as const;
+
+/**
+ * 単位系ごとの身長の入力フィールド（cm または ft・in）。
+ */
+export function heightShape(
+  unitSystem: UnitSystem
+): Record<string, z.ZodType<number | undefined>> {
+  if (unitSystem === 'metric') return { heightCm: z.number() };
+  return {
+    heightFt: z.number().int().min(0),
+    heightIn: z.number().min(0).lt(12).optional(),
+  };
+}
+
+/**
+ * 単位系ごとの体重の入力フィールド（`name` + Kg / Lb / St・Lb）。
+ */
+export function weightShape(
+  unitSystem: UnitSystem,
+  name: string
+): Record<string, z.ZodType<number | undefined>> {
+  if (unitSystem === 'metric') return { [`${name}Kg`]: z.number() };
+  if (unitSystem === 'us') return { [`${name}Lb`]: z.number() };
+  return {
+    [`${name}St`]: z.number().int().min(0),
+    [`${name}Lb`]: z.number().min(0).lt(14).optional(),
+  };
+}
+
+/**
+ * メートル法へ変換した体重の範囲の検証。メッセージは入力の単位系で表記します。
+ */
+export function weightRangeSchema(unitSystem: UnitSystem, subject: string) {
+  const message = `${subject} must be between ${formatWeightRange(
+    ...WEIGHT_RANGE_KG,
+    unitSystem
+  )}`;
+  return z
+    .number()
+    .min(WEIGHT_RANGE_KG[0], message)
+    .max(WEIGHT_RANGE_KG[1], message);
+}
+
+/**
+ * 被写体の任意の体格情報（単位系によらず共通）。
+ */
+const subjectProfileSchema = z.object({
+  /** 性別 */
+  sex: z
+    .enum(['female', 'male'], { message: 'Sex must be one of: female, male' })
+    .optional(),
+  /** 年齢[歳]（1〜120。下限は安全性ポリシーで検査） */
+  ageYears: z
+    .number()
+    .int('Age must be an integer')
+    .min(1, 'Age must be between 1 and 120 years')
+    .max(120, 'Age must be between 1 and 120 years')
+    .optional(),
+  /** 体脂肪率[%]（3〜70） */
+  bodyFatPercent: z
+    .number()
+    .min(3, 'Body fat must be between 3 and 70 %')
+    .max(70, 'Body fat must be between 3 and 70 %')
+    .optional(),
+  /** 体格 */
+  build: z
+    .enum(['slim', 'average', 'muscular'], {
+      message: 'Build must be one of: slim, average, muscular',
+    })
+    .optional(),
+});
+
+/**
+ * 被写体（現在の体格）入力のスキーマ。
+ * 単位系のフィールドで受け取り、メートル法へ変換してから範囲を検証します。
+ * 性別・年齢・体脂肪率・体格はそのまま引き継ぎます。
+ */
+export function createSubjectSchema(unitSystem: UnitSystem) {
+  const heightMessage = `Height must be between ${formatHeightRange(
+    ...HEIGHT_RANGE_CM,
+    unitSystem
+  )}`;
+  return z
+    .object({
+      ...heightShape(unitSystem),
+      ...weightShape(unitSystem, 'currentWeight'),
+    })
+    .and(subjectProfileSchema)
+    .transform(({ sex, ageYears, bodyFatPercent, build, ...fields }) => ({
+      heightCm: toCentimeters(fields, unitSystem),
+      currentWeightKg: toKilograms(fields, unitSystem, 'currentWeight'),
+      ...(sex !== undefined && { sex }),
+      ...(ageYears !== undefined && { ageYears }),
+      ...(bodyFatPercent !== undefined && { bodyFatPercent }),
+      ...(build !== undefined && { build }),
+    }))
+    .pipe(
+      z.object({
+        /** 身長[cm]（120〜220） */
+        heightCm: z
+          .number()
+          .min(HEIGHT_RANGE_CM[0], heightMessage)
+          .max(HEIGHT_RANGE_CM[1], heightMessage),
+        /** 現在体重[kg]（20〜300） */
+        currentWeightKg: weightRangeSchema(unitSystem, 'Weight'),
+        ...subjectProfileSchema.shape,
+      })
+    );
+}
+
+/**
+ * `MAX_FILE_SIZE` のバイト列を Base64 へ変換した文字列の最大長（パディングを含む）。
+ */
+const MAX_BASE64_LENGTH = Math.ceil(MAX_FILE_SIZE / 3) * 4;
+
+/**
+ * data URL（`data:image/png;base64,...`）の形式。
+ */
+const DATA_URL_PATTERN = /^data:([^;,]+)(?:;[^;,]+)*;base64,(.*)$/s;
+
+/**
+ * Base64 で受け取る入力画像のスキーマ。
+ * `{ base64, mimeType }` または data URL の文字列をバイト列へ変換し、
+ * multipart のアップロードと同じサイズ・MIME タイプの規則で検証します。
+ */
+export const base64ImageSchema = z
+  .union([
+    z.object({
+      /** Base64 文字列（data: プレフィックスなし） */
+      base64: z.string().min(1),
+      /** 画像の MIME タイプ */
+      mimeType: z.string().min(1),
+    }),
+    z.string().min(1),
+  ])
+  .transform((value, ctx) => {
+    const match =
+      typeof value === 'string' ? DATA_URL_PATTERN.exec(value) : undefined;
+    if (match === null) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Image must be a base64 data URL',
+      });
+      return z.NEVER;
+    }
+    const { base64, mimeType } =
+      typeof value === 'string'
+        ? { base64: match?.[2] ?? '', mimeType: match?.[1] ?? '' }
+        : value;
+    // 上限を大きく超える文字列はデコードせずに拒否する
+    if (base64.length > MAX_BASE64_LENGTH) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+      });
+      return z.NEVER;
+    }
+    try {
+      return { bytes: base64ToBytes(base64), mimeType: mimeType.toLowerCase() };
+    } catch {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Image must be valid base64',
+      });
+      return z.NEVER;
+    }
+  })
+  .refine((image) => image.bytes.length <= MAX_FILE_SIZE, {
+    message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+  })
+  .refine((image) => ALLOWED_MIME_TYPES.includes(image.mimeType), {
+    message: `File type must be one of: ${ALLOWED_MIME_TYPES.join(', ')}`,
+  });
+
+/**
+ * 生成画像へ焼き込む透かし設定のスキーマ。
+ */
+export const watermarkSchema = z.object({
+  /** 透かしの種類（logo は環境変数のロゴを使用） */
+  type: z.enum(['text', 'logo']).optional(),
+  /** テキストの文言（英数字と一部の記号のみ） */
+  text: z
+    .string()
+    .min(1)
+    .max(40)
+    .refine(canRenderText, {
+      message:
+        'Watermark text must contain only letters, digits and basic symbols',
+    })
+    .optional(),
+  /** 配置位置 */
+  position: z
+    .enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'])
+    .optional(),
+  /** 不透明度（0〜1） */
+  opacity: z.number().min(0).max(1).optional(),
+});
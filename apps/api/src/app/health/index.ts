@@ -1,15 +1,27 @@
 import { Hono } from 'hono';
 
 import { Env } from '@/types';
-import { successResponse } from '@/utils';
+import {
+  defaultPromptExperimentStore,
+  parsePromptExperiment,
+  successResponse,
+} from '@/utils';
 
 const app = new Hono<Env>();
 
 app.get('/', (c) => {
+  // 実行中のプロンプトの実験は、このインスタンスで割り当てたバリアントごとの件数を返す
+  const experiment = parsePromptExperiment(c.env ?? {});
   return successResponse(c, {
     status: 'ok',
     service: 'slimoro-api',
-    version: '1.0.0'
+    version: '1.0.0',
+    ...(experiment && {
+      experiment: {
+        id: experiment.id,
+        assignments: defaultPromptExperimentStore.getCounts(experiment.id),
+      },
+    }),
   }, {
     metadata: {
       timestamp: new Date().toISOString(),
@@ -112,6 +112,55 @@ export const API_ERRORS = {
     httpStatus: HTTP_STATUS.BAD_REQUEST
   },
 
+  /** 透かし設定が不正 */
+  VAL013: {
+    code: 'VAL013',
+    message: 'Watermark must be valid JSON with a supported position, opacity and text',
+    httpStatus: HTTP_STATUS.BAD_REQUEST
+  },
+
+  /** Accept ヘッダーで要求された形式で応答できない */
+  VAL014: {
+    code: 'VAL014',
+    message: 'Requested response format is not acceptable',
+    httpStatus: HTTP_STATUS.NOT_ACCEPTABLE
+  },
+
+  /** タイムライン設定が不正 */
+  VAL015: {
+    code: 'VAL015',
+    message: 'Timeline must be valid JSON with startWeightKg, endWeightKg and steps (1-8)',
+    httpStatus: HTTP_STATUS.BAD_REQUEST
+  },
+
+  /** 減量・増量計画の設定が不正 */
+  VAL016: {
+    code: 'VAL016',
+    message: 'Plan must have a goal weight different from the current weight, a positive weekly rate and valid milestones',
+    httpStatus: HTTP_STATUS.BAD_REQUEST
+  },
+
+  /** 単位系の指定が不正 */
+  VAL017: {
+    code: 'VAL017',
+    message: 'Unit system must be one of: metric, us, uk',
+    httpStatus: HTTP_STATUS.BAD_REQUEST
+  },
+
+  /** 目標が健康上の安全性ポリシーに違反 */
+  VAL018: {
+    code: 'VAL018',
+    message: 'Target violates the health safety policy',
+    httpStatus: HTTP_STATUS.UNPROCESSABLE_ENTITY
+  },
+
+  /** 視点のラベルの指定が不正 */
+  VAL019: {
+    code: 'VAL019',
+    message: 'Views must be a JSON array of up to 3 unique labels, one per image',
+    httpStatus: HTTP_STATUS.BAD_REQUEST
+  },
+
   // ═══════════════════════════════════════════════════════════════
   // ファイル処理エラー (FILE001-999)
   // ═══════════════════════════════════════════════════════════════
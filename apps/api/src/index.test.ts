@@ -31,6 +31,18 @@ describe('Health Check Endpoint', () => {
       expect(res.headers.get('content-type')).toMatch(/application\/json/);
     });
 
+    it('should include prompt experiment assignment counts when an experiment is running', async () => {
+      const res = await app.request('http://localhost/health', {}, {
+        PROMPT_EXPERIMENT: JSON.stringify({
+          id: 'wording-1',
+          variants: [{ name: 'control', promptVersion: 'body-shape@v2', percent: 100 }],
+        }),
+      });
+      const body = (await res.json()) as { data: { experiment?: unknown } };
+
+      expect(body.data.experiment).toEqual({ id: 'wording-1', assignments: {} });
+    });
+
     it('should include timestamp in ISO format', async () => {
       const res = await app.request('http://localhost/health');
       const body = await res.json();
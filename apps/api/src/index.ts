@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { poweredBy } from 'hono/powered-by';
+import { requestId } from 'hono/request-id';
 
 import api from './app/api';
 import health from './app/health';
@@ -9,6 +10,8 @@ import { Env } from './types';
 
 const app = new Hono<Env>();
 
+// リクエスト ID（X-Request-Id ヘッダーを優先。生成画像の来歴メタデータにも記録）
+app.use('*', requestId());
 app.use('*', logger());
 app.use('*', poweredBy());
 app.use(
@@ -1,134 +1,281 @@
 import type {
+  BackgroundCheckResult,
+  BMIStandard,
   BodyShapeGenerationOptions,
   BodyShapeGenerationResult,
+  BodyShapeOptions,
   GeneratedImage,
+  GenerationFailure,
+  InputView,
+  PromptVersion,
   Subject,
   TargetWeight,
+  TransformationIntensityResult,
+  ViewImages,
 } from '@/types';
 import { Env } from '@/types';
+import {
+  base64ToBytes,
+  BMI_CLASSIFICATIONS,
+  bytesToBase64,
+  calculateBMI,
+  convertImageFormat,
+  createWatermarkTransform,
+  decodeImage,
+  DEFAULT_BACKGROUND_SIMILARITY_THRESHOLD,
+  DEFAULT_PROMPT_VERSION,
+  getBMICategory,
+  isPassthroughTarget,
+  mapWithConcurrency,
+  matchColors,
+  measureBackgroundSimilarity,
+  replaceTemplate,
+  resolveIntensity,
+  resolveTransformation,
+  type RgbaImage,
+} from '@/utils';
 
 import { GeminiClient } from './gemini-client';
+import { PROMPT_TEMPLATES, type PromptTemplate } from './prompt-templates';
+
+// 年齢による肌の変化を指示する年齢（テンプレートの olderAdultDescription、歳）
+export const OLDER_ADULT_AGE_YEARS = 50;
+
+// 画像生成の同時実行数の上限（Gemini の利用制限を超えないようにする）
+export const MAX_CONCURRENT_GENERATIONS = 3;
 
 /**
- * プロンプト部品の定数定義
+ * プロンプトの生成オプション（生成オプションのうちプロンプトに影響するもの）
  */
+type PromptOptions = Pick<
+  BodyShapeOptions,
+  'intensityOverride' | 'bmiStandard' | 'promptVersion'
+>;
 
-// 体型変化の詳細説明
-export const WEIGHT_LOSS_DESCRIPTION =
-  'Fat is reduced. The body becomes slimmer.';
-export const WEIGHT_GAIN_DESCRIPTION = 'The body becomes fuller.';
-
-// 保持指示
-export const PRESERVATION_INSTRUCTION =
-  'No changes to any element other than his/her physique will be permitted.';
+/**
+ * 生成画像を `returnMimeType` で指定された形式へ変換する
+ * @param base64 Geminiが返したBase64画像
+ * @param returnedMimeType Geminiが返したMIMEタイプ
+ * @param bodyOptions 生成オプション
+ * @param transform エンコード前に適用する画素の変換（色調補正・透かし。指定時は変換に失敗すると例外をスロー）
+ * @returns 実際の形式・サイズを反映した画像情報
+ */
+function toOutputImage(
+  base64: string,
+  returnedMimeType: string | undefined,
+  bodyOptions: BodyShapeOptions | undefined,
+  transform?: (image: RgbaImage) => RgbaImage
+): Omit<GeneratedImage, 'label'> {
+  // シグネチャから形式を判別できない場合のみ申告値を使用する
+  const fallbackMimeType =
+    returnedMimeType || bodyOptions?.returnMimeType || 'image/png';
 
-// 構造化XMLプロンプトテンプレート
-export const STRUCTURED_PROMPT_TEMPLATE = `<subject>
-Height: {height} cm, Weight: {currentWeight} kg (BMI: {currentBMI}, {currentCategory})
-</subject>
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(base64);
+  } catch (error) {
+    // 透かしなしの画像は返さない
+    if (transform) throw error;
+    return { base64, mimeType: fallbackMimeType, width: 0, height: 0 };
+  }
 
-<transformation>
-Target weight: {targetWeight} kg (Target BMI: {targetBMI}, {targetCategory})
-Change: {weightDiff} kg {direction}. {description}
-</transformation>
+  // 色調補正と透かしはエンコード直前に適用するため、形式変換後も保持される
+  const converted = convertImageFormat(bytes, {
+    targetMimeType: bodyOptions?.returnMimeType,
+    jpegQuality: bodyOptions?.jpegQuality,
+    fallbackMimeType,
+    transform,
+  });
 
-<bmi_reference>
-BMI Categories: Severe thinness (<16.0), Moderate thinness (16.0-16.9), Mild thinness (17.0-18.49), Normal weight (18.5-24.9), Overweight (25.0-29.9), Obesity Class 1 (30.0-34.9), Obesity Class 2 (35.0-39.9), Obesity Class 3 (≥40.0)
-</bmi_reference>
+  return {
+    base64: converted.bytes === bytes ? base64 : bytesToBase64(converted.bytes),
+    mimeType: converted.mimeType,
+    width: converted.width,
+    height: converted.height,
+  };
+}
 
-<constraints>
-{preservationInstruction}
-</constraints>`;
+/**
+ * Base64 の画像をデコードする（デコードできない形式・不正なデータの場合は undefined）
+ */
+function tryDecodeBase64Image(base64: string): RgbaImage | undefined {
+  try {
+    return decodeImage(base64ToBytes(base64));
+  } catch {
+    return undefined;
+  }
+}
 
 /**
- * テンプレート文字列の {key} を対応する値で置換するヘルパー関数
+ * 生成画像へエンコード前に適用する変換（色調補正 → 透かし）を組み立てる
+ * 色調補正は元画像と生成画像の両方をデコードできる場合のみ適用する
  */
-function replaceTemplate(
-  template: string,
-  replacements: Record<string, string | number>
-): string {
-  return template.replace(/\{(\w+)\}/g, (match, key) => {
-    const value = replacements[key];
-    return value !== undefined ? String(value) : match;
-  });
+function createOutputTransform(
+  bodyOptions: BodyShapeOptions | undefined,
+  originalImage: RgbaImage | undefined,
+  generatedImage: RgbaImage | undefined,
+  watermark: ((image: RgbaImage) => RgbaImage) | undefined
+): ((image: RgbaImage) => RgbaImage) | undefined {
+  const colorMatch = bodyOptions?.colorMatch;
+  if (!colorMatch || !originalImage || !generatedImage) return watermark;
+
+  return (image) => {
+    const matched = matchColors(image, originalImage, colorMatch);
+    return watermark ? watermark(matched) : matched;
+  };
 }
 
 /**
- * BMI計算関数
- * @param heightCm 身長（cm）
- * @param weightKg 体重（kg）
- * @returns BMI値（小数点以下1桁まで）
+ * プロンプト組み合わせ関数群
+ */
+
+/**
+ * 被写体の任意の体格情報（性別・年齢・体脂肪率・体格）を `<subject>` の追加行へ変換する
+ * いずれも未指定の場合は空文字を返す
  */
-function calculateBMI(heightCm: number, weightKg: number): number {
-  const heightM = heightCm / 100;
-  const bmi = weightKg / (heightM * heightM);
-  return Math.round(bmi * 10) / 10;
+function createSubjectProfile(
+  subject: Subject,
+  template: PromptTemplate
+): string {
+  const attributes = [
+    subject.sex && `Sex: ${subject.sex}`,
+    subject.ageYears !== undefined && `Age: ${subject.ageYears} years`,
+    subject.bodyFatPercent !== undefined &&
+      `Body fat: ${subject.bodyFatPercent}%`,
+    subject.build && `Build: ${subject.build}`,
+  ].filter((attribute) => typeof attribute === 'string');
+  if (attributes.length === 0) return '';
+
+  const lines = [
+    attributes.join(', '),
+    subject.build && template.buildDescriptions[subject.build],
+    subject.sex && template.fatDistributionDescriptions[subject.sex],
+    subject.ageYears !== undefined &&
+      subject.ageYears >= OLDER_ADULT_AGE_YEARS &&
+      template.olderAdultDescription,
+  ].filter((line) => typeof line === 'string');
+  return `\n${lines.join('\n')}`;
 }
 
 /**
- * BMI分類判定関数
- * @param bmi BMI値
- * @returns BMI分類の英語表現
+ * 判定基準の BMI 分類を `<bmi_reference>` の一覧へ変換する
+ * （例: "Underweight (<18.5), Normal weight (18.5-24.9), ..., Obesity, Grade 4 (≥40.0)"）
  */
-function getBMICategory(bmi: number): string {
-  if (bmi < 16.0) return 'Severe thinness';
-  if (bmi < 17.0) return 'Moderate thinness';
-  if (bmi < 18.5) return 'Mild thinness';
-  if (bmi < 25.0) return 'Normal weight';
-  if (bmi < 30.0) return 'Overweight';
-  if (bmi < 35.0) return 'Obesity, Class 1';
-  if (bmi < 40.0) return 'Obesity, Class 2';
-  return 'Obesity, Class 3';
+function createBMICategoryList(bmiStandard: BMIStandard): string {
+  const { classes } = BMI_CLASSIFICATIONS[bmiStandard];
+  return classes
+    .map(({ min, labels }, index) => {
+      const next = classes[index + 1]?.min;
+      const range =
+        index === 0
+          ? `<${next.toFixed(1)}`
+          : next === undefined
+          ? `≥${min.toFixed(1)}`
+          : `${min.toFixed(1)}-${(next - 0.1).toFixed(1)}`;
+      return `${labels.en} (${range})`;
+    })
+    .join(', ');
 }
 
 /**
- * プロンプト組み合わせ関数群
+ * プロンプトの BMI 分類・強度に使用する判定基準を求める
+ * 分類表を固定したテンプレート（body-shape@v1）では、`bmiStandard` に関わらずその判定基準を使用する
  */
+function resolvePromptBMIStandard(options: PromptOptions = {}): BMIStandard {
+  const { promptVersion = DEFAULT_PROMPT_VERSION } = options;
+  return (
+    PROMPT_TEMPLATES[promptVersion].bmiStandard ?? options.bmiStandard ?? 'who'
+  );
+}
 
 /**
- * 構造化プロンプトを生成する（減量・増量共通）
+ * 構造化プロンプトを生成する（変化の種類共通）
+ * テンプレートのプレースホルダーが未解決の場合は `PromptTemplateError` をスローする
  */
 function createStructuredPrompt(
   subject: Subject,
-  target: TargetWeight
+  target: TargetWeight,
+  options: PromptOptions = {}
 ): string {
+  const { intensityOverride, promptVersion = DEFAULT_PROMPT_VERSION } = options;
+  const template = PROMPT_TEMPLATES[promptVersion];
+  // 分類表を固定したテンプレートでは、分類名も表と同じ判定基準で求める
+  const bmiStandard = resolvePromptBMIStandard(options);
   const currentBMI = calculateBMI(subject.heightCm, subject.currentWeightKg);
   const targetBMI = calculateBMI(subject.heightCm, target.weightKg);
-  const currentCategory = getBMICategory(currentBMI);
-  const targetCategory = getBMICategory(targetBMI);
-
-  const weightDiff = Math.abs(target.weightKg - subject.currentWeightKg);
-  const isWeightLoss = target.weightKg < subject.currentWeightKg;
-  const direction = isWeightLoss ? 'lighter' : 'heavier';
-  const description = isWeightLoss
-    ? WEIGHT_LOSS_DESCRIPTION
-    : WEIGHT_GAIN_DESCRIPTION;
-
-  return replaceTemplate(STRUCTURED_PROMPT_TEMPLATE, {
-    height: subject.heightCm,
-    currentWeight: subject.currentWeightKg,
-    currentBMI,
-    currentCategory,
-    targetWeight: target.weightKg,
-    targetBMI,
-    targetCategory,
-    weightDiff,
-    direction,
-    description,
-    preservationInstruction: PRESERVATION_INSTRUCTION,
-  });
+  const currentCategory = getBMICategory(currentBMI, bmiStandard);
+  const targetCategory = getBMICategory(targetBMI, bmiStandard);
+
+  // ヤード・ポンド法から換算した体重でも浮動小数点の誤差を表示しないよう丸める
+  const weightDiff =
+    Math.round(Math.abs(target.weightKg - subject.currentWeightKg) * 100) / 100;
+  const direction =
+    target.weightKg < subject.currentWeightKg ? 'lighter' : 'heavier';
+  const change =
+    weightDiff === 0 ? 'No weight change' : `${weightDiff} kg ${direction}`;
+  const transformation = resolveTransformation(
+    subject.currentWeightKg,
+    target.weightKg,
+    target.transformation
+  );
+  // 体重が変わらない目標は呼び出し元で除外するため、通常は必ず種類が決まる
+  if (!transformation) {
+    throw new Error(
+      'No body shape change needed when target weight equals current weight'
+    );
+  }
+  const { level } = resolveIntensity(
+    subject.heightCm,
+    subject.currentWeightKg,
+    target.weightKg,
+    intensityOverride,
+    bmiStandard
+  );
+
+  return replaceTemplate(
+    template.template,
+    {
+      height: subject.heightCm,
+      currentWeight: subject.currentWeightKg,
+      currentBMI,
+      currentCategory,
+      profile: createSubjectProfile(subject, template),
+      targetWeight: target.weightKg,
+      targetBMI,
+      targetCategory,
+      change,
+      description: template.transformationDescriptions[transformation],
+      intensityLevel: level,
+      intensityDescription: template.intensityDescriptions[level],
+      bmiStandardName: BMI_CLASSIFICATIONS[bmiStandard].names.en,
+      bmiCategories: createBMICategoryList(bmiStandard),
+      preservationInstruction: template.preservationInstruction,
+    },
+    { strict: true }
+  );
 }
 
 /**
  * 対象者情報と目標体重から、構造化された体型変化のプロンプトを生成する。
+ * `target.transformation` 指定時は種類ごとの説明を使用し、リコンポジション・引き締めは
+ * 現在と同じ体重でも生成する。
+ * 強度の段階は体重の変化率と BMI 分類の隔たりから決め、`intensityOverride` 指定時はそれを使用する。
+ * BMI 分類と `<bmi_reference>` は `bmiStandard` の判定基準（既定は WHO）を使用する。
+ * 分類表を固定したテンプレート（body-shape@v1）では、そのテンプレートの判定基準を使用する。
+ * テンプレートは `promptVersion`（既定は `DEFAULT_PROMPT_VERSION`）のものを使用する。
  */
 export function generateBodyShapePrompt(
   subject: Subject,
-  target: TargetWeight
+  target: TargetWeight,
+  options?: PromptOptions
 ): string {
-  const weightDiff = target.weightKg - subject.currentWeightKg;
-
-  if (weightDiff === 0) {
+  if (
+    isPassthroughTarget(
+      subject.currentWeightKg,
+      target.weightKg,
+      target.transformation
+    )
+  ) {
     // 体重変化なしの場合はエラーとして扱われるべきだが、
     // プロンプト生成の段階では一応対応しておく
     throw new Error(
@@ -136,16 +283,49 @@ export function generateBodyShapePrompt(
     );
   }
 
-  return createStructuredPrompt(subject, target);
+  return createStructuredPrompt(subject, target, options);
+}
+
+/**
+ * 複数の視点を指定した場合に、視点ごとのプロンプトへ追加する指示を生成する
+ * テンプレートのプレースホルダーが未解決の場合は `PromptTemplateError` をスローする
+ */
+function createMultiViewInstruction(
+  views: InputView[],
+  viewIndex: number,
+  promptVersion: PromptVersion
+): string {
+  const otherViews = views
+    .filter((_, index) => index !== viewIndex)
+    .map(({ view }) => view);
+  return replaceTemplate(
+    PROMPT_TEMPLATES[promptVersion].multiViewInstruction,
+    { view: views[viewIndex].view, otherViews: otherViews.join(', ') },
+    { strict: true }
+  );
 }
 
 /**
  * 指定されたターゲット一覧に対し、体型変化画像を生成する。
  * 内部で GeminiClient を利用し、必要に応じて seed を付与する。
+ * 生成は `MAX_CONCURRENT_GENERATIONS` 件ずつ並行に実行し、結果はターゲットと同じ順序で返す。
+ * `options.colorMatch` 指定時は各生成画像の色調を元画像に合わせて補正してから出力形式へエンコードする。
+ * `options.watermark` 指定時は各生成画像へ透かしを焼き込み、焼き込めなかった画像は失敗として扱う。
+ * 生成画像ごとに元画像との背景の類似度を計測して `metadata.backgroundChecks` に記録し、
+ * `options.backgroundCheck.retry` 指定時は閾値を下回ったターゲットを 1 回だけ再生成する。
+ * 生成したターゲットごとの体型変化の強度を `metadata.intensities` に記録する。
+ * プロンプトは `options.promptVersion` のテンプレートで生成前にすべて組み立て、未解決の
+ * プレースホルダーがある場合は Gemini へ送信せずに `PromptTemplateError` をスローする。
+ * 使用したバージョンは `metadata.promptVersion` に記録する。
+ * `additionalViews` 指定時はターゲット × 視点ごとに生成し、生成する視点の画像に続けて他の視点の画像を
+ * 参照として渡すことで、すべての視点で一貫した体型変化にする。結果は視点ごとに `views` へまとめ、
+ * `images` には入力画像（最初の視点）の画像を返す。一部のターゲット・視点の生成に失敗しても、
+ * 1 件でも成功していれば成功した画像を視点ごとに返し、失敗数を `metadata.partialFailures` に記録する。
  */
 export async function generateBodyShapeImages(
   options: BodyShapeGenerationOptions,
-  apiKey: string
+  apiKey: string,
+  watermarkLogoBase64?: string
 ): Promise<BodyShapeGenerationResult> {
   const {
     imageBase64,
@@ -154,10 +334,19 @@ export async function generateBodyShapeImages(
     targets,
     options: bodyOptions,
   } = options;
+  const views: InputView[] = [
+    { view: options.view ?? 'view-1', imageBase64, mimeType },
+    ...(options.additionalViews ?? []),
+  ];
+  const isMultiView = views.length > 1;
 
   // 体重変化なしのターゲットをチェック
-  const noChangeTargets = targets.filter(
-    (target) => target.weightKg === subject.currentWeightKg
+  const noChangeTargets = targets.filter((target) =>
+    isPassthroughTarget(
+      subject.currentWeightKg,
+      target.weightKg,
+      target.transformation
+    )
   );
   if (noChangeTargets.length > 0) {
     return {
@@ -167,58 +356,159 @@ export async function generateBodyShapeImages(
     };
   }
 
+  // テンプレートの不備を個々の生成の失敗として隠さないよう、生成前に組み立てる
+  const promptVersion = bodyOptions?.promptVersion ?? DEFAULT_PROMPT_VERSION;
+  const prompts = new Map(
+    targets.map((target) => [
+      target,
+      generateBodyShapePrompt(subject, target, {
+        ...bodyOptions,
+        promptVersion,
+      }),
+    ])
+  );
+  const viewInstructions = isMultiView
+    ? views.map((_, viewIndex) =>
+        createMultiViewInstruction(views, viewIndex, promptVersion)
+      )
+    : undefined;
+
   const geminiClient = new GeminiClient(apiKey);
+  const watermark = bodyOptions?.watermark
+    ? createWatermarkTransform(bodyOptions.watermark, watermarkLogoBase64)
+    : undefined;
+  const threshold =
+    bodyOptions?.backgroundCheck?.threshold ??
+    DEFAULT_BACKGROUND_SIMILARITY_THRESHOLD;
+  const originalImages = views.map((view) =>
+    tryDecodeBase64Image(view.imageBase64)
+  );
   const startTime = Date.now();
-  let failedCount = 0;
 
-  const generatePromises: Array<Promise<GeneratedImage | null>> = targets.map(
-    async (target): Promise<GeneratedImage | null> => {
+  /** 1 ターゲット・1 視点分の画像を生成し、背景の類似度を計測する */
+  const generateCandidate = async (target: TargetWeight, viewIndex: number) => {
+    const prompt = viewInstructions
+      ? `${prompts.get(target)}\n\n${viewInstructions[viewIndex]}`
+      : (prompts.get(target) as string);
+    const originalImage = originalImages[viewIndex];
+    const {
+      success,
+      imageBase64: generatedImageBase64,
+      mimeType: returnedMimeType,
+      error,
+    } = await geminiClient.generateImage({
+      prompt,
+      imageBase64: views[viewIndex].imageBase64,
+      mimeType: views[viewIndex].mimeType,
+      ...(isMultiView && {
+        referenceImages: views.filter((_, index) => index !== viewIndex),
+      }),
+      generationConfig:
+        bodyOptions?.seed !== undefined
+          ? { seed: bodyOptions.seed }
+          : undefined,
+    });
+
+    if (!success || !generatedImageBase64) {
+      throw new Error(error || 'No image generated in response');
+    }
+
+    // 色調補正・透かしの影響を受けないよう、加工前の画像で計測する
+    const generatedImage = originalImage
+      ? tryDecodeBase64Image(generatedImageBase64)
+      : undefined;
+    return {
+      base64: generatedImageBase64,
+      mimeType: returnedMimeType,
+      image: generatedImage,
+      score:
+        originalImage && generatedImage
+          ? measureBackgroundSimilarity(originalImage, generatedImage)
+          : undefined,
+    };
+  };
+
+  // 視点ごとの生成もまとめて同時実行数を制限する
+  const jobs = targets.flatMap((target, targetIndex) =>
+    views.map((_, viewIndex) => ({ target, targetIndex, viewIndex }))
+  );
+  const results = await mapWithConcurrency(
+    jobs,
+    MAX_CONCURRENT_GENERATIONS,
+    async ({
+      target,
+      viewIndex,
+    }): Promise<{
+      image: GeneratedImage;
+      check?: BackgroundCheckResult;
+    } | null> => {
       try {
-        const prompt = generateBodyShapePrompt(subject, target);
-        const {
-          success,
-          imageBase64: generatedImageBase64,
-          mimeType: returnedMimeType,
-          error,
-        } = await geminiClient.generateImage({
-          prompt,
-          imageBase64,
-          mimeType,
-          generationConfig:
-            bodyOptions?.seed !== undefined
-              ? { seed: bodyOptions.seed }
-              : undefined,
-        });
-
-        if (!success || !generatedImageBase64) {
-          throw new Error(error || 'No image generated in response');
+        let candidate = await generateCandidate(target, viewIndex);
+        let retried = false;
+
+        // 背景が変化している場合は 1 回だけ再生成し、類似度の高い方を採用する
+        if (
+          bodyOptions?.backgroundCheck?.retry &&
+          candidate.score !== undefined &&
+          candidate.score < threshold
+        ) {
+          retried = true;
+          try {
+            const retry = await generateCandidate(target, viewIndex);
+            if (retry.score !== undefined && retry.score > candidate.score) {
+              candidate = retry;
+            }
+          } catch {
+            // 再生成に失敗した場合は初回の画像を採用する
+          }
         }
 
-        const outputMimeType =
-          returnedMimeType || bodyOptions?.returnMimeType || 'image/png';
         const generated: GeneratedImage = {
           label: target.label,
-          base64: generatedImageBase64,
-          mimeType: outputMimeType,
-          width: 1024, // Default size, could be extracted from actual image
-          height: 1024,
+          ...toOutputImage(
+            candidate.base64,
+            candidate.mimeType,
+            bodyOptions,
+            createOutputTransform(
+              bodyOptions,
+              originalImages[viewIndex],
+              candidate.image,
+              watermark
+            )
+          ),
         };
-        return generated;
+        const check: BackgroundCheckResult | undefined =
+          candidate.score !== undefined
+            ? {
+                ...(target.label !== undefined && { label: target.label }),
+                ...(isMultiView && { view: views[viewIndex].view }),
+                score: Math.round(candidate.score * 1000) / 1000,
+                passed: candidate.score >= threshold,
+                retried,
+              }
+            : undefined;
+        return { image: generated, check };
       } catch {
-        failedCount++;
         return null;
       }
     }
   );
 
-  const generatedImages: Array<GeneratedImage | null> = await Promise.all(
-    generatePromises
+  const successfulResults = results.filter(
+    (result): result is NonNullable<typeof result> => result !== null
   );
-  const successfulImages: GeneratedImage[] = generatedImages.filter(
-    (img): img is GeneratedImage => img !== null
+  const viewImages: ViewImages[] = views.map(({ view }, viewIndex) => ({
+    view,
+    images: results.flatMap((result, index) =>
+      result && jobs[index].viewIndex === viewIndex ? [result.image] : []
+    ),
+  }));
+  const failures: GenerationFailure[] = jobs.flatMap(
+    ({ targetIndex, viewIndex }, index) =>
+      results[index] ? [] : [{ targetIndex, viewIndex }]
   );
 
-  if (successfulImages.length === 0) {
+  if (successfulResults.length === 0) {
     return {
       success: false,
       error: 'All image generations failed',
@@ -226,16 +516,44 @@ export async function generateBodyShapeImages(
   }
 
   const processingTime = Date.now() - startTime;
-  const confidence = Math.max(0.8, 1.0 - (failedCount / targets.length) * 0.2);
+  const backgroundChecks = successfulResults.flatMap((result) =>
+    result.check ? [result.check] : []
+  );
+  // 強度はターゲットごとに決まるため、いずれかの視点で生成できたターゲットを記録する
+  // （判定基準はプロンプトと同じものを使用する）
+  const bmiStandard = resolvePromptBMIStandard({
+    ...bodyOptions,
+    promptVersion,
+  });
+  const intensities: TransformationIntensityResult[] = targets
+    .filter((target) =>
+      jobs.some((job, index) => job.target === target && results[index])
+    )
+    .map((target) => ({
+      ...(target.label !== undefined && { label: target.label }),
+      ...resolveIntensity(
+        subject.heightCm,
+        subject.currentWeightKg,
+        target.weightKg,
+        bodyOptions?.intensityOverride,
+        bmiStandard
+      ),
+    }));
 
   return {
     success: true,
-    images: successfulImages,
+    images: viewImages[0].images,
+    ...(isMultiView && { views: viewImages }),
+    ...(failures.length > 0 && { failures }),
     metadata: {
       processingTimeMs: processingTime,
-      confidence,
-      model: 'gemini-2.5-flash-image-preview',
-      ...(failedCount > 0 && { partialFailures: failedCount }),
+      // 信頼度は最も背景が変化した画像の類似度とする（計測できた画像が無い場合は 1）
+      confidence: Math.min(1, ...backgroundChecks.map((check) => check.score)),
+      ...(backgroundChecks.length > 0 && { backgroundChecks }),
+      intensities,
+      model: geminiClient.model,
+      promptVersion,
+      ...(failures.length > 0 && { partialFailures: failures.length }),
     },
   };
 }
@@ -243,7 +561,11 @@ export async function generateBodyShapeImages(
 export function createBodyShapeClient(env: Env['Bindings']) {
   return {
     generateBodyShapeImages: (options: BodyShapeGenerationOptions) =>
-      generateBodyShapeImages(options, env.GEMINI_API_KEY),
+      generateBodyShapeImages(
+        options,
+        env.GEMINI_API_KEY,
+        env.WATERMARK_LOGO_BASE64
+      ),
     generateBodyShapePrompt,
   };
 }
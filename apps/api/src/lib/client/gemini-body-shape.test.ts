@@ -2,11 +2,26 @@ import { GoogleGenAI } from '@google/genai';
 import { beforeEach, describe, expect, it, Mock,vi } from 'vitest';
 
 import type { BodyShapeOptions,Subject, TargetWeight } from '@/types';
+import { base64ToBytes, bytesToBase64, decodeImage, DEFAULT_PROMPT_VERSION, encodeImage, PromptTemplateError } from '@/utils';
 
-import { generateBodyShapeImages,generateBodyShapePrompt } from './body-shape-client';
+import {
+  generateBodyShapeImages,
+  generateBodyShapePrompt,
+  MAX_CONCURRENT_GENERATIONS,
+} from './body-shape-client';
+import { PROMPT_TEMPLATES } from './prompt-templates';
 
 vi.mock('@google/genai');
 
+// 既定のバージョン（body-shape@v2）の説明文
+const {
+  buildDescriptions,
+  fatDistributionDescriptions,
+  intensityDescriptions,
+  olderAdultDescription,
+  transformationDescriptions,
+} = PROMPT_TEMPLATES['body-shape@v2'];
+
 // 最小限のモック型を定義して any を排除
 type MockGoogleGenAI = { models: { generateContent: Mock } };
 
@@ -140,6 +155,143 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       expect(prompt).toContain('No changes to any element other than his/her physique will be permitted');
     });
 
+    it('性別・年齢・体脂肪率・体格を指定した場合、<subject> に体格の補足と脂肪の増減する部位を含める', () => {
+      const subject: Subject = {
+        heightCm: 175,
+        currentWeightKg: 85,
+        sex: 'male',
+        ageYears: 55,
+        bodyFatPercent: 28,
+        build: 'muscular',
+      };
+      const target: TargetWeight = { weightKg: 75 };
+
+      const prompt = generateBodyShapePrompt(subject, target);
+      const subjectSection = prompt.slice(prompt.indexOf('<subject>'), prompt.indexOf('</subject>'));
+
+      expect(subjectSection).toContain('Sex: male, Age: 55 years, Body fat: 28%, Build: muscular');
+      expect(subjectSection).toContain(buildDescriptions.muscular);
+      expect(subjectSection).toContain(fatDistributionDescriptions.male);
+      expect(subjectSection).toContain(olderAdultDescription);
+    });
+
+    it('体格の補足は指定された項目のみを含め、未指定の場合は <subject> を 1 行のままにする', () => {
+      const withProfile = generateBodyShapePrompt(
+        { heightCm: 160, currentWeightKg: 60, sex: 'female', ageYears: 30 },
+        { weightKg: 55 }
+      );
+      const withoutProfile = generateBodyShapePrompt({ heightCm: 160, currentWeightKg: 60 }, { weightKg: 55 });
+
+      expect(withProfile).toContain('Sex: female, Age: 30 years\n');
+      expect(withProfile).toContain(fatDistributionDescriptions.female);
+      expect(withProfile).not.toContain('Build:');
+      expect(withProfile).not.toContain(olderAdultDescription);
+      expect(withoutProfile).toContain('(BMI: 23.4, Normal weight)\n</subject>');
+    });
+
+    it('recomposition は現在と同じ体重でも体重変化なしのプロンプトを生成する', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+      const target: TargetWeight = { weightKg: 70, transformation: 'recomposition' };
+
+      const prompt = generateBodyShapePrompt(subject, target);
+
+      expect(prompt).toContain('Target weight: 70 kg');
+      expect(prompt).toContain(`Change: No weight change. ${transformationDescriptions.recomposition}`);
+      expect(prompt).not.toContain(transformationDescriptions['fat-loss']);
+    });
+
+    it('transformation 指定時は体重の増減ではなく種類ごとの説明を使用する', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+
+      const muscleGain = generateBodyShapePrompt(subject, { weightKg: 74, transformation: 'muscle-gain' });
+      const toned = generateBodyShapePrompt(subject, { weightKg: 68, transformation: 'toned' });
+
+      expect(muscleGain).toContain(`Change: 4 kg heavier. ${transformationDescriptions['muscle-gain']}`);
+      expect(muscleGain).not.toContain(transformationDescriptions['fat-gain']);
+      expect(toned).toContain(`Change: 2 kg lighter. ${transformationDescriptions.toned}`);
+    });
+
+    it('体重を保ったまま変化しない種類を同じ体重で指定した場合はエラーをスローする', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+
+      expect(() => generateBodyShapePrompt(subject, { weightKg: 70, transformation: 'fat-loss' })).toThrow(
+        'No body shape change needed when target weight equals current weight'
+      );
+    });
+
+    it('体重の変化の大きさに応じた強度の説明を <transformation> に含める', () => {
+      const small = generateBodyShapePrompt({ heightCm: 170, currentWeightKg: 70 }, { weightKg: 68 });
+      const large = generateBodyShapePrompt({ heightCm: 170, currentWeightKg: 100 }, { weightKg: 70 });
+
+      expect(small).toContain(`Intensity: subtle. ${intensityDescriptions.subtle}\n</transformation>`);
+      expect(large).toContain(`Intensity: dramatic. ${intensityDescriptions.dramatic}`);
+    });
+
+    it('intensityOverride 指定時は計算した段階の代わりに使用する', () => {
+      const prompt = generateBodyShapePrompt({ heightCm: 170, currentWeightKg: 70 }, { weightKg: 68 }, { intensityOverride: 'significant' });
+
+      expect(prompt).toContain(`Intensity: significant. ${intensityDescriptions.significant}`);
+      expect(prompt).not.toContain('Intensity: subtle');
+    });
+
+    it('bmiStandard 指定時はその判定基準で BMI 分類と bmi_reference を組み立てる', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 75 }; // BMI: 26.0
+      const target: TargetWeight = { weightKg: 68 }; // BMI: 23.5
+
+      const who = generateBodyShapePrompt(subject, target);
+      const jasso = generateBodyShapePrompt(subject, target, { bmiStandard: 'jasso' });
+      const asiaPacific = generateBodyShapePrompt(subject, target, { bmiStandard: 'who-asia-pacific' });
+
+      expect(who).toContain('(BMI: 26, Overweight)');
+      expect(who).toContain('Classification: WHO\n');
+      expect(who).toContain('Obesity, Class 3 (≥40.0)');
+      expect(jasso).toContain('(BMI: 26, Obesity, Grade 1)');
+      expect(jasso).toContain('Classification: JASSO (Japan)');
+      expect(jasso).toContain('BMI Categories: Underweight (<18.5), Normal weight (18.5-24.9), Obesity, Grade 1 (25.0-29.9)');
+      expect(asiaPacific).toContain('(Target BMI: 23.5, Overweight, at risk)');
+    });
+
+    it('promptVersion 指定時はそのバージョンのテンプレートを使用する', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70, sex: 'male' };
+      const target: TargetWeight = { weightKg: 60 };
+
+      const legacy = generateBodyShapePrompt(subject, target, { promptVersion: 'body-shape@v1' });
+      const current = generateBodyShapePrompt(subject, target);
+
+      expect(legacy).toBe(PROMPT_TEMPLATES['body-shape@v1'].template
+        .replace('{height}', '170').replace('{currentWeight}', '70').replace('{currentBMI}', '24.2')
+        .replace('{currentCategory}', 'Normal weight').replace('{targetWeight}', '60').replace('{targetBMI}', '20.8')
+        .replace('{targetCategory}', 'Normal weight').replace('{change}', '10 kg lighter')
+        .replace('{description}', PROMPT_TEMPLATES['body-shape@v1'].transformationDescriptions['fat-loss'])
+        .replace('{preservationInstruction}', PROMPT_TEMPLATES['body-shape@v1'].preservationInstruction));
+      expect(legacy).not.toContain('Intensity:');
+      expect(current).toContain('Intensity:');
+      expect(current).toContain(fatDistributionDescriptions.male);
+    });
+
+    it('body-shape@v1 は判定基準の指定に関わらず、固定の分類表と同じ WHO の分類名を使用する', () => {
+      const subject: Subject = { heightCm: 170, currentWeightKg: 80 };
+
+      const legacy = generateBodyShapePrompt(subject, { weightKg: 75 }, { promptVersion: 'body-shape@v1', bmiStandard: 'jasso' });
+
+      expect(legacy).toContain('(BMI: 27.7, Overweight)');
+      expect(legacy).toContain('Overweight (25.0-29.9)');
+      expect(legacy).not.toContain('Obesity, Grade 1');
+    });
+
+    it('各バージョンの説明文は凍結された個別の一覧で、バージョン間で共有しない', () => {
+      for (const template of Object.values(PROMPT_TEMPLATES)) {
+        expect(Object.isFrozen(template)).toBe(true);
+        expect(Object.isFrozen(template.transformationDescriptions)).toBe(true);
+      }
+      expect(PROMPT_TEMPLATES['body-shape@v1'].transformationDescriptions).not.toBe(
+        PROMPT_TEMPLATES['body-shape@v2'].transformationDescriptions
+      );
+      expect(PROMPT_TEMPLATES['body-shape@v1'].intensityDescriptions).not.toBe(
+        PROMPT_TEMPLATES['body-shape@v2'].intensityDescriptions
+      );
+    });
+
     it('すべてのプロンプトに構造化されたXMLタグと保持指示が含まれている', () => {
       const subject: Subject = { heightCm: 160, currentWeightKg: 55 };
       const target: TargetWeight = { weightKg: 50 };
@@ -293,6 +445,215 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       expect(result.images?.[0]?.mimeType).toBe('image/png');
     });
 
+    it('生成画像のヘッダーから実際の幅と高さを設定する', async () => {
+      // 幅 832 x 高さ 1248 の PNG ヘッダー
+      const png = new Uint8Array(33);
+      const view = new DataView(png.buffer);
+      png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 0);
+      view.setUint32(8, 13);
+      png.set([0x49, 0x48, 0x44, 0x52], 12);
+      view.setUint32(16, 832);
+      view.setUint32(20, 1248);
+
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    data: btoa(String.fromCharCode(...png)),
+                    mimeType: 'image/png',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+      const targets: TargetWeight[] = [{ weightKg: 60, label: 'slim' }];
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.images?.[0]?.width).toBe(832);
+      expect(result.images?.[0]?.height).toBe(1248);
+    });
+
+    it('returnMimeType が指定された場合、生成画像を実際にその形式へ変換する', async () => {
+      const png = encodeImage(
+        { width: 6, height: 9, data: new Uint8Array(6 * 9 * 4).fill(128) },
+        'image/png'
+      );
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    data: bytesToBase64(png),
+                    mimeType: 'image/png',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+      const targets: TargetWeight[] = [{ weightKg: 60, label: 'slim' }];
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: { returnMimeType: 'image/jpeg', jpegQuality: 80 },
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      const image = result.images?.[0];
+      expect(image?.mimeType).toBe('image/jpeg');
+      const bytes = base64ToBytes(image?.base64 ?? '');
+      expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+      expect(image?.width).toBe(6);
+      expect(image?.height).toBe(9);
+    });
+
+    it('Geminiの申告MIMEと実際のバイト列が異なる場合は実際の形式を返す', async () => {
+      const png = encodeImage(
+        { width: 2, height: 2, data: new Uint8Array(16).fill(255) },
+        'image/png'
+      );
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    data: bytesToBase64(png),
+                    mimeType: 'image/jpeg',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const subject: Subject = { heightCm: 170, currentWeightKg: 70 };
+      const targets: TargetWeight[] = [{ weightKg: 60, label: 'slim' }];
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.images?.[0]?.mimeType).toBe('image/png');
+    });
+
+    it('options.watermark 指定時は透かしを焼き込み、形式変換後も保持する', async () => {
+      const png = encodeImage(
+        {
+          width: 200,
+          height: 200,
+          // 不透明な灰色
+          data: new Uint8Array(200 * 200 * 4).map((_, i) =>
+            i % 4 === 3 ? 255 : 128
+          ),
+        },
+        'image/png'
+      );
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    data: bytesToBase64(png),
+                    mimeType: 'image/png',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }],
+        options: {
+          returnMimeType: 'image/jpeg',
+          watermark: { position: 'top-left', opacity: 1 },
+        },
+      }, 'test-api-key');
+
+      const image = result.images?.[0];
+      expect(image?.mimeType).toBe('image/jpeg');
+      const decoded = decodeImage(base64ToBytes(image?.base64 ?? ''));
+      // 左上の透かし部分には白い文字が、反対側の隅には元の灰色が残る
+      let brightest = 0;
+      for (let y = 0; y < 20; y++) {
+        for (let x = 0; x < 60; x++) {
+          brightest = Math.max(brightest, decoded.data[(y * 200 + x) * 4]);
+        }
+      }
+      expect(brightest).toBeGreaterThan(220);
+      const corner = (199 * 200 + 199) * 4;
+      expect(Math.abs(decoded.data[corner] - 128)).toBeLessThan(8);
+    });
+
+    it('透かしを焼き込めない生成画像は失敗として扱う', async () => {
+      const webp = new Uint8Array([
+        0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50,
+      ]);
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    data: bytesToBase64(webp),
+                    mimeType: 'image/webp',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }],
+        options: { watermark: {} },
+      }, 'test-api-key');
+
+      expect(result.success).toBe(false);
+      expect(result.images).toBeUndefined();
+    });
+
     it('複数ターゲットで並列画像生成に成功する', async () => {
       mockGenAI.models.generateContent
         .mockResolvedValueOnce({
@@ -349,6 +710,46 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(2);
     });
 
+    it('ターゲットが多い場合も同時に呼び出す生成数を上限以下に保つ', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockGenAI.models.generateContent.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return {
+          candidates: [
+            {
+              content: {
+                parts: [{ inlineData: { data: 'image', mimeType: 'image/png' } }],
+              },
+            },
+          ],
+        };
+      });
+
+      const subject: Subject = { heightCm: 170, currentWeightKg: 95 };
+      const targets: TargetWeight[] = [90, 85, 80, 75, 70].map(
+        (weightKg, i) => ({ weightKg, label: `step-${i + 1}` })
+      );
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.images?.map((image) => image.label)).toEqual(
+        targets.map((target) => target.label)
+      );
+      expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(5);
+      expect(maxRunning).toBe(MAX_CONCURRENT_GENERATIONS);
+    });
+
     it('一部の画像生成が失敗した場合、成功した画像のみ返す', async () => {
       mockGenAI.models.generateContent
         .mockResolvedValueOnce({
@@ -387,6 +788,7 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       expect(result.images?.length).toBe(1);
       expect(result.images?.[0]?.label).toBe('slim');
       expect(result.metadata?.partialFailures).toBe(1);
+      expect(result.failures).toEqual([{ targetIndex: 1, viewIndex: 0 }]);
     });
 
     it('全ての画像生成が失敗した場合、エラーを返す', async () => {
@@ -489,7 +891,184 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       const meta = result.metadata as NonNullable<typeof result.metadata>;
       expect(meta.processingTimeMs).toBeGreaterThan(90);
       expect(meta.model).toBe('gemini-2.5-flash-image-preview');
+      expect(meta.promptVersion).toBe(DEFAULT_PROMPT_VERSION);
+      expect(meta.intensities).toEqual([{ label: 'slim', intensity: 0.33, level: 'moderate', overridden: false }]);
       expect(meta.confidence).toBeGreaterThan(0);
+      // 背景の類似度を計測できない（デコードできない）画像のみの場合は信頼度を 1 とする
+      expect(meta.confidence).toBe(1);
+      expect(meta.backgroundChecks).toBeUndefined();
+    });
+
+    it('metadata.intensities はプロンプトと同じ判定基準で求める（body-shape@v1 は WHO 固定）', async () => {
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ inlineData: { data: 'base64-image', mimeType: 'image/png' } }] } }],
+      });
+      // WHO は Normal weight → Severe thinness（3 分類）、JASSO は普通体重 → 低体重（1 分類）
+      const subject: Subject = { heightCm: 170, currentWeightKg: 55 };
+      const targets: TargetWeight[] = [{ weightKg: 44 }];
+
+      const legacy = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: { promptVersion: 'body-shape@v1', bmiStandard: 'jasso' },
+      }, 'test-api-key');
+      const current = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject,
+        targets,
+        options: { bmiStandard: 'jasso' },
+      }, 'test-api-key');
+
+      expect(legacy.metadata?.intensities?.[0].intensity).toBe(0.77);
+      expect(current.metadata?.intensities?.[0].intensity).toBe(0.57);
+    });
+
+    it('options.promptVersion のバージョンを metadata.promptVersion に記録する', async () => {
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ inlineData: { data: 'base64-generated-image', mimeType: 'image/png' } }] } }],
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60 }],
+        options: { promptVersion: 'body-shape@v1' },
+      }, 'test-api-key');
+
+      expect(result.metadata?.promptVersion).toBe('body-shape@v1');
+      const request = mockGenAI.models.generateContent.mock.calls[0][0];
+      expect(JSON.stringify(request)).not.toContain('Intensity:');
+    });
+
+    it('テンプレートのプレースホルダーが未解決の場合は Gemini へ送信せずに例外をスローする', async () => {
+      const original = PROMPT_TEMPLATES['body-shape@v1'];
+      PROMPT_TEMPLATES['body-shape@v1'] = { ...original, template: `${original.template}\n{unknownPlaceholder}` };
+      try {
+        await expect(generateBodyShapeImages({
+          imageBase64: 'input-base64',
+          mimeType: 'image/jpeg',
+          subject: { heightCm: 170, currentWeightKg: 70 },
+          targets: [{ weightKg: 60 }],
+          options: { promptVersion: 'body-shape@v1' },
+        }, 'test-api-key')).rejects.toThrow(new PromptTemplateError(['unknownPlaceholder']));
+        expect(mockGenAI.models.generateContent).not.toHaveBeenCalled();
+      } finally {
+        PROMPT_TEMPLATES['body-shape@v1'] = original;
+      }
+    });
+
+    it('additionalViews 指定時はターゲット × 視点ごとに全視点を参照させて生成し、視点ごとにまとめる', async () => {
+      type Contents = Array<{ text?: string; inlineData?: { data: string } }>;
+      mockGenAI.models.generateContent.mockImplementation(async ({ contents }: { contents: Contents }) => ({
+        candidates: [{ content: { parts: [{ inlineData: { data: `generated-${contents[1].inlineData?.data}`, mimeType: 'image/png' } }] } }],
+      }));
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'front-base64',
+        mimeType: 'image/jpeg',
+        view: 'front',
+        additionalViews: [{ view: 'side', imageBase64: 'side-base64', mimeType: 'image/png' }],
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }, { weightKg: 80, label: 'heavy' }],
+        options: {},
+      }, 'test-api-key');
+
+      expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(4);
+      expect(result.views).toEqual([
+        { view: 'front', images: [expect.objectContaining({ label: 'slim', base64: 'generated-front-base64' }), expect.objectContaining({ label: 'heavy', base64: 'generated-front-base64' })] },
+        { view: 'side', images: [expect.objectContaining({ label: 'slim', base64: 'generated-side-base64' }), expect.objectContaining({ label: 'heavy', base64: 'generated-side-base64' })] },
+      ]);
+      expect(result.images).toEqual(result.views?.[0].images);
+      expect(result.metadata?.intensities?.map((intensity) => intensity.label)).toEqual(['slim', 'heavy']);
+
+      const sideRequest = (mockGenAI.models.generateContent.mock.calls as Array<[{ contents: Contents }]>)
+        .map(([request]) => request.contents)
+        .find((contents) => contents[1].inlineData?.data === 'side-base64');
+      expect(sideRequest?.map((part) => part.inlineData?.data)).toEqual([undefined, 'side-base64', 'front-base64']);
+      expect(sideRequest?.[0].text).toContain('The first image is the side view to edit');
+      expect(sideRequest?.[0].text).toContain('from other views (front)');
+    });
+
+    it('一部の視点の生成に失敗した場合も、視点ごとに成功した画像を返す', async () => {
+      type Contents = Array<{ text?: string; inlineData?: { data: string } }>;
+      // 正面の slim と側面の heavy のみ失敗させる
+      mockGenAI.models.generateContent.mockImplementation(async ({ contents }: { contents: Contents }) => {
+        const view = contents[1].inlineData?.data;
+        const isSlim = contents[0].text?.includes('Target weight: 60 kg');
+        if ((view === 'front-base64' && isSlim) || (view === 'side-base64' && !isSlim)) {
+          throw new Error('API error');
+        }
+        return { candidates: [{ content: { parts: [{ inlineData: { data: `generated-${view}`, mimeType: 'image/png' } }] } }] };
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'front-base64',
+        mimeType: 'image/jpeg',
+        view: 'front',
+        additionalViews: [{ view: 'side', imageBase64: 'side-base64', mimeType: 'image/png' }],
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }, { weightKg: 80, label: 'heavy' }],
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.views).toEqual([
+        { view: 'front', images: [expect.objectContaining({ label: 'heavy', base64: 'generated-front-base64' })] },
+        { view: 'side', images: [expect.objectContaining({ label: 'slim', base64: 'generated-side-base64' })] },
+      ]);
+      expect(result.images).toEqual(result.views?.[0].images);
+      expect(result.metadata?.intensities?.map((intensity) => intensity.label)).toEqual(['slim', 'heavy']);
+      expect(result.metadata?.partialFailures).toBe(2);
+      expect(result.failures).toEqual([
+        { targetIndex: 0, viewIndex: 0 },
+        { targetIndex: 1, viewIndex: 1 },
+      ]);
+    });
+
+    it('最初の視点の生成がすべて失敗しても、他の視点で成功していれば成功として返す', async () => {
+      type Contents = Array<{ text?: string; inlineData?: { data: string } }>;
+      mockGenAI.models.generateContent.mockImplementation(async ({ contents }: { contents: Contents }) => {
+        if (contents[1].inlineData?.data === 'front-base64') {
+          throw new Error('API error');
+        }
+        return { candidates: [{ content: { parts: [{ inlineData: { data: 'generated-side', mimeType: 'image/png' } }] } }] };
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'front-base64',
+        mimeType: 'image/jpeg',
+        view: 'front',
+        additionalViews: [{ view: 'side', imageBase64: 'side-base64', mimeType: 'image/png' }],
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }],
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.images).toEqual([]);
+      expect(result.views?.[1].images).toEqual([expect.objectContaining({ label: 'slim' })]);
+      expect(result.metadata?.partialFailures).toBe(1);
+    });
+
+    it('additionalViews 未指定時は視点の指示を含めず、views を返さない', async () => {
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ inlineData: { data: 'base64-generated-image', mimeType: 'image/png' } }] } }],
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60 }],
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.views).toBeUndefined();
+      expect(JSON.stringify(mockGenAI.models.generateContent.mock.calls[0][0])).not.toContain('<views>');
     });
 
     it('体重変化なしの場合、エラーを返す', async () => {
@@ -526,6 +1105,153 @@ describe('BodyShapeClient - Body Shape Generation', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Body shape generation is not needed when target weight equals current weight');
     });
+
+    it('recomposition は現在と同じ体重でも画像を生成する', async () => {
+      mockGenAI.models.generateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ inlineData: { data: 'base64-generated-image', mimeType: 'image/png' } }] } }],
+      });
+
+      const result = await generateBodyShapeImages({
+        imageBase64: 'input-base64',
+        mimeType: 'image/jpeg',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 70, label: 'recomp', transformation: 'recomposition' }],
+        options: {},
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.images?.[0].label).toBe('recomp');
+      expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('背景の変化の検査', () => {
+    /** 縦縞の PNG（Base64） */
+    function createStripedPng(phase: number): string {
+      const data = new Uint8Array(64 * 64 * 4);
+      for (let i = 0; i < 64 * 64; i++) {
+        const value = Math.floor((i % 64) / 4 + phase) % 2 === 0 ? 30 : 220;
+        data.set([value, value, value, 255], i * 4);
+      }
+      return bytesToBase64(encodeImage({ width: 64, height: 64, data }, 'image/png'));
+    }
+
+    function geminiResponse(data: string) {
+      return {
+        candidates: [
+          { content: { parts: [{ inlineData: { data, mimeType: 'image/png' } }] } },
+        ],
+      };
+    }
+
+    const input = createStripedPng(0);
+    const changed = createStripedPng(1);
+
+    it('元画像との背景の類似度を記録し、最小値を信頼度とする', async () => {
+      mockGenAI.models.generateContent
+        .mockResolvedValueOnce(geminiResponse(input))
+        .mockResolvedValueOnce(geminiResponse(changed));
+
+      const result = await generateBodyShapeImages({
+        imageBase64: input,
+        mimeType: 'image/png',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [
+          { weightKg: 60, label: 'same' },
+          { weightKg: 80, label: 'changed' },
+        ],
+        options: {},
+      }, 'test-api-key');
+
+      const checks = result.metadata?.backgroundChecks ?? [];
+      expect(checks[0]).toEqual({ label: 'same', score: 1, passed: true, retried: false });
+      expect(checks[1]).toMatchObject({ label: 'changed', passed: false, retried: false });
+      expect(checks[1].score).toBeLessThan(0.5);
+      expect(result.metadata?.confidence).toBe(checks[1].score);
+      expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('retry 指定時は閾値を下回ったターゲットを 1 回だけ再生成し、類似度の高い方を採用する', async () => {
+      mockGenAI.models.generateContent
+        .mockResolvedValueOnce(geminiResponse(changed))
+        .mockResolvedValueOnce(geminiResponse(input));
+
+      const result = await generateBodyShapeImages({
+        imageBase64: input,
+        mimeType: 'image/png',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }],
+        options: { backgroundCheck: { threshold: 0.8, retry: true } },
+      }, 'test-api-key');
+
+      expect(mockGenAI.models.generateContent).toHaveBeenCalledTimes(2);
+      expect(result.images?.[0]?.base64).toBe(input);
+      expect(result.metadata?.backgroundChecks).toEqual([
+        { label: 'slim', score: 1, passed: true, retried: true },
+      ]);
+    });
+
+    it('再生成に失敗した場合は初回の画像を採用する', async () => {
+      mockGenAI.models.generateContent
+        .mockResolvedValueOnce(geminiResponse(changed))
+        .mockRejectedValueOnce(new Error('Invalid request'));
+
+      const result = await generateBodyShapeImages({
+        imageBase64: input,
+        mimeType: 'image/png',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60, label: 'slim' }],
+        options: { backgroundCheck: { retry: true } },
+      }, 'test-api-key');
+
+      expect(result.success).toBe(true);
+      expect(result.images?.[0]?.base64).toBe(changed);
+      expect(result.metadata?.backgroundChecks?.[0]).toMatchObject({
+        passed: false,
+        retried: true,
+      });
+      expect(result.metadata?.partialFailures).toBeUndefined();
+    });
+  });
+
+  describe('色調補正', () => {
+    /** 一様な色の PNG（Base64） */
+    function createSolidPng(rgb: [number, number, number]): string {
+      const data = new Uint8Array(16 * 16 * 4);
+      for (let i = 0; i < 16 * 16; i++) data.set([...rgb, 255], i * 4);
+      return bytesToBase64(encodeImage({ width: 16, height: 16, data }, 'image/png'));
+    }
+
+    const input = createSolidPng([120, 100, 80]);
+    const tinted = createSolidPng([160, 100, 60]);
+
+    async function generate(options: BodyShapeOptions) {
+      mockGenAI.models.generateContent.mockResolvedValueOnce({
+        candidates: [
+          { content: { parts: [{ inlineData: { data: tinted, mimeType: 'image/png' } }] } },
+        ],
+      });
+      return generateBodyShapeImages({
+        imageBase64: input,
+        mimeType: 'image/png',
+        subject: { heightCm: 170, currentWeightKg: 70 },
+        targets: [{ weightKg: 60 }],
+        options,
+      }, 'test-api-key');
+    }
+
+    it('colorMatch 指定時は生成画像の色調を元画像に合わせる', async () => {
+      const result = await generate({ colorMatch: { method: 'histogram' } });
+
+      const image = decodeImage(base64ToBytes(result.images?.[0]?.base64 ?? ''));
+      expect(Array.from(image.data.subarray(0, 4))).toEqual([120, 100, 80, 255]);
+    });
+
+    it('colorMatch 未指定時は生成画像をそのまま返す', async () => {
+      const result = await generate({});
+
+      expect(result.images?.[0]?.base64).toBe(tinted);
+    });
   });
 
 });
\ No newline at end of file
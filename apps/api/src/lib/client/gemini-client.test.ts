@@ -66,6 +66,29 @@ describe('GeminiClient', () => {
     }
   });
 
+  it('参照画像は入力画像の後に inline パートとして順に渡す', async () => {
+    const client = new GeminiClient('key');
+    const gen = getGenerateContentMock();
+    gen.mockResolvedValue({
+      candidates: [
+        { content: { parts: [{ inlineData: { data: 'base64data' } }] } },
+      ],
+    });
+
+    await client.generateImage({
+      prompt: 'p',
+      imageBase64: 'front',
+      mimeType: 'image/png',
+      referenceImages: [{ imageBase64: 'side', mimeType: 'image/jpeg' }],
+    });
+
+    expect(gen.mock.calls[0][0].contents).toEqual([
+      { text: 'p' },
+      { inlineData: { mimeType: 'image/png', data: 'front' } },
+      { inlineData: { mimeType: 'image/jpeg', data: 'side' } },
+    ]);
+  });
+
   it('無効引数の場合は success:false を返す', async () => {
     const client = new GeminiClient('key');
     const result = await client.generateImage({
@@ -124,6 +147,22 @@ describe('GeminiClient', () => {
     expect(result.success).toBe(true);
   });
 
+  it('成功時は生成に使用したモデル名を返す', async () => {
+    const client = new GeminiClient('key', { model: 'custom-image-model' });
+    getGenerateContentMock().mockResolvedValue({
+      candidates: [{ content: { parts: [{ inlineData: { data: 'x' } }] } }],
+    });
+
+    const result = await client.generateImage({
+      prompt: 'p',
+      imageBase64: 'i',
+      mimeType: 'image/png',
+    });
+
+    expect(result.model).toBe('custom-image-model');
+    expect(client.model).toBe('custom-image-model');
+  });
+
   it('generationConfig を渡した場合にリクエストへ含める', async () => {
     const client = new GeminiClient('key');
     const gen = getGenerateContentMock();
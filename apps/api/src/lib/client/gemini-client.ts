@@ -2,6 +2,9 @@ import { GoogleGenAI } from '@google/genai';
 
 import { Env } from '@/types';
 
+/** 既定で使用する画像生成モデル */
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
 /**
  * 入力画像をもとに Gemini による画像生成を行う際の入力パラメータ。
  */
@@ -12,6 +15,8 @@ export type GeminiImageGenerationOptions = {
   imageBase64: string;
   /** 入力画像の MIME タイプ (例: 'image/png', 'image/jpeg')。 */
   mimeType: string;
+  /** 参照用の追加画像 (同じ被写体の別の視点など)。入力画像の後に順に渡す。 */
+  referenceImages?: Array<{ imageBase64: string; mimeType: string }>;
   /** 生成設定 (例: seed)。 */
   generationConfig?: {
     /** 再現性を高めるためのシード値。 */
@@ -29,6 +34,8 @@ export type GeminiImageGenerationResult = {
   imageBase64?: string;
   /** 生成された画像の MIME タイプ (Gemini から返された場合)。 */
   mimeType?: string;
+  /** 画像を生成したモデル名。成功時のみ設定される。 */
+  model?: string;
   /** 失敗時のエラーメッセージ。 */
   error?: string;
 }
@@ -60,7 +67,8 @@ type GenerateContentResponseLike = {
  */
 export class GeminiClient {
   private readonly genAI: GoogleGenAI;
-  private readonly model: string;
+  /** 使用するモデル名。生成画像の来歴メタデータにも記録される。 */
+  readonly model: string;
   private readonly maxRetries: number;
   private readonly baseRetryDelayMs: number;
 
@@ -73,7 +81,7 @@ export class GeminiClient {
       throw new Error('Gemini API key is required');
     }
     this.genAI = new GoogleGenAI({ apiKey });
-    this.model = options.model ?? 'gemini-2.5-flash-image-preview';
+    this.model = options.model ?? DEFAULT_GEMINI_MODEL;
     this.maxRetries = options.maxRetries ?? 2;
     this.baseRetryDelayMs = options.baseRetryDelayMs ?? 1000; // 1s
   }
@@ -98,7 +106,7 @@ export class GeminiClient {
     for (let attempt = 0; ; attempt++) {
       try {
         // NOTE: @google/genai の generateContent へ直接渡すリクエスト。
-        // parts にはテキストと画像の両方を順に与える。
+        // parts にはテキストと画像 (入力画像 → 参照画像) を順に与える。
         const requestPayload = {
           model: this.model,
           contents: [
@@ -109,6 +117,12 @@ export class GeminiClient {
                 data: imageBase64,
               },
             },
+            ...(options.referenceImages ?? []).map((reference) => ({
+              inlineData: {
+                mimeType: reference.mimeType,
+                data: reference.imageBase64,
+              },
+            })),
           ],
           ...(options.generationConfig && Object.keys(options.generationConfig).length > 0
             ? { generationConfig: options.generationConfig }
@@ -122,7 +136,8 @@ export class GeminiClient {
           return {
             success: true,
             imageBase64: imageData.base64,
-            ...(imageData.mimeType && { mimeType: imageData.mimeType })
+            ...(imageData.mimeType && { mimeType: imageData.mimeType }),
+            model: this.model,
           };
         }
 
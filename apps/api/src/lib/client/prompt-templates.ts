@@ -0,0 +1,188 @@
+/**
+ * プロンプトテンプレートのレジストリ
+ *
+ * バージョン（`body-shape@v2` など）ごとに、テンプレート本文と説明文・保持指示の組を保持します。
+ * 文言を変える場合は既存のバージョンを編集せずに新しいバージョンを登録し、
+ * 生成画像の来歴メタデータから使用したテンプレートを特定できるようにします。
+ */
+
+import type {
+  BMIStandard,
+  IntensityLevel,
+  PromptVersion,
+  Subject,
+  TransformationType,
+} from '@/types';
+
+// 複数の視点の指示（1 枚目の画像が生成する視点、以降は参照用の別の視点）
+// body-shape@v1・v2 で共通の文言。変える場合は新しいバージョンで別の文言を定義する
+const MULTI_VIEW_INSTRUCTION = `<views>
+The first image is the {view} view to edit. The other images show the same person from other views ({otherViews}) for reference only.
+Apply the same body shape change consistently with every view and return only the edited {view} view.
+</views>`;
+
+// 初期の構造化XMLプロンプトテンプレート（body-shape@v1）
+export const LEGACY_PROMPT_TEMPLATE = `<subject>
+Height: {height} cm, Weight: {currentWeight} kg (BMI: {currentBMI}, {currentCategory})
+</subject>
+
+<transformation>
+Target weight: {targetWeight} kg (Target BMI: {targetBMI}, {targetCategory})
+Change: {change}. {description}
+</transformation>
+
+<bmi_reference>
+BMI Categories: Severe thinness (<16.0), Moderate thinness (16.0-16.9), Mild thinness (17.0-18.49), Normal weight (18.5-24.9), Overweight (25.0-29.9), Obesity Class 1 (30.0-34.9), Obesity Class 2 (35.0-39.9), Obesity Class 3 (≥40.0)
+</bmi_reference>
+
+<constraints>
+{preservationInstruction}
+</constraints>`;
+
+// 構造化XMLプロンプトテンプレート（body-shape@v2）
+export const STRUCTURED_PROMPT_TEMPLATE = `<subject>
+Height: {height} cm, Weight: {currentWeight} kg (BMI: {currentBMI}, {currentCategory}){profile}
+</subject>
+
+<transformation>
+Target weight: {targetWeight} kg (Target BMI: {targetBMI}, {targetCategory})
+Change: {change}. {description}
+Intensity: {intensityLevel}. {intensityDescription}
+</transformation>
+
+<bmi_reference>
+Classification: {bmiStandardName}
+BMI Categories: {bmiCategories}
+</bmi_reference>
+
+<constraints>
+{preservationInstruction}
+</constraints>`;
+
+/**
+ * 1 バージョン分のプロンプトテンプレート
+ */
+export interface PromptTemplate {
+  /** テンプレート本文（`{key}` のプレースホルダーを含む） */
+  template: string;
+  /**
+   * 分類表を固定した判定基準
+   * @description 指定時は `options.bmiStandard` に関わらず、この判定基準で現在・目標の BMI 分類を求める
+   */
+  bmiStandard?: BMIStandard;
+  /** 体型変化の種類ごとの説明 */
+  transformationDescriptions: Readonly<Record<TransformationType, string>>;
+  /** 強度の段階ごとの説明 */
+  intensityDescriptions: Readonly<Record<IntensityLevel, string>>;
+  /** 脂肪が増減しやすい部位の説明（性別ごと） */
+  fatDistributionDescriptions: Readonly<
+    Record<NonNullable<Subject['sex']>, string>
+  >;
+  /** 体格の説明 */
+  buildDescriptions: Readonly<Record<NonNullable<Subject['build']>, string>>;
+  /** 高齢の被写体の肌の変化の説明 */
+  olderAdultDescription: string;
+  /** 体型以外を変えないための保持指示 */
+  preservationInstruction: string;
+  /** 複数の視点の指示（`{view}`・`{otherViews}` のプレースホルダーを含む） */
+  multiViewInstruction: string;
+}
+
+/**
+ * 登録後に文言が変わらないよう、テンプレートと説明文の一覧を凍結する
+ */
+function freezePromptTemplate(template: PromptTemplate): PromptTemplate {
+  for (const value of Object.values(template)) {
+    if (typeof value === 'object') Object.freeze(value);
+  }
+  return Object.freeze(template);
+}
+
+/**
+ * 登録済みのプロンプトテンプレート
+ * - "body-shape@v1": 初期のテンプレート。体格情報・強度の行が無く、分類表と分類名は WHO で固定
+ * - "body-shape@v2": 体格情報・変化の種類・強度・判定基準ごとの分類表を含む
+ *
+ * 各バージョンは説明文を個別に持ち、あるバージョンの文言を編集しても他のバージョンの文言は変わりません。
+ */
+export const PROMPT_TEMPLATES: Record<PromptVersion, PromptTemplate> = {
+  'body-shape@v1': freezePromptTemplate({
+    template: LEGACY_PROMPT_TEMPLATE,
+    bmiStandard: 'who',
+    transformationDescriptions: {
+      'fat-loss': 'Fat is reduced. The body becomes slimmer.',
+      'fat-gain': 'The body becomes fuller.',
+      'muscle-gain':
+        'Muscle mass increases with little added fat. The shoulders, chest, arms and legs become fuller and more defined while the waist stays lean.',
+      recomposition:
+        'Body fat decreases while muscle mass increases. The waist becomes narrower and muscle definition becomes visible, even where the weight barely changes.',
+      toned:
+        'Body fat decreases slightly and the existing muscles become firmer and more defined without added bulk.',
+    },
+    intensityDescriptions: {
+      subtle:
+        'The change is subtle. Keep the overall silhouette almost the same and adjust only the face, waist and limbs slightly.',
+      moderate:
+        'The change is moderate and clearly visible in the face, waist and limbs.',
+      significant:
+        'The change is significant. The silhouette, face, neck and limbs change noticeably.',
+      dramatic:
+        'The change is dramatic. The whole silhouette, face, neck and limbs change substantially.',
+    },
+    fatDistributionDescriptions: {
+      female:
+        'Fat is lost or gained mainly around the hips, thighs and upper arms, then the abdomen.',
+      male: 'Fat is lost or gained mainly around the abdomen and waist, then the chest and face.',
+    },
+    buildDescriptions: {
+      slim: 'Naturally slim frame with little muscle mass.',
+      average: 'Average frame and muscle mass.',
+      muscular:
+        'Muscular frame. Muscle mass is preserved; the change mainly affects the fat layer.',
+    },
+    olderAdultDescription:
+      'Skin elasticity matches the age; avoid sharp muscle definition after fat loss.',
+    preservationInstruction:
+      'No changes to any element other than his/her physique will be permitted.',
+    multiViewInstruction: MULTI_VIEW_INSTRUCTION,
+  }),
+  'body-shape@v2': freezePromptTemplate({
+    template: STRUCTURED_PROMPT_TEMPLATE,
+    transformationDescriptions: {
+      'fat-loss': 'Fat is reduced. The body becomes slimmer.',
+      'fat-gain': 'The body becomes fuller.',
+      'muscle-gain':
+        'Muscle mass increases with little added fat. The shoulders, chest, arms and legs become fuller and more defined while the waist stays lean.',
+      recomposition:
+        'Body fat decreases while muscle mass increases. The waist becomes narrower and muscle definition becomes visible, even where the weight barely changes.',
+      toned:
+        'Body fat decreases slightly and the existing muscles become firmer and more defined without added bulk.',
+    },
+    intensityDescriptions: {
+      subtle:
+        'The change is subtle. Keep the overall silhouette almost the same and adjust only the face, waist and limbs slightly.',
+      moderate:
+        'The change is moderate and clearly visible in the face, waist and limbs.',
+      significant:
+        'The change is significant. The silhouette, face, neck and limbs change noticeably.',
+      dramatic:
+        'The change is dramatic. The whole silhouette, face, neck and limbs change substantially.',
+    },
+    fatDistributionDescriptions: {
+      female:
+        'Fat is lost or gained mainly around the hips, thighs and upper arms, then the abdomen.',
+      male: 'Fat is lost or gained mainly around the abdomen and waist, then the chest and face.',
+    },
+    buildDescriptions: {
+      slim: 'Naturally slim frame with little muscle mass.',
+      average: 'Average frame and muscle mass.',
+      muscular:
+        'Muscular frame. Muscle mass is preserved; the change mainly affects the fat layer.',
+    },
+    olderAdultDescription:
+      'Skin elasticity matches the age; avoid sharp muscle definition after fat loss.',
+    preservationInstruction:
+      'No changes to any element other than his/her physique will be permitted.',
+    multiViewInstruction: MULTI_VIEW_INSTRUCTION,
+  }),
+};
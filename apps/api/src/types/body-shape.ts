@@ -1,14 +1,64 @@
 /**
  * 対象人物の現在の体格情報
- * @description 体型変化生成の基準となる人物の身長・体重情報を含む
+ * @description 体型変化生成の基準となる人物の身長・体重情報と、任意の性別・年齢・体脂肪率・体格を含む
  */
 export interface Subject {
   /** 身長（cm） - 120〜220cmの範囲 */
   heightCm: number;
   /** 現在体重（kg） - 20〜300kgの範囲 */
   currentWeightKg: number;
+  /**
+   * 性別
+   * @description 脂肪が増減しやすい部位の指示に使用する
+   */
+  sex?: 'female' | 'male';
+  /**
+   * 年齢（歳） - 1〜120の整数
+   * @description 安全性ポリシーの年齢の下限（既定 18 歳）未満の場合は既定で拒否される
+   */
+  ageYears?: number;
+  /** 体脂肪率（%） - 3〜70の範囲 */
+  bodyFatPercent?: number;
+  /**
+   * 体格
+   * @description "muscular" の場合は筋肉量を保ち、主に脂肪の層を変化させるよう指示する
+   */
+  build?: 'slim' | 'average' | 'muscular';
 }
 
+/**
+ * 身長・体重の単位系
+ * @description リクエストの `unitSystem` で指定し、入力フィールドと応答の表記に使用する（内部の計算はメートル法）
+ * - "metric": `heightCm`・`*Kg`
+ * - "us": `heightFt`・`heightIn`・`*Lb`
+ * - "uk": `heightFt`・`heightIn`・`*St`・`*Lb`（端数のポンド）
+ */
+export type UnitSystem = 'metric' | 'us' | 'uk';
+
+/**
+ * BMI 分類の判定基準
+ * @description リクエストの `options.bmiStandard` で指定し、未指定時は `Accept-Language` が日本語なら "jasso"、それ以外は "who"
+ * - "who": WHO の国際基準（25 以上を過体重、30 以上を肥満）
+ * - "who-asia-pacific": WHO アジア太平洋基準（23 以上を過体重、25 以上を肥満）
+ * - "jasso": 日本肥満学会の基準（25 以上を肥満）
+ */
+export type BMIStandard = 'who' | 'who-asia-pacific' | 'jasso';
+
+/**
+ * 体型変化の種類
+ * - "fat-loss": 脂肪が減る（目標体重は現在体重より軽い）
+ * - "fat-gain": 脂肪が増える（目標体重は現在体重より重い）
+ * - "muscle-gain": 脂肪をあまり増やさずに筋肉が増える（目標体重は現在体重より重い）
+ * - "recomposition": 脂肪が減り筋肉が増える（目標体重は任意。同じ体重でも生成する）
+ * - "toned": 筋肉を大きくせずに引き締まる（目標体重は現在体重以下。同じ体重でも生成する）
+ */
+export type TransformationType =
+  | 'fat-loss'
+  | 'fat-gain'
+  | 'muscle-gain'
+  | 'recomposition'
+  | 'toned';
+
 /**
  * 目標体重設定
  * @description 生成したい体型の目標体重と識別用ラベル
@@ -21,6 +71,46 @@ export interface TargetWeight {
    * @example "slim", "normal", "muscular"
    */
   label?: string;
+  /**
+   * 体型変化の種類
+   * @description 未指定時は体重の増減から "fat-loss" / "fat-gain" とし、同じ体重の場合は元画像を返す
+   */
+  transformation?: TransformationType;
+}
+
+/**
+ * タイムライン（減量・増量の過程）の設定
+ * @description 開始体重から終了体重までを等間隔の段階に分割し、各段階を目標体重として生成する
+ */
+export interface TimelineOptions {
+  /** 開始体重（kg） - 20〜300kgの範囲 */
+  startWeightKg: number;
+  /** 終了体重（kg） - 20〜300kgの範囲（開始体重と異なる値） */
+  endWeightKg: number;
+  /**
+   * 段階数（1〜8）
+   * @description 開始体重の次の段階から終了体重までを生成する（最後の段階が終了体重）
+   */
+  steps: number;
+}
+
+/**
+ * タイムラインの 1 段階
+ * @description 生成画像は `label` で対応付ける
+ */
+export interface TimelineStep {
+  /** 段階の番号（1 始まり） */
+  step: number;
+  /** 生成画像のラベル（"step-1" など） */
+  label: string;
+  /** 段階の体重（kg、小数点以下1桁） */
+  weightKg: number;
+  /** 段階の BMI（小数点以下1桁） */
+  bmi: number;
+  /** 段階の BMI 分類（判定基準の英語の分類名） */
+  category: string;
+  /** 段階の BMI 分類名（`Accept-Language` の言語。英語・日本語に対応） */
+  categoryLabel: string;
 }
 
 /**
@@ -30,15 +120,201 @@ export interface TargetWeight {
 export interface BodyShapeOptions {
   /**
    * 出力画像のMIMEタイプ
-   * @default "image/png"
-   * @description Geminiが返すmimeTypeが優先され、これはフォールバックとして使用
+   * @description 指定時は生成画像・パススルー画像をこの形式へ変換する。
+   * 未指定時、またはデコードできない形式（WebPなど）の場合は元の形式のまま返す
    */
   returnMimeType?: 'image/png' | 'image/jpeg';
+  /**
+   * JPEG出力時の品質（1〜100）
+   * @default 90
+   */
+  jpegQuality?: number;
   /**
    * 生成のシード値
    * @description 同じシード値を使用することで再現性のある生成が可能
    */
   seed?: number;
+  /**
+   * 比較用の合成画像の設定
+   * @description 指定時は元画像と各ターゲットの画像を並べた合成画像を `composite` として追加で返す
+   */
+  composite?: CompositeOptions;
+  /**
+   * 生成画像へ焼き込む透かしの設定
+   * @description 指定時は Gemini が生成した画像にのみ透かしを描画する（パススルー画像には描画しない）
+   */
+  watermark?: WatermarkOptions;
+  /**
+   * 差分ヒートマップを返すかどうか
+   * @description 指定時は生成画像ごとに元画像との差分ヒートマップを `diffMaps` として返し、
+   * 変化した画素の割合と主な変化領域を `metadata.diffStats` に記録する
+   */
+  includeDiffMap?: boolean;
+  /**
+   * 生成画像の色調補正の設定
+   * @description 指定時は生成画像の色分布を元画像に合わせてから `returnMimeType` へエンコードする（透かしより先に適用）
+   */
+  colorMatch?: ColorMatchOptions;
+  /**
+   * 背景の変化の検査設定
+   * @description 生成画像と元画像の背景の類似度は常に計測し、`metadata.backgroundChecks` に記録する
+   */
+  backgroundCheck?: BackgroundCheckOptions;
+  /**
+   * 体型変化の強度の段階の上書き
+   * @description 未指定時は体重の変化率と BMI 分類の隔たりから段階を決める。
+   * 誇張した結果や控えめな結果が欲しい場合に指定する（計算した強度は `metadata.intensities` に記録される）
+   */
+  intensityOverride?: IntensityLevel;
+  /**
+   * BMI 分類の判定基準
+   * @description プロンプトの BMI 分類と `<bmi_reference>`、応答の `category` に使用する
+   * @default 'who'
+   */
+  bmiStandard?: BMIStandard;
+  /**
+   * プロンプトテンプレートのバージョン
+   * @description 未指定時は環境変数 `PROMPT_VERSION`、それも無ければ既定のバージョン。使用したバージョンは `metadata.promptVersion` に記録される
+   */
+  promptVersion?: PromptVersion;
+}
+
+/**
+ * プロンプトテンプレートのバージョン
+ * - "body-shape@v1": 初期のテンプレート（体格情報・強度の行なし、WHO の分類表と分類名を固定）
+ * - "body-shape@v2": 体格情報・変化の種類・強度・判定基準ごとの分類表を含むテンプレート（既定）
+ */
+export type PromptVersion = 'body-shape@v1' | 'body-shape@v2';
+
+/**
+ * 体型変化の強度の段階
+ * @description プロンプトの `<transformation>` の説明を選ぶために使用する
+ * - "subtle": わずかな変化（強度 0.25 未満）
+ * - "moderate": はっきり分かる変化（0.25〜0.5）
+ * - "significant": 大きな変化（0.5〜0.75）
+ * - "dramatic": 劇的な変化（0.75 以上）
+ */
+export type IntensityLevel = 'subtle' | 'moderate' | 'significant' | 'dramatic';
+
+/**
+ * 体型変化の強度
+ * @description 生成画像ごとの、体重の変化率（30% で最大）と BMI 分類の隔たり（3 分類で最大）から求めた強度
+ */
+export interface TransformationIntensityResult {
+  /** 対象画像のラベル */
+  label?: string;
+  /** 強度（0〜1） */
+  intensity: number;
+  /** プロンプトに使用した段階 */
+  level: IntensityLevel;
+  /** `options.intensityOverride` により段階を上書きしたかどうか */
+  overridden: boolean;
+}
+
+/**
+ * 色調補正の設定
+ * @description Gemini の出力で生じるホワイトバランスや彩度のずれを元画像に合わせて補正する
+ */
+export interface ColorMatchOptions {
+  /**
+   * 補正の方式
+   * - "histogram": RGB の各チャンネルのヒストグラムを元画像に一致させる
+   * - "lab": Lab 色空間の各チャンネルの平均と分散を元画像に一致させる
+   * @default "histogram"
+   */
+  method?: 'histogram' | 'lab';
+  /**
+   * 補正の強さ（0: 補正しない 〜 1: 完全に一致させる）
+   * @default 1
+   */
+  strength?: number;
+}
+
+/**
+ * 背景の変化の検査設定
+ * @description 体型以外（背景・照明など）が変化した生成画像を検出し、必要に応じて再生成する
+ */
+export interface BackgroundCheckOptions {
+  /**
+   * 合格とみなす背景の類似度の閾値（0〜1）
+   * @default 0.5
+   */
+  threshold?: number;
+  /**
+   * 閾値を下回った場合に 1 回だけ再生成するかどうか（類似度の高い方を採用）
+   * @default false
+   */
+  retry?: boolean;
+}
+
+/**
+ * 背景の変化の検査結果
+ * @description 生成画像ごとの元画像との背景（周縁部）の構造的類似度（SSIM）
+ */
+export interface BackgroundCheckResult {
+  /** 対象画像のラベル */
+  label?: string;
+  /** 対象画像の視点（複数の視点の入力画像を指定した場合） */
+  view?: string;
+  /** 背景の類似度（0〜1。1 は完全に一致） */
+  score: number;
+  /** 閾値以上かどうか */
+  passed: boolean;
+  /** 閾値を下回ったため再生成したかどうか */
+  retried: boolean;
+}
+
+/**
+ * 透かしの設定
+ * @description 生成画像が AI 生成であることを示すテキストまたはロゴを画像へ焼き込む
+ */
+export interface WatermarkOptions {
+  /**
+   * 透かしの種類
+   * - "text": `text` の文言を描画する
+   * - "logo": 環境変数 `WATERMARK_LOGO_BASE64` のロゴを描画する（未設定時はテキストで代替）
+   * @default "text"
+   */
+  type?: 'text' | 'logo';
+  /**
+   * テキストの透かしの文言（英数字と一部の記号のみ）
+   * @default "AI GENERATED"
+   */
+  text?: string;
+  /**
+   * 配置位置
+   * @default "bottom-right"
+   */
+  position?:
+    | 'top-left'
+    | 'top-right'
+    | 'bottom-left'
+    | 'bottom-right'
+    | 'center';
+  /**
+   * 不透明度（0〜1）
+   * @default 0.6
+   */
+  opacity?: number;
+}
+
+/**
+ * 比較用の合成画像の設定
+ * @description 元画像と生成画像を共通の高さに揃え、体重のキャプション付きで 1 枚に並べる
+ */
+export interface CompositeOptions {
+  /**
+   * レイアウト
+   * - "horizontal": 横一列に並べる
+   * - "grid": グリッド状に並べる
+   * @default "horizontal"
+   */
+  layout?: 'horizontal' | 'grid';
+  /**
+   * 各画像の共通の高さ（ピクセル）
+   * @description 未指定時は最も低い画像の高さ（最大 1024）
+   */
+  height?: number;
 }
 
 /**
@@ -47,12 +323,30 @@ export interface BodyShapeOptions {
  * @deprecated 実際の実装ではZodスキーマを使用しており、この型は参照用
  */
 export interface BodyShapeGenerationRequest {
-  /** 入力画像ファイル（JPEG/PNG/WebP、最大10MB） */
-  image: File;
+  /**
+   * 単位系
+   * @description `subject`・`targets`・`timeline` の身長・体重はこの単位系のフィールドで指定する
+   * （例: "us" の場合は `{ heightFt: 5, heightIn: 10, currentWeightLb: 180 }`）
+   * @default "metric"
+   */
+  unitSystem?: UnitSystem;
+  /**
+   * 入力画像ファイル（JPEG/PNG/WebP、最大10MB）
+   * @description 同じ被写体を別の視点から撮影した画像を最大 3 枚まで指定できる（`image` フィールドを繰り返す）
+   */
+  image: File | File[];
+  /**
+   * 入力画像ごとの視点のラベル（`image` と同じ順序）
+   * @example ["front", "side"]
+   * @default 画像が複数の場合は ["view-1", "view-2", ...]
+   */
+  views?: string[];
   /** 現在の体格情報 */
   subject: Subject;
-  /** 目標体重の配列（1〜2要素） */
-  targets: TargetWeight[];
+  /** 目標体重の配列（1〜2要素。`timeline` と同時には指定できない） */
+  targets?: TargetWeight[];
+  /** タイムライン（`targets` の代わりに指定） */
+  timeline?: TimelineOptions;
   /** 生成オプション */
   options?: BodyShapeOptions;
 }
@@ -77,12 +371,69 @@ export interface GeneratedImage {
    * @example "image/png", "image/jpeg", "image/webp"
    */
   mimeType: string;
-  /** 画像の幅（ピクセル） */
+  /**
+   * 画像の幅（ピクセル）
+   * @description 画像ヘッダーから読み取った実寸。解析できない場合は 0
+   */
   width: number;
-  /** 画像の高さ（ピクセル） */
+  /**
+   * 画像の高さ（ピクセル）
+   * @description 画像ヘッダーから読み取った実寸。解析できない場合は 0
+   */
   height: number;
 }
 
+/**
+ * 追加の視点の入力画像
+ * @description 同じ被写体を別の視点（横向きなど）から撮影した画像
+ */
+export interface InputView {
+  /** 視点のラベル（"side" など） */
+  view: string;
+  /**
+   * 入力画像のBase64文字列
+   * @description data:image/png;base64,などのプレフィックスは含まない
+   */
+  imageBase64: string;
+  /** 入力画像のMIMEタイプ */
+  mimeType: string;
+}
+
+/**
+ * 視点ごとの生成画像
+ */
+export interface ViewImages {
+  /** 視点のラベル */
+  view: string;
+  /** 生成画像（ターゲットと同じ順序） */
+  images: GeneratedImage[];
+}
+
+/**
+ * 比較用の合成画像
+ * @description 元画像と各ターゲットの画像を並べた 1 枚の画像
+ */
+export interface CompositeImage extends Omit<GeneratedImage, 'label'> {
+  /** 使用したレイアウト */
+  layout: 'horizontal' | 'grid';
+}
+
+/**
+ * 差分ヒートマップの統計
+ * @description 生成画像ごとの元画像（生成画像のサイズへ揃えたもの）からの変化量
+ */
+export interface DiffStats {
+  /** 対象画像のラベル */
+  label?: string;
+  /** 変化した画素の割合（0〜100%） */
+  changedPercent: number;
+  /**
+   * 主な変化領域の外接矩形（生成画像の座標系のピクセル）
+   * @description 変化した画素が無い場合は null
+   */
+  boundingBox: { x: number; y: number; width: number; height: number } | null;
+}
+
 /**
  * 体型変化APIのレスポンス型（HTTPエンドポイント用）
  * @description 成功・失敗を含むAPIレスポンスの統一型
@@ -91,8 +442,25 @@ export interface GeneratedImage {
 export interface BodyShapeGenerationResponse {
   /** 成否フラグ */
   success: boolean;
-  /** 生成された画像の配列（成功時） */
+  /** リクエストの単位系（成功時） */
+  unitSystem?: UnitSystem;
+  /** 現在の体格情報（リクエストの単位系のフィールドで表記） */
+  subject?: Record<string, number>;
+  /** 目標体重（リクエストの単位系のフィールドで表記。`timeline` 指定時は各段階） */
+  targets?: Array<Record<string, number | string>>;
+  /** 生成された画像の配列（成功時。複数の視点を指定した場合は最初の視点の画像） */
   images?: GeneratedImage[];
+  /** 視点ごとの生成画像（複数の視点の入力画像を指定した場合。入力画像と同じ順序） */
+  views?: ViewImages[];
+  /**
+   * タイムラインの各段階（`timeline` 指定時。`images` と同じ順序）
+   * @description kg に加えてリクエストの単位系の体重のフィールド（`weightLb` など）を含む
+   */
+  timeline?: TimelineStep[];
+  /** 比較用の合成画像（`options.composite` 指定時） */
+  composite?: CompositeImage;
+  /** 生成画像ごとの差分ヒートマップ（`options.includeDiffMap` 指定時） */
+  diffMaps?: GeneratedImage[];
   /**
    * 処理メタデータ（成功時）
    */
@@ -130,6 +498,17 @@ export interface BodyShapeGenerationOptions {
    * @example "image/png", "image/jpeg", "image/webp"
    */
   mimeType: string;
+  /**
+   * 入力画像の視点のラベル
+   * @description `additionalViews` 指定時のみ使用する
+   * @default "view-1"
+   */
+  view?: string;
+  /**
+   * 同じ被写体を別の視点から撮影した追加の入力画像
+   * @description 指定時は視点ごとに、すべての視点の画像を参照させて生成する
+   */
+  additionalViews?: InputView[];
   /**
    * 対象人物の現在の体格情報
    * @description 身長・現在体重を含む基準情報
@@ -147,6 +526,16 @@ export interface BodyShapeGenerationOptions {
   options: BodyShapeOptions;
 }
 
+/**
+ * 生成に失敗したターゲット・視点の組
+ */
+export interface GenerationFailure {
+  /** 失敗したターゲット（生成を依頼した `targets` の添字） */
+  targetIndex: number;
+  /** 失敗した視点（0 は入力画像、1 以降は `additionalViews` の順） */
+  viewIndex: number;
+}
+
 /**
  * 体型変化画像生成の結果
  * @description 生成の成否、画像データ、メタ情報を含む結果オブジェクト
@@ -156,9 +545,18 @@ export interface BodyShapeGenerationResult {
   success: boolean;
   /**
    * 生成された画像の配列
-   * @description 成功時のみ設定される。複数ターゲット指定時は複数の画像を含む
+   * @description 成功時のみ設定される。複数ターゲット指定時は複数の画像を含む。
+   * `additionalViews` 指定時は入力画像（最初の視点）の画像
    */
   images?: GeneratedImage[];
+  /** 視点ごとの生成画像（`additionalViews` 指定時。最初の視点は `images` と同じ） */
+  views?: ViewImages[];
+  /**
+   * 生成に失敗したターゲット・視点の組
+   * @description 部分的に失敗した場合のみ設定される。画像はラベルが無くても
+   * ターゲットの順序から失敗した組を除いて対応付けられる
+   */
+  failures?: GenerationFailure[];
   /**
    * 処理メタデータ
    * @description 成功時に処理時間や使用モデル等の情報を含む
@@ -166,10 +564,19 @@ export interface BodyShapeGenerationResult {
   metadata?: {
     /** 処理時間（ミリ秒） */
     processingTimeMs: number;
-    /** 生成の信頼度（0.0〜1.0） */
+    /**
+     * 生成の信頼度（0.0〜1.0）
+     * @description 背景の類似度の最小値。計測できた画像が無い場合は 1
+     */
     confidence: number;
     /** 使用したAIモデル名 */
     model: string;
+    /** 生成画像ごとの背景の変化の検査結果（デコードできない画像は含まない） */
+    backgroundChecks?: BackgroundCheckResult[];
+    /** 生成画像ごとの体型変化の強度 */
+    intensities?: TransformationIntensityResult[];
+    /** 使用したプロンプトテンプレートのバージョン */
+    promptVersion?: string;
     /** 部分的に失敗した生成の数 */
     partialFailures?: number;
   };
@@ -192,11 +599,12 @@ export interface BodyShapeTransformationPrompt {
    * 変化の種類
    * - "slimmer": 痩せる方向の変化
    * - "heavier": 太る方向の変化
+   * - それ以外は `TargetWeight.transformation` と同じ
    */
-  transformationType: 'slimmer' | 'heavier';
+  transformationType: 'slimmer' | 'heavier' | TransformationType;
   /**
    * 変化の強度レベル
-   * @description 0.0〜1.0の範囲で指定（高いほど変化が大きい）
+   * @description 0.0〜1.0の範囲で指定（高いほど変化が大きい。`metadata.intensities` の `intensity` と同じ尺度）
    */
   intensityLevel: number;
 }
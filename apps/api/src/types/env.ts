@@ -1,13 +1,35 @@
+import type { RequestIdVariables } from 'hono/request-id';
+
 // Honoで使用する環境変数の型を定義
 type Env = {
   Bindings: {
     GEMINI_API_KEY: string;
+    /** Gemini へ送信する入力画像の長辺の上限（ピクセル、既定 1536、0 で縮小無効） */
+    MAX_INPUT_IMAGE_LONG_EDGE?: string;
+    /** 透かしに使用するロゴ画像（PNG / JPEG）の Base64 */
+    WATERMARK_LOGO_BASE64?: string;
+    /** 減量の目標として許容する BMI の下限（既定 17.5） */
+    SAFETY_MIN_TARGET_BMI?: string;
+    /** 目標 BMI が下限を下回る場合の扱い（block / warn / off、既定 block） */
+    SAFETY_MIN_TARGET_BMI_ACTION?: string;
+    /** 現在体重に対して許容する変化率の上限（%、既定 30） */
+    SAFETY_MAX_CHANGE_PERCENT?: string;
+    /** 変化率が上限を超える場合の扱い（block / warn / off、既定 warn） */
+    SAFETY_MAX_CHANGE_PERCENT_ACTION?: string;
+    /** 被写体の年齢の下限（歳、既定 18） */
+    SAFETY_MIN_AGE?: string;
+    /** 被写体の年齢が下限未満の場合の扱い（block / warn / off、既定 block） */
+    SAFETY_MIN_AGE_ACTION?: string;
+    /** 既定のプロンプトテンプレートのバージョン（body-shape@v1 など、未登録の値は無視） */
+    PROMPT_VERSION?: string;
+    /** 実行中のプロンプトの A/B 実験（JSON、不正な設定の場合は実験なし） */
+    PROMPT_EXPERIMENT?: string;
     // CORS_ORIGIN: string[];
     // SENTRY_DSN: string;
     // SENTRY_AUTH_TOKEN: string;
   };
-  // Variables: {
-  // };
+  /** requestId ミドルウェアが設定するリクエスト ID */
+  Variables: RequestIdVariables;
 };
 
 export type { Env };
\ No newline at end of file
@@ -1,3 +1,4 @@
 export * from './body-shape';
 export { type Env } from './env';
+export * from './plan';
 export * from './response';
\ No newline at end of file
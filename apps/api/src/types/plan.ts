@@ -0,0 +1,117 @@
+import type { BodyShapeOptions, GeneratedImage, Subject } from './body-shape';
+
+/**
+ * 減量・増量計画のマイルストーン
+ * @description 開始日から一定間隔の週ごとの予定日・予定体重と、その BMI・分類
+ */
+export interface PlanMilestone {
+  /** マイルストーンの番号（1 始まり） */
+  milestone: number;
+  /**
+   * 生成画像のラベル
+   * @example "week-4"
+   */
+  label: string;
+  /** 開始からの週数 */
+  week: number;
+  /** 予定日（YYYY-MM-DD） */
+  date: string;
+  /** 予定体重（kg、小数点以下1桁。最後のマイルストーンは目標体重） */
+  weightKg: number;
+  /** 予定体重の BMI（小数点以下1桁） */
+  bmi: number;
+  /** 予定体重の BMI 分類（判定基準の英語の分類名） */
+  category: string;
+  /** 予定体重の BMI 分類名（`Accept-Language` の言語。英語・日本語に対応） */
+  categoryLabel: string;
+}
+
+/**
+ * 週あたりの変化量の調整内容
+ * @description 指定された変化量が医学的に妥当な上限を超えたため上限に丸めた場合に設定される
+ */
+export interface PlanRateAdjustment {
+  /** 指定された変化量（kg/週） */
+  requestedWeeklyRateKg: number;
+  /** 適用した変化量（kg/週） */
+  appliedWeeklyRateKg: number;
+  /** 調整の理由 */
+  reason: string;
+}
+
+/**
+ * 減量・増量計画APIのリクエスト型（HTTPエンドポイント用）
+ * @description application/json で受け取るリクエストの型定義
+ * @deprecated 実際の実装ではZodスキーマを使用しており、この型は参照用
+ */
+export interface PlanRequest {
+  /** 現在の体格情報 */
+  subject: Subject;
+  /** 目標体重（kg） - 20〜300kgの範囲（現在体重と異なる値） */
+  goalWeightKg: number;
+  /**
+   * 週あたりの変化量（kg）
+   * @description 未指定時は減量 0.5kg・増量 0.25kg。
+   * 上限（減量: 1kg と現在体重の 1% の小さい方、増量: 0.5kg）を超える場合は上限に丸める
+   */
+  weeklyRateKg?: number;
+  /**
+   * マイルストーンの間隔（週、1〜52）
+   * @default 4
+   */
+  milestoneIntervalWeeks?: number;
+  /**
+   * 開始日（YYYY-MM-DD）
+   * @description 未指定時はリクエスト日（UTC）
+   */
+  startDate?: string;
+  /**
+   * マイルストーンの体型変化画像を生成するかどうか
+   * @description 指定時は `image` が必須
+   */
+  generateImages?: boolean;
+  /** 入力画像（`{ base64, mimeType }` または data URL） */
+  image?: { base64: string; mimeType: string } | string;
+  /**
+   * 画像を生成するマイルストーンの番号（1〜3要素）
+   * @description 未指定時は最後のマイルストーン（目標体重）のみ
+   */
+  imageMilestones?: number[];
+  /** 画像生成のオプション（出力形式・品質・シード値）と BMI 分類の判定基準 */
+  options?: Pick<
+    BodyShapeOptions,
+    'returnMimeType' | 'jpegQuality' | 'seed' | 'bmiStandard'
+  >;
+}
+
+/**
+ * 減量・増量計画APIのレスポンスデータ型
+ * @description successResponse の `data` に設定される
+ */
+export interface PlanResponseData {
+  /** 現在の体格情報 */
+  subject: Subject;
+  /** 目標体重（kg） */
+  goalWeightKg: number;
+  /** 減量か増量か */
+  direction: 'loss' | 'gain';
+  /** 適用した週あたりの変化量（kg） */
+  weeklyRateKg: number;
+  /** 週あたりの変化量の上限（kg） */
+  maxWeeklyRateKg: number;
+  /** 変化量を上限に丸めた場合の調整内容 */
+  rateAdjustment?: PlanRateAdjustment;
+  /** 目標体重に到達するまでの週数 */
+  totalWeeks: number;
+  /** 開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 目標体重への到達予定日（YYYY-MM-DD） */
+  targetDate: string;
+  /** マイルストーン（週数の昇順。最後が目標体重） */
+  milestones: PlanMilestone[];
+  /**
+   * マイルストーンの体型変化画像（`generateImages` 指定時）
+   * @description `label` でマイルストーンと対応付ける
+   */
+  images?: GeneratedImage[];
+}
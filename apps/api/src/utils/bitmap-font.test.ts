@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import { canRenderText, drawText, measureText } from './bitmap-font';
+import type { RgbaImage } from './image-codec';
+
+/** 白で塗りつぶした RGBA 画像 */
+function createWhiteImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(255) };
+}
+
+/** 指定色と一致するピクセル数を数える */
+function countPixels(image: RgbaImage, rgb: [number, number, number]): number {
+  let count = 0;
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (
+      image.data[i] === rgb[0] &&
+      image.data[i + 1] === rgb[1] &&
+      image.data[i + 2] === rgb[2]
+    ) {
+      count++;
+    }
+  }
+  return count;
+}
+
+describe('bitmap-font', () => {
+  describe('canRenderText', () => {
+    it('英数字と対応記号のみの文字列は描画可能と判定する', () => {
+      expect(canRenderText('After 65.5kg (-7%)')).toBe(true);
+    });
+
+    it('日本語など未対応の文字を含む場合は false を返す', () => {
+      expect(canRenderText('目標 65kg')).toBe(false);
+    });
+  });
+
+  describe('measureText', () => {
+    it('文字数と倍率から幅と高さを求める', () => {
+      expect(measureText('AB', 1)).toEqual({ width: 11, height: 7 });
+      expect(measureText('AB', 3)).toEqual({ width: 33, height: 21 });
+      expect(measureText('', 2)).toEqual({ width: 0, height: 14 });
+    });
+  });
+
+  describe('drawText', () => {
+    it('指定位置にグリフのドットを描画する', () => {
+      const image = createWhiteImage(10, 10);
+
+      drawText(image, '1', 2, 1);
+
+      // "1" の最上段は中央の 1 ドットのみ
+      const topRow = Array.from(
+        { length: 5 },
+        (_, col) => image.data[(1 * 10 + 2 + col) * 4]
+      );
+      expect(topRow).toEqual([255, 255, 0, 255, 255]);
+      // "1" は 10 ドットで構成される
+      expect(countPixels(image, [0, 0, 0])).toBe(10);
+    });
+
+    it('倍率に応じて 1 ドットを拡大して描画し、色を適用する', () => {
+      const image = createWhiteImage(20, 20);
+
+      drawText(image, '1', 0, 0, { scale: 2, color: [255, 0, 0, 255] });
+
+      expect(countPixels(image, [255, 0, 0])).toBe(10 * 4);
+    });
+
+    it('半透明の色は元の画素と合成する', () => {
+      const image = createWhiteImage(6, 8);
+
+      drawText(image, '.', 0, 0, { color: [0, 0, 0, 128] });
+
+      expect(countPixels(image, [127, 127, 127])).toBe(4);
+    });
+
+    it('小文字は大文字として、未対応の文字は ? として描画する', () => {
+      const lower = createWhiteImage(6, 7);
+      const upper = createWhiteImage(6, 7);
+      drawText(lower, 'k', 0, 0);
+      drawText(upper, 'K', 0, 0);
+      expect(lower.data).toEqual(upper.data);
+
+      const unknown = createWhiteImage(6, 7);
+      const question = createWhiteImage(6, 7);
+      drawText(unknown, '体', 0, 0);
+      drawText(question, '?', 0, 0);
+      expect(unknown.data).toEqual(question.data);
+    });
+
+    it('画像の範囲外にはみ出す部分は描画しない', () => {
+      const image = createWhiteImage(3, 3);
+      expect(() => drawText(image, 'WWW', -2, -2, { scale: 2 })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * ビットマップフォントによる文字描画ユーティリティ
+ *
+ * Workers 上ではフォントのラスタライズ手段が無いため、5×7 ドットの
+ * 組み込みフォントで画像にキャプション等を描画します。
+ * 英数字と一部の記号のみに対応し、小文字は大文字として描画します。
+ */
+
+import type { RgbaImage } from './image-codec';
+
+/** グリフの幅（ドット） */
+const GLYPH_WIDTH = 5;
+/** グリフの高さ（ドット） */
+const GLYPH_HEIGHT = 7;
+/** 文字間隔を含めた 1 文字あたりの送り幅（ドット） */
+const GLYPH_ADVANCE = GLYPH_WIDTH + 1;
+
+/**
+ * 5×7 のグリフ定義
+ * 各行を 5 ビット（最上位ビットが左端）で表します。
+ */
+const GLYPHS: Record<string, readonly number[]> = {
+  ' ': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  A: [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  '=': [0x00, 0x00, 0x1f, 0x00, 0x1f, 0x00, 0x00],
+  _: [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x1f],
+  '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  '&': [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+  '@': [0x0e, 0x11, 0x01, 0x0d, 0x15, 0x15, 0x0e],
+  "'": [0x0c, 0x04, 0x08, 0x00, 0x00, 0x00, 0x00],
+  '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0x00, 0x04],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04],
+};
+
+/** RGBA の色（各 0〜255） */
+export type RgbaColor = readonly [number, number, number, number];
+
+/**
+ * 文字描画のオプション
+ */
+export interface DrawTextOptions {
+  /**
+   * 拡大倍率（1 ドットを何ピクセルで描画するか）
+   * @default 1
+   */
+  scale?: number;
+  /**
+   * 文字色（アルファ値で元画像と合成する）
+   * @default [0, 0, 0, 255]
+   */
+  color?: RgbaColor;
+}
+
+function toGlyph(ch: string): readonly number[] | undefined {
+  return GLYPHS[ch.toUpperCase()];
+}
+
+/**
+ * 文字列がすべて組み込みフォントで描画可能かどうかを判定する
+ *
+ * @param text - 判定する文字列
+ * @returns 未対応の文字（日本語など）を含まない場合は true
+ */
+export function canRenderText(text: string): boolean {
+  return Array.from(text).every((ch) => toGlyph(ch) !== undefined);
+}
+
+/**
+ * 描画時の文字列のサイズを求める
+ *
+ * @param text - 描画する文字列
+ * @param scale - 拡大倍率
+ * @returns 幅と高さ（ピクセル）
+ */
+export function measureText(
+  text: string,
+  scale = 1
+): { width: number; height: number } {
+  const length = Array.from(text).length;
+  return {
+    width: length > 0 ? (length * GLYPH_ADVANCE - 1) * scale : 0,
+    height: GLYPH_HEIGHT * scale,
+  };
+}
+
+/**
+ * 画像へ文字列を描画する（破壊的に変更）
+ *
+ * 未対応の文字は `?` として描画します。画像の範囲外にはみ出す部分は描画しません。
+ *
+ * @param image - 描画先の画像
+ * @param text - 描画する文字列
+ * @param x - 左上の X 座標（ピクセル）
+ * @param y - 左上の Y 座標（ピクセル）
+ * @param options - 描画オプション
+ *
+ * @example
+ * ```typescript
+ * drawText(image, 'AFTER 65KG', 8, 8, { scale: 3, color: [255, 255, 255, 255] });
+ * ```
+ */
+export function drawText(
+  image: RgbaImage,
+  text: string,
+  x: number,
+  y: number,
+  options: DrawTextOptions = {}
+): void {
+  const { scale = 1, color = [0, 0, 0, 255] } = options;
+  const [r, g, b, a] = color;
+  const alpha = a / 255;
+  const { width, height, data } = image;
+
+  let cursorX = Math.round(x);
+  const top = Math.round(y);
+  for (const ch of Array.from(text)) {
+    const glyph = toGlyph(ch) ?? GLYPHS['?'];
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (!(glyph[row] & (0x10 >> col))) continue;
+
+        // 1 ドットを scale × scale のピクセルで描画
+        for (let dy = 0; dy < scale; dy++) {
+          const py = top + row * scale + dy;
+          if (py < 0 || py >= height) continue;
+          for (let dx = 0; dx < scale; dx++) {
+            const px = cursorX + col * scale + dx;
+            if (px < 0 || px >= width) continue;
+            const i = (py * width + px) * 4;
+            data[i] = Math.round(data[i] + (r - data[i]) * alpha);
+            data[i + 1] = Math.round(data[i + 1] + (g - data[i + 1]) * alpha);
+            data[i + 2] = Math.round(data[i + 2] + (b - data[i + 2]) * alpha);
+            data[i + 3] = Math.max(data[i + 3], a);
+          }
+        }
+      }
+    }
+    cursorX += GLYPH_ADVANCE * scale;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  calculateBMI,
+  getBMICategory,
+  getBMICategoryIndex,
+  getDefaultBMIStandard,
+} from './bmi';
+
+describe('calculateBMI', () => {
+  it('身長・体重から小数点以下 1 桁の BMI を計算する', () => {
+    expect(calculateBMI(170, 70)).toBe(24.2);
+    expect(calculateBMI(160, 45)).toBe(17.6);
+  });
+});
+
+describe('getBMICategory', () => {
+  it('WHO の分類の境界値で判定する', () => {
+    expect(getBMICategory(15.9)).toBe('Severe thinness');
+    expect(getBMICategory(16.0)).toBe('Moderate thinness');
+    expect(getBMICategory(17.0)).toBe('Mild thinness');
+    expect(getBMICategory(18.5)).toBe('Normal weight');
+    expect(getBMICategory(25.0)).toBe('Overweight');
+    expect(getBMICategory(30.0)).toBe('Obesity, Class 1');
+    expect(getBMICategory(35.0)).toBe('Obesity, Class 2');
+    expect(getBMICategory(40.0)).toBe('Obesity, Class 3');
+  });
+
+  it('アジア太平洋基準では 23 以上を過体重と判定する', () => {
+    expect(getBMICategory(22.9, 'who-asia-pacific')).toBe('Normal weight');
+    expect(getBMICategory(23.0, 'who-asia-pacific')).toBe(
+      'Overweight, at risk'
+    );
+    expect(getBMICategory(25.0, 'who-asia-pacific')).toBe('Obesity, Class 1');
+    expect(getBMICategory(30.0, 'who-asia-pacific')).toBe('Obesity, Class 2');
+  });
+
+  it('日本肥満学会の基準では 25 以上を肥満と判定し、日本語の分類名を返す', () => {
+    expect(getBMICategory(18.4, 'jasso', 'ja')).toBe('低体重');
+    expect(getBMICategory(24.9, 'jasso', 'ja')).toBe('普通体重');
+    expect(getBMICategory(25.0, 'jasso', 'ja')).toBe('肥満（1度）');
+    expect(getBMICategory(40.0, 'jasso', 'ja')).toBe('肥満（4度）');
+    expect(getBMICategory(25.0, 'jasso')).toBe('Obesity, Grade 1');
+  });
+});
+
+describe('getBMICategoryIndex', () => {
+  it('判定基準の分類の昇順で番号を返す', () => {
+    expect(getBMICategoryIndex(15)).toBe(0);
+    expect(getBMICategoryIndex(24.2)).toBe(3);
+    expect(getBMICategoryIndex(24.2, 'who-asia-pacific')).toBe(2);
+    expect(getBMICategoryIndex(50, 'jasso')).toBe(5);
+  });
+});
+
+describe('getDefaultBMIStandard', () => {
+  it('日本語は日本肥満学会、それ以外は WHO を既定にする', () => {
+    expect(getDefaultBMIStandard('ja')).toBe('jasso');
+    expect(getDefaultBMIStandard('en')).toBe('who');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * BMI（体格指数）ユーティリティ
+ *
+ * 身長・体重から BMI を計算し、選択した判定基準（WHO・WHO アジア太平洋・日本肥満学会）の
+ * 分類に基づくカテゴリを判定します。分類名は英語（プロンプト・既定の応答）と日本語を持ちます。
+ */
+
+/** 対応する BMI の判定基準 */
+export const BMI_STANDARDS = ['who', 'who-asia-pacific', 'jasso'] as const;
+
+/**
+ * BMI の判定基準
+ * - "who": WHO の国際基準
+ * - "who-asia-pacific": WHO 西太平洋地域事務局のアジア太平洋基準（2000）
+ * - "jasso": 日本肥満学会（JASSO）の基準
+ */
+export type BMIStandard = (typeof BMI_STANDARDS)[number];
+
+/** 分類名の言語 */
+export const BMI_LOCALES = ['en', 'ja'] as const;
+
+/** 分類名の言語 */
+export type BMILocale = (typeof BMI_LOCALES)[number];
+
+/**
+ * BMI の 1 分類
+ */
+export interface BMIClass {
+  /** BMI の下限（この値以上。最初の分類は 0） */
+  min: number;
+  /** 分類名（言語ごと） */
+  labels: Record<BMILocale, string>;
+}
+
+/**
+ * BMI の判定基準の定義
+ */
+export interface BMIClassification {
+  /** 判定基準の名称（言語ごと） */
+  names: Record<BMILocale, string>;
+  /** 分類（BMI の昇順） */
+  classes: readonly BMIClass[];
+}
+
+/** 判定基準ごとの分類 */
+export const BMI_CLASSIFICATIONS: Record<BMIStandard, BMIClassification> = {
+  who: {
+    names: { en: 'WHO', ja: 'WHO 国際基準' },
+    classes: [
+      { min: 0, labels: { en: 'Severe thinness', ja: '重度のやせ' } },
+      { min: 16, labels: { en: 'Moderate thinness', ja: '中等度のやせ' } },
+      { min: 17, labels: { en: 'Mild thinness', ja: '軽度のやせ' } },
+      { min: 18.5, labels: { en: 'Normal weight', ja: '普通体重' } },
+      { min: 25, labels: { en: 'Overweight', ja: '過体重' } },
+      { min: 30, labels: { en: 'Obesity, Class 1', ja: '肥満（1度）' } },
+      { min: 35, labels: { en: 'Obesity, Class 2', ja: '肥満（2度）' } },
+      { min: 40, labels: { en: 'Obesity, Class 3', ja: '肥満（3度）' } },
+    ],
+  },
+  'who-asia-pacific': {
+    names: { en: 'WHO Asia-Pacific', ja: 'WHO アジア太平洋基準' },
+    classes: [
+      { min: 0, labels: { en: 'Underweight', ja: '低体重' } },
+      { min: 18.5, labels: { en: 'Normal weight', ja: '普通体重' } },
+      {
+        min: 23,
+        labels: { en: 'Overweight, at risk', ja: '過体重（リスクあり）' },
+      },
+      { min: 25, labels: { en: 'Obesity, Class 1', ja: '肥満（1度）' } },
+      { min: 30, labels: { en: 'Obesity, Class 2', ja: '肥満（2度）' } },
+    ],
+  },
+  jasso: {
+    names: { en: 'JASSO (Japan)', ja: '日本肥満学会基準' },
+    classes: [
+      { min: 0, labels: { en: 'Underweight', ja: '低体重' } },
+      { min: 18.5, labels: { en: 'Normal weight', ja: '普通体重' } },
+      { min: 25, labels: { en: 'Obesity, Grade 1', ja: '肥満（1度）' } },
+      { min: 30, labels: { en: 'Obesity, Grade 2', ja: '肥満（2度）' } },
+      { min: 35, labels: { en: 'Obesity, Grade 3', ja: '肥満（3度）' } },
+      { min: 40, labels: { en: 'Obesity, Grade 4', ja: '肥満（4度）' } },
+    ],
+  },
+};
+
+/**
+ * BMI計算関数
+ * @param heightCm 身長（cm）
+ * @param weightKg 体重（kg）
+ * @returns BMI値（小数点以下1桁まで）
+ */
+export function calculateBMI(heightCm: number, weightKg: number): number {
+  const heightM = heightCm / 100;
+  const bmi = weightKg / (heightM * heightM);
+  return Math.round(bmi * 10) / 10;
+}
+
+/**
+ * BMI が該当する分類の番号（判定基準の分類の昇順で 0 始まり）を求める
+ * @param bmi BMI値
+ * @param standard 判定基準（既定は WHO）
+ * @returns 分類の番号
+ */
+export function getBMICategoryIndex(
+  bmi: number,
+  standard: BMIStandard = 'who'
+): number {
+  const { classes } = BMI_CLASSIFICATIONS[standard];
+  let index = 0;
+  while (index + 1 < classes.length && bmi >= classes[index + 1].min) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * BMI分類判定関数
+ * @param bmi BMI値
+ * @param standard 判定基準（既定は WHO）
+ * @param locale 分類名の言語（既定は英語）
+ * @returns BMI分類名
+ */
+export function getBMICategory(
+  bmi: number,
+  standard: BMIStandard = 'who',
+  locale: BMILocale = 'en'
+): string {
+  return BMI_CLASSIFICATIONS[standard].classes[
+    getBMICategoryIndex(bmi, standard)
+  ].labels[locale];
+}
+
+/**
+ * 言語の既定の判定基準を求める（日本語は日本肥満学会、それ以外は WHO）
+ */
+export function getDefaultBMIStandard(locale: BMILocale): BMIStandard {
+  return locale === 'ja' ? 'jasso' : 'who';
+}
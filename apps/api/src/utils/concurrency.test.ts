@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { mapWithConcurrency } from './concurrency';
+
+/** 指定ミリ秒後に解決する Promise */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+  it('同時実行数を上限以下に保ち、結果を入力と同じ順序で返す', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(ms);
+        running--;
+        return `${index}:${ms}`;
+      }
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:5', '4:15']);
+  });
+
+  it('上限が 1 未満の場合は 1 件ずつ処理する', async () => {
+    const order: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3], 0, async (value) => {
+      order.push(value);
+      await delay(1);
+      order.push(-value);
+    });
+
+    expect(order).toEqual([1, -1, 2, -2, 3, -3]);
+  });
+
+  it('空の配列は空の結果を返す', async () => {
+    await expect(
+      mapWithConcurrency([], 3, async () => 'never')
+    ).resolves.toEqual([]);
+  });
+
+  it('処理が失敗した場合はその例外で reject する', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (value) => {
+        if (value === 2) throw new Error('failed');
+        return value;
+      })
+    ).rejects.toThrow('failed');
+  });
+});
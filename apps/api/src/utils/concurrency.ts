@@ -0,0 +1,41 @@
+/**
+ * 並行処理ユーティリティ
+ *
+ * 外部 API の呼び出しなどを、同時実行数の上限を守りながら並行に処理します。
+ */
+
+/**
+ * 配列の各要素を同時実行数の上限付きで非同期に処理する
+ *
+ * 結果は入力と同じ順序で返します。いずれかの処理が失敗した場合は、
+ * 実行中の処理の完了を待たずにその例外で reject します（`Promise.all` と同様）。
+ *
+ * @param items - 処理する要素
+ * @param limit - 同時実行数の上限（1 未満は 1 として扱う）
+ * @param fn - 要素ごとの処理
+ * @returns 入力と同じ順序の処理結果
+ *
+ * @example
+ * ```typescript
+ * const images = await mapWithConcurrency(targets, 3, (target) => generate(target));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(items.length, Math.max(1, Math.floor(limit)));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
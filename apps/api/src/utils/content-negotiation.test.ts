@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { negotiateLanguage, negotiateMediaType } from './content-negotiation';
+
+const SUPPORTED = ['application/json', 'image/png', 'image/jpeg'] as const;
+
+describe('negotiateMediaType', () => {
+  it('Accept 未指定・ワイルドカードの場合は先頭の形式を選ぶ', () => {
+    expect(negotiateMediaType(undefined, SUPPORTED)).toBe('application/json');
+    expect(negotiateMediaType('', SUPPORTED)).toBe('application/json');
+    expect(negotiateMediaType('*/*', SUPPORTED)).toBe('application/json');
+  });
+
+  it('明示された画像形式を選ぶ', () => {
+    expect(negotiateMediaType('image/png', SUPPORTED)).toBe('image/png');
+    expect(negotiateMediaType('IMAGE/JPEG', SUPPORTED)).toBe('image/jpeg');
+    expect(negotiateMediaType('image/*', SUPPORTED)).toBe('image/png');
+  });
+
+  it('品質値の高い形式を優先し、同じ場合は先頭に近い形式を選ぶ', () => {
+    expect(
+      negotiateMediaType('application/json;q=0.5, image/jpeg', SUPPORTED)
+    ).toBe('image/jpeg');
+    expect(negotiateMediaType('image/jpeg, application/json', SUPPORTED)).toBe(
+      'application/json'
+    );
+    expect(negotiateMediaType('image/*;q=0.8, */*;q=0.1', SUPPORTED)).toBe(
+      'image/png'
+    );
+  });
+
+  it('最も具体的なメディアレンジの品質値を使う', () => {
+    expect(negotiateMediaType('image/*, image/png;q=0', SUPPORTED)).toBe(
+      'image/jpeg'
+    );
+  });
+
+  it('いずれも受け付けられない場合は undefined', () => {
+    expect(negotiateMediaType('text/html', SUPPORTED)).toBeUndefined();
+    expect(negotiateMediaType('*/*;q=0', SUPPORTED)).toBeUndefined();
+  });
+});
+
+describe('negotiateLanguage', () => {
+  const LANGUAGES = ['en', 'ja'] as const;
+
+  it('主言語で照合し、品質値の高い言語を選ぶ', () => {
+    expect(negotiateLanguage('ja-JP,ja;q=0.9,en;q=0.8', LANGUAGES)).toBe('ja');
+    expect(negotiateLanguage('en-US, ja;q=0.5', LANGUAGES)).toBe('en');
+    expect(negotiateLanguage('fr, ja;q=0.3, en;q=0.7', LANGUAGES)).toBe('en');
+  });
+
+  it('同じ品質値ではヘッダーの先頭に近い言語を選ぶ', () => {
+    expect(negotiateLanguage('ja, en', LANGUAGES)).toBe('ja');
+  });
+
+  it('ワイルドカードは除外されていない先頭の言語に一致する', () => {
+    expect(negotiateLanguage('*', LANGUAGES)).toBe('en');
+    expect(negotiateLanguage('en;q=0, *', LANGUAGES)).toBe('ja');
+  });
+
+  it('未指定・いずれも受け付けられない場合は undefined', () => {
+    expect(negotiateLanguage(undefined, LANGUAGES)).toBeUndefined();
+    expect(negotiateLanguage('fr-FR, de', LANGUAGES)).toBeUndefined();
+  });
+});
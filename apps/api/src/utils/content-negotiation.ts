@@ -0,0 +1,150 @@
+/**
+ * コンテンツネゴシエーションユーティリティ
+ *
+ * `Accept` / `Accept-Language` ヘッダーを解析し、エンドポイントが返せる形式・言語の中から
+ * クライアントが最も優先するものを選択します。
+ */
+
+/**
+ * `Accept` ヘッダーの 1 要素（メディアレンジ）
+ */
+interface MediaRange {
+  type: string;
+  subtype: string;
+  /** 品質値（0〜1） */
+  quality: number;
+}
+
+/**
+ * `Accept` ヘッダーをメディアレンジの配列へ解析する
+ */
+function parseAccept(accept: string): MediaRange[] {
+  return accept
+    .split(',')
+    .map((entry) => {
+      const [range, ...params] = entry.split(';').map((part) => part.trim());
+      const [type = '', subtype = ''] = range.toLowerCase().split('/');
+      const qParam = params.find((param) => /^q=/i.test(param));
+      const quality = qParam ? Number(qParam.slice(2)) : 1;
+      return {
+        type,
+        subtype,
+        quality: Number.isFinite(quality)
+          ? Math.min(1, Math.max(0, quality))
+          : 0,
+      };
+    })
+    .filter((range) => range.type && range.subtype);
+}
+
+/**
+ * メディアタイプに一致する最も具体的なメディアレンジの品質値を求める
+ * （`type/subtype` > `type/*` > `*\/*` の順に優先）
+ */
+function qualityFor(mediaType: string, ranges: MediaRange[]): number {
+  const [type, subtype] = mediaType.toLowerCase().split('/');
+  let best: { specificity: number; quality: number } | undefined;
+  for (const range of ranges) {
+    const specificity =
+      range.type === type && range.subtype === subtype
+        ? 2
+        : range.type === type && range.subtype === '*'
+        ? 1
+        : range.type === '*' && range.subtype === '*'
+        ? 0
+        : -1;
+    if (specificity < 0) continue;
+    if (!best || specificity > best.specificity) {
+      best = { specificity, quality: range.quality };
+    }
+  }
+  return best?.quality ?? 0;
+}
+
+/**
+ * `Accept` ヘッダーから応答するメディアタイプを選択する
+ *
+ * 品質値が最も高い形式を選び、同じ品質値の場合は `supported` の先頭に近い形式を優先します。
+ * そのため `*\/*` やヘッダー未指定の場合は `supported[0]` が選ばれます。
+ *
+ * @param accept - `Accept` ヘッダーの値
+ * @param supported - 応答可能なメディアタイプ（優先順）
+ * @returns 選択したメディアタイプ。いずれも受け付けられない場合は undefined
+ *
+ * @example
+ * ```typescript
+ * negotiateMediaType('image/png', ['application/json', 'image/png']); // 'image/png'
+ * negotiateMediaType('*\/*', ['application/json', 'image/png']); // 'application/json'
+ * ```
+ */
+export function negotiateMediaType<T extends string>(
+  accept: string | undefined,
+  supported: readonly T[]
+): T | undefined {
+  if (!accept?.trim()) return supported[0];
+
+  const ranges = parseAccept(accept);
+  let selected: { mediaType: T; quality: number } | undefined;
+  for (const mediaType of supported) {
+    const quality = qualityFor(mediaType, ranges);
+    if (quality > 0 && (!selected || quality > selected.quality)) {
+      selected = { mediaType, quality };
+    }
+  }
+  return selected?.mediaType;
+}
+
+/**
+ * `Accept-Language` ヘッダーから応答する言語を選択する
+ *
+ * 言語タグは主言語（`ja-JP` の `ja`）で照合し、品質値が最も高い言語を選びます。
+ * 同じ品質値の場合はヘッダーの先頭に近い言語を優先し、`*` は `supported` のうち
+ * 除外（`q=0`）されていない先頭の言語に一致します。
+ *
+ * @param acceptLanguage - `Accept-Language` ヘッダーの値
+ * @param supported - 応答可能な言語（主言語のタグ、優先順）
+ * @returns 選択した言語。ヘッダー未指定・いずれも受け付けられない場合は undefined
+ *
+ * @example
+ * ```typescript
+ * negotiateLanguage('ja-JP,ja;q=0.9,en;q=0.8', ['en', 'ja']); // 'ja'
+ * negotiateLanguage('fr', ['en', 'ja']); // undefined
+ * ```
+ */
+export function negotiateLanguage<T extends string>(
+  acceptLanguage: string | undefined,
+  supported: readonly T[]
+): T | undefined {
+  if (!acceptLanguage?.trim()) return undefined;
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((entry) => {
+      const [tag, ...params] = entry.split(';').map((part) => part.trim());
+      const qParam = params.find((param) => /^q=/i.test(param));
+      const quality = qParam ? Number(qParam.slice(2)) : 1;
+      return {
+        language: tag.toLowerCase().split('-')[0],
+        quality: Number.isFinite(quality)
+          ? Math.min(1, Math.max(0, quality))
+          : 0,
+      };
+    })
+    .filter((range) => range.language);
+  const excluded = new Set(
+    ranges.filter((range) => range.quality === 0).map((range) => range.language)
+  );
+
+  // 安定ソートのため、同じ品質値ではヘッダーの順序が保たれる
+  for (const range of [...ranges].sort((a, b) => b.quality - a.quality)) {
+    if (range.quality === 0) break;
+    const match =
+      range.language === '*'
+        ? supported.find((language) => !excluded.has(language.toLowerCase()))
+        : supported.find(
+            (language) => language.toLowerCase() === range.language
+          );
+    if (match) return match;
+  }
+  return undefined;
+}
@@ -0,0 +1,224 @@
+import { encode as encodePng } from 'fast-png';
+import { describe, expect, it } from 'vitest';
+
+import {
+  convertImageFormat,
+  decodeImage,
+  encodeImage,
+  type RgbaImage,
+} from './image-codec';
+import { ImageConversionError } from './image-converter';
+import { detectImageMimeType, parseImageHeader } from './image-header';
+
+/** 左半分が赤、右半分が青の RGBA 画像を生成 */
+function createSplitImage(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const isLeft = x < width / 2;
+      data[i] = isLeft ? 255 : 0;
+      data[i + 2] = isLeft ? 0 : 255;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+describe('image-codec', () => {
+  describe('encodeImage / decodeImage', () => {
+    it('PNG はロスレスに往復できる', () => {
+      const image = createSplitImage(8, 6);
+      const png = encodeImage(image, 'image/png');
+
+      expect(detectImageMimeType(png)).toBe('image/png');
+      expect(decodeImage(png)).toEqual(image);
+    });
+
+    it('JPEG はサイズを保ち、色がおおよそ維持される', () => {
+      const image = createSplitImage(16, 16);
+      const jpeg = encodeImage(image, 'image/jpeg', { jpegQuality: 95 });
+      const decoded = decodeImage(jpeg);
+
+      expect(detectImageMimeType(jpeg)).toBe('image/jpeg');
+      expect(decoded.width).toBe(16);
+      expect(decoded.height).toBe(16);
+      // 左上は赤、右下は青
+      expect(decoded.data[0]).toBeGreaterThan(200);
+      expect(decoded.data[2]).toBeLessThan(60);
+      const last = decoded.data.length - 4;
+      expect(decoded.data[last]).toBeLessThan(60);
+      expect(decoded.data[last + 2]).toBeGreaterThan(200);
+    });
+
+    it('JPEG の品質が低いほどファイルサイズが小さくなる', () => {
+      const image = createSplitImage(64, 64);
+      for (let i = 0; i < image.data.length; i += 4) {
+        image.data[i + 1] = (i * 7) % 256; // ノイズを加えて圧縮差を出す
+      }
+      const high = encodeImage(image, 'image/jpeg', { jpegQuality: 95 });
+      const low = encodeImage(image, 'image/jpeg', { jpegQuality: 20 });
+
+      expect(low.length).toBeLessThan(high.length);
+    });
+
+    it('JPEG 出力では透過部分を白背景に合成する', () => {
+      const image: RgbaImage = {
+        width: 8,
+        height: 8,
+        data: new Uint8Array(8 * 8 * 4), // 完全透過の黒
+      };
+      const decoded = decodeImage(encodeImage(image, 'image/jpeg'));
+
+      expect(decoded.data[0]).toBeGreaterThan(240);
+      expect(decoded.data[1]).toBeGreaterThan(240);
+      expect(decoded.data[2]).toBeGreaterThan(240);
+    });
+
+    it('グレースケール・16bit の PNG も RGBA へ正規化する', () => {
+      const gray = encodePng({
+        width: 2,
+        height: 1,
+        data: new Uint8Array([0, 255]),
+        depth: 8,
+        channels: 1,
+      });
+      expect(Array.from(decodeImage(gray).data)).toEqual([
+        0, 0, 0, 255, 255, 255, 255, 255,
+      ]);
+
+      const deep = encodePng({
+        width: 1,
+        height: 1,
+        data: new Uint16Array([0xffff, 0x8000, 0x0000]),
+        depth: 16,
+        channels: 3,
+      });
+      expect(Array.from(decodeImage(deep).data)).toEqual([255, 128, 0, 255]);
+    });
+
+    it('WebP や未知の形式のデコードは ImageConversionError をスローする', () => {
+      const webp = new Uint8Array(30);
+      webp.set(Array.from('RIFF', (ch) => ch.charCodeAt(0)), 0);
+      webp.set(Array.from('WEBPVP8X', (ch) => ch.charCodeAt(0)), 8);
+
+      expect(() => decodeImage(webp)).toThrow(ImageConversionError);
+      expect(() => decodeImage(new TextEncoder().encode('payload'))).toThrow(
+        ImageConversionError
+      );
+    });
+
+    it('壊れた PNG のデコードは ImageConversionError をスローする', () => {
+      const png = encodeImage(createSplitImage(4, 4), 'image/png');
+      expect(() => decodeImage(png.subarray(0, 40))).toThrow(
+        ImageConversionError
+      );
+    });
+  });
+
+  describe('convertImageFormat', () => {
+    it('PNG を JPEG へ変換し、実際の形式とサイズを返す', () => {
+      const png = encodeImage(createSplitImage(10, 4), 'image/png');
+      const result = convertImageFormat(png, { targetMimeType: 'image/jpeg' });
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect(detectImageMimeType(result.bytes)).toBe('image/jpeg');
+      expect(parseImageHeader(result.bytes)).toMatchObject({
+        width: 10,
+        height: 4,
+      });
+      expect(result.width).toBe(10);
+      expect(result.height).toBe(4);
+    });
+
+    it('JPEG を PNG へ変換できる', () => {
+      const jpeg = encodeImage(createSplitImage(8, 8), 'image/jpeg');
+      const result = convertImageFormat(jpeg, { targetMimeType: 'image/png' });
+
+      expect(result.mimeType).toBe('image/png');
+      expect(detectImageMimeType(result.bytes)).toBe('image/png');
+    });
+
+    it('変換先が同じ形式なら再エンコードせずに元のバイト列を返す', () => {
+      const png = encodeImage(createSplitImage(4, 4), 'image/png');
+      const result = convertImageFormat(png, { targetMimeType: 'image/png' });
+
+      expect(result.bytes).toBe(png);
+      expect(result.mimeType).toBe('image/png');
+    });
+
+    it('変換先が未指定なら元の形式を判別して返す', () => {
+      const jpeg = encodeImage(createSplitImage(4, 4), 'image/jpeg');
+      const result = convertImageFormat(jpeg, {
+        fallbackMimeType: 'image/png',
+      });
+
+      expect(result.bytes).toBe(jpeg);
+      expect(result.mimeType).toBe('image/jpeg');
+    });
+
+    it('デコードできない形式は元のバイト列と実際の MIME を返す', () => {
+      const webp = new Uint8Array(30);
+      webp.set(Array.from('RIFF', (ch) => ch.charCodeAt(0)), 0);
+      webp.set(Array.from('WEBPVP8X', (ch) => ch.charCodeAt(0)), 8);
+
+      const result = convertImageFormat(webp, { targetMimeType: 'image/jpeg' });
+
+      expect(result.bytes).toBe(webp);
+      expect(result.mimeType).toBe('image/webp');
+    });
+
+    it('形式を判別できない場合は fallbackMimeType を使用する', () => {
+      const unknown = new TextEncoder().encode('payload');
+      const result = convertImageFormat(unknown, {
+        fallbackMimeType: 'image/jpeg',
+      });
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect(result.width).toBe(0);
+      expect(result.height).toBe(0);
+    });
+
+    it('transform 指定時は同じ形式でもピクセルへ適用して再エンコードする', () => {
+      const png = encodeImage(createSplitImage(4, 4), 'image/png');
+
+      const result = convertImageFormat(png, {
+        transform: (image) => ({ ...image, data: image.data.map(() => 0) }),
+      });
+
+      expect(result.bytes).not.toBe(png);
+      expect(result.mimeType).toBe('image/png');
+      expect(Array.from(decodeImage(result.bytes).data.subarray(0, 4))).toEqual([
+        0, 0, 0, 0,
+      ]);
+    });
+
+    it('transform は変換先の形式へエンコードする前に適用される', () => {
+      const png = encodeImage(createSplitImage(8, 8), 'image/png');
+
+      const result = convertImageFormat(png, {
+        targetMimeType: 'image/jpeg',
+        transform: (image) => {
+          const data = image.data.slice();
+          for (let i = 0; i < data.length; i += 4) data.set([0, 255, 0, 255], i);
+          return { ...image, data };
+        },
+      });
+      const decoded = decodeImage(result.bytes);
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect(decoded.data[1]).toBeGreaterThan(200);
+      expect(decoded.data[0]).toBeLessThan(50);
+    });
+
+    it('transform 指定時にデコードできない形式は ImageConversionError をスローする', () => {
+      const webp = new Uint8Array([
+        0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50,
+      ]);
+
+      expect(() =>
+        convertImageFormat(webp, { transform: (image) => image })
+      ).toThrow(ImageConversionError);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * 画像エンコード／デコードユーティリティ
+ *
+ * Cloudflare Workers 上で動作する純粋な JavaScript 実装
+ * （PNG: fast-png / JPEG: jpeg-js）を用いて、画像を RGBA ピクセルへ
+ * デコードし、指定形式へ再エンコードします。
+ * WebP のデコードには対応していません。
+ */
+
+import {
+  convertIndexedToRgb,
+  decode as decodePng,
+  encode as encodePng,
+} from 'fast-png';
+import { decode as decodeJpeg, encode as encodeJpeg } from 'jpeg-js';
+
+import { ImageConversionError } from './image-converter';
+import { detectImageMimeType, parseImageHeader } from './image-header';
+
+/**
+ * エンコード可能な画像の MIME タイプ
+ */
+export type EncodableMimeType = 'image/png' | 'image/jpeg';
+
+/**
+ * RGBA（8bit × 4チャンネル）のピクセルデータ
+ */
+export interface RgbaImage {
+  /** 画像の幅（ピクセル） */
+  width: number;
+  /** 画像の高さ（ピクセル） */
+  height: number;
+  /** 行優先で並んだ RGBA 値（長さ: width × height × 4） */
+  data: Uint8Array;
+}
+
+/**
+ * エンコードオプション
+ */
+export interface EncodeOptions {
+  /**
+   * JPEG の品質（1〜100）
+   * @default 90
+   */
+  jpegQuality?: number;
+}
+
+/**
+ * 形式変換のオプション
+ */
+export interface ConvertImageFormatOptions extends EncodeOptions {
+  /**
+   * 変換先の MIME タイプ
+   * @description 未指定の場合は変換せず、元画像の形式をそのまま返す
+   */
+  targetMimeType?: EncodableMimeType;
+  /**
+   * 元画像の形式をシグネチャから判別できない場合に使用する MIME タイプ
+   * @default "image/png"
+   */
+  fallbackMimeType?: string;
+  /**
+   * エンコード前にピクセルへ適用する変換（透かしの描画など）
+   * @description 指定時は形式が同じでも必ずデコード・再エンコードする。
+   * デコードできない場合は変換を省略せず `ImageConversionError` をスローする
+   */
+  transform?: (image: RgbaImage) => RgbaImage;
+}
+
+/**
+ * 形式変換の結果
+ */
+export interface ConvertedImage {
+  /** 変換後（または元）の画像バイト列 */
+  bytes: Uint8Array;
+  /** `bytes` の実際の MIME タイプ */
+  mimeType: string;
+  /** 画像の幅（ピクセル）。解析できない場合は 0 */
+  width: number;
+  /** 画像の高さ（ピクセル）。解析できない場合は 0 */
+  height: number;
+}
+
+/** JPEG 品質の既定値 */
+export const DEFAULT_JPEG_QUALITY = 90;
+
+/** デコードを許可する最大解像度（メガピクセル） */
+const MAX_DECODE_RESOLUTION_MP = 50;
+
+/**
+ * ビット深度 1/2/4 で詰められたグレースケール値を 8bit へ展開する
+ */
+function unpackGrayscale(
+  packed: Uint8Array,
+  width: number,
+  height: number,
+  depth: number
+): Uint8Array {
+  const result = new Uint8Array(width * height);
+  const bytesPerLine = Math.ceil((width * depth) / 8);
+  const maxValue = (1 << depth) - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bitOffset = x * depth;
+      const byte = packed[y * bytesPerLine + (bitOffset >> 3)];
+      const shift = 8 - depth - (bitOffset & 7);
+      const value = (byte >> shift) & maxValue;
+      result[y * width + x] = Math.round((value * 255) / maxValue);
+    }
+  }
+  return result;
+}
+
+/**
+ * fast-png のデコード結果を RGBA 8bit へ正規化する
+ */
+function decodePngToRgba(bytes: Uint8Array): RgbaImage {
+  const png = decodePng(bytes);
+  const { width, height } = png;
+  const pixelCount = width * height;
+
+  let samples: Uint8Array;
+  let channels = png.channels;
+
+  if (png.palette) {
+    samples = convertIndexedToRgb(png);
+    channels = samples.length / pixelCount;
+  } else if (png.depth === 16) {
+    samples = new Uint8Array(png.data.length);
+    for (let i = 0; i < png.data.length; i++) {
+      samples[i] = png.data[i] >> 8;
+    }
+  } else if (png.depth < 8) {
+    samples = unpackGrayscale(png.data as Uint8Array, width, height, png.depth);
+  } else {
+    samples = png.data as Uint8Array;
+  }
+
+  const data = new Uint8Array(pixelCount * 4);
+  for (let i = 0; i < pixelCount; i++) {
+    const src = i * channels;
+    const dst = i * 4;
+    if (channels >= 3) {
+      data[dst] = samples[src];
+      data[dst + 1] = samples[src + 1];
+      data[dst + 2] = samples[src + 2];
+      data[dst + 3] = channels === 4 ? samples[src + 3] : 255;
+    } else {
+      const gray = samples[src];
+      data[dst] = gray;
+      data[dst + 1] = gray;
+      data[dst + 2] = gray;
+      data[dst + 3] = channels === 2 ? samples[src + 1] : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * 画像バイト列を RGBA ピクセルへデコードする
+ *
+ * @param bytes - PNG または JPEG のバイト列
+ * @returns RGBA ピクセルデータ
+ * @throws {ImageConversionError} 未対応の形式、または画像が壊れている場合
+ *
+ * @example
+ * ```typescript
+ * const image = decodeImage(bytes);
+ * console.log(image.width, image.height);
+ * ```
+ */
+export function decodeImage(bytes: Uint8Array): RgbaImage {
+  const mimeType = detectImageMimeType(bytes);
+
+  try {
+    if (mimeType === 'image/png') {
+      return decodePngToRgba(bytes);
+    }
+    if (mimeType === 'image/jpeg') {
+      const decoded = decodeJpeg(bytes, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_DECODE_RESOLUTION_MP,
+      });
+      return {
+        width: decoded.width,
+        height: decoded.height,
+        data: decoded.data,
+      };
+    }
+  } catch (error) {
+    throw new ImageConversionError(
+      `画像のデコードに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  }
+
+  throw new ImageConversionError(
+    `デコードに対応していない画像形式です: ${mimeType ?? 'unknown'}`
+  );
+}
+
+/**
+ * JPEG は透過を持てないため、アルファを白背景に合成した RGBA を返す
+ */
+function flattenAlpha(image: RgbaImage): Uint8Array {
+  const { data } = image;
+  const flattened = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    flattened[i] = Math.round(data[i] * alpha + 255 * (1 - alpha));
+    flattened[i + 1] = Math.round(data[i + 1] * alpha + 255 * (1 - alpha));
+    flattened[i + 2] = Math.round(data[i + 2] * alpha + 255 * (1 - alpha));
+    flattened[i + 3] = 255;
+  }
+  return flattened;
+}
+
+/**
+ * RGBA ピクセルを指定形式へエンコードする
+ *
+ * @param image - RGBA ピクセルデータ
+ * @param mimeType - 出力形式
+ * @param options - エンコードオプション
+ * @returns エンコードされた画像バイト列
+ * @throws {ImageConversionError} エンコードに失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const jpegBytes = encodeImage(image, 'image/jpeg', { jpegQuality: 80 });
+ * ```
+ */
+export function encodeImage(
+  image: RgbaImage,
+  mimeType: EncodableMimeType,
+  options: EncodeOptions = {}
+): Uint8Array {
+  try {
+    if (mimeType === 'image/jpeg') {
+      const quality = Math.min(
+        100,
+        Math.max(1, Math.round(options.jpegQuality ?? DEFAULT_JPEG_QUALITY))
+      );
+      const encoded = encodeJpeg(
+        { width: image.width, height: image.height, data: flattenAlpha(image) },
+        quality
+      );
+      return new Uint8Array(encoded.data);
+    }
+
+    return encodePng({
+      width: image.width,
+      height: image.height,
+      data: image.data,
+      depth: 8,
+      channels: 4,
+    });
+  } catch (error) {
+    throw new ImageConversionError(
+      `画像のエンコードに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  }
+}
+
+/**
+ * 画像を指定形式へ変換する
+ *
+ * 元画像が既に変換先の形式であれば再エンコードせずにそのまま返します。
+ * 元画像をデコードできない場合（WebP など）も元のバイト列を返し、
+ * `mimeType` には実際の形式を設定します。
+ * そのため、戻り値の `mimeType` は常に `bytes` の実際の形式と一致します。
+ *
+ * `transform` を指定した場合は、変換先（未指定時は元の形式）へエンコードする直前に
+ * ピクセルへ適用します。
+ *
+ * @param bytes - 元画像のバイト列
+ * @param options - 変換オプション
+ * @returns 変換結果
+ * @throws {ImageConversionError} `transform` 指定時に画像をデコード・エンコードできない場合
+ *
+ * @example
+ * ```typescript
+ * const converted = convertImageFormat(bytes, { targetMimeType: 'image/jpeg' });
+ * console.log(converted.mimeType); // "image/jpeg"（変換できた場合）
+ * ```
+ */
+export function convertImageFormat(
+  bytes: Uint8Array,
+  options: ConvertImageFormatOptions = {}
+): ConvertedImage {
+  const { targetMimeType, fallbackMimeType = 'image/png', transform } = options;
+  const header = parseImageHeader(bytes);
+  const original: ConvertedImage = {
+    bytes,
+    mimeType: detectImageMimeType(bytes) ?? fallbackMimeType,
+    width: header?.width ?? 0,
+    height: header?.height ?? 0,
+  };
+
+  if (!transform && (!targetMimeType || original.mimeType === targetMimeType)) {
+    return original;
+  }
+
+  try {
+    const decoded = decodeImage(bytes);
+    const image = transform ? transform(decoded) : decoded;
+    // デコードできた時点で元の形式は PNG / JPEG のいずれか
+    const mimeType = targetMimeType ?? (original.mimeType as EncodableMimeType);
+    return {
+      bytes: encodeImage(image, mimeType, options),
+      mimeType,
+      width: image.width,
+      height: image.height,
+    };
+  } catch (error) {
+    // 変換（透かし等）は省略できないため、失敗をそのまま伝える
+    if (transform) throw error;
+    return original;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RgbaImage } from './image-codec';
+import { matchColors } from './image-color-match';
+
+/** 横方向のグラデーションに色かぶり（RGB のオフセット）を加えた画像 */
+function createGradient(
+  width: number,
+  height: number,
+  tint: [number, number, number] = [0, 0, 0]
+): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = Math.round((x / (width - 1)) * 200) + 20;
+      const clamp = (n: number) => Math.min(255, Math.max(0, n));
+      data.set(
+        [clamp(v + tint[0]), clamp(v + tint[1]), clamp(v + tint[2]), 255],
+        (y * width + x) * 4
+      );
+    }
+  }
+  return { width, height, data };
+}
+
+/** チャンネルごとの平均値 */
+function channelMeans(image: RgbaImage): number[] {
+  const sum = [0, 0, 0];
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) sum[c] += image.data[i + c];
+  }
+  return sum.map((value) => value / (image.width * image.height));
+}
+
+describe('matchColors', () => {
+  it('ヒストグラムマッチングで色かぶりを元画像の色調へ戻す', () => {
+    const original = createGradient(32, 8);
+    const tinted = createGradient(32, 8, [30, 0, -20]);
+
+    const matched = matchColors(tinted, original);
+
+    const expected = channelMeans(original);
+    channelMeans(matched).forEach((mean, c) => {
+      expect(mean).toBeCloseTo(expected[c], 0);
+    });
+  });
+
+  it('Lab の平均・分散を一致させて色かぶりを補正する', () => {
+    const original = createGradient(32, 8);
+    const tinted = createGradient(32, 8, [30, 0, -20]);
+
+    const matched = matchColors(tinted, original, { method: 'lab' });
+
+    const before = channelMeans(tinted);
+    const after = channelMeans(matched);
+    const expected = channelMeans(original);
+    // 色かぶりのある R / B チャンネルのずれが 1/3 未満に縮まる
+    for (const c of [0, 2]) {
+      expect(Math.abs(after[c] - expected[c])).toBeLessThan(
+        Math.abs(before[c] - expected[c]) / 3
+      );
+    }
+  });
+
+  it('strength で補正の強さを調整できる', () => {
+    const original = createGradient(32, 8);
+    const tinted = createGradient(32, 8, [40, 0, 0]);
+
+    const half = channelMeans(matchColors(tinted, original, { strength: 0.5 }));
+
+    const red = [channelMeans(original)[0], channelMeans(tinted)[0]];
+    expect(half[0]).toBeGreaterThan(red[0] + 10);
+    expect(half[0]).toBeLessThan(red[1] - 10);
+  });
+
+  it('strength が 0 の場合は同じ画素のコピーを返す', () => {
+    const original = createGradient(16, 4);
+    const tinted = createGradient(16, 4, [30, 0, 0]);
+
+    const matched = matchColors(tinted, original, { strength: 0 });
+
+    expect(matched.data).toEqual(tinted.data);
+    expect(matched.data).not.toBe(tinted.data);
+  });
+
+  it('アルファ値は変更せず、入力画像も変更しない', () => {
+    const original = createGradient(16, 4);
+    const tinted = createGradient(16, 4, [0, 0, 30]);
+    tinted.data[3] = 0;
+    const snapshot = tinted.data.slice();
+
+    const matched = matchColors(tinted, original, { method: 'lab' });
+
+    expect(tinted.data).toEqual(snapshot);
+    for (let i = 3; i < matched.data.length; i += 4) {
+      expect(matched.data[i]).toBe(tinted.data[i]);
+    }
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * 色調補正（カラーマッチング）ユーティリティ
+ *
+ * 生成画像のホワイトバランスや彩度が元画像からずれると、ビフォー・アフターの比較が
+ * 不自然に見えます。生成画像の色分布を元画像に合わせることで、色調のずれを補正します。
+ */
+
+import type { RgbaImage } from './image-codec';
+
+/**
+ * 色調補正の方式
+ * - `histogram`: RGB の各チャンネルのヒストグラムを元画像に一致させる
+ * - `lab`: Lab 色空間の各チャンネルの平均と分散を元画像に一致させる
+ */
+export type ColorMatchMethod = 'histogram' | 'lab';
+
+/**
+ * 色調補正の設定
+ */
+export interface ColorMatchSettings {
+  /**
+   * 補正の方式
+   * @default 'histogram'
+   */
+  method?: ColorMatchMethod;
+  /**
+   * 補正の強さ（0: 補正しない 〜 1: 完全に一致させる）
+   * @default 1
+   */
+  strength?: number;
+}
+
+/** 透明とみなすアルファ値（これ以下の画素は統計から除外する） */
+const TRANSPARENT_ALPHA = 0;
+
+/** D65 白色点 */
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+/** sRGB（0〜255）から線形 RGB（0〜1）への変換テーブル */
+const SRGB_TO_LINEAR = (() => {
+  const table = new Float64Array(256);
+  for (let i = 0; i < 256; i++) {
+    const c = i / 255;
+    table[i] = c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  }
+  return table;
+})();
+
+function linearToSrgb(value: number): number {
+  const c =
+    value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  return t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+}
+
+/**
+ * sRGB の 1 画素を Lab へ変換する
+ */
+function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X;
+  const y = (0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y;
+  const z = (0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z;
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Lab の 1 画素を sRGB へ変換する
+ */
+function labToRgb(l: number, a: number, b: number): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = labFInverse(fx) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fz) * WHITE_Z;
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+}
+
+/**
+ * RGB 各チャンネルの累積分布（0〜1）を求める
+ */
+function cumulativeHistograms(image: RgbaImage): Float64Array[] {
+  const histograms = [0, 1, 2].map(() => new Float64Array(256));
+  let count = 0;
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] <= TRANSPARENT_ALPHA) continue;
+    histograms[0][image.data[i]]++;
+    histograms[1][image.data[i + 1]]++;
+    histograms[2][image.data[i + 2]]++;
+    count++;
+  }
+  for (const histogram of histograms) {
+    let sum = 0;
+    for (let v = 0; v < 256; v++) {
+      sum += histogram[v];
+      histogram[v] = count > 0 ? sum / count : v / 255;
+    }
+  }
+  return histograms;
+}
+
+/**
+ * 累積分布が最も近い値へ写像するチャンネルごとの変換表を作る
+ */
+function buildHistogramLookup(
+  source: Float64Array,
+  reference: Float64Array
+): Uint8Array {
+  const lookup = new Uint8Array(256);
+  let r = 0;
+  for (let v = 0; v < 256; v++) {
+    while (r < 255 && reference[r] < source[v]) r++;
+    lookup[v] = r;
+  }
+  return lookup;
+}
+
+/**
+ * ヒストグラムマッチングで色調を補正する
+ */
+function matchHistogram(
+  image: RgbaImage,
+  reference: RgbaImage,
+  strength: number
+): RgbaImage {
+  const source = cumulativeHistograms(image);
+  const target = cumulativeHistograms(reference);
+  const lookups = [0, 1, 2].map((c) =>
+    buildHistogramLookup(source[c], target[c])
+  );
+
+  const data = image.data.slice();
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const value = data[i + c];
+      data[i + c] = Math.round(value + (lookups[c][value] - value) * strength);
+    }
+  }
+  return { ...image, data };
+}
+
+/**
+ * Lab 各チャンネルの平均と標準偏差を求める
+ */
+function labStatistics(image: RgbaImage): { mean: number[]; std: number[] } {
+  const sum = [0, 0, 0];
+  const sumSquares = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] <= TRANSPARENT_ALPHA) continue;
+    const lab = rgbToLab(image.data[i], image.data[i + 1], image.data[i + 2]);
+    for (let c = 0; c < 3; c++) {
+      sum[c] += lab[c];
+      sumSquares[c] += lab[c] * lab[c];
+    }
+    count++;
+  }
+  const n = Math.max(1, count);
+  const mean = sum.map((value) => value / n);
+  const std = sumSquares.map((value, c) =>
+    Math.sqrt(Math.max(0, value / n - mean[c] * mean[c]))
+  );
+  return { mean, std };
+}
+
+/**
+ * Lab 色空間の平均・分散を一致させて色調を補正する
+ */
+function matchLabStatistics(
+  image: RgbaImage,
+  reference: RgbaImage,
+  strength: number
+): RgbaImage {
+  const source = labStatistics(image);
+  const target = labStatistics(reference);
+  // 単色に近いチャンネルで倍率が発散しないよう、標準偏差の下限を設ける
+  const scale = [0, 1, 2].map((c) =>
+    source.std[c] > 1e-3 ? target.std[c] / source.std[c] : 1
+  );
+
+  const data = image.data.slice();
+  for (let i = 0; i < data.length; i += 4) {
+    const lab = rgbToLab(data[i], data[i + 1], data[i + 2]);
+    const matched = lab.map((value, c) => {
+      const mapped = (value - source.mean[c]) * scale[c] + target.mean[c];
+      return value + (mapped - value) * strength;
+    });
+    const rgb = labToRgb(matched[0], matched[1], matched[2]);
+    data[i] = rgb[0];
+    data[i + 1] = rgb[1];
+    data[i + 2] = rgb[2];
+  }
+  return { ...image, data };
+}
+
+/**
+ * 画像の色調を参照画像（元画像）に合わせて補正する
+ *
+ * 色の統計のみを使用するため、両画像のサイズが異なっていても構いません。
+ * 完全に透明な画素は統計から除外し、アルファ値は変更しません。
+ *
+ * @param image - 補正する画像（変更されない）
+ * @param reference - 色調の基準とする画像
+ * @param settings - 補正の設定
+ * @returns 色調を補正した新しい画像
+ *
+ * @example
+ * ```typescript
+ * const matched = matchColors(generated, original, { method: 'lab', strength: 0.7 });
+ * ```
+ */
+export function matchColors(
+  image: RgbaImage,
+  reference: RgbaImage,
+  settings: ColorMatchSettings = {}
+): RgbaImage {
+  const { method = 'histogram' } = settings;
+  const strength = Math.min(1, Math.max(0, settings.strength ?? 1));
+  if (strength === 0) return { ...image, data: image.data.slice() };
+
+  return method === 'lab'
+    ? matchLabStatistics(image, reference, strength)
+    : matchHistogram(image, reference, strength);
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RgbaImage } from './image-codec';
+import { composeImages } from './image-composite';
+import { ImageConversionError } from './image-converter';
+
+/** 単色の RGBA 画像 */
+function createSolidImage(
+  width: number,
+  height: number,
+  rgb: [number, number, number]
+): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return { width, height, data };
+}
+
+function pixelAt(image: RgbaImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+function hasDarkPixel(image: RgbaImage, top: number, bottom: number): boolean {
+  for (let y = top; y < bottom; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (pixelAt(image, x, y)[0] < 50) return true;
+    }
+  }
+  return false;
+}
+
+describe('image-composite', () => {
+  describe('composeImages', () => {
+    it('横並びでは各画像を共通の高さに揃えて左から配置する', () => {
+      const red = createSolidImage(40, 80, [255, 0, 0]);
+      const blue = createSolidImage(60, 40, [0, 0, 255]);
+
+      // キャプションなし・高さ 40（倍率 1 → 余白 4px）
+      const composite = composeImages([{ image: red }, { image: blue }], {
+        height: 40,
+      });
+
+      // 赤は 20x40、青は 60x40 に揃う
+      expect(composite.width).toBe(4 + 20 + 4 + 60 + 4);
+      expect(composite.height).toBe(4 + 40 + 4);
+      expect(pixelAt(composite, 4, 4)).toEqual([255, 0, 0, 255]);
+      expect(pixelAt(composite, 4 + 20 + 4, 4)).toEqual([0, 0, 255, 255]);
+      // 余白は白
+      expect(pixelAt(composite, 0, 0)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('高さ未指定の場合は最も低い画像に揃える', () => {
+      const composite = composeImages([
+        { image: createSolidImage(50, 100, [255, 0, 0]) },
+        { image: createSolidImage(50, 50, [0, 255, 0]) },
+      ]);
+
+      expect(composite.height).toBe(4 + 50 + 4);
+    });
+
+    it('キャプションを画像の下に描画する', () => {
+      const composite = composeImages(
+        [
+          {
+            image: createSolidImage(100, 160, [255, 255, 255]),
+            caption: 'BEFORE 70KG',
+          },
+          {
+            image: createSolidImage(100, 160, [255, 255, 255]),
+            caption: 'AFTER 65KG',
+          },
+        ],
+        { height: 160 }
+      );
+
+      // 倍率 1: 文字の高さ 7 + 余白 6 のキャプション帯
+      expect(composite.height).toBe(4 + 160 + 13 + 4);
+      expect(hasDarkPixel(composite, 0, 4 + 160)).toBe(false);
+      expect(hasDarkPixel(composite, 4 + 160, 4 + 160 + 13)).toBe(true);
+    });
+
+    it('グリッドでは列数 ⌈√n⌉ で折り返して配置する', () => {
+      const panels = [
+        { image: createSolidImage(30, 30, [255, 0, 0]) },
+        { image: createSolidImage(30, 30, [0, 255, 0]) },
+        { image: createSolidImage(30, 30, [0, 0, 255]) },
+      ];
+
+      const composite = composeImages(panels, { layout: 'grid', height: 30 });
+
+      expect(composite.width).toBe(4 + 30 + 4 + 30 + 4);
+      expect(composite.height).toBe(4 + 30 + 4 + 30 + 4);
+      expect(pixelAt(composite, 4, 4 + 30 + 4)).toEqual([0, 0, 255, 255]);
+      // 2 行目の右側は空き
+      expect(pixelAt(composite, 4 + 30 + 4, 4 + 30 + 4)).toEqual([
+        255, 255, 255, 255,
+      ]);
+    });
+
+    it('パネルが無い場合は ImageConversionError をスローする', () => {
+      expect(() => composeImages([])).toThrow(ImageConversionError);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * 比較用の合成画像ユーティリティ
+ *
+ * 元画像と生成画像を共通の高さに揃えて 1 枚に並べ、
+ * 各画像の下にキャプションを描画します。
+ */
+
+import { drawText, measureText, type RgbaColor } from './bitmap-font';
+import type { RgbaImage } from './image-codec';
+import { ImageConversionError } from './image-converter';
+import { resizeRgbaImage } from './image-resize';
+
+/** 合成画像のレイアウト */
+export type CompositeLayout = 'horizontal' | 'grid';
+
+/** 共通の高さを自動決定する際の上限（ピクセル） */
+const MAX_AUTO_PANEL_HEIGHT = 1024;
+
+/** 背景色（白） */
+const BACKGROUND_COLOR: RgbaColor = [255, 255, 255, 255];
+/** キャプションの文字色（黒） */
+const CAPTION_COLOR: RgbaColor = [0, 0, 0, 255];
+
+/**
+ * 合成する 1 枚分のパネル
+ */
+export interface CompositePanel {
+  /** パネルの画像 */
+  image: RgbaImage;
+  /** 画像の下に描画するキャプション */
+  caption?: string;
+}
+
+/**
+ * 合成オプション
+ */
+export interface ComposeImagesOptions {
+  /**
+   * レイアウト（横一列 / グリッド）
+   * @default 'horizontal'
+   */
+  layout?: CompositeLayout;
+  /**
+   * 各パネルの共通の高さ（ピクセル）
+   * @default 最も低いパネルの高さ（最大 1024）
+   */
+  height?: number;
+}
+
+/**
+ * パネルの高さからキャプションの文字倍率を決める
+ */
+function captionScaleFor(panelHeight: number): number {
+  return Math.max(1, Math.round(panelHeight / 160));
+}
+
+/**
+ * 画像を別の画像の指定位置へ転写する
+ */
+function blit(
+  target: RgbaImage,
+  source: RgbaImage,
+  x: number,
+  y: number
+): void {
+  for (let row = 0; row < source.height; row++) {
+    const sourceStart = row * source.width * 4;
+    target.data.set(
+      source.data.subarray(sourceStart, sourceStart + source.width * 4),
+      ((y + row) * target.width + x) * 4
+    );
+  }
+}
+
+/**
+ * 背景色で塗りつぶした画像を生成する
+ */
+function createCanvas(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(BACKGROUND_COLOR, i);
+  return { width, height, data };
+}
+
+/**
+ * パネル画像を共通の高さへ拡縮し、下部にキャプション帯を付けたセルを生成する
+ */
+function renderCell(
+  panel: CompositePanel,
+  panelHeight: number,
+  captionHeight: number,
+  captionScale: number
+): RgbaImage {
+  const width = Math.max(
+    1,
+    Math.round((panel.image.width * panelHeight) / panel.image.height)
+  );
+  const cell = createCanvas(width, panelHeight + captionHeight);
+  blit(cell, resizeRgbaImage(panel.image, width, panelHeight), 0, 0);
+
+  if (panel.caption && captionHeight > 0) {
+    // セル幅に収まるまで文字倍率を下げる
+    let scale = captionScale;
+    while (scale > 1 && measureText(panel.caption, scale).width > width) {
+      scale--;
+    }
+    const size = measureText(panel.caption, scale);
+    drawText(
+      cell,
+      panel.caption,
+      Math.max(0, Math.floor((width - size.width) / 2)),
+      panelHeight + Math.floor((captionHeight - size.height) / 2),
+      { scale, color: CAPTION_COLOR }
+    );
+  }
+
+  return cell;
+}
+
+/**
+ * 複数の画像を共通の高さに揃えて 1 枚の画像へ合成する
+ *
+ * `horizontal` は横一列に、`grid` は列数 ⌈√n⌉ のグリッドに配置します。
+ * キャプションは各画像の下に中央揃えで描画します。
+ *
+ * @param panels - 合成するパネル（配置順）
+ * @param options - 合成オプション
+ * @returns 合成した画像
+ * @throws {ImageConversionError} パネルが 1 枚も無い場合
+ *
+ * @example
+ * ```typescript
+ * const composite = composeImages(
+ *   [
+ *     { image: before, caption: 'BEFORE 70KG' },
+ *     { image: after, caption: 'AFTER 65KG' },
+ *   ],
+ *   { layout: 'horizontal' }
+ * );
+ * ```
+ */
+export function composeImages(
+  panels: CompositePanel[],
+  options: ComposeImagesOptions = {}
+): RgbaImage {
+  if (panels.length === 0) {
+    throw new ImageConversionError('合成する画像がありません');
+  }
+
+  const { layout = 'horizontal' } = options;
+  const panelHeight =
+    options.height ??
+    Math.min(
+      MAX_AUTO_PANEL_HEIGHT,
+      ...panels.map((panel) => panel.image.height)
+    );
+  const captionScale = captionScaleFor(panelHeight);
+  const hasCaption = panels.some((panel) => panel.caption);
+  const captionHeight = hasCaption
+    ? measureText('', captionScale).height + captionScale * 6
+    : 0;
+  const gap = captionScale * 4;
+
+  const cells = panels.map((panel) =>
+    renderCell(panel, panelHeight, captionHeight, captionScale)
+  );
+
+  const columns =
+    layout === 'grid' ? Math.ceil(Math.sqrt(cells.length)) : cells.length;
+  const rows = Math.ceil(cells.length / columns);
+  const cellHeight = panelHeight + captionHeight;
+
+  if (layout === 'horizontal') {
+    const width =
+      cells.reduce((sum, cell) => sum + cell.width, 0) +
+      gap * (cells.length + 1);
+    const canvas = createCanvas(width, cellHeight + gap * 2);
+    let x = gap;
+    for (const cell of cells) {
+      blit(canvas, cell, x, gap);
+      x += cell.width + gap;
+    }
+    return canvas;
+  }
+
+  // グリッドは最も幅の広いセルに合わせた升目に中央揃えで配置する
+  const slotWidth = Math.max(...cells.map((cell) => cell.width));
+  const canvas = createCanvas(
+    slotWidth * columns + gap * (columns + 1),
+    cellHeight * rows + gap * (rows + 1)
+  );
+  cells.forEach((cell, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    blit(
+      canvas,
+      cell,
+      gap +
+        column * (slotWidth + gap) +
+        Math.floor((slotWidth - cell.width) / 2),
+      gap + row * (cellHeight + gap)
+    );
+  });
+  return canvas;
+}
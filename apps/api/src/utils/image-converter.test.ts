@@ -1,6 +1,48 @@
 import { describe, expect, it, vi } from 'vitest';
 
-import { fileToBase64, ImageConversionError } from './image-converter';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  fileToBase64,
+  ImageConversionError,
+} from './image-converter';
+
+/** アップロード画像の上限サイズ（10MB） */
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+/** 10MB の変換に許容する処理時間（ミリ秒） */
+const TIME_BUDGET_MS = 3000;
+/** 10MB の変換に許容するメモリ増加量（ヒープと ArrayBuffer の合計、バイト） */
+const MEMORY_BUDGET_BYTES = 64 * 1024 * 1024;
+
+/**
+ * 現在のメモリ使用量（バイト）
+ * heapUsed は ArrayBuffer の実体を含まないため、arrayBuffers を加えて計測する
+ */
+function measureMemory(): number {
+  const { heapUsed, arrayBuffers } = process.memoryUsage();
+  return heapUsed + arrayBuffers;
+}
+
+/**
+ * 文字列を UTF-8 でエンコードした ArrayBuffer（`File.arrayBuffer()` のモック用）
+ */
+function encodeText(text: string): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text);
+  const buffer = new ArrayBuffer(bytes.length);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
+
+/**
+ * 最初に異なるバイトの位置を返す（一致する場合は -1）
+ * 大きな配列に toEqual を使うと差分生成でメモリを消費するため、ループで比較する
+ */
+function findFirstMismatch(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return -1;
+}
 
 describe('image-converter', () => {
   describe('fileToBase64', () => {
@@ -11,14 +53,15 @@ describe('image-converter', () => {
           type: 'image/jpeg',
         });
 
-        const arrayBufferSpy = vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('test image data').buffer
-        );
+        const streamSpy = vi.spyOn(mockFile, 'stream');
+        const arrayBufferSpy = vi.spyOn(mockFile, 'arrayBuffer');
 
         const result = await fileToBase64(mockFile);
 
         expect(result).toBe(btoa('test image data'));
-        expect(arrayBufferSpy).toHaveBeenCalledTimes(1);
+        // ファイル全体を ArrayBuffer として展開せず、ストリームから読み込む
+        expect(streamSpy).toHaveBeenCalledTimes(1);
+        expect(arrayBufferSpy).not.toHaveBeenCalled();
       });
 
       it('PNGファイルを正しくBase64に変換できる', async () => {
@@ -27,7 +70,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('png image data').buffer
+          encodeText('png image data')
         );
 
         const result = await fileToBase64(mockFile);
@@ -41,7 +84,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('webp image data').buffer
+          encodeText('webp image data')
         );
 
         const result = await fileToBase64(mockFile);
@@ -86,7 +129,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('a').buffer
+          encodeText('a')
         );
 
         const result = await fileToBase64(mockFile);
@@ -114,7 +157,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('test data').buffer
+          encodeText('test data')
         );
 
         const result = await fileToBase64(mockFile);
@@ -141,35 +184,41 @@ describe('image-converter', () => {
         await expect(fileToBase64(123 as any)).rejects.toThrow(ImageConversionError);
       });
 
-      it('arrayBuffer()がエラーをスローした場合、適切なエラーメッセージを返す', async () => {
+      it('ストリームの読み込みでエラーが発生した場合、適切なエラーメッセージを返す', async () => {
         const mockFile = new File(['test'], 'test.jpg', {
           type: 'image/jpeg',
         });
 
-        vi.spyOn(mockFile, 'arrayBuffer').mockRejectedValue(new Error('Read error'));
+        vi.spyOn(mockFile, 'stream').mockImplementation(
+          () =>
+            new ReadableStream<Uint8Array>({
+              pull(controller) {
+                controller.error(new Error('Read error'));
+              },
+            })
+        );
 
         await expect(fileToBase64(mockFile)).rejects.toThrow(ImageConversionError);
         await expect(fileToBase64(mockFile)).rejects.toThrow('ファイルの読み込みに失敗しました: Read error');
       });
 
-      it('arrayBuffer()がnullを返した場合エラーをスローする', async () => {
+      it('stream()がnullを返した場合エラーをスローする', async () => {
         const mockFile = new File(['test'], 'test.jpg', {
           type: 'image/jpeg',
         });
 
-        vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(null as any);
+        vi.spyOn(mockFile, 'stream').mockReturnValue(null as any);
 
         await expect(fileToBase64(mockFile)).rejects.toThrow(ImageConversionError);
         await expect(fileToBase64(mockFile)).rejects.toThrow('ファイルの内容を読み込めませんでした');
       });
 
-      it('Uint8Array変換でエラーが発生した場合エラーをスローする', async () => {
+      it('stream()の呼び出しでエラーが発生した場合エラーをスローする', async () => {
         const mockFile = new File(['test'], 'test.jpg', {
           type: 'image/jpeg',
         });
 
-        // arrayBufferをモックして異常な値を返す
-        vi.spyOn(mockFile, 'arrayBuffer').mockImplementation(() => {
+        vi.spyOn(mockFile, 'stream').mockImplementation(() => {
           throw new Error('Buffer conversion failed');
         });
 
@@ -187,7 +236,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode(data).buffer
+          encodeText(data)
         );
 
         const result = await fileToBase64(mockFile);
@@ -196,6 +245,32 @@ describe('image-converter', () => {
         expect(result).toMatch(/=$/); // パディング文字で終わる
       });
 
+      it('3バイト境界をまたぐチャンクに分割されたストリームを正しく変換できる', async () => {
+        const data = new Uint8Array(1000).map((_, i) => (i * 7) % 256);
+        const mockFile = new File([data], 'test.jpg', { type: 'image/jpeg' });
+        const chunkSizes = [1, 2, 5, 300, 692];
+
+        vi.spyOn(mockFile, 'stream').mockImplementation(() => {
+          let offset = 0;
+          let index = 0;
+          return new ReadableStream<Uint8Array>({
+            pull(controller) {
+              if (index >= chunkSizes.length) {
+                controller.close();
+                return;
+              }
+              const size = chunkSizes[index++];
+              controller.enqueue(data.slice(offset, offset + size));
+              offset += size;
+            },
+          });
+        });
+
+        const result = await fileToBase64(mockFile);
+
+        expect(result).toBe(btoa(String.fromCharCode(...data)));
+      });
+
       it('日本語を含むデータを正しく変換できる', async () => {
         const data = '画像データ';
         const mockFile = new File([data], 'test.jpg', {
@@ -203,7 +278,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode(data).buffer
+          encodeText(data)
         );
 
         const result = await fileToBase64(mockFile);
@@ -219,7 +294,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('test data').buffer
+          encodeText('test data')
         );
 
         const result1 = await fileToBase64(mockFile);
@@ -237,13 +312,13 @@ describe('image-converter', () => {
         const file3 = new File(['data3'], 'test3.jpg', { type: 'image/jpeg' });
 
         vi.spyOn(file1, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('data1').buffer
+          encodeText('data1')
         );
         vi.spyOn(file2, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('data2').buffer
+          encodeText('data2')
         );
         vi.spyOn(file3, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('data3').buffer
+          encodeText('data3')
         );
 
         const [result1, result2, result3] = await Promise.all([
@@ -266,7 +341,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('safe data').buffer
+          encodeText('safe data')
         );
 
         const result = await fileToBase64(mockFile);
@@ -280,7 +355,7 @@ describe('image-converter', () => {
         });
 
         vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(
-          new TextEncoder().encode('safe data').buffer
+          encodeText('safe data')
         );
 
         const result = await fileToBase64(mockFile);
@@ -297,8 +372,6 @@ describe('image-converter', () => {
           type: 'image/jpeg',
         });
 
-        vi.spyOn(mockFile, 'arrayBuffer').mockResolvedValue(largeData.buffer);
-
         const startTime = Date.now();
         await fileToBase64(mockFile);
         const endTime = Date.now();
@@ -309,6 +382,55 @@ describe('image-converter', () => {
     });
   });
 
+  describe('base64ToBytes', () => {
+    it('Base64文字列をバイト列に変換できる', () => {
+      expect(Array.from(base64ToBytes('iVBORw0KGgo='))).toEqual([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ]);
+      expect(base64ToBytes('')).toHaveLength(0);
+    });
+
+    it('パディングの有無に関わらず正しい長さで返す', () => {
+      expect(Array.from(base64ToBytes('YWI='))).toEqual([0x61, 0x62]);
+      expect(Array.from(base64ToBytes('YWI'))).toEqual([0x61, 0x62]);
+      expect(Array.from(base64ToBytes('YQ=='))).toEqual([0x61]);
+    });
+
+    it('改行を含むBase64文字列をデコードできる', () => {
+      const data = new Uint8Array(100).map((_, i) => i);
+      const wrapped = btoa(String.fromCharCode(...data)).replace(
+        /(.{76})/g,
+        '$1\r\n'
+      );
+
+      expect(base64ToBytes(wrapped)).toEqual(data);
+    });
+
+    it('不正な文字列の場合はImageConversionErrorをスローする', () => {
+      expect(() => base64ToBytes('not base64!')).toThrow(ImageConversionError);
+      expect(() => base64ToBytes('not base64!')).toThrow(
+        'Base64文字列のデコードに失敗しました'
+      );
+    });
+  });
+
+  describe('bytesToBase64', () => {
+    it('チャンク境界をまたぐバイト列を btoa と同じ結果に変換できる', () => {
+      for (const size of [0, 1, 2, 3, 0x6000 - 1, 0x6000, 0x6000 + 1, 100000]) {
+        const data = new Uint8Array(size).map((_, i) => (i * 13) % 256);
+        let binary = '';
+        for (const byte of data) binary += String.fromCharCode(byte);
+
+        expect(bytesToBase64(data)).toBe(btoa(binary));
+      }
+    });
+
+    it('base64ToBytes と往復変換できる', () => {
+      const data = new Uint8Array(70000).map((_, i) => (i * 31) % 256);
+      expect(base64ToBytes(bytesToBase64(data))).toEqual(data);
+    });
+  });
+
   describe('ImageConversionError', () => {
     it('カスタムエラークラスが正しく機能する', () => {
       const error = new ImageConversionError('テストエラー');
@@ -327,4 +449,62 @@ describe('image-converter', () => {
       expect(error.stack).toContain('スタックトレーステスト');
     });
   });
-});
\ No newline at end of file
+
+  // process.memoryUsage() は Node.js でのみ計測できるため、既定のテストでは実行しない
+  // （MEMORY_BENCHMARK=1 を指定して実行する）
+  describe.runIf(process.env.MEMORY_BENCHMARK === '1')('メモリ使用量', () => {
+    it('10MBのファイルを時間予算内かつ一定のメモリ増加量で変換できる', async () => {
+      const chunkSize = 64 * 1024;
+      const totalSize = MAX_UPLOAD_SIZE;
+      const chunk = new Uint8Array(chunkSize).map((_, i) => i % 256);
+      const mockFile = new File([], 'large.jpg', { type: 'image/jpeg' });
+
+      // 64KB ずつ供給するストリームで、読み込みのたびにメモリ使用量を記録する
+      const baseline = measureMemory();
+      let peak = baseline;
+      vi.spyOn(mockFile, 'stream').mockImplementation(() => {
+        let sent = 0;
+        return new ReadableStream<Uint8Array>({
+          pull(controller) {
+            peak = Math.max(peak, measureMemory());
+            if (sent >= totalSize) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(chunk.slice());
+            sent += chunkSize;
+          },
+        });
+      });
+
+      const startTime = Date.now();
+      const result = await fileToBase64(mockFile);
+      const elapsedTime = Date.now() - startTime;
+      peak = Math.max(peak, measureMemory());
+
+      expect(result.length).toBe(Math.ceil(totalSize / 3) * 4);
+      expect(result.slice(0, 8)).toBe(
+        btoa(String.fromCharCode(...chunk.subarray(0, 6)))
+      );
+      expect(elapsedTime).toBeLessThan(TIME_BUDGET_MS);
+      // 出力文字列（約14MB）と一時的なチャンク分を超えて増加しない
+      expect(peak - baseline).toBeLessThan(MEMORY_BUDGET_BYTES);
+    });
+
+    it('10MB相当のBase64を時間予算内かつ一定のメモリ増加量でデコードできる', () => {
+      const data = new Uint8Array(MAX_UPLOAD_SIZE).map((_, i) => i % 251);
+      const base64 = bytesToBase64(data);
+
+      const baseline = measureMemory();
+      const startTime = Date.now();
+      const result = base64ToBytes(base64);
+      const elapsedTime = Date.now() - startTime;
+      const growth = measureMemory() - baseline;
+
+      expect(result.length).toBe(data.length);
+      expect(findFirstMismatch(result, data)).toBe(-1);
+      expect(elapsedTime).toBeLessThan(TIME_BUDGET_MS);
+      expect(growth).toBeLessThan(MEMORY_BUDGET_BYTES);
+    });
+  });
+});
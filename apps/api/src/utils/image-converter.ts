@@ -9,9 +9,39 @@ export class ImageConversionError extends Error {
   }
 }
 
+/**
+ * 一度に Base64 化するバイト数
+ *
+ * 3 の倍数にすることで、チャンクごとの Base64 文字列を連結しても
+ * 途中にパディング（`=`）が入らないようにしています。
+ */
+const ENCODE_CHUNK_SIZE = 0x6000;
+
+/**
+ * 一度にデコードする Base64 の文字数（4 の倍数）
+ */
+const DECODE_CHUNK_SIZE = 0x8000;
+
+/**
+ * 3 の倍数長のバイト列を Base64 文字列のパーツへ変換して追加する
+ *
+ * バイト列全体を 1 文字ずつの配列にせず、一定サイズごとに `btoa` するため、
+ * 大きな画像でも CPU 時間とメモリ使用量を抑えられます。
+ */
+function appendBase64Parts(bytes: Uint8Array, parts: string[]): void {
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK_SIZE) {
+    parts.push(
+      btoa(String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK_SIZE)))
+    );
+  }
+}
+
 /**
  * FileオブジェクトをBase64文字列に変換する
  *
+ * `File.stream()` から読み込んだチャンクを順次エンコードするため、
+ * ファイル全体を一度に展開せずに変換できます。
+ *
  * @param file - 変換するFileオブジェクト
  * @returns Base64エンコードされた文字列
  * @throws {ImageConversionError} ファイルの読み込みや変換に失敗した場合
@@ -29,30 +59,37 @@ export async function fileToBase64(file: File): Promise<string> {
   }
 
   try {
-    // ファイルをArrayBufferとして読み込む
-    const arrayBuffer = await file.arrayBuffer();
+    // ファイルをストリームとして読み込む
+    const stream = file.stream();
 
-    // ArrayBufferの検証
-    if (!arrayBuffer) {
+    // ストリームの検証
+    if (!stream) {
       throw new ImageConversionError('ファイルの内容を読み込めませんでした');
     }
 
-    // Uint8Arrayに変換
-    const uint8Array = new Uint8Array(arrayBuffer);
+    const reader = stream.getReader();
+    const parts: string[] = [];
+    // 3 バイト境界に満たず、次のチャンクへ持ち越すバイト
+    let carry = new Uint8Array(0);
 
-    // 空のファイルの処理
-    if (uint8Array.length === 0) {
-      return '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!value || value.length === 0) continue;
+
+      const chunk =
+        carry.length > 0 ? concatBytes(carry, value) : (value as Uint8Array);
+      const alignedLength = chunk.length - (chunk.length % 3);
+      appendBase64Parts(chunk.subarray(0, alignedLength), parts);
+      carry = chunk.slice(alignedLength);
     }
 
-    // Uint8ArrayをBase64文字列に変換
-    // String.fromCharCodeを使用してバイナリ文字列を作成
-    const binaryString = Array.from(uint8Array)
-      .map(byte => String.fromCharCode(byte))
-      .join('');
+    // 残りのバイト（パディング付き）をエンコード
+    if (carry.length > 0) {
+      parts.push(btoa(String.fromCharCode(...carry)));
+    }
 
-    // btoaでBase64エンコード
-    return btoa(binaryString);
+    return parts.join('');
   } catch (error) {
     // 既にImageConversionErrorの場合はそのままスロー
     if (error instanceof ImageConversionError) {
@@ -64,4 +101,67 @@ export async function fileToBase64(file: File): Promise<string> {
       `ファイルの読み込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 2 つのバイト列を連結する
+ */
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Base64文字列をバイト列に変換する
+ *
+ * 一定の文字数ごとにデコードし、あらかじめ確保したバッファへ書き込むため、
+ * 大きな生成画像でも中間文字列を全体分保持しません。
+ *
+ * @param base64 - Base64エンコードされた文字列（data:プレフィックスなし）
+ * @returns デコードされたバイト列
+ * @throws {ImageConversionError} Base64として不正な文字列の場合
+ *
+ * @example
+ * ```typescript
+ * const bytes = base64ToBytes('iVBORw0KGgo=');
+ * ```
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  // 改行などの空白はチャンク境界をずらすため、先に取り除く
+  const input = /\s/.test(base64) ? base64.replace(/\s+/g, '') : base64;
+  const bytes = new Uint8Array(Math.ceil(input.length / 4) * 3);
+  let length = 0;
+
+  try {
+    for (let i = 0; i < input.length; i += DECODE_CHUNK_SIZE) {
+      const binaryString = atob(input.slice(i, i + DECODE_CHUNK_SIZE));
+      for (let j = 0; j < binaryString.length; j++) {
+        bytes[length++] = binaryString.charCodeAt(j);
+      }
+    }
+  } catch {
+    throw new ImageConversionError('Base64文字列のデコードに失敗しました');
+  }
+
+  return bytes.subarray(0, length);
+}
+
+/**
+ * バイト列をBase64文字列に変換する
+ *
+ * @param bytes - 変換するバイト列
+ * @returns Base64エンコードされた文字列（data:プレフィックスなし）
+ *
+ * @example
+ * ```typescript
+ * const base64 = bytesToBase64(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+ * ```
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  // ENCODE_CHUNK_SIZE は 3 の倍数のため、最後のチャンクのみパディングが付く
+  appendBase64Parts(bytes, parts);
+  return parts.join('');
+}
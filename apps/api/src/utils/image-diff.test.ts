@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RgbaImage } from './image-codec';
+import { computeDiffMap } from './image-diff';
+
+/** 単色の RGBA 画像 */
+function createSolid(width: number, height: number, value: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4)
+    data.set([value, value, value, 255], i);
+  return { width, height, data };
+}
+
+/** 矩形領域を塗りつぶした画像のコピー */
+function paintRect(
+  image: RgbaImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  value: number
+): RgbaImage {
+  const data = image.data.slice();
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      data.set([value, value, value, 255], (row * image.width + col) * 4);
+    }
+  }
+  return { ...image, data };
+}
+
+describe('computeDiffMap', () => {
+  it('変化した画素の割合と主な変化領域の外接矩形を求める', () => {
+    const original = createSolid(40, 20, 100);
+    const generated = paintRect(original, 10, 4, 8, 10, 200);
+
+    const result = computeDiffMap(original, generated);
+
+    expect(result.changedPercent).toBeCloseTo((8 * 10 * 100) / (40 * 20));
+    expect(result.boundingBox).toEqual({ x: 10, y: 4, width: 8, height: 10 });
+    expect(result.heatmap.width).toBe(40);
+    expect(result.heatmap.height).toBe(20);
+  });
+
+  it('ヒートマップは変化した画素ほど明るく着色する', () => {
+    const original = createSolid(8, 8, 100);
+    const generated = paintRect(original, 0, 0, 4, 8, 255);
+
+    const { heatmap } = computeDiffMap(original, generated);
+
+    const changed = heatmap.data.subarray(0, 4);
+    const unchanged = heatmap.data.subarray(7 * 4, 8 * 4);
+    expect(changed[0]).toBe(255);
+    expect(unchanged[0]).toBeLessThan(50);
+    expect(unchanged[0]).toBe(unchanged[2]);
+  });
+
+  it('散発的な変化よりも連結した最大の変化領域を採用する', () => {
+    const original = createSolid(64, 64, 100);
+    let generated = paintRect(original, 30, 20, 20, 30, 220);
+    generated = paintRect(generated, 2, 2, 1, 1, 220);
+
+    const result = computeDiffMap(original, generated);
+
+    expect(result.boundingBox).toEqual({ x: 30, y: 20, width: 20, height: 30 });
+  });
+
+  it('サイズが異なる場合は元画像を生成画像のサイズへ揃えて比較する', () => {
+    const original = createSolid(20, 10, 80);
+    const generated = createSolid(40, 20, 80);
+
+    const result = computeDiffMap(original, generated);
+
+    expect(result.heatmap.width).toBe(40);
+    expect(result.changedPercent).toBe(0);
+    expect(result.boundingBox).toBeNull();
+  });
+
+  it('threshold 以下の差分は変化として数えない', () => {
+    const original = createSolid(8, 8, 100);
+    const generated = createSolid(8, 8, 110);
+
+    expect(computeDiffMap(original, generated).changedPercent).toBe(0);
+    expect(
+      computeDiffMap(original, generated, { threshold: 0.01 }).changedPercent
+    ).toBe(100);
+  });
+});
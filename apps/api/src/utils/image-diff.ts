@@ -0,0 +1,222 @@
+/**
+ * 差分ヒートマップユーティリティ
+ *
+ * 元画像と生成画像の画素ごとの差分を可視化し、変化した画素の割合と
+ * 主な変化領域の外接矩形を求めます。体型の変更が人物以外に及んでいないかの確認に使用します。
+ */
+
+import type { RgbaImage } from './image-codec';
+import { resizeRgbaImage } from './image-resize';
+
+/** 変化したとみなす差分（0〜1）の既定値 */
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+
+/** 主な変化領域の探索に使うグリッドの長辺の分割数 */
+const REGION_GRID_LONG_EDGE = 64;
+
+/** ブロックを変化領域とみなす、ブロック内の変化画素の割合 */
+const REGION_BLOCK_RATIO = 0.25;
+
+/** ヒートマップの下地にする元画像の輝度の倍率 */
+const BASE_LUMA_SCALE = 0.35;
+
+/**
+ * 差分の計算オプション
+ */
+export interface DiffMapOptions {
+  /**
+   * 変化したとみなす差分（RGB の最大差 / 255、0〜1）
+   * @default 0.1
+   */
+  threshold?: number;
+}
+
+/**
+ * 矩形領域（ピクセル）
+ */
+export interface DiffBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 差分の計算結果
+ */
+export interface DiffMap {
+  /** 差分ヒートマップ（生成画像と同じサイズ） */
+  heatmap: RgbaImage;
+  /** 変化した画素の割合（0〜100%） */
+  changedPercent: number;
+  /** 主な変化領域の外接矩形（変化が無い場合は null） */
+  boundingBox: DiffBoundingBox | null;
+}
+
+/**
+ * 差分の大きさ（0〜1）をヒートマップの色へ変換する（黒 → 赤 → 黄 → 白）
+ */
+function heatColor(value: number): [number, number, number] {
+  const v = Math.min(1, Math.max(0, value)) * 3;
+  return [
+    Math.round(Math.min(1, v) * 255),
+    Math.round(Math.min(1, Math.max(0, v - 1)) * 255),
+    Math.round(Math.min(1, Math.max(0, v - 2)) * 255),
+  ];
+}
+
+/**
+ * 変化した画素のマスクから、最大の連結した変化領域の外接矩形を求める
+ *
+ * 圧縮ノイズや透かしなど散発的な変化の影響を抑えるため、画像をグリッドに分割し、
+ * 変化画素が一定割合以上のブロックのうち 4 近傍で連結した最大の塊を採用します。
+ */
+function findMainChangeRegion(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): DiffBoundingBox | null {
+  const blockSize = Math.max(
+    1,
+    Math.ceil(Math.max(width, height) / REGION_GRID_LONG_EDGE)
+  );
+  const columns = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+
+  const changedBlocks = new Uint8Array(columns * rows);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      const x1 = Math.min(width, (bx + 1) * blockSize);
+      const y1 = Math.min(height, (by + 1) * blockSize);
+      let changed = 0;
+      for (let y = by * blockSize; y < y1; y++) {
+        for (let x = bx * blockSize; x < x1; x++)
+          changed += mask[y * width + x];
+      }
+      const area = (x1 - bx * blockSize) * (y1 - by * blockSize);
+      changedBlocks[by * columns + bx] =
+        changed >= area * REGION_BLOCK_RATIO ? 1 : 0;
+    }
+  }
+
+  // 4 近傍で連結した変化ブロックの塊のうち、最大のものを探す
+  const visited = new Uint8Array(columns * rows);
+  let best: { size: number; box: [number, number, number, number] } | undefined;
+  for (let start = 0; start < changedBlocks.length; start++) {
+    if (!changedBlocks[start] || visited[start]) continue;
+    const stack = [start];
+    visited[start] = 1;
+    let size = 0;
+    const box: [number, number, number, number] = [columns, rows, -1, -1];
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      const bx = index % columns;
+      const by = Math.floor(index / columns);
+      size++;
+      box[0] = Math.min(box[0], bx);
+      box[1] = Math.min(box[1], by);
+      box[2] = Math.max(box[2], bx);
+      box[3] = Math.max(box[3], by);
+      const neighbors = [
+        bx > 0 ? index - 1 : -1,
+        bx < columns - 1 ? index + 1 : -1,
+        by > 0 ? index - columns : -1,
+        by < rows - 1 ? index + columns : -1,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && changedBlocks[neighbor] && !visited[neighbor]) {
+          visited[neighbor] = 1;
+          stack.push(neighbor);
+        }
+      }
+    }
+    if (!best || size > best.size) best = { size, box };
+  }
+  if (!best) return null;
+
+  // 塊の範囲内で実際に変化した画素に外接矩形を絞り込む
+  const [bx0, by0, bx1, by1] = best.box;
+  const xStart = bx0 * blockSize;
+  const yStart = by0 * blockSize;
+  const xEnd = Math.min(width, (bx1 + 1) * blockSize);
+  const yEnd = Math.min(height, (by1 + 1) * blockSize);
+  let minX = xEnd;
+  let minY = yEnd;
+  let maxX = xStart - 1;
+  let maxY = yStart - 1;
+  for (let y = yStart; y < yEnd; y++) {
+    for (let x = xStart; x < xEnd; x++) {
+      if (!mask[y * width + x]) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * 元画像と生成画像の差分ヒートマップと変化の統計を計算する
+ *
+ * 元画像を生成画像のサイズへ揃えてから、画素ごとに RGB の最大差を求めます。
+ * ヒートマップは元画像を暗くした下地に、差分の大きさを黒 → 赤 → 黄 → 白の色で重ねた画像です。
+ * 外接矩形は生成画像の座標系で返します。
+ *
+ * @param original - 元画像
+ * @param generated - 生成画像
+ * @param options - 計算オプション
+ * @returns ヒートマップと変化の統計
+ *
+ * @example
+ * ```typescript
+ * const { heatmap, changedPercent, boundingBox } = computeDiffMap(before, after);
+ * ```
+ */
+export function computeDiffMap(
+  original: RgbaImage,
+  generated: RgbaImage,
+  options: DiffMapOptions = {}
+): DiffMap {
+  const { width, height } = generated;
+  const threshold = options.threshold ?? DEFAULT_DIFF_THRESHOLD;
+  const aligned =
+    original.width === width && original.height === height
+      ? original
+      : resizeRgbaImage(original, width, height);
+
+  const pixelCount = width * height;
+  const mask = new Uint8Array(pixelCount);
+  const data = new Uint8Array(pixelCount * 4);
+  let changed = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    const o = i * 4;
+    const diff =
+      Math.max(
+        Math.abs(aligned.data[o] - generated.data[o]),
+        Math.abs(aligned.data[o + 1] - generated.data[o + 1]),
+        Math.abs(aligned.data[o + 2] - generated.data[o + 2])
+      ) / 255;
+    if (diff > threshold) {
+      mask[i] = 1;
+      changed++;
+    }
+
+    const base =
+      (0.299 * aligned.data[o] +
+        0.587 * aligned.data[o + 1] +
+        0.114 * aligned.data[o + 2]) *
+      BASE_LUMA_SCALE;
+    const heat = heatColor(diff);
+    data[o] = Math.max(base, heat[0]);
+    data[o + 1] = Math.max(base, heat[1]);
+    data[o + 2] = Math.max(base, heat[2]);
+    data[o + 3] = 255;
+  }
+
+  return {
+    heatmap: { width, height, data },
+    changedPercent: pixelCount > 0 ? (changed / pixelCount) * 100 : 0,
+    boundingBox: findMainChangeRegion(mask, width, height),
+  };
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectImageMimeType, parseImageHeader } from './image-header';
+
+/** 指定サイズの IHDR を持つ最小限の PNG ヘッダーを生成 */
+function createPngHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 0);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12); // "IHDR"
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+/** APP0 セグメントの後に SOF マーカーを持つ JPEG ヘッダーを生成 */
+function createJpegHeader(
+  width: number,
+  height: number,
+  sofMarker = 0xc0
+): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xd8, // SOI
+    0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46, // APP0 (JFIF)
+    0xff, 0xc4, 0x00, 0x03, 0x00, // DHT（SOF ではない）
+    0xff, sofMarker, 0x00, 0x11, 0x08,
+    (height >> 8) & 0xff, height & 0xff,
+    (width >> 8) & 0xff, width & 0xff,
+    0x03,
+  ]);
+}
+
+/** 指定チャンクを先頭に持つ WebP ヘッダーを生成 */
+function createWebpHeader(chunkType: string, payload: number[]): Uint8Array {
+  const bytes = new Uint8Array(20 + Math.max(payload.length, 10));
+  const ascii = (s: string) => Array.from(s, (ch) => ch.charCodeAt(0));
+  bytes.set(ascii('RIFF'), 0);
+  bytes.set(ascii('WEBP'), 8);
+  bytes.set(ascii(chunkType), 12);
+  bytes.set(payload, 20);
+  return bytes;
+}
+
+describe('image-header', () => {
+  describe('detectImageMimeType', () => {
+    it('PNG / JPEG / WebP のシグネチャを判別できる', () => {
+      expect(detectImageMimeType(createPngHeader(1, 1))).toBe('image/png');
+      expect(detectImageMimeType(createJpegHeader(1, 1))).toBe('image/jpeg');
+      expect(detectImageMimeType(createWebpHeader('VP8X', []))).toBe(
+        'image/webp'
+      );
+    });
+
+    it('未知の形式や短すぎるデータは undefined を返す', () => {
+      expect(detectImageMimeType(new TextEncoder().encode('payload'))).toBe(
+        undefined
+      );
+      expect(detectImageMimeType(new Uint8Array([0xff, 0xd8]))).toBe(undefined);
+      expect(detectImageMimeType(new Uint8Array())).toBe(undefined);
+    });
+  });
+
+  describe('parseImageHeader', () => {
+    it('PNG の IHDR から幅と高さを読み取る', () => {
+      expect(parseImageHeader(createPngHeader(800, 1200))).toEqual({
+        mimeType: 'image/png',
+        width: 800,
+        height: 1200,
+      });
+    });
+
+    it('JPEG の SOF0 から幅と高さを読み取る', () => {
+      expect(parseImageHeader(createJpegHeader(1920, 1080))).toEqual({
+        mimeType: 'image/jpeg',
+        width: 1920,
+        height: 1080,
+      });
+    });
+
+    it('プログレッシブ JPEG（SOF2）にも対応する', () => {
+      expect(parseImageHeader(createJpegHeader(640, 480, 0xc2))).toEqual({
+        mimeType: 'image/jpeg',
+        width: 640,
+        height: 480,
+      });
+    });
+
+    it('SOF の前に SOS が来る JPEG は undefined を返す', () => {
+      const bytes = new Uint8Array([
+        0xff, 0xd8, 0xff, 0xda, 0x00, 0x02, 0x00, 0x00,
+      ]);
+      expect(parseImageHeader(bytes)).toBe(undefined);
+    });
+
+    it('WebP（VP8 ロッシー）から幅と高さを読み取る', () => {
+      const bytes = createWebpHeader('VP8 ', [
+        0x00, 0x00, 0x00, // フレームタグ
+        0x9d, 0x01, 0x2a, // スタートコード
+        0x00, 0x03, // 幅 768
+        0x00, 0x04, // 高さ 1024
+      ]);
+      expect(parseImageHeader(bytes)).toEqual({
+        mimeType: 'image/webp',
+        width: 768,
+        height: 1024,
+      });
+    });
+
+    it('WebP（VP8L ロスレス）から幅と高さを読み取る', () => {
+      // 幅 400 (399 = 0x18F), 高さ 300 (299 = 0x12B)
+      const bits = 399 | (299 << 14);
+      const bytes = createWebpHeader('VP8L', [
+        0x2f,
+        bits & 0xff,
+        (bits >> 8) & 0xff,
+        (bits >> 16) & 0xff,
+        (bits >> 24) & 0xff,
+      ]);
+      expect(parseImageHeader(bytes)).toEqual({
+        mimeType: 'image/webp',
+        width: 400,
+        height: 300,
+      });
+    });
+
+    it('WebP（VP8X 拡張）からキャンバスサイズを読み取る', () => {
+      // 幅 5000 (4999 = 0x001387), 高さ 3000 (2999 = 0x000BB7)
+      const bytes = createWebpHeader('VP8X', [
+        0x10, 0x00, 0x00, 0x00,
+        0x87, 0x13, 0x00,
+        0xb7, 0x0b, 0x00,
+      ]);
+      expect(parseImageHeader(bytes)).toEqual({
+        mimeType: 'image/webp',
+        width: 5000,
+        height: 3000,
+      });
+    });
+
+    it('ヘッダーが途中で切れている場合は undefined を返す', () => {
+      expect(parseImageHeader(createPngHeader(10, 10).subarray(0, 20))).toBe(
+        undefined
+      );
+      expect(parseImageHeader(createJpegHeader(10, 10).subarray(0, 18))).toBe(
+        undefined
+      );
+    });
+
+    it('未対応の形式は undefined を返す', () => {
+      expect(parseImageHeader(new TextEncoder().encode('GIF89a'))).toBe(
+        undefined
+      );
+    });
+  });
+});
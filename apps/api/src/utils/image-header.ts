@@ -0,0 +1,243 @@
+/**
+ * 画像ヘッダー解析ユーティリティ
+ *
+ * 画像全体をデコードせずに、ファイル先頭のヘッダー情報から
+ * 形式（MIMEタイプ）と幅・高さを読み取ります。
+ * Cloudflare Workers 上でも動作するよう、Uint8Array のみを扱います。
+ */
+
+/**
+ * 判別可能な画像の MIME タイプ
+ */
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/**
+ * 画像ヘッダーの解析結果
+ */
+export interface ImageHeader {
+  /** 画像の MIME タイプ */
+  mimeType: ImageMimeType;
+  /** 画像の幅（ピクセル） */
+  width: number;
+  /** 画像の高さ（ピクセル） */
+  height: number;
+}
+
+/** PNG シグネチャ（8バイト） */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * 幅・高さを持つ JPEG の SOF マーカー
+ * DHT(C4) / JPG(C8) / DAC(CC) は SOF ではないため除外する
+ */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+/**
+ * セグメント長を持たない JPEG マーカー（TEM / RST0-7 / SOI）
+ */
+function isStandaloneJpegMarker(marker: number): boolean {
+  return marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8);
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  );
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * 先頭のシグネチャ（マジックバイト）から画像形式を判別する
+ *
+ * @param bytes - 画像のバイト列
+ * @returns 判別できた MIME タイプ。不明な形式の場合は undefined
+ *
+ * @example
+ * ```typescript
+ * detectImageMimeType(new Uint8Array([0xff, 0xd8, 0xff])); // 'image/jpeg'
+ * ```
+ */
+export function detectImageMimeType(
+  bytes: Uint8Array
+): ImageMimeType | undefined {
+  if (
+    bytes.length >= PNG_SIGNATURE.length &&
+    PNG_SIGNATURE.every((value, i) => bytes[i] === value)
+  ) {
+    return 'image/png';
+  }
+  if (
+    bytes.length >= 3 &&
+    bytes[0] === 0xff &&
+    bytes[1] === 0xd8 &&
+    bytes[2] === 0xff
+  ) {
+    return 'image/jpeg';
+  }
+  if (
+    bytes.length >= 12 &&
+    readAscii(bytes, 0, 4) === 'RIFF' &&
+    readAscii(bytes, 8, 4) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+/**
+ * PNG の IHDR チャンクから幅・高さを読み取る
+ */
+function parsePngSize(
+  bytes: Uint8Array
+): { width: number; height: number } | undefined {
+  // シグネチャ(8) + チャンク長(4) + "IHDR"(4) + 幅(4) + 高さ(4)
+  if (bytes.length < 24 || readAscii(bytes, 12, 4) !== 'IHDR') {
+    return undefined;
+  }
+  return {
+    width: readUint32BE(bytes, 16),
+    height: readUint32BE(bytes, 20),
+  };
+}
+
+/**
+ * JPEG のセグメントを走査し、最初の SOF マーカーから幅・高さを読み取る
+ */
+function parseJpegSize(
+  bytes: Uint8Array
+): { width: number; height: number } | undefined {
+  let offset = 2; // SOI の直後から開始
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+
+    // マーカー前の 0xFF 埋め草をスキップ
+    while (offset < bytes.length && bytes[offset] === 0xff) offset++;
+    if (offset >= bytes.length) return undefined;
+
+    const marker = bytes[offset];
+    offset++;
+
+    if (isStandaloneJpegMarker(marker)) continue;
+    // EOI / SOS 以降は画像データのため、ここまでに SOF が無ければ解析不能
+    if (marker === 0xd9 || marker === 0xda) return undefined;
+    if (offset + 2 > bytes.length) return undefined;
+
+    const segmentLength = readUint16BE(bytes, offset);
+    if (segmentLength < 2) return undefined;
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      // 長さ(2) + 精度(1) + 高さ(2) + 幅(2)
+      if (offset + 7 > bytes.length) return undefined;
+      return {
+        height: readUint16BE(bytes, offset + 3),
+        width: readUint16BE(bytes, offset + 5),
+      };
+    }
+
+    offset += segmentLength;
+  }
+
+  return undefined;
+}
+
+/**
+ * WebP の先頭チャンク（VP8 / VP8L / VP8X）から幅・高さを読み取る
+ */
+function parseWebpSize(
+  bytes: Uint8Array
+): { width: number; height: number } | undefined {
+  if (bytes.length < 30) return undefined;
+
+  const chunkType = readAscii(bytes, 12, 4);
+  const data = 20; // RIFFヘッダー(12) + チャンクヘッダー(8)
+
+  if (chunkType === 'VP8 ') {
+    // フレームタグ(3) + スタートコード 9D 01 2A(3) + 幅(2) + 高さ(2)
+    if (
+      bytes[data + 3] !== 0x9d ||
+      bytes[data + 4] !== 0x01 ||
+      bytes[data + 5] !== 0x2a
+    ) {
+      return undefined;
+    }
+    return {
+      width: readUint16LE(bytes, data + 6) & 0x3fff,
+      height: readUint16LE(bytes, data + 8) & 0x3fff,
+    };
+  }
+
+  if (chunkType === 'VP8L') {
+    // シグネチャ 0x2F の後に (幅-1):14bit, (高さ-1):14bit がリトルエンディアンで続く
+    if (bytes[data] !== 0x2f) return undefined;
+    const b1 = bytes[data + 1];
+    const b2 = bytes[data + 2];
+    const b3 = bytes[data + 3];
+    const b4 = bytes[data + 4];
+    return {
+      width: 1 + (((b2 & 0x3f) << 8) | b1),
+      height: 1 + (((b4 & 0x0f) << 10) | (b3 << 2) | ((b2 & 0xc0) >> 6)),
+    };
+  }
+
+  if (chunkType === 'VP8X') {
+    // フラグ(1) + 予約(3) + (キャンバス幅-1):24bit + (キャンバス高さ-1):24bit
+    return {
+      width: 1 + readUint24LE(bytes, data + 4),
+      height: 1 + readUint24LE(bytes, data + 7),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * 画像のヘッダーを解析し、形式と幅・高さを取得する
+ *
+ * PNG（IHDR）、JPEG（SOFマーカー）、WebP（VP8 / VP8L / VP8X）に対応。
+ * 画像全体はデコードしないため、大きな画像でも軽量に動作します。
+ *
+ * @param bytes - 画像のバイト列
+ * @returns 解析結果。未対応の形式やヘッダーが壊れている場合は undefined
+ *
+ * @example
+ * ```typescript
+ * const header = parseImageHeader(new Uint8Array(await file.arrayBuffer()));
+ * if (header) {
+ *   console.log(header.width, header.height);
+ * }
+ * ```
+ */
+export function parseImageHeader(bytes: Uint8Array): ImageHeader | undefined {
+  const mimeType = detectImageMimeType(bytes);
+  if (!mimeType) return undefined;
+
+  const size =
+    mimeType === 'image/png'
+      ? parsePngSize(bytes)
+      : mimeType === 'image/jpeg'
+        ? parseJpegSize(bytes)
+        : parseWebpSize(bytes);
+
+  if (!size || size.width <= 0 || size.height <= 0) return undefined;
+
+  return { mimeType, ...size };
+}
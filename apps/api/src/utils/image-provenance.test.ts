@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeImage, encodeImage, type RgbaImage } from './image-codec';
+import { base64ToBytes, bytesToBase64 } from './image-converter';
+import { parseImageHeader } from './image-header';
+import {
+  DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+  DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+  embedProvenance,
+  embedProvenanceBase64,
+  type ProvenanceInfo,
+  readProvenance,
+} from './image-provenance';
+
+const INFO: ProvenanceInfo = {
+  model: 'gemini-2.5-flash-image-preview',
+  promptVersion: 'structured-xml-v1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  requestId: 'req-123',
+};
+
+/** グラデーションの RGBA 画像 */
+function createImage(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([(i / 4) % 256, 64, 128, 255], i);
+  }
+  return { width, height, data };
+}
+
+/** PNG のチャンク種別と CRC の正否を列挙する */
+function listPngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<{ type: string; data: Uint8Array; crcValid: boolean }> =
+    [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+    let crc = 0xffffffff;
+    for (const byte of typeAndData) {
+      crc ^= byte;
+      for (let k = 0; k < 8; k++)
+        crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+    chunks.push({
+      type: String.fromCharCode(...typeAndData.subarray(0, 4)),
+      data: typeAndData.subarray(4),
+      crcValid:
+        (crc ^ 0xffffffff) >>> 0 === view.getUint32(offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('embedProvenance', () => {
+  it('PNG の IHDR 直後に tEXt / iTXt チャンクを挿入し、ピクセルは変更しない', () => {
+    const image = createImage(8, 4);
+    const png = encodeImage(image, 'image/png');
+
+    const stamped = embedProvenance(png, INFO);
+    const chunks = listPngChunks(stamped);
+
+    expect(chunks[0].type).toBe('IHDR');
+    expect(chunks.every((chunk) => chunk.crcValid)).toBe(true);
+    const texts = Object.fromEntries(
+      chunks
+        .filter((chunk) => chunk.type === 'tEXt')
+        .map((chunk) => {
+          const [keyword, value] = new TextDecoder()
+            .decode(chunk.data)
+            .split('\0');
+          return [keyword, value];
+        })
+    );
+    expect(texts).toEqual({
+      DigitalSourceType: DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+      Software: INFO.model,
+      'Creation Time': INFO.createdAt,
+      PromptTemplateVersion: INFO.promptVersion,
+      RequestId: INFO.requestId,
+    });
+    const itxt = chunks.find((chunk) => chunk.type === 'iTXt');
+    expect(new TextDecoder().decode(itxt?.data)).toContain('XML:com.adobe.xmp');
+    expect(decodeImage(stamped).data).toEqual(image.data);
+  });
+
+  it('JPEG の APP0 直後に XMP の APP1 セグメントを挿入する', () => {
+    const jpeg = encodeImage(createImage(8, 8), 'image/jpeg');
+
+    const stamped = embedProvenance(jpeg, INFO);
+
+    // SOI + APP0(JFIF) の直後が APP1
+    const app0Length = (jpeg[4] << 8) | jpeg[5];
+    const app1 = 4 + app0Length;
+    expect([stamped[app1], stamped[app1 + 1]]).toEqual([0xff, 0xe1]);
+    expect(
+      new TextDecoder().decode(stamped.subarray(app1 + 4, app1 + 33))
+    ).toBe('http://ns.adobe.com/xap/1.0/\0');
+    expect(decodeImage(stamped).width).toBe(8);
+    expect(readProvenance(stamped)).toEqual({
+      ...INFO,
+      digitalSourceType: DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+    });
+  });
+
+  it('単純形式の WebP には VP8X を付与して XMP チャンクを追加する', () => {
+    // VP8L: 幅 3・高さ 2（alpha_is_used ビットあり）。以降のビットストリームは省略
+    const vp8l = new Uint8Array(10);
+    vp8l.set([0x2f, 0x02, 0x40, 0x00, 0x10]);
+    const webp = new Uint8Array(12 + 8 + vp8l.length);
+    const view = new DataView(webp.buffer);
+    webp.set(new TextEncoder().encode('RIFF'), 0);
+    view.setUint32(4, webp.length - 8, true);
+    webp.set(new TextEncoder().encode('WEBPVP8L'), 8);
+    view.setUint32(16, vp8l.length, true);
+    webp.set(vp8l, 20);
+
+    const stamped = embedProvenance(webp, INFO);
+    const stampedView = new DataView(stamped.buffer);
+
+    expect(new TextDecoder().decode(stamped.subarray(12, 16))).toBe('VP8X');
+    expect(stamped[20] & 0x04).toBe(0x04);
+    expect(stamped[20] & 0x10).toBe(0x10);
+    expect(stampedView.getUint32(4, true)).toBe(stamped.length - 8);
+    expect(parseImageHeader(stamped)).toMatchObject({ width: 3, height: 2 });
+    expect(readProvenance(stamped)?.requestId).toBe(INFO.requestId);
+  });
+
+  it('digitalSourceType を指定すると合成画像として記録する', () => {
+    const png = encodeImage(createImage(4, 4), 'image/png');
+
+    const stamped = embedProvenance(png, {
+      ...INFO,
+      digitalSourceType:
+        DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+    });
+
+    expect(readProvenance(stamped)?.digitalSourceType).toBe(
+      DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA
+    );
+  });
+
+  it('XML の特殊文字をエスケープして往復できる', () => {
+    const png = encodeImage(createImage(4, 4), 'image/png');
+    const info = {
+      ...INFO,
+      model: 'model "<beta>" & co',
+      promptVersion: undefined,
+    };
+
+    expect(readProvenance(embedProvenance(png, info))).toEqual({
+      model: info.model,
+      createdAt: INFO.createdAt,
+      requestId: INFO.requestId,
+      digitalSourceType: DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+    });
+  });
+
+  it('未対応の形式はそのまま返す', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    expect(embedProvenance(bytes, INFO)).toBe(bytes);
+  });
+
+  it('IHDR が無い PNG は ImageConversionError', () => {
+    const broken = new Uint8Array(40);
+    broken.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(() => embedProvenance(broken, INFO)).toThrow('IHDR');
+  });
+});
+
+describe('embedProvenanceBase64', () => {
+  it('Base64 の画像へ来歴を埋め込む', () => {
+    const png = encodeImage(createImage(4, 4), 'image/png');
+
+    const stamped = embedProvenanceBase64(bytesToBase64(png), INFO);
+
+    expect(readProvenance(base64ToBytes(stamped))?.model).toBe(INFO.model);
+  });
+
+  it('画像として扱えない文字列はそのまま返す', () => {
+    expect(embedProvenanceBase64('not-base64!', INFO)).toBe('not-base64!');
+    expect(embedProvenanceBase64('AAAA', INFO)).toBe('AAAA');
+  });
+});
+
+describe('readProvenance', () => {
+  it('来歴の無い画像は undefined', () => {
+    const png = encodeImage(createImage(4, 4), 'image/png');
+    expect(readProvenance(png)).toBeUndefined();
+  });
+});
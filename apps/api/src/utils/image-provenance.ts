@@ -0,0 +1,420 @@
+/**
+ * AI 生成画像の来歴（プロベナンス）メタデータユーティリティ
+ *
+ * 透かしのような目視できる表示とは別に、画像ファイル自体へ機械可読な来歴情報
+ * （IPTC DigitalSourceType・モデル名・プロンプトテンプレートのバージョン・
+ * 生成日時・リクエスト ID）を埋め込みます。配布先のプラットフォームや
+ * 自前のモデレーションツールが合成画像を検出できるようにするためのものです。
+ *
+ * - PNG: tEXt チャンクと、XMP パケットを格納した iTXt（`XML:com.adobe.xmp`）チャンク
+ * - JPEG: XMP パケットを格納した APP1 セグメント
+ * - WebP: XMP パケットを格納した `XMP ` チャンク（VP8X ヘッダーを付与・更新）
+ */
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  ImageConversionError,
+} from './image-converter';
+import { detectImageMimeType, parseImageHeader } from './image-header';
+
+/** IPTC DigitalSourceType: 学習済みモデルによる生成画像 */
+export const DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA =
+  'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+/** IPTC DigitalSourceType: 生成画像を含む合成画像 */
+export const DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA =
+  'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+
+/**
+ * 画像へ埋め込む来歴情報
+ */
+export interface ProvenanceInfo {
+  /**
+   * IPTC DigitalSourceType の URI
+   * @default trainedAlgorithmicMedia
+   */
+  digitalSourceType?: string;
+  /** 画像を生成したモデル名 */
+  model: string;
+  /** 生成に使用したプロンプトテンプレートのバージョン */
+  promptVersion?: string;
+  /** 生成日時（ISO 8601） */
+  createdAt: string;
+  /** 生成したリクエストの ID */
+  requestId: string;
+}
+
+/** XMP の名前空間 */
+const XMP_NAMESPACES = {
+  x: 'adobe:ns:meta/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  Iptc4xmpExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  slimoro: 'urn:slimoro:provenance:1.0',
+};
+
+/** JPEG の APP1 で XMP を識別する接頭辞 */
+const JPEG_XMP_IDENTIFIER = 'http://ns.adobe.com/xap/1.0/\0';
+
+/** PNG の iTXt で XMP を格納するキーワード */
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+/** VP8X フラグ: XMP メタデータの有無 */
+const VP8X_XMP_FLAG = 0x04;
+/** VP8X フラグ: アルファチャンネルの有無 */
+const VP8X_ALPHA_FLAG = 0x10;
+
+/** CRC-32（PNG のチャンク検査用）のテーブル */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Latin-1 のバイト列へ変換する（tEXt は Latin-1 のみ許容されるため範囲外は `?` とする）
+ */
+function toLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (ch) => {
+    const code = ch.charCodeAt(0);
+    return code <= 0xff ? code : 0x3f;
+  });
+}
+
+function writeUint24LE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 来歴情報を XMP パケットへ変換する
+ */
+function buildXmpPacket(info: ProvenanceInfo): string {
+  const attributes = [
+    ['Iptc4xmpExt:DigitalSourceType', info.digitalSourceType],
+    ['xmp:CreatorTool', info.model],
+    ['xmp:CreateDate', info.createdAt],
+    ['slimoro:PromptTemplateVersion', info.promptVersion],
+    ['slimoro:RequestId', info.requestId],
+  ]
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, value]) => `\n    ${name}="${escapeXml(value)}"`)
+    .join('');
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    `<x:xmpmeta xmlns:x="${XMP_NAMESPACES.x}">`,
+    ` <rdf:RDF xmlns:rdf="${XMP_NAMESPACES.rdf}">`,
+    '  <rdf:Description rdf:about=""',
+    `    xmlns:Iptc4xmpExt="${XMP_NAMESPACES.Iptc4xmpExt}"`,
+    `    xmlns:xmp="${XMP_NAMESPACES.xmp}"`,
+    `    xmlns:slimoro="${XMP_NAMESPACES.slimoro}"${attributes}/>`,
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="r"?>',
+  ].join('\n');
+}
+
+/**
+ * PNG のチャンク（長さ + 種別 + データ + CRC）を生成する
+ */
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(toLatin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * PNG の IHDR の直後へ tEXt / iTXt チャンクを挿入する
+ */
+function embedPng(
+  bytes: Uint8Array,
+  info: ProvenanceInfo,
+  xmp: string
+): Uint8Array {
+  if (bytes.length < 33 || readAscii(bytes, 12, 4) !== 'IHDR') {
+    throw new ImageConversionError('PNG の IHDR チャンクが見つかりません');
+  }
+  const ihdrEnd =
+    8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  if (ihdrEnd > bytes.length) {
+    throw new ImageConversionError('PNG のチャンク長が不正です');
+  }
+
+  const textEntries: Array<[string, string | undefined]> = [
+    ['DigitalSourceType', info.digitalSourceType],
+    ['Software', info.model],
+    ['Creation Time', info.createdAt],
+    ['PromptTemplateVersion', info.promptVersion],
+    ['RequestId', info.requestId],
+  ];
+  const textChunks = textEntries
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([keyword, value]) =>
+      createPngChunk(
+        'tEXt',
+        concatBytes([toLatin1(keyword), new Uint8Array([0]), toLatin1(value)])
+      )
+    );
+
+  // iTXt: キーワード + NUL + 圧縮フラグ(0) + 圧縮方式(0) + 言語タグ NUL + 翻訳キーワード NUL + 本文（UTF-8）
+  const xmpChunk = createPngChunk(
+    'iTXt',
+    concatBytes([
+      toLatin1(PNG_XMP_KEYWORD),
+      new Uint8Array([0, 0, 0, 0, 0]),
+      new TextEncoder().encode(xmp),
+    ])
+  );
+
+  return concatBytes([
+    bytes.subarray(0, ihdrEnd),
+    ...textChunks,
+    xmpChunk,
+    bytes.subarray(ihdrEnd),
+  ]);
+}
+
+/**
+ * JPEG の SOI（と APP0: JFIF があればその後）へ XMP の APP1 セグメントを挿入する
+ */
+function embedJpeg(bytes: Uint8Array, xmp: string): Uint8Array {
+  const payload = concatBytes([
+    toLatin1(JPEG_XMP_IDENTIFIER),
+    new TextEncoder().encode(xmp),
+  ]);
+  // セグメント長は長さフィールド自身の 2 バイトを含めて 65535 まで
+  if (payload.length + 2 > 0xffff) {
+    throw new ImageConversionError('XMP パケットが大きすぎます');
+  }
+
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    if (insertAt > bytes.length) {
+      throw new ImageConversionError('JPEG のセグメント長が不正です');
+    }
+  }
+
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([
+    0xff,
+    0xe1,
+    ((payload.length + 2) >> 8) & 0xff,
+    (payload.length + 2) & 0xff,
+  ]);
+  segment.set(payload, 4);
+
+  return concatBytes([
+    bytes.subarray(0, insertAt),
+    segment,
+    bytes.subarray(insertAt),
+  ]);
+}
+
+/**
+ * WebP へ XMP チャンクを追加する
+ * 単純形式（VP8 / VP8L のみ）の場合は拡張形式の VP8X ヘッダーを付与する
+ */
+function embedWebp(bytes: Uint8Array, xmp: string): Uint8Array {
+  if (bytes.length < 20) {
+    throw new ImageConversionError('WebP のチャンクが途中で切れています');
+  }
+
+  const firstChunk = readAscii(bytes, 12, 4);
+  const parts: Uint8Array[] = [bytes.slice(0, 12)];
+
+  if (firstChunk === 'VP8X') {
+    const body = bytes.slice(12);
+    body[8] |= VP8X_XMP_FLAG;
+    parts.push(body);
+  } else {
+    const header = parseImageHeader(bytes);
+    if (!header) {
+      throw new ImageConversionError('WebP のヘッダーを解析できません');
+    }
+    // VP8L はヘッダーの alpha_is_used ビットでアルファの有無を示す
+    const hasAlpha =
+      firstChunk === 'VP8L' && bytes.length > 24 && (bytes[24] & 0x10) !== 0;
+    const vp8x = new Uint8Array(18);
+    const view = new DataView(vp8x.buffer);
+    vp8x.set(toLatin1('VP8X'), 0);
+    view.setUint32(4, 10, true);
+    vp8x[8] = VP8X_XMP_FLAG | (hasAlpha ? VP8X_ALPHA_FLAG : 0);
+    // キャンバスの (幅-1), (高さ-1) を 24bit リトルエンディアンで格納
+    writeUint24LE(vp8x, 12, header.width - 1);
+    writeUint24LE(vp8x, 15, header.height - 1);
+    parts.push(vp8x, bytes.subarray(12));
+  }
+
+  const data = new TextEncoder().encode(xmp);
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(toLatin1('XMP '), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  parts.push(chunk);
+
+  const result = concatBytes(parts);
+  // RIFF ヘッダーのサイズ（"WEBP" 以降のバイト数）を更新
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+}
+
+/**
+ * 画像へ AI 生成の来歴メタデータを埋め込む（ピクセルデータは変更しない）
+ *
+ * 来歴は XMP パケット（IPTC `Iptc4xmpExt:DigitalSourceType`、`xmp:CreatorTool`、
+ * `xmp:CreateDate` と独自名前空間のテンプレートバージョン・リクエスト ID）として
+ * 埋め込み、PNG では同じ内容を tEXt チャンクにも記録します。
+ *
+ * @param bytes - 画像のバイト列
+ * @param info - 埋め込む来歴情報
+ * @returns 来歴を埋め込んだバイト列（未対応の形式は元のバイト列をそのまま返す）
+ * @throws {ImageConversionError} 画像の構造が壊れている場合
+ *
+ * @example
+ * ```typescript
+ * const stamped = embedProvenance(bytes, {
+ *   model: result.metadata.model,
+ *   promptVersion: result.metadata.promptVersion,
+ *   createdAt: new Date().toISOString(),
+ *   requestId: c.get('requestId'),
+ * });
+ * ```
+ */
+export function embedProvenance(
+  bytes: Uint8Array,
+  info: ProvenanceInfo
+): Uint8Array {
+  const resolved = {
+    ...info,
+    digitalSourceType:
+      info.digitalSourceType ?? DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+  };
+  const xmp = buildXmpPacket(resolved);
+
+  switch (detectImageMimeType(bytes)) {
+    case 'image/png':
+      return embedPng(bytes, resolved, xmp);
+    case 'image/jpeg':
+      return embedJpeg(bytes, xmp);
+    case 'image/webp':
+      return embedWebp(bytes, xmp);
+    default:
+      return bytes;
+  }
+}
+
+/**
+ * Base64 の画像へ AI 生成の来歴メタデータを埋め込む
+ *
+ * Base64 としてデコードできない文字列や未対応の形式は画像として扱えないため、
+ * そのまま返します。
+ *
+ * @param base64 - 画像の Base64 文字列
+ * @param info - 埋め込む来歴情報
+ * @returns 来歴を埋め込んだ画像の Base64 文字列
+ * @throws {ImageConversionError} 画像の構造が壊れている場合
+ */
+export function embedProvenanceBase64(
+  base64: string,
+  info: ProvenanceInfo
+): string {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(base64);
+  } catch {
+    return base64;
+  }
+  const stamped = embedProvenance(bytes, info);
+  return stamped === bytes ? base64 : bytesToBase64(stamped);
+}
+
+/**
+ * 画像に埋め込まれた来歴メタデータ（XMP）を読み取る
+ *
+ * モデレーション等で AI 生成画像かどうかを判定する際に使用します。
+ *
+ * @param bytes - 画像のバイト列
+ * @returns 読み取った来歴情報。XMP が無い・来歴が含まれない場合は undefined
+ */
+export function readProvenance(bytes: Uint8Array): ProvenanceInfo | undefined {
+  const text = new TextDecoder().decode(bytes);
+  const start = text.indexOf('<x:xmpmeta');
+  const end = text.indexOf('</x:xmpmeta>', start);
+  if (start < 0 || end < 0) return undefined;
+
+  const packet = text.slice(start, end);
+  const read = (name: string): string | undefined => {
+    const match = new RegExp(`${name}="([^"]*)"`).exec(packet);
+    return match ? unescapeXml(match[1]) : undefined;
+  };
+
+  const digitalSourceType = read('Iptc4xmpExt:DigitalSourceType');
+  const model = read('xmp:CreatorTool');
+  const createdAt = read('xmp:CreateDate');
+  const requestId = read('slimoro:RequestId');
+  if (!digitalSourceType || !model || !createdAt || !requestId) {
+    return undefined;
+  }
+
+  const promptVersion = read('slimoro:PromptTemplateVersion');
+  return {
+    digitalSourceType,
+    model,
+    createdAt,
+    requestId,
+    ...(promptVersion !== undefined && { promptVersion }),
+  };
+}
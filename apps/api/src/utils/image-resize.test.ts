@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { type RgbaImage } from './image-codec';
+import {
+  DEFAULT_MAX_LONG_EDGE,
+  fitWithinLongEdge,
+  parseMaxLongEdge,
+  resizeRgbaImage,
+} from './image-resize';
+
+/** 左半分が赤、右半分が青の RGBA 画像 */
+function createSplitImage(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const isLeft = i % width < width / 2;
+    data.set(isLeft ? [255, 0, 0, 255] : [0, 0, 255, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe('image-resize', () => {
+  describe('parseMaxLongEdge', () => {
+    it('数値文字列を長辺の上限として返す', () => {
+      expect(parseMaxLongEdge('1024')).toBe(1024);
+      expect(parseMaxLongEdge('0')).toBe(0);
+    });
+
+    it('未設定・不正な値の場合は既定値を返す', () => {
+      expect(parseMaxLongEdge(undefined)).toBe(DEFAULT_MAX_LONG_EDGE);
+      expect(parseMaxLongEdge('')).toBe(DEFAULT_MAX_LONG_EDGE);
+      expect(parseMaxLongEdge('large')).toBe(DEFAULT_MAX_LONG_EDGE);
+      expect(parseMaxLongEdge('12.5')).toBe(DEFAULT_MAX_LONG_EDGE);
+    });
+  });
+
+  describe('fitWithinLongEdge', () => {
+    it('縦横比を保って長辺を上限に合わせる', () => {
+      expect(fitWithinLongEdge(4032, 3024, 1536)).toEqual({
+        width: 1536,
+        height: 1152,
+      });
+      expect(fitWithinLongEdge(3000, 4000, 1000)).toEqual({
+        width: 750,
+        height: 1000,
+      });
+    });
+
+    it('上限以下、または上限が 0 以下の場合はそのまま返す', () => {
+      expect(fitWithinLongEdge(800, 600, 1536)).toEqual({ width: 800, height: 600 });
+      expect(fitWithinLongEdge(4000, 3000, 0)).toEqual({ width: 4000, height: 3000 });
+    });
+  });
+
+  describe('resizeRgbaImage', () => {
+    it('対応する範囲の平均色で縮小する', () => {
+      const resized = resizeRgbaImage(createSplitImage(8, 4), 2, 1);
+
+      expect(resized.width).toBe(2);
+      expect(resized.height).toBe(1);
+      expect(Array.from(resized.data)).toEqual([
+        255, 0, 0, 255, 0, 0, 255, 255,
+      ]);
+    });
+
+    it('境界をまたぐピクセルは中間色になる', () => {
+      const resized = resizeRgbaImage(createSplitImage(4, 1), 1, 1);
+      expect(Array.from(resized.data)).toEqual([128, 0, 128, 255]);
+    });
+
+    it('同じサイズの場合はそのまま返す', () => {
+      const image = createSplitImage(2, 2);
+      expect(resizeRgbaImage(image, 2, 2)).toBe(image);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * 画像の縮小ユーティリティ
+ *
+ * 大きなアップロード画像を Gemini へ送信する前に、長辺が上限以下になるよう
+ * Worker 内で縮小します。アップロード時間と入力トークンを削減し、
+ * タイムアウトによる再試行を起こりにくくします。
+ */
+
+import { type RgbaImage } from './image-codec';
+
+/** 長辺の上限の既定値（ピクセル） */
+export const DEFAULT_MAX_LONG_EDGE = 1536;
+
+/**
+ * 縮小処理の記録
+ * @description レスポンスメタデータへそのまま記録できる形で、元と縮小後のサイズを保持する
+ */
+export interface ResizeInfo {
+  /** 元画像の幅（ピクセル）。解析できない場合は 0 */
+  originalWidth: number;
+  /** 元画像の高さ（ピクセル）。解析できない場合は 0 */
+  originalHeight: number;
+  /** 縮小後の幅（ピクセル） */
+  width: number;
+  /** 縮小後の高さ（ピクセル） */
+  height: number;
+  /** 実際に縮小したかどうか */
+  resized: boolean;
+}
+
+/**
+ * 環境変数の文字列から長辺の上限を取得する
+ *
+ * @param value - 環境変数の値（例: "1536"）
+ * @returns 長辺の上限。未設定・不正な値の場合は既定値
+ *
+ * @example
+ * ```typescript
+ * const maxLongEdge = parseMaxLongEdge(c.env?.MAX_INPUT_IMAGE_LONG_EDGE);
+ * ```
+ */
+export function parseMaxLongEdge(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_MAX_LONG_EDGE;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : DEFAULT_MAX_LONG_EDGE;
+}
+
+/**
+ * 縮小先の各ピクセルが参照する元画像の範囲 [start, end) を求める
+ */
+function computeSourceRanges(
+  sourceSize: number,
+  targetSize: number
+): Array<[number, number]> {
+  const scale = sourceSize / targetSize;
+  const ranges: Array<[number, number]> = [];
+  for (let i = 0; i < targetSize; i++) {
+    const start = Math.floor(i * scale);
+    const end = Math.max(start + 1, Math.min(sourceSize, Math.floor((i + 1) * scale)));
+    ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+/**
+ * RGBA 画像を指定サイズへリサンプリングする（面積平均法）
+ *
+ * 横方向・縦方向の 2 パスで、縮小先の 1 ピクセルに対応する元画像の
+ * 範囲の平均を取ります。拡大にも使用できます（最近傍補間相当）。
+ *
+ * @param image - 元画像
+ * @param width - 出力の幅（ピクセル）
+ * @param height - 出力の高さ（ピクセル）
+ * @returns リサンプリングした画像
+ */
+export function resizeRgbaImage(
+  image: RgbaImage,
+  width: number,
+  height: number
+): RgbaImage {
+  const { width: srcWidth, height: srcHeight, data } = image;
+  if (width === srcWidth && height === srcHeight) return image;
+
+  // 横方向のパス: srcWidth × srcHeight → width × srcHeight
+  const xRanges = computeSourceRanges(srcWidth, width);
+  const horizontal = new Uint8Array(width * srcHeight * 4);
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth * 4;
+    for (let x = 0; x < width; x++) {
+      const [start, end] = xRanges[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sx = start; sx < end; sx++) {
+        const i = rowOffset + sx * 4;
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+        a += data[i + 3];
+      }
+      const count = end - start;
+      const o = (y * width + x) * 4;
+      horizontal[o] = Math.round(r / count);
+      horizontal[o + 1] = Math.round(g / count);
+      horizontal[o + 2] = Math.round(b / count);
+      horizontal[o + 3] = Math.round(a / count);
+    }
+  }
+
+  // 縦方向のパス: width × srcHeight → width × height
+  const yRanges = computeSourceRanges(srcHeight, height);
+  const result = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const [start, end] = yRanges[y];
+    const count = end - start;
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = start; sy < end; sy++) {
+        const i = (sy * width + x) * 4;
+        r += horizontal[i];
+        g += horizontal[i + 1];
+        b += horizontal[i + 2];
+        a += horizontal[i + 3];
+      }
+      const o = (y * width + x) * 4;
+      result[o] = Math.round(r / count);
+      result[o + 1] = Math.round(g / count);
+      result[o + 2] = Math.round(b / count);
+      result[o + 3] = Math.round(a / count);
+    }
+  }
+
+  return { width, height, data: result };
+}
+
+/**
+ * 長辺が上限を超える場合に縦横比を保ったまま縮小したサイズを求める
+ *
+ * @param width - 元の幅
+ * @param height - 元の高さ
+ * @param maxLongEdge - 長辺の上限
+ * @returns 縮小後のサイズ（上限以下ならそのまま）
+ */
+export function fitWithinLongEdge(
+  width: number,
+  height: number,
+  maxLongEdge: number
+): { width: number; height: number } {
+  const longEdge = Math.max(width, height);
+  if (maxLongEdge <= 0 || longEdge <= maxLongEdge) return { width, height };
+
+  const scale = maxLongEdge / longEdge;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
@@ -0,0 +1,364 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeImage, encodeImage, type RgbaImage } from './image-codec';
+import { ImageConversionError } from './image-converter';
+import {
+  applyExifOrientation,
+  readExifOrientation,
+  sanitizeAndDownscaleImage,
+  stripImageMetadata,
+} from './image-sanitizer';
+
+const ascii = (s: string) => Array.from(s, (ch) => ch.charCodeAt(0));
+
+/** Orientation タグと GPS を模したダミー文字列を持つ TIFF（ビッグエンディアン） */
+function createTiff(orientation: number): number[] {
+  return [
+    ...ascii('MM'), 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01, // エントリ数
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // 次の IFD なし
+    ...ascii('GPS35.6812N139.7671E'),
+  ];
+}
+
+/** マーカーとペイロードから JPEG セグメントを生成 */
+function jpegSegment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/** SOI の直後にセグメントを挿入した JPEG を生成 */
+function insertJpegSegments(jpeg: Uint8Array, segments: number[][]): Uint8Array {
+  return new Uint8Array([
+    ...jpeg.subarray(0, 2),
+    ...segments.flat(),
+    ...jpeg.subarray(2),
+  ]);
+}
+
+/** IHDR の直後にチャンクを挿入した PNG を生成（CRC はダミー） */
+function insertPngChunks(
+  png: Uint8Array,
+  chunks: Array<{ type: string; data: number[] }>
+): Uint8Array {
+  const ihdrEnd = 8 + 12 + 13;
+  const encoded = chunks.flatMap(({ type, data }) => {
+    const length = data.length;
+    return [
+      (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+      ...ascii(type), ...data, 0, 0, 0, 0,
+    ];
+  });
+  return new Uint8Array([
+    ...png.subarray(0, ihdrEnd),
+    ...encoded,
+    ...png.subarray(ihdrEnd),
+  ]);
+}
+
+/** RIFF チャンクを生成（奇数長はパディング） */
+function riffChunk(type: string, data: number[]): number[] {
+  const length = data.length;
+  return [
+    ...ascii(type),
+    length & 0xff, (length >> 8) & 0xff, (length >> 16) & 0xff, (length >> 24) & 0xff,
+    ...data,
+    ...(length % 2 ? [0] : []),
+  ];
+}
+
+/** チャンク列から WebP を生成 */
+function createWebp(chunks: number[][]): Uint8Array {
+  const body = [...ascii('WEBP'), ...chunks.flat()];
+  const size = body.length;
+  return new Uint8Array([
+    ...ascii('RIFF'),
+    size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, (size >> 24) & 0xff,
+    ...body,
+  ]);
+}
+
+function containsAscii(bytes: Uint8Array, text: string): boolean {
+  return String.fromCharCode(...bytes).includes(text);
+}
+
+/** 左半分が赤、右半分が青の RGBA 画像 */
+function createSplitImage(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const isLeft = i % width < width / 2;
+    data.set(isLeft ? [255, 0, 0, 255] : [0, 0, 255, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe('image-sanitizer', () => {
+  describe('readExifOrientation', () => {
+    it('JPEG の APP1(EXIF) から Orientation を読み取る', () => {
+      const jpeg = insertJpegSegments(
+        encodeImage(createSplitImage(4, 4), 'image/jpeg'),
+        [jpegSegment(0xe1, [...ascii('Exif\0\0'), ...createTiff(6)])]
+      );
+      expect(readExifOrientation(jpeg)).toBe(6);
+    });
+
+    it('PNG の eXIf チャンクから Orientation を読み取る', () => {
+      const png = insertPngChunks(
+        encodeImage(createSplitImage(2, 2), 'image/png'),
+        [{ type: 'eXIf', data: createTiff(3) }]
+      );
+      expect(readExifOrientation(png)).toBe(3);
+    });
+
+    it('EXIF が無い場合は 1 を返す', () => {
+      expect(
+        readExifOrientation(encodeImage(createSplitImage(2, 2), 'image/jpeg'))
+      ).toBe(1);
+    });
+  });
+
+  describe('stripImageMetadata', () => {
+    it('JPEG の EXIF / XMP / COM を除去し、JFIF（サムネイル除く）と ICC は保持する', () => {
+      const jpeg = insertJpegSegments(
+        encodeImage(createSplitImage(4, 4), 'image/jpeg'),
+        [
+          jpegSegment(0xe1, [...ascii('Exif\0\0'), ...createTiff(1)]),
+          jpegSegment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>')),
+          jpegSegment(0xe2, ascii('ICC_PROFILE\0')),
+          jpegSegment(0xfe, ascii('serial: ABC123')),
+        ]
+      );
+      // 1x1 のサムネイル（RGB）を持つ JFIF と、JFXX のサムネイル
+      const withThumbnails = insertJpegSegments(jpeg.subarray(0, 2), [
+        jpegSegment(0xe0, [
+          ...ascii('JFIF\0'), 1, 2, 0, 0, 1, 0, 1, 1, 1, ...ascii('THM'),
+        ]),
+        jpegSegment(0xe0, [...ascii('JFXX\0'), 0x10, ...ascii('thumbnail')]),
+      ]);
+
+      const stripped = stripImageMetadata(
+        new Uint8Array([...withThumbnails, ...jpeg.subarray(2)])
+      );
+
+      expect(containsAscii(stripped, 'Exif')).toBe(false);
+      expect(containsAscii(stripped, 'GPS35.6812N')).toBe(false);
+      expect(containsAscii(stripped, 'xmpmeta')).toBe(false);
+      expect(containsAscii(stripped, 'ABC123')).toBe(false);
+      expect(containsAscii(stripped, 'ICC_PROFILE')).toBe(true);
+      expect(containsAscii(stripped, 'JFIF')).toBe(true);
+      expect(containsAscii(stripped, 'THM')).toBe(false);
+      expect(containsAscii(stripped, 'JFXX')).toBe(false);
+      // 画像として引き続きデコードできる
+      expect(decodeImage(stripped).width).toBe(4);
+    });
+
+    it('MPF の APP2 と EOI 以降の副画像・トレーラーを除去する', () => {
+      const exif = jpegSegment(0xe1, [...ascii('Exif\0\0'), ...createTiff(1)]);
+      const secondary = insertJpegSegments(
+        encodeImage(createSplitImage(2, 2), 'image/jpeg'),
+        [exif]
+      );
+      const jpeg = insertJpegSegments(
+        encodeImage(createSplitImage(4, 4), 'image/jpeg'),
+        [
+          jpegSegment(0xe2, ascii('MPF\0MM')),
+          jpegSegment(0xe2, ascii('ICC_PROFILE\0')),
+        ]
+      );
+      const withTrailer = new Uint8Array([
+        ...jpeg,
+        ...secondary, // MPF の副画像（EXIF・GPS 付き）
+        ...ascii('VENDOR_TRAILER GPS35.6812N139.7671E'),
+      ]);
+
+      const stripped = stripImageMetadata(withTrailer);
+
+      expect(containsAscii(stripped, 'MPF')).toBe(false);
+      expect(containsAscii(stripped, 'Exif')).toBe(false);
+      expect(containsAscii(stripped, 'GPS35.6812N')).toBe(false);
+      expect(containsAscii(stripped, 'VENDOR_TRAILER')).toBe(false);
+      expect(containsAscii(stripped, 'ICC_PROFILE')).toBe(true);
+      expect(Array.from(stripped.subarray(-2))).toEqual([0xff, 0xd9]);
+      expect(decodeImage(stripped).width).toBe(4);
+    });
+
+    it('PNG の tEXt / iTXt / eXIf を除去する', () => {
+      const png = insertPngChunks(
+        encodeImage(createSplitImage(2, 2), 'image/png'),
+        [
+          { type: 'tEXt', data: ascii('Author\0Jane') },
+          { type: 'iTXt', data: ascii('XML:com.adobe.xmp\0\0\0\0\0<x/>') },
+          { type: 'eXIf', data: createTiff(1) },
+        ]
+      );
+
+      const stripped = stripImageMetadata(png);
+
+      expect(containsAscii(stripped, 'tEXt')).toBe(false);
+      expect(containsAscii(stripped, 'iTXt')).toBe(false);
+      expect(containsAscii(stripped, 'eXIf')).toBe(false);
+      expect(containsAscii(stripped, 'GPS35.6812N')).toBe(false);
+      expect(decodeImage(stripped)).toEqual(createSplitImage(2, 2));
+    });
+
+    it('WebP の EXIF / XMP チャンクを除去し、VP8X フラグと RIFF サイズを更新する', () => {
+      const webp = createWebp([
+        riffChunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+        riffChunk('VP8L', [0x2f, 0, 0, 0, 0]),
+        riffChunk('EXIF', createTiff(1)),
+        riffChunk('XMP ', ascii('<x:xmpmeta/>')),
+      ]);
+
+      const stripped = stripImageMetadata(webp);
+      const view = new DataView(stripped.buffer);
+
+      expect(containsAscii(stripped, 'EXIF')).toBe(false);
+      expect(containsAscii(stripped, 'xmpmeta')).toBe(false);
+      expect(containsAscii(stripped, 'VP8L')).toBe(true);
+      expect(stripped[20] & 0x0c).toBe(0);
+      expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+    });
+
+    it('WebP の Orientation が 1 以外の場合は Orientation のみの EXIF を残す', () => {
+      const webp = createWebp([
+        riffChunk('VP8X', [0x08, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+        riffChunk('VP8L', [0x2f, 0, 0, 0, 0]),
+        riffChunk('EXIF', createTiff(6)),
+      ]);
+
+      const stripped = stripImageMetadata(webp);
+      const view = new DataView(stripped.buffer);
+
+      expect(containsAscii(stripped, 'GPS35.6812N')).toBe(false);
+      expect(readExifOrientation(stripped)).toBe(6);
+      expect(stripped[20] & 0x08).toBe(0x08);
+      expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+    });
+
+    it('構造が壊れた JPEG は ImageConversionError をスローする', () => {
+      const broken = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff]);
+      expect(() => stripImageMetadata(broken)).toThrow(ImageConversionError);
+    });
+  });
+
+  describe('applyExifOrientation', () => {
+    it('Orientation 6 は時計回りに 90 度回転し、幅と高さを入れ替える', () => {
+      const rotated = applyExifOrientation(createSplitImage(4, 2), 6);
+
+      expect(rotated.width).toBe(2);
+      expect(rotated.height).toBe(4);
+      // 左半分（赤）が上側に来る
+      expect(Array.from(rotated.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+      const last = rotated.data.length - 4;
+      expect(Array.from(rotated.data.subarray(last))).toEqual([0, 0, 255, 255]);
+    });
+
+    it('Orientation 2 は左右反転する', () => {
+      const flipped = applyExifOrientation(createSplitImage(4, 2), 2);
+      expect(Array.from(flipped.data.subarray(0, 4))).toEqual([0, 0, 255, 255]);
+    });
+
+    it('Orientation 8 は反時計回りに 90 度回転する', () => {
+      const rotated = applyExifOrientation(createSplitImage(4, 2), 8);
+      // 左半分（赤）が下側に来る
+      expect(Array.from(rotated.data.subarray(0, 4))).toEqual([0, 0, 255, 255]);
+      const last = rotated.data.length - 4;
+      expect(Array.from(rotated.data.subarray(last))).toEqual([255, 0, 0, 255]);
+    });
+
+    it('Orientation 1 はそのまま返す', () => {
+      const image = createSplitImage(2, 2);
+      expect(applyExifOrientation(image, 1)).toBe(image);
+    });
+  });
+
+  describe('sanitizeAndDownscaleImage', () => {
+    it('向き付きの大きな JPEG を 1 回のエンコードで回転・縮小し、EXIF を含めない', () => {
+      const jpeg = insertJpegSegments(
+        encodeImage(createSplitImage(32, 16), 'image/jpeg', { jpegQuality: 95 }),
+        [jpegSegment(0xe1, [...ascii('Exif\0\0'), ...createTiff(6)])]
+      );
+
+      const result = sanitizeAndDownscaleImage(jpeg, { maxLongEdge: 16 });
+      const decoded = decodeImage(result.bytes);
+
+      expect(result.orientationApplied).toBe(true);
+      expect(result.info).toEqual({
+        originalWidth: 16,
+        originalHeight: 32,
+        width: 8,
+        height: 16,
+        resized: true,
+      });
+      expect(containsAscii(result.bytes, 'Exif')).toBe(false);
+      expect([decoded.width, decoded.height]).toEqual([8, 16]);
+      // 上端は赤
+      expect(decoded.data[0]).toBeGreaterThan(200);
+      expect(decoded.data[2]).toBeLessThan(60);
+      // 回転した縮小前の画像は再エンコードしない
+      expect(result.fullSizeBytes).toBe(result.bytes);
+    });
+
+    it('向きが 1 の場合は縮小した画像と、メタデータのみ除去した縮小前の画像を返す', () => {
+      const original = encodeImage(createSplitImage(32, 16), 'image/png');
+
+      const result = sanitizeAndDownscaleImage(original, { maxLongEdge: 16 });
+
+      expect(result.orientationApplied).toBe(false);
+      expect(result.fullSizeBytes).toEqual(original);
+      expect(decodeImage(result.bytes).width).toBe(16);
+      expect(result.info.resized).toBe(true);
+    });
+
+    it('縮小が不要でも向き付き JPEG は回転して再エンコードする', () => {
+      const jpeg = insertJpegSegments(
+        encodeImage(createSplitImage(16, 8), 'image/jpeg', { jpegQuality: 95 }),
+        [jpegSegment(0xe1, [...ascii('Exif\0\0'), ...createTiff(6)])]
+      );
+
+      const result = sanitizeAndDownscaleImage(jpeg, { maxLongEdge: 1536 });
+      const decoded = decodeImage(result.bytes);
+
+      expect(result.orientation).toBe(6);
+      expect(result.orientationApplied).toBe(true);
+      expect(result.info.resized).toBe(false);
+      expect(containsAscii(result.bytes, 'Exif')).toBe(false);
+      expect([decoded.width, decoded.height]).toEqual([8, 16]);
+      // 上端は赤
+      expect(decoded.data[0]).toBeGreaterThan(200);
+      expect(decoded.data[2]).toBeLessThan(60);
+    });
+
+    it('WebP は縮小・向きの適用をせずメタデータのみ除去し、ヘッダーのサイズを記録する', () => {
+      // キャンバス 4000x3000（幅-1, 高さ-1 を 24bit LE で格納）
+      const webp = createWebp([
+        riffChunk('VP8X', [0x08, 0, 0, 0, 0x9f, 0x0f, 0x00, 0xb7, 0x0b, 0x00]),
+        riffChunk('EXIF', createTiff(6)),
+      ]);
+
+      const result = sanitizeAndDownscaleImage(webp, { maxLongEdge: 1536 });
+
+      expect(result.orientation).toBe(6);
+      expect(result.orientationApplied).toBe(false);
+      expect(containsAscii(result.bytes, 'GPS35.6812N')).toBe(false);
+      expect(result.fullSizeBytes).toBe(result.bytes);
+      expect(result.info).toEqual({
+        originalWidth: 4000,
+        originalHeight: 3000,
+        width: 4000,
+        height: 3000,
+        resized: false,
+      });
+    });
+
+    it('向きの適用も縮小も不要な場合は再エンコードしない', () => {
+      const original = encodeImage(createSplitImage(4, 4), 'image/jpeg');
+
+      const result = sanitizeAndDownscaleImage(original, { maxLongEdge: 16 });
+
+      expect(result.bytes).toEqual(original);
+      expect(result.info.resized).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,576 @@
+/**
+ * 画像メタデータのサニタイズユーティリティ
+ *
+ * スマートフォンで撮影された写真に含まれる EXIF（GPS座標・端末シリアル等）や
+ * XMP などのメタデータを、外部サービスへ送信する前に取り除きます。
+ * あわせて EXIF の Orientation タグをピクセルへ実際に適用し、
+ * メタデータを失っても画像が横倒しにならないようにします。
+ */
+
+import { decodeImage, encodeImage, type RgbaImage } from './image-codec';
+import { ImageConversionError } from './image-converter';
+import { detectImageMimeType, parseImageHeader } from './image-header';
+import {
+  DEFAULT_MAX_LONG_EDGE,
+  fitWithinLongEdge,
+  type ResizeInfo,
+  resizeRgbaImage,
+} from './image-resize';
+
+/**
+ * サニタイズと縮小のオプション
+ */
+export interface SanitizeAndDownscaleOptions {
+  /**
+   * 長辺の上限（ピクセル）。0 以下を指定すると縮小しない
+   * @default 1536
+   */
+  maxLongEdge?: number;
+  /**
+   * 向きの適用・縮小のために JPEG を再エンコードする際の品質（1〜100）
+   * @default 90
+   */
+  jpegQuality?: number;
+}
+
+/**
+ * サニタイズと縮小の結果
+ */
+export interface SanitizedDownscaledImage {
+  /** メタデータを除去し、向きを適用して長辺の上限まで縮小した画像バイト列 */
+  bytes: Uint8Array;
+  /**
+   * 縮小前の画像バイト列（メタデータは除去済み）
+   * @description 向きを適用して再エンコードした場合は `bytes` と同じ（縮小後の画像）
+   */
+  fullSizeBytes: Uint8Array;
+  /** 元（向きの適用後）と縮小後のサイズ */
+  info: ResizeInfo;
+  /** 元画像の EXIF Orientation（1〜8。タグが無い場合は 1） */
+  orientation: number;
+  /** Orientation をピクセルへ適用したかどうか */
+  orientationApplied: boolean;
+}
+
+/** JPEG で保持するセグメント（APP0: JFIF / APP2: ICC プロファイル / APP14: Adobe） */
+const JPEG_KEPT_APP_MARKERS = new Set([0xe0, 0xe2, 0xee]);
+
+/** APP0 のうち保持する JFIF の識別子（JFXX など他の用途の APP0 は除去する） */
+const JPEG_JFIF_IDENTIFIER = 'JFIF\0';
+
+/** サムネイルを除いた JFIF ペイロードの長さ（識別子〜密度の 12 バイト + サムネイル寸法 2 バイト） */
+const JPEG_JFIF_HEADER_LENGTH = 14;
+
+/** APP2 のうち保持する ICC プロファイルの識別子（MPF など他の用途の APP2 は除去する） */
+const JPEG_ICC_PROFILE_IDENTIFIER = 'ICC_PROFILE\0';
+
+/** PNG で除去するメタデータチャンク */
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'iTXt', 'zTXt', 'eXIf', 'tIME']);
+
+/** WebP で除去するメタデータチャンク */
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+
+/** VP8X フラグ: EXIF / XMP メタデータの有無 */
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+/** EXIF の Orientation タグ ID */
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * JFIF の APP0 セグメントを埋め込みサムネイルを除いて作り直す
+ */
+function stripJfifThumbnail(payload: Uint8Array): Uint8Array {
+  const length = JPEG_JFIF_HEADER_LENGTH + 2;
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, 0xe0, length >> 8, length & 0xff]);
+  // サムネイルの幅・高さ（末尾 2 バイト）は 0 のまま
+  segment.set(payload.subarray(0, JPEG_JFIF_HEADER_LENGTH - 2), 4);
+  return segment;
+}
+
+/**
+ * Orientation タグのみを持つ WebP の EXIF チャンクを生成する
+ *
+ * WebP はデコードできず向きをピクセルへ適用できないため、
+ * 他の EXIF を除去したうえで Orientation だけを残すのに使います。
+ */
+function createOrientationExifChunk(orientation: number): Uint8Array {
+  const tiffLength = 26;
+  const chunk = new Uint8Array(8 + tiffLength);
+  const view = new DataView(chunk.buffer);
+  chunk.set([0x45, 0x58, 0x49, 0x46]); // "EXIF"
+  view.setUint32(4, tiffLength, true);
+  // TIFF ヘッダー（ビッグエンディアン、IFD0 はオフセット 8）
+  chunk.set([0x4d, 0x4d], 8);
+  view.setUint16(10, 42);
+  view.setUint32(12, 8);
+  // IFD0: Orientation（SHORT × 1）の 1 エントリ。次の IFD は無し（0）
+  view.setUint16(16, 1);
+  view.setUint16(18, EXIF_ORIENTATION_TAG);
+  view.setUint16(20, 3);
+  view.setUint32(22, 1);
+  view.setUint16(26, orientation);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * TIFF 構造（EXIF 本体）の IFD0 から Orientation を読み取る
+ */
+function readTiffOrientation(tiff: Uint8Array): number {
+  if (tiff.length < 8) return 1;
+
+  const order = readAscii(tiff, 0, 2);
+  if (order !== 'II' && order !== 'MM') return 1;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = order === 'II';
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) return 1;
+
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) return 1;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * "Exif\0\0" 接頭辞を持つ場合は取り除いて TIFF 部分を返す
+ */
+function stripExifPrefix(data: Uint8Array): Uint8Array {
+  return readAscii(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data;
+}
+
+/**
+ * JPEG のエントロピー符号化データの終端（次のマーカーの位置）を求める
+ * （0xFF00 のスタッフィングと RST0-7 はデータの一部として読み飛ばす）
+ */
+function findEntropyDataEnd(bytes: Uint8Array, offset: number): number {
+  for (let index = offset; index + 1 < bytes.length; index++) {
+    if (bytes[index] !== 0xff) continue;
+    const next = bytes[index + 1];
+    if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) return index;
+  }
+  return bytes.length;
+}
+
+/**
+ * JPEG のセグメントを走査する
+ *
+ * SOS はエントロピー符号化データを含めて 1 セグメントとし、プログレッシブ JPEG の後続の
+ * セグメントも走査します。最初の EOI で終了し、それ以降のデータ（MPF の副画像や
+ * 端末メーカー独自のトレーラー）は渡しません。
+ *
+ * @param onSegment 各セグメント（マーカー含む）を受け取るコールバック
+ * @throws {ImageConversionError} セグメント構造が壊れている場合
+ */
+function walkJpegSegments(
+  bytes: Uint8Array,
+  onSegment: (marker: number, segment: Uint8Array, payload: Uint8Array) => void
+): void {
+  let offset = 2; // SOI の直後
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new ImageConversionError('JPEG のセグメント構造が不正です');
+    }
+    const start = offset;
+    while (offset < bytes.length && bytes[offset] === 0xff) offset++;
+    if (offset >= bytes.length) return;
+    const marker = bytes[offset];
+    offset++;
+
+    // TEM / RST0-7 は長さを持たない
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      onSegment(marker, bytes.subarray(start, offset), new Uint8Array());
+      continue;
+    }
+    // EOI で主画像が終わる
+    if (marker === 0xd9) {
+      onSegment(marker, bytes.subarray(start, offset), new Uint8Array());
+      return;
+    }
+
+    if (offset + 2 > bytes.length) {
+      throw new ImageConversionError('JPEG のセグメントが途中で切れています');
+    }
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    const end = offset + length;
+    if (length < 2 || end > bytes.length) {
+      throw new ImageConversionError('JPEG のセグメント長が不正です');
+    }
+    // SOS はヘッダーに続くエントロピー符号化データまでを含める
+    if (marker === 0xda) {
+      const dataEnd = findEntropyDataEnd(bytes, end);
+      onSegment(
+        marker,
+        bytes.subarray(start, dataEnd),
+        bytes.subarray(offset + 2, end)
+      );
+      offset = dataEnd;
+      continue;
+    }
+    onSegment(
+      marker,
+      bytes.subarray(start, end),
+      bytes.subarray(offset + 2, end)
+    );
+    offset = end;
+  }
+}
+
+/**
+ * PNG のチャンクを走査する
+ * @throws {ImageConversionError} チャンク構造が壊れている場合
+ */
+function walkPngChunks(
+  bytes: Uint8Array,
+  onChunk: (type: string, chunk: Uint8Array, data: Uint8Array) => void
+): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8; // シグネチャの直後
+
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) {
+      throw new ImageConversionError('PNG のチャンクが途中で切れています');
+    }
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new ImageConversionError('PNG のチャンク長が不正です');
+    }
+    onChunk(
+      type,
+      bytes.subarray(offset, end),
+      bytes.subarray(offset + 8, offset + 8 + length)
+    );
+    offset = end;
+  }
+}
+
+/**
+ * WebP（RIFF）のチャンクを走査する
+ * @throws {ImageConversionError} チャンク構造が壊れている場合
+ */
+function walkWebpChunks(
+  bytes: Uint8Array,
+  onChunk: (type: string, chunk: Uint8Array, data: Uint8Array) => void
+): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12; // "RIFF" + サイズ + "WEBP"
+
+  while (offset < bytes.length) {
+    if (offset + 8 > bytes.length) {
+      throw new ImageConversionError('WebP のチャンクが途中で切れています');
+    }
+    const type = readAscii(bytes, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    // チャンクは偶数長にパディングされる
+    const end = offset + 8 + length + (length % 2);
+    if (offset + 8 + length > bytes.length) {
+      throw new ImageConversionError('WebP のチャンク長が不正です');
+    }
+    onChunk(
+      type,
+      bytes.subarray(offset, Math.min(end, bytes.length)),
+      bytes.subarray(offset + 8, offset + 8 + length)
+    );
+    offset = end;
+  }
+}
+
+/**
+ * 画像に埋め込まれた EXIF の Orientation を読み取る
+ *
+ * @param bytes - 画像のバイト列（JPEG / PNG / WebP）
+ * @returns Orientation（1〜8）。EXIF が無い・読み取れない場合は 1
+ *
+ * @example
+ * ```typescript
+ * readExifOrientation(bytes); // 6（90度回転して表示すべき画像）
+ * ```
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+  const mimeType = detectImageMimeType(bytes);
+  let orientation = 1;
+
+  try {
+    if (mimeType === 'image/jpeg') {
+      walkJpegSegments(bytes, (marker, _segment, payload) => {
+        if (
+          orientation === 1 &&
+          marker === 0xe1 &&
+          readAscii(payload, 0, 6) === 'Exif\0\0'
+        ) {
+          orientation = readTiffOrientation(payload.subarray(6));
+        }
+      });
+    } else if (mimeType === 'image/png') {
+      walkPngChunks(bytes, (type, _chunk, data) => {
+        if (type === 'eXIf') orientation = readTiffOrientation(data);
+      });
+    } else if (mimeType === 'image/webp') {
+      walkWebpChunks(bytes, (type, _chunk, data) => {
+        if (type === 'EXIF') {
+          orientation = readTiffOrientation(stripExifPrefix(data));
+        }
+      });
+    }
+  } catch {
+    return 1;
+  }
+
+  return orientation;
+}
+
+/**
+ * 画像からメタデータを除去する（ピクセルデータは変更しない）
+ *
+ * - JPEG: APP1（EXIF / XMP）、JFIF 以外の APP0（JFXX 等）、ICC プロファイル以外の APP2（MPF 等）、
+ *   APP3〜APP13、APP15、COM セグメントと、主画像の EOI 以降のデータ
+ *   （MPF の副画像・端末メーカーのトレーラー）を除去
+ *   （APP0: JFIF はサムネイルを除いて、APP2: ICC プロファイル、APP14: Adobe は色再現のため保持）
+ * - PNG: tEXt / iTXt / zTXt / eXIf / tIME チャンクを除去
+ * - WebP: EXIF / XMP チャンクを除去し、VP8X のフラグを更新
+ *   （向きをピクセルへ適用できないため、Orientation が 1 以外の場合は Orientation のみの EXIF を残す）
+ *
+ * @param bytes - 画像のバイト列
+ * @returns メタデータを除去したバイト列（未対応の形式はそのまま返す）
+ * @throws {ImageConversionError} 画像の構造が壊れている場合
+ */
+export function stripImageMetadata(bytes: Uint8Array): Uint8Array {
+  const mimeType = detectImageMimeType(bytes);
+  const parts: Uint8Array[] = [];
+
+  if (mimeType === 'image/jpeg') {
+    parts.push(bytes.subarray(0, 2));
+    walkJpegSegments(bytes, (marker, segment, payload) => {
+      const isApp = marker >= 0xe0 && marker <= 0xef;
+      const isComment = marker === 0xfe;
+      const isKeptApp =
+        JPEG_KEPT_APP_MARKERS.has(marker) &&
+        (marker !== 0xe2 ||
+          readAscii(payload, 0, JPEG_ICC_PROFILE_IDENTIFIER.length) ===
+            JPEG_ICC_PROFILE_IDENTIFIER) &&
+        (marker !== 0xe0 ||
+          (readAscii(payload, 0, JPEG_JFIF_IDENTIFIER.length) ===
+            JPEG_JFIF_IDENTIFIER &&
+            payload.length >= JPEG_JFIF_HEADER_LENGTH));
+      if ((isApp && !isKeptApp) || isComment) return;
+      parts.push(marker === 0xe0 ? stripJfifThumbnail(payload) : segment);
+    });
+    return concatBytes(parts);
+  }
+
+  if (mimeType === 'image/png') {
+    parts.push(bytes.subarray(0, 8));
+    walkPngChunks(bytes, (type, chunk) => {
+      if (!PNG_METADATA_CHUNKS.has(type)) parts.push(chunk);
+    });
+    return concatBytes(parts);
+  }
+
+  if (mimeType === 'image/webp') {
+    const orientation = readExifOrientation(bytes);
+    parts.push(bytes.slice(0, 12));
+    walkWebpChunks(bytes, (type, chunk) => {
+      // 元の EXIF チャンクの位置（画像データの後）に Orientation のみの EXIF を置く
+      if (type === 'EXIF' && orientation !== 1) {
+        parts.push(createOrientationExifChunk(orientation));
+        return;
+      }
+      if (WEBP_METADATA_CHUNKS.has(type)) return;
+      if (type === 'VP8X') {
+        const copy = chunk.slice();
+        copy[8] &= ~(VP8X_XMP_FLAG | (orientation === 1 ? VP8X_EXIF_FLAG : 0));
+        parts.push(copy);
+        return;
+      }
+      parts.push(chunk);
+    });
+    const result = concatBytes(parts);
+    // RIFF ヘッダーのサイズ（"WEBP" 以降のバイト数）を更新
+    new DataView(result.buffer).setUint32(4, result.length - 8, true);
+    return result;
+  }
+
+  return bytes;
+}
+
+/**
+ * EXIF の Orientation に従ってピクセルを回転・反転する
+ *
+ * @param image - RGBA ピクセルデータ
+ * @param orientation - EXIF Orientation（1〜8）
+ * @returns 正しい向きに補正した画像（5〜8 の場合は幅と高さが入れ替わる）
+ */
+export function applyExifOrientation(
+  image: RgbaImage,
+  orientation: number
+): RgbaImage {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width: w, height: h, data } = image;
+  const swapped = orientation >= 5;
+  const width = swapped ? h : w;
+  const height = swapped ? w : h;
+  const result = new Uint8Array(data.length);
+
+  for (let dy = 0; dy < height; dy++) {
+    for (let dx = 0; dx < width; dx++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2:
+          sx = w - 1 - dx;
+          sy = dy;
+          break;
+        case 3:
+          sx = w - 1 - dx;
+          sy = h - 1 - dy;
+          break;
+        case 4:
+          sx = dx;
+          sy = h - 1 - dy;
+          break;
+        case 5:
+          sx = dy;
+          sy = dx;
+          break;
+        case 6:
+          sx = dy;
+          sy = h - 1 - dx;
+          break;
+        case 7:
+          sx = w - 1 - dy;
+          sy = h - 1 - dx;
+          break;
+        default:
+          sx = w - 1 - dy;
+          sy = dx;
+          break; // 8
+      }
+      const src = (sy * w + sx) * 4;
+      const dst = (dy * width + dx) * 4;
+      result[dst] = data[src];
+      result[dst + 1] = data[src + 1];
+      result[dst + 2] = data[src + 2];
+      result[dst + 3] = data[src + 3];
+    }
+  }
+
+  return { width, height, data: result };
+}
+
+/**
+ * 画像のメタデータを除去し、EXIF の向きの適用と長辺の上限までの縮小を 1 回のデコード・エンコードで行う
+ *
+ * 向きの適用と縮小を別々に行うと向き付きの大きな写真を 2 回デコード・エンコードするため、
+ * Workers のメモリ・CPU の制限に収まるよう、元の向きのまま縮小してから
+ * 縮小後の画素へ向きを適用し、1 回だけエンコードします。向きの適用も縮小も不要な場合、
+ * デコードできない形式（WebP）の場合はメタデータの除去のみ行います。
+ *
+ * @param bytes - アップロードされた画像のバイト列
+ * @param options - サニタイズと縮小のオプション
+ * @returns サニタイズと縮小の結果
+ * @throws {ImageConversionError} 画像の構造が壊れている・デコードに失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const { bytes, info } = sanitizeAndDownscaleImage(uploadedBytes, {
+ *   maxLongEdge: parseMaxLongEdge(c.env?.MAX_INPUT_IMAGE_LONG_EDGE),
+ * });
+ * ```
+ */
+export function sanitizeAndDownscaleImage(
+  bytes: Uint8Array,
+  options: SanitizeAndDownscaleOptions = {}
+): SanitizedDownscaledImage {
+  const { maxLongEdge = DEFAULT_MAX_LONG_EDGE } = options;
+  const orientation = readExifOrientation(bytes);
+  const stripped = stripImageMetadata(bytes);
+  const mimeType = detectImageMimeType(stripped);
+  const header = parseImageHeader(stripped);
+
+  if (!header || (mimeType !== 'image/jpeg' && mimeType !== 'image/png')) {
+    const width = header?.width ?? 0;
+    const height = header?.height ?? 0;
+    return {
+      bytes: stripped,
+      fullSizeBytes: stripped,
+      info: {
+        originalWidth: width,
+        originalHeight: height,
+        width,
+        height,
+        resized: false,
+      },
+      orientation,
+      orientationApplied: false,
+    };
+  }
+
+  // 5〜8 は向きの適用で幅と高さが入れ替わる
+  const swapped = orientation >= 5;
+  const originalWidth = swapped ? header.height : header.width;
+  const originalHeight = swapped ? header.width : header.height;
+  const target = fitWithinLongEdge(originalWidth, originalHeight, maxLongEdge);
+  const info: ResizeInfo = {
+    originalWidth,
+    originalHeight,
+    width: target.width,
+    height: target.height,
+    resized: target.width !== originalWidth || target.height !== originalHeight,
+  };
+  const orientationApplied = orientation !== 1;
+  if (!info.resized && !orientationApplied) {
+    return {
+      bytes: stripped,
+      fullSizeBytes: stripped,
+      info,
+      orientation,
+      orientationApplied,
+    };
+  }
+
+  // 元の向きのまま縮小してから向きを適用する（回転する画素を減らす）
+  const scaled = resizeRgbaImage(
+    decodeImage(stripped),
+    swapped ? target.height : target.width,
+    swapped ? target.width : target.height
+  );
+  const encoded = encodeImage(
+    applyExifOrientation(scaled, orientation),
+    mimeType,
+    options
+  );
+  return {
+    bytes: encoded,
+    fullSizeBytes: orientationApplied ? encoded : stripped,
+    info,
+    orientation,
+    orientationApplied,
+  };
+}
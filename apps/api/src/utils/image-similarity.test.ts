@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RgbaImage } from './image-codec';
+import { measureBackgroundSimilarity } from './image-similarity';
+
+/** 市松模様の画像（中央の矩形だけ別の色で塗る） */
+function createImage(
+  width: number,
+  height: number,
+  options: { phase?: number; center?: number } = {}
+): RgbaImage {
+  const { phase = 0, center } = options;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inCenter =
+        x >= width * 0.3 &&
+        x < width * 0.7 &&
+        y >= height * 0.3 &&
+        y < height * 0.7;
+      const value =
+        inCenter && center !== undefined
+          ? center
+          : (Math.floor(x / 4) + Math.floor(y / 4) + phase) % 2 === 0
+          ? 40
+          : 210;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('measureBackgroundSimilarity', () => {
+  it('同一の画像は 1 を返す', () => {
+    const image = createImage(64, 48);
+    expect(measureBackgroundSimilarity(image, image)).toBe(1);
+  });
+
+  it('中央（人物の領域）だけが変化した画像は高い類似度を返す', () => {
+    const original = createImage(64, 64);
+    const generated = createImage(64, 64, { center: 128 });
+    expect(measureBackgroundSimilarity(original, generated)).toBeGreaterThan(
+      0.95
+    );
+  });
+
+  it('背景が変化した画像は低い類似度を返す', () => {
+    const original = createImage(64, 64);
+    const generated = createImage(64, 64, { phase: 1 });
+    expect(measureBackgroundSimilarity(original, generated)).toBeLessThan(0.1);
+  });
+
+  it('サイズの異なる生成画像は元画像のサイズに揃えて比較する', () => {
+    const original = createImage(64, 64);
+    // 2 倍に拡大した画像は縮小すると元の画像と一致する
+    const enlarged = createImage(128, 128);
+    for (let y = 0; y < 128; y++) {
+      for (let x = 0; x < 128; x++) {
+        enlarged.data.set(
+          original.data.subarray(
+            ((y >> 1) * 64 + (x >> 1)) * 4,
+            ((y >> 1) * 64 + (x >> 1)) * 4 + 4
+          ),
+          (y * 128 + x) * 4
+        );
+      }
+    }
+    expect(measureBackgroundSimilarity(original, enlarged)).toBeCloseTo(1, 5);
+  });
+
+  it('borderRatio が 0 の場合は画像全体で比較する', () => {
+    const original = createImage(64, 64);
+    const generated = createImage(64, 64, { center: 128 });
+    expect(
+      measureBackgroundSimilarity(original, generated, { borderRatio: 0 })
+    ).toBeLessThan(measureBackgroundSimilarity(original, generated));
+  });
+});
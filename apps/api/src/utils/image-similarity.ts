@@ -0,0 +1,155 @@
+/**
+ * 画像の類似度計測ユーティリティ
+ *
+ * 生成画像で体型以外（背景・照明など）が変化していないかを検証するため、
+ * 元画像と生成画像の周縁部（人物が写りにくい背景領域）の構造的類似度（SSIM）を計測します。
+ */
+
+import type { RgbaImage } from './image-codec';
+import { fitWithinLongEdge, resizeRgbaImage } from './image-resize';
+
+/** 背景の類似度の合格とみなす閾値の既定値 */
+export const DEFAULT_BACKGROUND_SIMILARITY_THRESHOLD = 0.5;
+
+/** SSIM を計算するウィンドウの一辺（ピクセル） */
+const SSIM_WINDOW_SIZE = 8;
+
+/** SSIM の安定化定数（L = 255, K1 = 0.01, K2 = 0.03） */
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * 背景の類似度計測のオプション
+ */
+export interface BackgroundSimilarityOptions {
+  /**
+   * 背景とみなす周縁部の幅（画像の幅・高さに対する割合、0〜0.5）
+   * @default 0.2
+   */
+  borderRatio?: number;
+  /**
+   * 計測前に縮小する長辺のサイズ（ピクセル）
+   * @default 256
+   */
+  analysisLongEdge?: number;
+}
+
+/**
+ * RGBA 画像を輝度（BT.601）の配列へ変換する
+ */
+function toLuma(image: RgbaImage): Float32Array {
+  const luma = new Float32Array(image.width * image.height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] =
+      0.299 * image.data[o] +
+      0.587 * image.data[o + 1] +
+      0.114 * image.data[o + 2];
+  }
+  return luma;
+}
+
+/**
+ * 1 ウィンドウ分の SSIM を計算する
+ */
+function windowSsim(
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  x0: number,
+  y0: number,
+  size: number
+): number {
+  let sumA = 0;
+  let sumB = 0;
+  let sumAA = 0;
+  let sumBB = 0;
+  let sumAB = 0;
+  for (let y = y0; y < y0 + size; y++) {
+    for (let x = x0; x < x0 + size; x++) {
+      const va = a[y * width + x];
+      const vb = b[y * width + x];
+      sumA += va;
+      sumB += vb;
+      sumAA += va * va;
+      sumBB += vb * vb;
+      sumAB += va * vb;
+    }
+  }
+  const n = size * size;
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  const varA = sumAA / n - meanA * meanA;
+  const varB = sumBB / n - meanB * meanB;
+  const covariance = sumAB / n - meanA * meanB;
+
+  return (
+    ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+    ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2))
+  );
+}
+
+/**
+ * 元画像と生成画像の背景（周縁部）の構造的類似度を計測する
+ *
+ * 両画像を元画像の縦横比のまま共通のサイズへ縮小し、周縁部に中心を持つ
+ * 8×8 のウィンドウごとに輝度の SSIM を計算して平均します。
+ * 人物は画像の中央付近に写る前提のため、体型の変化は計測にほとんど影響しません。
+ *
+ * @param original - 元画像
+ * @param generated - 生成画像（サイズが異なる場合は元画像のサイズへ揃える）
+ * @param options - 計測オプション
+ * @returns 類似度（0〜1。1 は完全に一致）
+ *
+ * @example
+ * ```typescript
+ * const score = measureBackgroundSimilarity(decodeImage(input), decodeImage(output));
+ * if (score < DEFAULT_BACKGROUND_SIMILARITY_THRESHOLD) {
+ *   // 背景が変化している
+ * }
+ * ```
+ */
+export function measureBackgroundSimilarity(
+  original: RgbaImage,
+  generated: RgbaImage,
+  options: BackgroundSimilarityOptions = {}
+): number {
+  const { borderRatio = 0.2, analysisLongEdge = 256 } = options;
+  const size = fitWithinLongEdge(
+    original.width,
+    original.height,
+    analysisLongEdge
+  );
+  const width = Math.max(size.width, SSIM_WINDOW_SIZE);
+  const height = Math.max(size.height, SSIM_WINDOW_SIZE);
+  const a = toLuma(resizeRgbaImage(original, width, height));
+  const b = toLuma(resizeRgbaImage(generated, width, height));
+
+  const ratio = Math.min(0.5, Math.max(0, borderRatio));
+  const borderX = width * ratio;
+  const borderY = height * ratio;
+  const isBorder = (cx: number, cy: number) =>
+    cx < borderX ||
+    cx > width - borderX ||
+    cy < borderY ||
+    cy > height - borderY;
+
+  const average = (include: (cx: number, cy: number) => boolean) => {
+    let total = 0;
+    let count = 0;
+    for (let y = 0; y + SSIM_WINDOW_SIZE <= height; y += SSIM_WINDOW_SIZE) {
+      for (let x = 0; x + SSIM_WINDOW_SIZE <= width; x += SSIM_WINDOW_SIZE) {
+        if (!include(x + SSIM_WINDOW_SIZE / 2, y + SSIM_WINDOW_SIZE / 2)) {
+          continue;
+        }
+        total += windowSsim(a, b, width, x, y, SSIM_WINDOW_SIZE);
+        count++;
+      }
+    }
+    return count > 0 ? total / count : undefined;
+  };
+
+  // 周縁部にウィンドウが無い（小さい画像・borderRatio が 0）場合は全体で比較する
+  const score = average(isBorder) ?? average(() => true) ?? 1;
+  return Math.min(1, Math.max(0, score));
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { ImageValidationError, sniffImageContent } from './image-sniffer';
+
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe1]);
+const WEBP_BYTES = new Uint8Array([
+  0x52, 0x49, 0x46, 0x46, 0x00, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50,
+]);
+
+describe('image-sniffer', () => {
+  describe('sniffImageContent', () => {
+    it('申告と内容が一致すれば判別した MIME を返す', () => {
+      expect(sniffImageContent(PNG_BYTES, 'image/png')).toBe('image/png');
+      expect(sniffImageContent(JPEG_BYTES, 'image/jpeg')).toBe('image/jpeg');
+      expect(sniffImageContent(WEBP_BYTES, 'image/webp')).toBe('image/webp');
+    });
+
+    it('拡張子を偽装したファイル（申告と内容の不一致）を拒否する', () => {
+      expect(() => sniffImageContent(JPEG_BYTES, 'image/png')).toThrow(
+        ImageValidationError
+      );
+      expect(() => sniffImageContent(PNG_BYTES, 'image/webp')).toThrow(
+        /申告: image\/webp, 実際: image\/png/
+      );
+    });
+
+    it('画像として認識できない内容を拒否する', () => {
+      const text = new TextEncoder().encode('<?php echo 1; ?>');
+      expect(() => sniffImageContent(text, 'image/jpeg')).toThrow(
+        ImageValidationError
+      );
+      expect(() => sniffImageContent(new Uint8Array(), 'image/png')).toThrow(
+        ImageValidationError
+      );
+    });
+
+    it('許可リストに含まれない形式を拒否する', () => {
+      expect(() =>
+        sniffImageContent(WEBP_BYTES, 'image/webp', ['image/png', 'image/jpeg'])
+      ).toThrow(/サポートされていない画像形式/);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * アップロード画像の内容検証（コンテンツスニッフィング）
+ *
+ * クライアントが申告した `File.type` を信用せず、
+ * 先頭のマジックバイトから実際の形式を判別して検証します。
+ */
+
+import { detectImageMimeType, type ImageMimeType } from './image-header';
+
+/**
+ * 画像内容の検証に関するエラークラス
+ */
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageValidationError';
+    Object.setPrototypeOf(this, ImageValidationError.prototype);
+  }
+}
+
+/** スニッフィングで受け付ける既定の MIME タイプ */
+const DEFAULT_ALLOWED_MIME_TYPES: readonly string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+];
+
+/**
+ * 画像のマジックバイトを検証し、実際の MIME タイプを返す
+ *
+ * - シグネチャから形式を判別できない場合はエラー
+ * - 判別した形式が許可リストに含まれない場合はエラー
+ * - 申告された MIME タイプと判別結果が一致しない場合はエラー
+ *
+ * @param bytes - アップロードされた画像のバイト列
+ * @param declaredMimeType - クライアントが申告した MIME タイプ（`File.type`）
+ * @param allowedMimeTypes - 受け付ける MIME タイプ
+ * @returns 判別した実際の MIME タイプ
+ * @throws {ImageValidationError} 検証に失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const mimeType = sniffImageContent(bytes, image.type);
+ * await client.generateImage({ prompt, imageBase64, mimeType });
+ * ```
+ */
+export function sniffImageContent(
+  bytes: Uint8Array,
+  declaredMimeType: string,
+  allowedMimeTypes: readonly string[] = DEFAULT_ALLOWED_MIME_TYPES
+): ImageMimeType {
+  const sniffedMimeType = detectImageMimeType(bytes);
+
+  if (!sniffedMimeType) {
+    throw new ImageValidationError(
+      'ファイルの内容が画像として認識できません（PNG / JPEG / WebP のみ対応）'
+    );
+  }
+
+  if (!allowedMimeTypes.includes(sniffedMimeType)) {
+    throw new ImageValidationError(
+      `サポートされていない画像形式です: ${sniffedMimeType}`
+    );
+  }
+
+  if (sniffedMimeType !== declaredMimeType) {
+    throw new ImageValidationError(
+      `ファイルの内容が申告された形式と一致しません（申告: ${declaredMimeType}, 実際: ${sniffedMimeType}）`
+    );
+  }
+
+  return sniffedMimeType;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+
+import { encodeImage, type RgbaImage } from './image-codec';
+import { bytesToBase64 } from './image-converter';
+import { applyWatermark, createWatermarkTransform } from './image-watermark';
+
+/** 単色の RGBA 画像 */
+function createSolidImage(
+  width: number,
+  height: number,
+  rgb: [number, number, number]
+): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return { width, height, data };
+}
+
+/** 元画像から変化したピクセルの範囲を求める */
+function changedBounds(before: RgbaImage, after: RgbaImage) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let y = 0; y < before.height; y++) {
+    for (let x = 0; x < before.width; x++) {
+      const i = (y * before.width + x) * 4;
+      if (
+        before.data[i] !== after.data[i] ||
+        before.data[i + 1] !== after.data[i + 1] ||
+        before.data[i + 2] !== after.data[i + 2]
+      ) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+describe('image-watermark', () => {
+  describe('applyWatermark', () => {
+    it('既定では右下にテキストの透かしを描画し、元画像は変更しない', () => {
+      const image = createSolidImage(200, 100, [128, 128, 128]);
+      const original = image.data.slice();
+
+      const marked = applyWatermark(image);
+      const bounds = changedBounds(image, marked);
+
+      expect(image.data).toEqual(original);
+      expect(bounds.minX).toBeGreaterThan(100);
+      expect(bounds.minY).toBeGreaterThan(50);
+      expect(bounds.maxX).toBeLessThan(200);
+      expect(bounds.maxY).toBeLessThan(100);
+    });
+
+    it('配置位置に応じて描画位置を変える', () => {
+      const image = createSolidImage(200, 100, [128, 128, 128]);
+
+      const bounds = changedBounds(
+        image,
+        applyWatermark(image, { position: 'top-left', text: 'AI' })
+      );
+
+      expect(bounds.minX).toBeLessThan(10);
+      expect(bounds.minY).toBeLessThan(10);
+      expect(bounds.maxX).toBeLessThan(50);
+    });
+
+    it('不透明度 0 の場合は画像を変更しない', () => {
+      const image = createSolidImage(50, 50, [10, 20, 30]);
+      expect(applyWatermark(image, { opacity: 0 }).data).toEqual(image.data);
+    });
+
+    it('ロゴ指定時はロゴを不透明度に応じて合成する', () => {
+      const image = createSolidImage(100, 100, [0, 0, 0]);
+      const logo = createSolidImage(10, 10, [255, 255, 255]);
+
+      const marked = applyWatermark(image, {
+        logo,
+        position: 'top-left',
+        opacity: 0.5,
+      });
+
+      // 余白 4px の位置から 20x20（画像幅の 2 割）で描画される
+      const i = (4 * 100 + 4) * 4;
+      expect(Array.from(marked.data.subarray(i, i + 3))).toEqual([
+        128, 128, 128,
+      ]);
+      const bounds = changedBounds(image, marked);
+      expect(bounds.maxX).toBe(23);
+      expect(bounds.maxY).toBe(23);
+    });
+  });
+
+  describe('createWatermarkTransform', () => {
+    it('type が logo の場合は環境変数のロゴを使用する', () => {
+      const logo = encodeImage(
+        createSolidImage(10, 10, [255, 0, 0]),
+        'image/png'
+      );
+      const image = createSolidImage(100, 100, [0, 0, 0]);
+
+      const marked = createWatermarkTransform(
+        { type: 'logo', position: 'top-left', opacity: 1 },
+        bytesToBase64(logo)
+      )(image);
+
+      const i = (4 * 100 + 4) * 4;
+      expect(Array.from(marked.data.subarray(i, i + 3))).toEqual([255, 0, 0]);
+    });
+
+    it('ロゴが未設定・不正な場合はテキストの透かしで代替する', () => {
+      const image = createSolidImage(100, 100, [0, 0, 0]);
+      const textOnly = applyWatermark(image, {});
+
+      expect(createWatermarkTransform({ type: 'logo' })(image).data).toEqual(
+        textOnly.data
+      );
+      expect(
+        createWatermarkTransform({ type: 'logo' }, 'not base64!')(image).data
+      ).toEqual(textOnly.data);
+    });
+  });
+});
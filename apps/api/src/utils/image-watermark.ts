@@ -0,0 +1,225 @@
+/**
+ * 透かし（ウォーターマーク）描画ユーティリティ
+ *
+ * 生成画像が文脈から切り離されて共有されても AI 生成と分かるよう、
+ * テキストまたはロゴの透かしを画像のピクセルへ直接焼き込みます。
+ */
+
+import { drawText, measureText } from './bitmap-font';
+import { decodeImage, type RgbaImage } from './image-codec';
+import { base64ToBytes } from './image-converter';
+import { resizeRgbaImage } from './image-resize';
+
+/** 透かしの配置位置 */
+export type WatermarkPosition =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'center';
+
+/** 透かしの既定テキスト */
+export const DEFAULT_WATERMARK_TEXT = 'AI GENERATED';
+
+/** 透かしの不透明度の既定値 */
+const DEFAULT_WATERMARK_OPACITY = 0.6;
+
+/** ロゴの幅を画像の幅に対して何割にするか */
+const LOGO_WIDTH_RATIO = 0.2;
+
+/**
+ * 透かしの描画設定
+ */
+export interface WatermarkSettings {
+  /**
+   * 描画するテキスト（`logo` 未指定時に使用）
+   * @default "AI GENERATED"
+   */
+  text?: string;
+  /** 描画するロゴ画像（指定時はテキストより優先） */
+  logo?: RgbaImage;
+  /**
+   * 配置位置
+   * @default 'bottom-right'
+   */
+  position?: WatermarkPosition;
+  /**
+   * 不透明度（0〜1）
+   * @default 0.6
+   */
+  opacity?: number;
+}
+
+/**
+ * API から受け取る透かしの指定
+ */
+export interface WatermarkRequest {
+  /**
+   * 透かしの種類（`logo` は環境変数に設定されたロゴを使用）
+   * @default 'text'
+   */
+  type?: 'text' | 'logo';
+  /** テキストの透かしの文言 */
+  text?: string;
+  /** 配置位置 */
+  position?: WatermarkPosition;
+  /** 不透明度（0〜1） */
+  opacity?: number;
+}
+
+/**
+ * 配置位置と透かしのサイズから左上の座標を求める
+ */
+function resolveOrigin(
+  image: RgbaImage,
+  width: number,
+  height: number,
+  position: WatermarkPosition,
+  margin: number
+): { x: number; y: number } {
+  const left = margin;
+  const right = image.width - width - margin;
+  const top = margin;
+  const bottom = image.height - height - margin;
+
+  switch (position) {
+    case 'top-left':
+      return { x: left, y: top };
+    case 'top-right':
+      return { x: right, y: top };
+    case 'bottom-left':
+      return { x: left, y: bottom };
+    case 'center':
+      return {
+        x: Math.round((image.width - width) / 2),
+        y: Math.round((image.height - height) / 2),
+      };
+    default:
+      return { x: right, y: bottom };
+  }
+}
+
+/**
+ * ロゴ画像をアルファ値と不透明度に応じて合成する（破壊的に変更）
+ */
+function blendLogo(
+  image: RgbaImage,
+  logo: RgbaImage,
+  x: number,
+  y: number,
+  opacity: number
+): void {
+  for (let row = 0; row < logo.height; row++) {
+    const py = y + row;
+    if (py < 0 || py >= image.height) continue;
+    for (let col = 0; col < logo.width; col++) {
+      const px = x + col;
+      if (px < 0 || px >= image.width) continue;
+
+      const src = (row * logo.width + col) * 4;
+      const dst = (py * image.width + px) * 4;
+      const alpha = (logo.data[src + 3] / 255) * opacity;
+      for (let channel = 0; channel < 3; channel++) {
+        image.data[dst + channel] = Math.round(
+          image.data[dst + channel] +
+            (logo.data[src + channel] - image.data[dst + channel]) * alpha
+        );
+      }
+    }
+  }
+}
+
+/**
+ * 画像へ透かしを焼き込む
+ *
+ * テキストは白文字に黒い影を付けて描画するため、明るい背景でも暗い背景でも判読できます。
+ * 文字やロゴの大きさは画像サイズに合わせて調整します。
+ *
+ * @param image - 元画像（変更されない）
+ * @param settings - 透かしの描画設定
+ * @returns 透かしを焼き込んだ新しい画像
+ *
+ * @example
+ * ```typescript
+ * const marked = applyWatermark(image, { position: 'bottom-right', opacity: 0.6 });
+ * ```
+ */
+export function applyWatermark(
+  image: RgbaImage,
+  settings: WatermarkSettings = {}
+): RgbaImage {
+  const {
+    text = DEFAULT_WATERMARK_TEXT,
+    logo,
+    position = 'bottom-right',
+    opacity = DEFAULT_WATERMARK_OPACITY,
+  } = settings;
+  const result: RgbaImage = { ...image, data: image.data.slice() };
+  const alpha = Math.round(Math.min(1, Math.max(0, opacity)) * 255);
+  const scale = Math.max(
+    1,
+    Math.round(Math.min(image.width, image.height) / 160)
+  );
+  const margin = scale * 4;
+
+  if (logo) {
+    const width = Math.max(1, Math.round(image.width * LOGO_WIDTH_RATIO));
+    const height = Math.max(1, Math.round((logo.height * width) / logo.width));
+    const { x, y } = resolveOrigin(result, width, height, position, margin);
+    blendLogo(result, resizeRgbaImage(logo, width, height), x, y, alpha / 255);
+    return result;
+  }
+
+  const size = measureText(text, scale);
+  const { x, y } = resolveOrigin(
+    result,
+    size.width + scale,
+    size.height + scale,
+    position,
+    margin
+  );
+  drawText(result, text, x + scale, y + scale, {
+    scale,
+    color: [0, 0, 0, alpha],
+  });
+  drawText(result, text, x, y, { scale, color: [255, 255, 255, alpha] });
+  return result;
+}
+
+/**
+ * API の透かし指定から、画像へ透かしを焼き込む変換関数を生成する
+ *
+ * `type: 'logo'` でもロゴが未設定・デコード不能な場合は、透かしが欠落しないよう
+ * テキストの透かしにフォールバックします。
+ *
+ * @param request - API から受け取った透かしの指定
+ * @param logoBase64 - 環境変数に設定されたロゴ画像（PNG / JPEG）の Base64
+ * @returns 画像に透かしを焼き込む関数
+ *
+ * @example
+ * ```typescript
+ * const watermark = createWatermarkTransform(options.watermark, env.WATERMARK_LOGO_BASE64);
+ * convertImageFormat(bytes, { transform: watermark });
+ * ```
+ */
+export function createWatermarkTransform(
+  request: WatermarkRequest,
+  logoBase64?: string
+): (image: RgbaImage) => RgbaImage {
+  let logo: RgbaImage | undefined;
+  if (request.type === 'logo' && logoBase64) {
+    try {
+      logo = decodeImage(base64ToBytes(logoBase64));
+    } catch {
+      logo = undefined;
+    }
+  }
+
+  const settings: WatermarkSettings = {
+    text: request.text,
+    logo,
+    position: request.position,
+    opacity: request.opacity,
+  };
+  return (image) => applyWatermark(image, settings);
+}
@@ -1,2 +1,181 @@
-export { fileToBase64, ImageConversionError } from './image-converter';
-export * from './response-helper';
\ No newline at end of file
+export {
+  canRenderText,
+  drawText,
+  type DrawTextOptions,
+  measureText,
+  type RgbaColor,
+} from './bitmap-font';
+export {
+  BMI_CLASSIFICATIONS,
+  BMI_LOCALES,
+  BMI_STANDARDS,
+  type BMIClass,
+  type BMIClassification,
+  type BMILocale,
+  type BMIStandard,
+  calculateBMI,
+  getBMICategory,
+  getBMICategoryIndex,
+  getDefaultBMIStandard,
+} from './bmi';
+export { mapWithConcurrency } from './concurrency';
+export { negotiateLanguage, negotiateMediaType } from './content-negotiation';
+export {
+  type ConvertedImage,
+  convertImageFormat,
+  type ConvertImageFormatOptions,
+  decodeImage,
+  DEFAULT_JPEG_QUALITY,
+  type EncodableMimeType,
+  encodeImage,
+  type EncodeOptions,
+  type RgbaImage,
+} from './image-codec';
+export {
+  type ColorMatchMethod,
+  type ColorMatchSettings,
+  matchColors,
+} from './image-color-match';
+export {
+  composeImages,
+  type ComposeImagesOptions,
+  type CompositeLayout,
+  type CompositePanel,
+} from './image-composite';
+export {
+  base64ToBytes,
+  bytesToBase64,
+  fileToBase64,
+  ImageConversionError,
+} from './image-converter';
+export {
+  computeDiffMap,
+  DEFAULT_DIFF_THRESHOLD,
+  type DiffBoundingBox,
+  type DiffMap,
+  type DiffMapOptions,
+} from './image-diff';
+export {
+  detectImageMimeType,
+  type ImageHeader,
+  type ImageMimeType,
+  parseImageHeader,
+} from './image-header';
+export {
+  DIGITAL_SOURCE_TYPE_COMPOSITE_WITH_TRAINED_ALGORITHMIC_MEDIA,
+  DIGITAL_SOURCE_TYPE_TRAINED_ALGORITHMIC_MEDIA,
+  embedProvenance,
+  embedProvenanceBase64,
+  type ProvenanceInfo,
+  readProvenance,
+} from './image-provenance';
+export {
+  DEFAULT_MAX_LONG_EDGE,
+  fitWithinLongEdge,
+  parseMaxLongEdge,
+  type ResizeInfo,
+  resizeRgbaImage,
+} from './image-resize';
+export {
+  applyExifOrientation,
+  readExifOrientation,
+  sanitizeAndDownscaleImage,
+  type SanitizeAndDownscaleOptions,
+  type SanitizedDownscaledImage,
+  stripImageMetadata,
+} from './image-sanitizer';
+export {
+  type BackgroundSimilarityOptions,
+  DEFAULT_BACKGROUND_SIMILARITY_THRESHOLD,
+  measureBackgroundSimilarity,
+} from './image-similarity';
+export { ImageValidationError, sniffImageContent } from './image-sniffer';
+export {
+  applyWatermark,
+  createWatermarkTransform,
+  DEFAULT_WATERMARK_TEXT,
+  type WatermarkPosition,
+  type WatermarkRequest,
+  type WatermarkSettings,
+} from './image-watermark';
+export {
+  computeIntensity,
+  getIntensityLevel,
+  INTENSITY_LEVELS,
+  type IntensityLevel,
+  MAX_INTENSITY_CATEGORY_DISTANCE,
+  MAX_INTENSITY_CHANGE_RATIO,
+  resolveIntensity,
+  type TransformationIntensity,
+} from './intensity';
+export {
+  assignPromptVariant,
+  defaultPromptExperimentStore,
+  getExperimentBucket,
+  InMemoryPromptExperimentStore,
+  parsePromptExperiment,
+  type PromptExperiment,
+  type PromptExperimentAssignment,
+  type PromptExperimentEnv,
+  type PromptExperimentStore,
+  type PromptVariant,
+} from './prompt-experiment';
+export {
+  DEFAULT_PROMPT_VERSION,
+  isPromptVersion,
+  PROMPT_VERSIONS,
+  PromptTemplateError,
+  type PromptVersion,
+  replaceTemplate,
+  resolvePromptVersion,
+} from './prompt-template';
+export * from './response-helper';
+export {
+  DEFAULT_SAFETY_POLICY,
+  evaluateSafetyPolicy,
+  parseSafetyPolicy,
+  type SafetyAction,
+  type SafetyEvaluation,
+  type SafetyFinding,
+  type SafetyPolicy,
+  type SafetyPolicyEnv,
+  type SafetyRule,
+} from './safety-policy';
+export {
+  getWeightChange,
+  isConsistentTransformation,
+  isPassthroughTarget,
+  resolveTransformation,
+  TRANSFORMATION_TYPES,
+  TRANSFORMATION_WEIGHT_CHANGES,
+  type TransformationType,
+  type WeightChange,
+} from './transformation';
+export {
+  CM_PER_INCH,
+  formatHeight,
+  formatHeightRange,
+  formatWeight,
+  formatWeightRange,
+  KG_PER_POUND,
+  toCentimeters,
+  toHeightFields,
+  toKilograms,
+  toWeightFields,
+  UNIT_SYSTEMS,
+  type UnitSystem,
+} from './units';
+export {
+  createWeightPlan,
+  DEFAULT_MILESTONE_INTERVAL_WEEKS,
+  DEFAULT_WEEKLY_GAIN_KG,
+  DEFAULT_WEEKLY_LOSS_KG,
+  getMaxWeeklyRateKg,
+  MAX_WEEKLY_GAIN_KG,
+  MAX_WEEKLY_LOSS_KG,
+  MAX_WEEKLY_LOSS_RATIO,
+  type WeightPlan,
+  type WeightPlanMilestone,
+  type WeightPlanOptions,
+  type WeightPlanRateAdjustment,
+} from './weight-plan';
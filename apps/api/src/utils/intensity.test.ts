@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeIntensity,
+  getIntensityLevel,
+  resolveIntensity,
+} from './intensity';
+
+describe('computeIntensity', () => {
+  it('体重の変化率と BMI 分類の隔たりを 7:3 で重み付けする', () => {
+    // 変化率 2.9%、分類は Normal weight のまま
+    expect(computeIntensity(170, 70, 68)).toBe(0.07);
+    // 変化率 30%、Obesity, Class 1 → Normal weight（2 分類）
+    expect(computeIntensity(170, 100, 70)).toBe(0.9);
+  });
+
+  it('変化率 30% 以上・3 分類以上の隔たりで最大の 1 になる', () => {
+    expect(computeIntensity(170, 130, 60)).toBe(1);
+  });
+
+  it('体重が変わらない場合は 0 になる', () => {
+    expect(computeIntensity(170, 70, 70)).toBe(0);
+  });
+
+  it('BMI 分類の隔たりは指定した判定基準で数える', () => {
+    // 変化率 20%、WHO は Normal weight → Severe thinness（3 分類）、JASSO は普通体重 → 低体重（1 分類）
+    expect(computeIntensity(170, 55, 44)).toBe(0.77);
+    expect(computeIntensity(170, 55, 44, 'jasso')).toBe(0.57);
+    expect(resolveIntensity(170, 55, 44, undefined, 'jasso')).toMatchObject({
+      intensity: 0.57,
+      level: 'significant',
+    });
+  });
+});
+
+describe('getIntensityLevel', () => {
+  it('0.25 刻みで段階へ分類する', () => {
+    expect(getIntensityLevel(0)).toBe('subtle');
+    expect(getIntensityLevel(0.25)).toBe('moderate');
+    expect(getIntensityLevel(0.5)).toBe('significant');
+    expect(getIntensityLevel(0.75)).toBe('dramatic');
+    expect(getIntensityLevel(1)).toBe('dramatic');
+  });
+});
+
+describe('resolveIntensity', () => {
+  it('上書きの指定時は計算した強度を保ったまま段階のみ置き換える', () => {
+    expect(resolveIntensity(170, 70, 68)).toEqual({
+      intensity: 0.07,
+      level: 'subtle',
+      overridden: false,
+    });
+    expect(resolveIntensity(170, 70, 68, 'dramatic')).toEqual({
+      intensity: 0.07,
+      level: 'dramatic',
+      overridden: true,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 体型変化の強度ユーティリティ
+ *
+ * 現在体重に対する変化率と BMI 分類の隔たりから体型変化の強度（0〜1）を求め、
+ * プロンプトの説明を選ぶための段階（subtle / moderate / significant / dramatic）へ分類します。
+ */
+
+import { type BMIStandard, calculateBMI, getBMICategoryIndex } from './bmi';
+
+/** 強度の段階（弱い順） */
+export const INTENSITY_LEVELS = [
+  'subtle',
+  'moderate',
+  'significant',
+  'dramatic',
+] as const;
+
+/**
+ * 強度の段階
+ * - "subtle": わずかな変化
+ * - "moderate": はっきり分かる変化
+ * - "significant": 大きな変化
+ * - "dramatic": 劇的な変化
+ */
+export type IntensityLevel = (typeof INTENSITY_LEVELS)[number];
+
+/** 強度が最大（1）となる体重の変化率 */
+export const MAX_INTENSITY_CHANGE_RATIO = 0.3;
+
+/** 強度が最大（1）となる BMI 分類の隔たり */
+export const MAX_INTENSITY_CATEGORY_DISTANCE = 3;
+
+/** 強度に占める体重の変化率の重み（残りは BMI 分類の隔たり） */
+const CHANGE_RATIO_WEIGHT = 0.7;
+
+/**
+ * 目標体重ごとの強度
+ */
+export interface TransformationIntensity {
+  /** 体重の変化率と BMI 分類の隔たりから求めた強度（0〜1、小数点以下2桁） */
+  intensity: number;
+  /** プロンプトに使用した段階 */
+  level: IntensityLevel;
+  /** `level` が指定により上書きされたかどうか */
+  overridden: boolean;
+}
+
+/**
+ * 体型変化の強度を求める
+ *
+ * 体重の変化率（30% で最大）と BMI 分類の隔たり（3 分類で最大）を 7:3 で重み付けします。
+ * 分類の隔たりはプロンプトの分類名と同じ判定基準で数えます。
+ *
+ * @param heightCm - 身長（cm）
+ * @param currentWeightKg - 現在体重（kg）
+ * @param targetWeightKg - 目標体重（kg）
+ * @param bmiStandard - BMI 分類の判定基準（既定は WHO）
+ * @returns 強度（0〜1、小数点以下2桁）
+ *
+ * @example
+ * ```typescript
+ * computeIntensity(170, 70, 68); // 0.07
+ * computeIntensity(170, 100, 70); // 0.9
+ * ```
+ */
+export function computeIntensity(
+  heightCm: number,
+  currentWeightKg: number,
+  targetWeightKg: number,
+  bmiStandard: BMIStandard = 'who'
+): number {
+  const changeRatio =
+    Math.abs(targetWeightKg - currentWeightKg) / currentWeightKg;
+  const categoryDistance = Math.abs(
+    getBMICategoryIndex(calculateBMI(heightCm, targetWeightKg), bmiStandard) -
+      getBMICategoryIndex(calculateBMI(heightCm, currentWeightKg), bmiStandard)
+  );
+  const intensity =
+    CHANGE_RATIO_WEIGHT *
+      Math.min(1, changeRatio / MAX_INTENSITY_CHANGE_RATIO) +
+    (1 - CHANGE_RATIO_WEIGHT) *
+      Math.min(1, categoryDistance / MAX_INTENSITY_CATEGORY_DISTANCE);
+  return Math.round(intensity * 100) / 100;
+}
+
+/**
+ * 強度を段階へ分類する（0.25 刻み）
+ */
+export function getIntensityLevel(intensity: number): IntensityLevel {
+  if (intensity < 0.25) return 'subtle';
+  if (intensity < 0.5) return 'moderate';
+  if (intensity < 0.75) return 'significant';
+  return 'dramatic';
+}
+
+/**
+ * 目標体重の強度と、プロンプトに使用する段階を求める
+ *
+ * @param heightCm - 身長（cm）
+ * @param currentWeightKg - 現在体重（kg）
+ * @param targetWeightKg - 目標体重（kg）
+ * @param override - 指定時は計算した段階の代わりに使用する段階
+ * @param bmiStandard - BMI 分類の判定基準（既定は WHO）
+ * @returns 強度と段階
+ */
+export function resolveIntensity(
+  heightCm: number,
+  currentWeightKg: number,
+  targetWeightKg: number,
+  override?: IntensityLevel,
+  bmiStandard: BMIStandard = 'who'
+): TransformationIntensity {
+  const intensity = computeIntensity(
+    heightCm,
+    currentWeightKg,
+    targetWeightKg,
+    bmiStandard
+  );
+  return {
+    intensity,
+    level: override ?? getIntensityLevel(intensity),
+    overridden: override !== undefined,
+  };
+}
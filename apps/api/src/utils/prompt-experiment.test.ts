@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  assignPromptVariant,
+  getExperimentBucket,
+  InMemoryPromptExperimentStore,
+  parsePromptExperiment,
+  type PromptExperiment,
+} from './prompt-experiment';
+
+const experiment: PromptExperiment = {
+  id: 'wording-1',
+  variants: [
+    { name: 'control', promptVersion: 'body-shape@v2', percent: 50 },
+    { name: 'legacy', promptVersion: 'body-shape@v1', percent: 50 },
+  ],
+};
+
+describe('parsePromptExperiment', () => {
+  it('JSON の実験の設定を読み込む', () => {
+    expect(
+      parsePromptExperiment({ PROMPT_EXPERIMENT: JSON.stringify(experiment) })
+    ).toEqual(experiment);
+  });
+
+  it('未設定・不正な設定の場合は実験なしとする', () => {
+    const withVariants = (variants: unknown) =>
+      parsePromptExperiment({
+        PROMPT_EXPERIMENT: JSON.stringify({ id: 'x', variants }),
+      });
+
+    expect(parsePromptExperiment({})).toBeUndefined();
+    expect(parsePromptExperiment({ PROMPT_EXPERIMENT: '{' })).toBeUndefined();
+    expect(
+      withVariants([
+        { name: 'a', promptVersion: 'body-shape@v99', percent: 50 },
+      ])
+    ).toBeUndefined();
+    expect(
+      withVariants([
+        { name: 'a', promptVersion: 'body-shape@v1', percent: 60 },
+        { name: 'b', promptVersion: 'body-shape@v2', percent: 60 },
+      ])
+    ).toBeUndefined();
+    expect(
+      withVariants([
+        { name: 'a', promptVersion: 'body-shape@v1', percent: 10 },
+        { name: 'a', promptVersion: 'body-shape@v2', percent: 10 },
+      ])
+    ).toBeUndefined();
+  });
+});
+
+describe('getExperimentBucket', () => {
+  it('同じ文字列には同じ 0〜99 のバケットを返す', () => {
+    const bucket = getExperimentBucket('wording-1:user-1');
+
+    expect(getExperimentBucket('wording-1:user-1')).toBe(bucket);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+});
+
+describe('assignPromptVariant', () => {
+  it('同じ識別子には常に同じバリアントを割り当てる', () => {
+    const store = new InMemoryPromptExperimentStore();
+    const first = assignPromptVariant(
+      experiment,
+      { clientId: 'user-1', requestId: 'req-1' },
+      store
+    );
+    const second = assignPromptVariant(
+      experiment,
+      { clientId: 'user-1', requestId: 'req-2' },
+      store
+    );
+
+    expect(second).toEqual(first);
+    expect(first?.sticky).toBe(true);
+    expect(store.getCounts('wording-1')).toEqual({ [first?.variant ?? '']: 2 });
+  });
+
+  it('割合に応じてバリアントを振り分け、割り当て数を記録する', () => {
+    const store = new InMemoryPromptExperimentStore();
+    for (let index = 0; index < 1000; index++) {
+      assignPromptVariant(
+        experiment,
+        { clientId: `user-${index}`, requestId: `req-${index}` },
+        store
+      );
+    }
+    const counts = store.getCounts('wording-1');
+
+    expect(counts.control + counts.legacy).toBe(1000);
+    expect(counts.control).toBeGreaterThan(400);
+    expect(counts.legacy).toBeGreaterThan(400);
+  });
+
+  it('割合の合計が 100 未満の場合、残りのトラフィックは対象外とする', () => {
+    const store = new InMemoryPromptExperimentStore();
+    const partial: PromptExperiment = {
+      id: 'partial',
+      variants: [
+        { name: 'legacy', promptVersion: 'body-shape@v1', percent: 10 },
+      ],
+    };
+    const assignments = Array.from({ length: 200 }, (_, index) =>
+      assignPromptVariant(
+        partial,
+        { clientId: `user-${index}`, requestId: `req-${index}` },
+        store
+      )
+    );
+    const assigned = assignments.filter((assignment) => assignment);
+
+    expect(assigned.length).toBeGreaterThan(0);
+    expect(assigned.length).toBeLessThan(50);
+    expect(store.getCounts('partial')).toEqual({ legacy: assigned.length });
+  });
+
+  it('識別子が無い場合はリクエスト ID で割り当て、sticky としない', () => {
+    const assignment = assignPromptVariant(
+      experiment,
+      { requestId: 'req-1' },
+      new InMemoryPromptExperimentStore()
+    );
+
+    expect(assignment?.sticky).toBe(false);
+    expect(assignment?.experimentId).toBe('wording-1');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * プロンプトの A/B 実験ユーティリティ
+ *
+ * 実験の設定（バリアントごとのプロンプトテンプレートのバージョンとトラフィックの割合）に従い、
+ * クライアント・ユーザーの識別子のハッシュでバリアントを割り当てます。同じ識別子には常に
+ * 同じバリアントを割り当て（sticky）、割り当て数はストアに記録します。
+ */
+
+import { isPromptVersion, type PromptVersion } from './prompt-template';
+
+/**
+ * 実験のバリアント
+ */
+export interface PromptVariant {
+  /** バリアント名（"control" など） */
+  name: string;
+  /** 使用するプロンプトテンプレートのバージョン */
+  promptVersion: PromptVersion;
+  /** 割り当てるトラフィックの割合（%、0〜100 の整数） */
+  percent: number;
+}
+
+/**
+ * プロンプトの実験
+ * @description バリアントの割合の合計は 100 以下。残りのトラフィックは実験の対象外とする
+ */
+export interface PromptExperiment {
+  /** 実験 ID */
+  id: string;
+  /** バリアント（割り当ての順序） */
+  variants: PromptVariant[];
+}
+
+/**
+ * バリアントの割り当て結果
+ */
+export interface PromptExperimentAssignment {
+  /** 実験 ID */
+  experimentId: string;
+  /** 割り当てたバリアント名 */
+  variant: string;
+  /** 使用するプロンプトテンプレートのバージョン */
+  promptVersion: PromptVersion;
+  /** クライアント・ユーザーの識別子で割り当てたかどうか（false はリクエストごとの割り当て） */
+  sticky: boolean;
+}
+
+/**
+ * バリアントの割り当て数を記録するストア
+ */
+export interface PromptExperimentStore {
+  /** 割り当てを 1 件記録する */
+  record(experimentId: string, variant: string): void;
+  /** 実験のバリアントごとの割り当て数を取得する */
+  getCounts(experimentId: string): Record<string, number>;
+}
+
+/**
+ * 割り当て数をメモリ上に保持するストア
+ *
+ * 永続化するストアの代わりにローカル環境・テストで使用します（割り当て数は `GET /health` で確認できます）。
+ * Workers ではインスタンスごとの値となり、再起動で失われます。
+ */
+export class InMemoryPromptExperimentStore implements PromptExperimentStore {
+  private readonly counts = new Map<string, Map<string, number>>();
+
+  record(experimentId: string, variant: string): void {
+    const counts = this.counts.get(experimentId) ?? new Map<string, number>();
+    counts.set(variant, (counts.get(variant) ?? 0) + 1);
+    this.counts.set(experimentId, counts);
+  }
+
+  getCounts(experimentId: string): Record<string, number> {
+    return Object.fromEntries(this.counts.get(experimentId) ?? []);
+  }
+}
+
+/** 既定のストア（プロセス内で共有） */
+export const defaultPromptExperimentStore = new InMemoryPromptExperimentStore();
+
+/**
+ * 実験の設定を調整する環境変数
+ */
+export interface PromptExperimentEnv {
+  /**
+   * 実行中の実験（JSON）
+   * @example '{"id":"wording-1","variants":[{"name":"control","promptVersion":"body-shape@v2","percent":50},{"name":"legacy","promptVersion":"body-shape@v1","percent":50}]}'
+   */
+  PROMPT_EXPERIMENT?: string;
+}
+
+/**
+ * バリアントの設定が正しいかを判定する
+ */
+function isPromptVariant(value: unknown): value is PromptVariant {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, promptVersion, percent } = value as Record<string, unknown>;
+  return (
+    typeof name === 'string' &&
+    name.length > 0 &&
+    typeof promptVersion === 'string' &&
+    isPromptVersion(promptVersion) &&
+    Number.isInteger(percent) &&
+    (percent as number) >= 0 &&
+    (percent as number) <= 100
+  );
+}
+
+/**
+ * 環境変数から実行中の実験を読み込む
+ *
+ * 未設定、JSON として不正、未登録のバージョン・重複したバリアント名を含む、
+ * 割合の合計が 100 を超える場合は実験なし（undefined）とします。
+ *
+ * @param env - 環境変数
+ * @returns 実験。実験なしの場合は undefined
+ */
+export function parsePromptExperiment(
+  env: PromptExperimentEnv
+): PromptExperiment | undefined {
+  if (!env.PROMPT_EXPERIMENT?.trim()) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.PROMPT_EXPERIMENT);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return undefined;
+  const { id, variants } = parsed as Record<string, unknown>;
+  if (
+    typeof id !== 'string' ||
+    id.length === 0 ||
+    !Array.isArray(variants) ||
+    variants.length === 0 ||
+    !variants.every(isPromptVariant)
+  ) {
+    return undefined;
+  }
+
+  const names = new Set(variants.map((variant) => variant.name));
+  const total = variants.reduce((sum, variant) => sum + variant.percent, 0);
+  if (names.size !== variants.length || total > 100) return undefined;
+  return {
+    id,
+    variants: variants.map(({ name, promptVersion, percent }) => ({
+      name,
+      promptVersion,
+      percent,
+    })),
+  };
+}
+
+/**
+ * 文字列を 0〜99 のバケットへ割り当てる（FNV-1a 32bit ハッシュ）
+ */
+export function getExperimentBucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index++) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * 実験のバリアントを割り当てる
+ *
+ * 実験 ID と識別子のハッシュから求めたバケットを、バリアントの割合の累積で振り分けます。
+ * 識別子が無い場合はリクエスト ID で割り当てます（リクエストごとに変わるため sticky ではない）。
+ * 割り当てたバリアントはストアに記録します。
+ *
+ * @param experiment - 実験
+ * @param identity - `clientId`: クライアント・ユーザーの識別子、`requestId`: リクエスト ID
+ * @param store - 割り当て数を記録するストア
+ * @returns 割り当て結果。実験の対象外のトラフィックの場合は undefined
+ *
+ * @example
+ * ```typescript
+ * const assignment = assignPromptVariant(experiment, {
+ *   clientId: c.req.header('X-Client-Id'),
+ *   requestId,
+ * });
+ * ```
+ */
+export function assignPromptVariant(
+  experiment: PromptExperiment,
+  identity: { clientId?: string; requestId: string },
+  store: PromptExperimentStore = defaultPromptExperimentStore
+): PromptExperimentAssignment | undefined {
+  const clientId = identity.clientId?.trim();
+  const bucket = getExperimentBucket(
+    `${experiment.id}:${clientId || identity.requestId}`
+  );
+
+  let threshold = 0;
+  for (const variant of experiment.variants) {
+    threshold += variant.percent;
+    if (bucket < threshold) {
+      store.record(experiment.id, variant.name);
+      return {
+        experimentId: experiment.id,
+        variant: variant.name,
+        promptVersion: variant.promptVersion,
+        sticky: Boolean(clientId),
+      };
+    }
+  }
+  return undefined;
+}
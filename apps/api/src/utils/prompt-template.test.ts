@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_PROMPT_VERSION,
+  isPromptVersion,
+  PromptTemplateError,
+  replaceTemplate,
+  resolvePromptVersion,
+} from './prompt-template';
+
+describe('resolvePromptVersion', () => {
+  it('リクエストの指定、環境変数、既定の順に使用する', () => {
+    expect(resolvePromptVersion('body-shape@v1', 'body-shape@v2')).toBe(
+      'body-shape@v1'
+    );
+    expect(resolvePromptVersion(undefined, ' body-shape@v1 ')).toBe(
+      'body-shape@v1'
+    );
+    expect(resolvePromptVersion()).toBe(DEFAULT_PROMPT_VERSION);
+  });
+
+  it('未登録のバージョンの環境変数は無視する', () => {
+    expect(resolvePromptVersion(undefined, 'body-shape@v99')).toBe(
+      DEFAULT_PROMPT_VERSION
+    );
+    expect(isPromptVersion('body-shape@v99')).toBe(false);
+  });
+});
+
+describe('replaceTemplate', () => {
+  it('プレースホルダーを値で置換する', () => {
+    expect(
+      replaceTemplate('Height: {height} cm, BMI: {bmi}', {
+        height: 170,
+        bmi: 24.2,
+      })
+    ).toBe('Height: 170 cm, BMI: 24.2');
+  });
+
+  it('既定では未解決のプレースホルダーをそのまま残す', () => {
+    expect(replaceTemplate('{height} {weight}', { height: 170 })).toBe(
+      '170 {weight}'
+    );
+  });
+
+  it('strict 指定時は未解決のプレースホルダーを列挙して例外をスローする', () => {
+    const replace = () =>
+      replaceTemplate(
+        '{height} {weight} {weight} {bmi}',
+        { height: 170 },
+        { strict: true }
+      );
+
+    expect(replace).toThrow(PromptTemplateError);
+    expect(replace).toThrow(
+      'Unresolved prompt template placeholders: weight, bmi'
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * プロンプトテンプレートユーティリティ
+ *
+ * 登録済みのプロンプトテンプレートのバージョン（`<名前>@v<番号>`）と、リクエスト・環境変数からの
+ * バージョンの決定、テンプレートの `{key}` プレースホルダーの置換を提供します。
+ * テンプレートの本文は体型変化クライアントがバージョンごとに保持します。
+ */
+
+/** 登録済みのプロンプトテンプレートのバージョン */
+export const PROMPT_VERSIONS = ['body-shape@v1', 'body-shape@v2'] as const;
+
+/**
+ * プロンプトテンプレートのバージョン
+ * - "body-shape@v1": 初期の構造化 XML テンプレート（体格情報・強度の行なし、WHO の分類表と分類名を固定）
+ * - "body-shape@v2": 体格情報・変化の種類・強度・判定基準ごとの分類表を含むテンプレート
+ */
+export type PromptVersion = (typeof PROMPT_VERSIONS)[number];
+
+/** 既定のプロンプトテンプレートのバージョン */
+export const DEFAULT_PROMPT_VERSION: PromptVersion = 'body-shape@v2';
+
+/**
+ * プレースホルダーが未解決のまま残ったテンプレートのエラークラス
+ */
+export class PromptTemplateError extends Error {
+  /** 未解決のプレースホルダー名 */
+  readonly placeholders: string[];
+
+  constructor(placeholders: string[]) {
+    super(
+      `Unresolved prompt template placeholders: ${placeholders.join(', ')}`
+    );
+    this.name = 'PromptTemplateError';
+    this.placeholders = placeholders;
+    Object.setPrototypeOf(this, PromptTemplateError.prototype);
+  }
+}
+
+/**
+ * 登録済みのプロンプトテンプレートのバージョンかを判定する
+ */
+export function isPromptVersion(value: string): value is PromptVersion {
+  return (PROMPT_VERSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * 使用するプロンプトテンプレートのバージョンを決定する
+ *
+ * リクエストの指定、環境変数の既定値、`DEFAULT_PROMPT_VERSION` の順に使用します。
+ * 環境変数が未登録のバージョンの場合は無視します。
+ *
+ * @param requested - リクエストで指定されたバージョン
+ * @param envDefault - 環境変数 `PROMPT_VERSION` の値
+ * @returns 使用するバージョン
+ */
+export function resolvePromptVersion(
+  requested?: PromptVersion,
+  envDefault?: string
+): PromptVersion {
+  if (requested) return requested;
+  const normalized = envDefault?.trim();
+  return normalized && isPromptVersion(normalized)
+    ? normalized
+    : DEFAULT_PROMPT_VERSION;
+}
+
+/**
+ * テンプレート文字列の `{key}` を対応する値で置換する
+ *
+ * 対応する値が無いプレースホルダーは、既定ではそのまま残し、`strict` 指定時は
+ * 未解決のプレースホルダー名を列挙した `PromptTemplateError` をスローします。
+ *
+ * @param template - テンプレート文字列
+ * @param replacements - プレースホルダー名と値
+ * @param options - `strict`: 未解決のプレースホルダーを例外とするかどうか
+ * @returns 置換後の文字列
+ *
+ * @example
+ * ```typescript
+ * replaceTemplate('Height: {height} cm', { height: 170 }); // 'Height: 170 cm'
+ * replaceTemplate('{height} {weight}', { height: 170 }, { strict: true }); // PromptTemplateError
+ * ```
+ */
+export function replaceTemplate(
+  template: string,
+  replacements: Record<string, string | number>,
+  options: { strict?: boolean } = {}
+): string {
+  const unresolved = new Set<string>();
+  const result = template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = replacements[key];
+    if (value !== undefined) return String(value);
+    unresolved.add(key);
+    return match;
+  });
+  if (options.strict && unresolved.size > 0) {
+    throw new PromptTemplateError([...unresolved]);
+  }
+  return result;
+}
@@ -1,10 +1,12 @@
-import type { Context } from 'hono';
+import { type Context, Hono } from 'hono';
 import type { RedirectStatusCode, StatusCode } from 'hono/utils/http-status';
 import { describe, expect, it } from 'vitest';
 
 import type { ApiResponse } from '../types/response';
 import {
+  binaryResponse,
   errorResponse,
+  multipartResponse,
   noContentResponse,
   paginatedResponse,
   redirectResponse,
@@ -257,6 +259,80 @@ describe('response-helper', () => {
     });
   });
 
+  describe('binaryResponse', () => {
+    it('バイト列をそのまま返し、メタデータの主要な項目をヘッダーに設定する', async () => {
+      const app = new Hono();
+      app.get('/', (c) =>
+        binaryResponse(c, new Uint8Array([1, 2, 3]), 'image/png', {
+          metadata: {
+            processingTimeMs: 120,
+            model: 'test-model',
+            requestId: 'req-1',
+            inputImage: { width: 1 },
+          },
+        })
+      );
+
+      const res = await app.request('/');
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/png');
+      expect(res.headers.get('X-Processing-Time-Ms')).toBe('120');
+      expect(res.headers.get('X-Model')).toBe('test-model');
+      expect(res.headers.get('X-Request-Id')).toBe('req-1');
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(
+        new Uint8Array([1, 2, 3])
+      );
+    });
+  });
+
+  describe('multipartResponse', () => {
+    it('先頭の JSON パートに続けて各パートを返す', async () => {
+      const app = new Hono();
+      app.get('/', (c) =>
+        multipartResponse(
+          c,
+          { images: [{ part: 'image-0' }] },
+          [
+            {
+              name: 'image-0',
+              mimeType: 'image/png',
+              body: new Uint8Array([0x89, 0x50]),
+              filename: 'image-0.png',
+            },
+          ],
+          { metadata: { model: 'test-model' } }
+        )
+      );
+
+      const res = await app.request('/');
+      const contentType = res.headers.get('Content-Type') ?? '';
+      const boundary = contentType.split('boundary=')[1];
+      const body = new Uint8Array(await res.arrayBuffer());
+      const text = new TextDecoder('latin1').decode(body);
+      const parts = text.split(`--${boundary}`);
+
+      expect(contentType).toMatch(/^multipart\/mixed; boundary=/);
+      expect(res.headers.get('X-Model')).toBe('test-model');
+      // 前置き・JSON・画像・終端
+      expect(parts).toHaveLength(4);
+      expect(parts[3]).toBe('--\r\n');
+      const [jsonHeaders, json] = parts[1].split('\r\n\r\n');
+      expect(jsonHeaders).toContain('Content-Type: application/json');
+      expect(JSON.parse(json)).toMatchObject({
+        success: true,
+        data: { images: [{ part: 'image-0' }] },
+        metadata: { model: 'test-model', timestamp: expect.any(String) },
+      });
+      const [imageHeaders, image] = parts[2].split('\r\n\r\n');
+      expect(imageHeaders).toContain('Content-Type: image/png');
+      expect(imageHeaders).toContain(
+        'Content-Disposition: attachment; name="image-0"; filename="image-0.png"'
+      );
+      expect(image).toBe('\x89P\r\n');
+    });
+  });
+
   describe('redirectResponse', () => {
     it('302 リダイレクトを返す', () => {
       const ctx = createMockContext();
@@ -60,6 +60,53 @@ interface PaginationOptions {
   totalItems: number;
 }
 
+/**
+ * バイナリレスポンスオプション
+ */
+interface BinaryOptions {
+  /** HTTPステータスコード（デフォルト: 200） */
+  status?: StatusCode;
+  /** レスポンスメタデータ（主要な項目をヘッダーへ設定） */
+  metadata?: ResponseMetadata;
+}
+
+/**
+ * multipart/mixed レスポンスの 1 パート
+ */
+export interface MultipartPart {
+  /** パート名（Content-Disposition の name） */
+  name: string;
+  /** パートの MIME タイプ */
+  mimeType: string;
+  /** パートの内容 */
+  body: Uint8Array;
+  /** ファイル名（Content-Disposition の filename） */
+  filename?: string;
+}
+
+/**
+ * メタデータの主要な項目をヘッダーへ変換
+ *
+ * `processingTimeMs` → `X-Processing-Time-Ms`、`model` → `X-Model`、
+ * `requestId` → `X-Request-Id` を設定します（ネストした値は対象外）。
+ *
+ * @param metadata - レスポンスメタデータ
+ * @returns ヘッダー
+ */
+function metadataHeaders(metadata?: ResponseMetadata): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (typeof metadata?.processingTimeMs === 'number') {
+    headers['X-Processing-Time-Ms'] = String(metadata.processingTimeMs);
+  }
+  if (typeof metadata?.model === 'string') {
+    headers['X-Model'] = metadata.model;
+  }
+  if (typeof metadata?.requestId === 'string') {
+    headers['X-Request-Id'] = metadata.requestId;
+  }
+  return headers;
+}
+
 /**
  * 現在のタイムスタンプを生成
  *
@@ -82,6 +129,18 @@ function enrichMetadata(metadata?: ResponseMetadata): ResponseMetadata {
   };
 }
 
+/**
+ * リクエスト ID を取得
+ *
+ * requestId ミドルウェアを経由しない場合（サブアプリ単体での呼び出し等）は新たに採番します。
+ *
+ * @param c - Honoコンテキスト
+ * @returns リクエスト ID
+ */
+export function getRequestId(c: Context): string {
+  return c.get('requestId') ?? crypto.randomUUID();
+}
+
 /**
  * 成功レスポンスを生成
  *
@@ -125,6 +184,113 @@ export function successResponse<T>(
   return c.json(response);
 }
 
+/**
+ * バイナリ（画像など）の成功レスポンスを生成
+ *
+ * JSON で包まずにバイト列をそのまま返し、メタデータの主要な項目は
+ * `X-Processing-Time-Ms` / `X-Model` / `X-Request-Id` ヘッダーで返します。
+ *
+ * @param c - Honoコンテキスト
+ * @param bytes - レスポンスボディ
+ * @param mimeType - Content-Type
+ * @param options - レスポンスオプション
+ * @returns Honoレスポンス
+ *
+ * @example
+ * ```typescript
+ * return binaryResponse(c, pngBytes, 'image/png', {
+ *   metadata: { processingTimeMs: 150, model: 'gemini-2.5-flash-image-preview' }
+ * });
+ * ```
+ */
+export function binaryResponse(
+  c: Context,
+  bytes: Uint8Array,
+  mimeType: string,
+  options: BinaryOptions = {}
+): Response {
+  const { status = HTTP_STATUS.OK, metadata } = options;
+
+  c.status(status);
+  // c.body は ArrayBuffer を背後に持つ配列のみ受け付けるため複製する
+  return c.body(new Uint8Array(bytes), {
+    headers: { 'Content-Type': mimeType, ...metadataHeaders(metadata) },
+  });
+}
+
+/**
+ * multipart/mixed の成功レスポンスを生成
+ *
+ * 先頭のパートに `successResponse` と同じ形式の JSON（`{ success, data, metadata }`）を置き、
+ * 続けて各パート（画像など）をそのまま返します。
+ *
+ * @param c - Honoコンテキスト
+ * @param data - 先頭の JSON パートに含めるデータ
+ * @param parts - JSON に続くパート
+ * @param options - レスポンスオプション
+ * @returns Honoレスポンス
+ *
+ * @example
+ * ```typescript
+ * return multipartResponse(c, { images: [{ part: 'image-0' }] }, [
+ *   { name: 'image-0', mimeType: 'image/png', body: pngBytes }
+ * ], { metadata: { processingTimeMs: 150 } });
+ * ```
+ */
+export function multipartResponse<T>(
+  c: Context,
+  data: T,
+  parts: MultipartPart[],
+  options: BinaryOptions = {}
+): Response {
+  const { status = HTTP_STATUS.OK, metadata } = options;
+  const boundary = `boundary-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+
+  const json: SuccessResponse<T> = {
+    success: true,
+    data,
+    ...(metadata && { metadata: enrichMetadata(metadata) }),
+  };
+  const chunks: Uint8Array[] = [
+    encoder.encode(
+      `--${boundary}\r\nContent-Type: application/json\r\n\r\n${JSON.stringify(
+        json
+      )}\r\n`
+    ),
+  ];
+  for (const part of parts) {
+    const disposition = part.filename
+      ? `attachment; name="${part.name}"; filename="${part.filename}"`
+      : `attachment; name="${part.name}"`;
+    chunks.push(
+      encoder.encode(
+        `--${boundary}\r\nContent-Type: ${part.mimeType}\r\nContent-Disposition: ${disposition}\r\n\r\n`
+      ),
+      part.body,
+      encoder.encode('\r\n')
+    );
+  }
+  chunks.push(encoder.encode(`--${boundary}--\r\n`));
+
+  const body = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  c.status(status);
+  return c.body(body, {
+    headers: {
+      'Content-Type': `multipart/mixed; boundary=${boundary}`,
+      ...metadataHeaders(metadata),
+    },
+  });
+}
+
 /**
  * エラーレスポンスを生成（エラー定数使用）
  *
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_SAFETY_POLICY,
+  evaluateSafetyPolicy,
+  parseSafetyPolicy,
+} from './safety-policy';
+
+describe('parseSafetyPolicy', () => {
+  it('未設定の場合は既定のポリシーを返す', () => {
+    expect(parseSafetyPolicy({})).toEqual(DEFAULT_SAFETY_POLICY);
+  });
+
+  it('環境変数の値で上書きし、不正な値は既定値のままにする', () => {
+    expect(
+      parseSafetyPolicy({
+        SAFETY_MIN_TARGET_BMI: '18.5',
+        SAFETY_MIN_TARGET_BMI_ACTION: 'WARN',
+        SAFETY_MAX_CHANGE_PERCENT: '-5',
+        SAFETY_MAX_CHANGE_PERCENT_ACTION: 'block',
+        SAFETY_MIN_AGE: 'abc',
+        SAFETY_MIN_AGE_ACTION: 'ignore',
+      })
+    ).toEqual({
+      minTargetBmi: 18.5,
+      minTargetBmiAction: 'warn',
+      maxChangePercent: 30,
+      maxChangePercentAction: 'block',
+      minAge: 18,
+      minAgeAction: 'block',
+    });
+  });
+});
+
+describe('evaluateSafetyPolicy', () => {
+  const subject = { heightCm: 170, currentWeightKg: 70 };
+
+  it('減量の目標 BMI が下限を下回る場合は拒否する', () => {
+    const result = evaluateSafetyPolicy(DEFAULT_SAFETY_POLICY, subject, [
+      { weightKg: 65, label: 'ok' },
+      { weightKg: 50, label: 'thin' },
+    ]);
+
+    expect(result.blocks).toEqual([
+      {
+        rule: 'min-target-bmi',
+        message: 'Target thin BMI 17.3 is below the minimum of 17.5',
+        label: 'thin',
+      },
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('低体重の被写体が増量する目標は BMI の下限の対象外とする', () => {
+    const result = evaluateSafetyPolicy(
+      DEFAULT_SAFETY_POLICY,
+      { heightCm: 170, currentWeightKg: 45 },
+      [{ weightKg: 48 }]
+    );
+
+    expect(result).toEqual({ blocks: [], warnings: [] });
+  });
+
+  it('変化率が上限を超える場合は警告する', () => {
+    const result = evaluateSafetyPolicy(
+      DEFAULT_SAFETY_POLICY,
+      { heightCm: 170, currentWeightKg: 100 },
+      [{ weightKg: 65 }]
+    );
+
+    expect(result.blocks).toEqual([]);
+    expect(result.warnings).toEqual([
+      {
+        rule: 'max-change-percent',
+        message:
+          'Target changes body weight by 35%, more than the maximum of 30%',
+      },
+    ]);
+  });
+
+  it('年齢が下限未満の被写体は拒否し、off の規則は検査しない', () => {
+    const minor = { ...subject, ageYears: 16 };
+
+    expect(
+      evaluateSafetyPolicy(DEFAULT_SAFETY_POLICY, minor, [{ weightKg: 65 }])
+        .blocks
+    ).toEqual([
+      {
+        rule: 'min-age',
+        message: 'Subjects under 18 years old are not supported',
+      },
+    ]);
+    expect(
+      evaluateSafetyPolicy(
+        { ...DEFAULT_SAFETY_POLICY, minAgeAction: 'off' },
+        minor,
+        [{ weightKg: 65 }]
+      )
+    ).toEqual({ blocks: [], warnings: [] });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * 健康上の安全性ポリシーユーティリティ
+ *
+ * 極端・不健康な目標（BMI の下限を下回る減量、体重に対して大きすぎる変化、未成年の被写体）を
+ * 検出し、ポリシーに従って拒否（block）または警告（warn）に分類します。
+ * ポリシーはデプロイごとに調整できるよう環境変数から読み込みます。
+ */
+
+import { calculateBMI } from './bmi';
+
+/**
+ * 規則に該当した場合の扱い
+ * - "block": 生成せずにエラーを返す
+ * - "warn": 生成し、`metadata.warnings` に記録する
+ * - "off": 検査しない
+ */
+export type SafetyAction = 'block' | 'warn' | 'off';
+
+/** 安全性の規則 */
+export type SafetyRule = 'min-target-bmi' | 'max-change-percent' | 'min-age';
+
+/**
+ * 安全性ポリシー
+ */
+export interface SafetyPolicy {
+  /** 減量の目標として許容する BMI の下限 */
+  minTargetBmi: number;
+  /** 目標 BMI が下限を下回る場合の扱い */
+  minTargetBmiAction: SafetyAction;
+  /** 現在体重に対して許容する変化率の上限（%） */
+  maxChangePercent: number;
+  /** 変化率が上限を超える場合の扱い */
+  maxChangePercentAction: SafetyAction;
+  /** 被写体の年齢の下限（歳） */
+  minAge: number;
+  /** 被写体の年齢が下限未満の場合の扱い */
+  minAgeAction: SafetyAction;
+}
+
+/** 既定の安全性ポリシー */
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  minTargetBmi: 17.5,
+  minTargetBmiAction: 'block',
+  maxChangePercent: 30,
+  maxChangePercentAction: 'warn',
+  minAge: 18,
+  minAgeAction: 'block',
+};
+
+/**
+ * 安全性ポリシーを調整する環境変数
+ */
+export interface SafetyPolicyEnv {
+  /** 減量の目標として許容する BMI の下限（既定 17.5） */
+  SAFETY_MIN_TARGET_BMI?: string;
+  /** 目標 BMI が下限を下回る場合の扱い（block / warn / off、既定 block） */
+  SAFETY_MIN_TARGET_BMI_ACTION?: string;
+  /** 現在体重に対して許容する変化率の上限（%、既定 30） */
+  SAFETY_MAX_CHANGE_PERCENT?: string;
+  /** 変化率が上限を超える場合の扱い（既定 warn） */
+  SAFETY_MAX_CHANGE_PERCENT_ACTION?: string;
+  /** 被写体の年齢の下限（歳、既定 18） */
+  SAFETY_MIN_AGE?: string;
+  /** 被写体の年齢が下限未満の場合の扱い（既定 block） */
+  SAFETY_MIN_AGE_ACTION?: string;
+}
+
+/**
+ * 安全性の規則に該当した内容
+ */
+export interface SafetyFinding {
+  /** 該当した規則 */
+  rule: SafetyRule;
+  /** 内容の説明 */
+  message: string;
+  /** 対象の目標体重のラベル（被写体に対する規則では省略） */
+  label?: string;
+}
+
+/**
+ * 安全性の検査結果
+ */
+export interface SafetyEvaluation {
+  /** 拒否に該当した内容 */
+  blocks: SafetyFinding[];
+  /** 警告に該当した内容 */
+  warnings: SafetyFinding[];
+}
+
+/**
+ * 環境変数の文字列から 0 以上の数値を取得する（未設定・不正な値の場合は既定値）
+ */
+function parseNonNegative(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * 環境変数の文字列から規則の扱いを取得する（未設定・不正な値の場合は既定値）
+ */
+function parseAction(
+  value: string | undefined,
+  fallback: SafetyAction
+): SafetyAction {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'block' || normalized === 'warn' || normalized === 'off'
+    ? normalized
+    : fallback;
+}
+
+/**
+ * 環境変数から安全性ポリシーを読み込む
+ *
+ * @param env - 環境変数（未設定・不正な値の項目は既定値）
+ * @returns 安全性ポリシー
+ *
+ * @example
+ * ```typescript
+ * const policy = parseSafetyPolicy(c.env ?? {});
+ * ```
+ */
+export function parseSafetyPolicy(env: SafetyPolicyEnv): SafetyPolicy {
+  const defaults = DEFAULT_SAFETY_POLICY;
+  return {
+    minTargetBmi: parseNonNegative(
+      env.SAFETY_MIN_TARGET_BMI,
+      defaults.minTargetBmi
+    ),
+    minTargetBmiAction: parseAction(
+      env.SAFETY_MIN_TARGET_BMI_ACTION,
+      defaults.minTargetBmiAction
+    ),
+    maxChangePercent: parseNonNegative(
+      env.SAFETY_MAX_CHANGE_PERCENT,
+      defaults.maxChangePercent
+    ),
+    maxChangePercentAction: parseAction(
+      env.SAFETY_MAX_CHANGE_PERCENT_ACTION,
+      defaults.maxChangePercentAction
+    ),
+    minAge: parseNonNegative(env.SAFETY_MIN_AGE, defaults.minAge),
+    minAgeAction: parseAction(env.SAFETY_MIN_AGE_ACTION, defaults.minAgeAction),
+  };
+}
+
+/**
+ * 被写体と目標体重を安全性ポリシーで検査する
+ *
+ * - BMI の下限: 現在より軽い目標のうち、目標 BMI が下限を下回るもの
+ *   （低体重の被写体が増量・維持する目標は対象外）
+ * - 変化率の上限: 現在体重に対する増減の割合が上限を超えるもの
+ * - 年齢の下限: 被写体の `ageYears` が下限未満の場合（未指定時は検査しない）
+ *
+ * @param policy - 安全性ポリシー
+ * @param subject - 被写体の身長・現在体重・年齢
+ * @param targets - 目標体重
+ * @returns 拒否・警告に該当した内容
+ */
+export function evaluateSafetyPolicy(
+  policy: SafetyPolicy,
+  subject: { heightCm: number; currentWeightKg: number; ageYears?: number },
+  targets: Array<{ weightKg: number; label?: string }>
+): SafetyEvaluation {
+  const findings: Array<SafetyFinding & { action: SafetyAction }> = [];
+
+  if (subject.ageYears !== undefined && subject.ageYears < policy.minAge) {
+    findings.push({
+      rule: 'min-age',
+      action: policy.minAgeAction,
+      message: `Subjects under ${policy.minAge} years old are not supported`,
+    });
+  }
+
+  for (const { weightKg, label } of targets) {
+    const target = label !== undefined ? `Target ${label}` : 'Target';
+    const bmi = calculateBMI(subject.heightCm, weightKg);
+    if (weightKg < subject.currentWeightKg && bmi < policy.minTargetBmi) {
+      findings.push({
+        rule: 'min-target-bmi',
+        action: policy.minTargetBmiAction,
+        message: `${target} BMI ${bmi} is below the minimum of ${policy.minTargetBmi}`,
+        ...(label !== undefined && { label }),
+      });
+    }
+
+    const changePercent =
+      Math.round(
+        (Math.abs(weightKg - subject.currentWeightKg) /
+          subject.currentWeightKg) *
+          1000
+      ) / 10;
+    if (changePercent > policy.maxChangePercent) {
+      findings.push({
+        rule: 'max-change-percent',
+        action: policy.maxChangePercentAction,
+        message: `${target} changes body weight by ${changePercent}%, more than the maximum of ${policy.maxChangePercent}%`,
+        ...(label !== undefined && { label }),
+      });
+    }
+  }
+
+  const pick = (action: SafetyAction): SafetyFinding[] =>
+    findings
+      .filter((finding) => finding.action === action)
+      .map(({ action: _action, ...finding }) => finding);
+  return { blocks: pick('block'), warnings: pick('warn') };
+}
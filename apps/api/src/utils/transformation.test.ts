@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getWeightChange,
+  isConsistentTransformation,
+  isPassthroughTarget,
+  resolveTransformation,
+} from './transformation';
+
+describe('getWeightChange', () => {
+  it('現在体重に対する目標体重の増減を返す', () => {
+    expect(getWeightChange(70, 65)).toBe('lighter');
+    expect(getWeightChange(70, 70)).toBe('same');
+    expect(getWeightChange(70, 75)).toBe('heavier');
+  });
+});
+
+describe('resolveTransformation', () => {
+  it('未指定の場合は体重の増減から決定し、同じ体重では undefined を返す', () => {
+    expect(resolveTransformation(70, 65)).toBe('fat-loss');
+    expect(resolveTransformation(70, 75)).toBe('fat-gain');
+    expect(resolveTransformation(70, 70)).toBeUndefined();
+  });
+
+  it('指定された種類を優先する', () => {
+    expect(resolveTransformation(70, 75, 'muscle-gain')).toBe('muscle-gain');
+    expect(resolveTransformation(70, 70, 'recomposition')).toBe(
+      'recomposition'
+    );
+  });
+});
+
+describe('isConsistentTransformation', () => {
+  it('種類ごとに許容する体重の増減を判定する', () => {
+    expect(isConsistentTransformation('fat-loss', 70, 65)).toBe(true);
+    expect(isConsistentTransformation('fat-loss', 70, 75)).toBe(false);
+    expect(isConsistentTransformation('muscle-gain', 70, 70)).toBe(false);
+    expect(isConsistentTransformation('recomposition', 70, 72)).toBe(true);
+    expect(isConsistentTransformation('toned', 70, 70)).toBe(true);
+    expect(isConsistentTransformation('toned', 70, 72)).toBe(false);
+  });
+});
+
+describe('isPassthroughTarget', () => {
+  it('同じ体重で、体重を保ったまま変化する種類が指定されていない場合のみ true を返す', () => {
+    expect(isPassthroughTarget(70, 70)).toBe(true);
+    expect(isPassthroughTarget(70, 70, 'fat-loss')).toBe(true);
+    expect(isPassthroughTarget(70, 70, 'recomposition')).toBe(false);
+    expect(isPassthroughTarget(70, 70, 'toned')).toBe(false);
+    expect(isPassthroughTarget(70, 65)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 体型変化の種類ユーティリティ
+ *
+ * 目標体重ごとの変化の種類（脂肪の増減・筋肉の増加・リコンポジション・引き締め）と、
+ * 種類ごとに許容する体重の変化の方向を定義します。リコンポジションと引き締めは
+ * 体重が変わらなくても体型が変化するため、パススルー（元画像の返却）の対象外です。
+ */
+
+/** 対応する変化の種類 */
+export const TRANSFORMATION_TYPES = [
+  'fat-loss',
+  'fat-gain',
+  'muscle-gain',
+  'recomposition',
+  'toned',
+] as const;
+
+/**
+ * 変化の種類
+ * - "fat-loss": 脂肪が減る（減量）
+ * - "fat-gain": 脂肪が増える（増量）
+ * - "muscle-gain": 脂肪をあまり増やさずに筋肉が増える（リーンバルク）
+ * - "recomposition": 脂肪が減り筋肉が増える（体重はほぼ同じ）
+ * - "toned": 筋肉を大きくせずに引き締まる
+ */
+export type TransformationType = (typeof TRANSFORMATION_TYPES)[number];
+
+/** 現在体重に対する目標体重の変化の方向 */
+export type WeightChange = 'lighter' | 'same' | 'heavier';
+
+/** 変化の種類ごとに許容する体重の変化の方向 */
+export const TRANSFORMATION_WEIGHT_CHANGES: Record<
+  TransformationType,
+  readonly WeightChange[]
+> = {
+  'fat-loss': ['lighter'],
+  'fat-gain': ['heavier'],
+  'muscle-gain': ['heavier'],
+  recomposition: ['lighter', 'same', 'heavier'],
+  toned: ['lighter', 'same'],
+};
+
+/**
+ * 現在体重に対する目標体重の変化の方向を求める
+ */
+export function getWeightChange(
+  currentWeightKg: number,
+  targetWeightKg: number
+): WeightChange {
+  if (targetWeightKg === currentWeightKg) return 'same';
+  return targetWeightKg < currentWeightKg ? 'lighter' : 'heavier';
+}
+
+/**
+ * 変化の種類を決定する
+ *
+ * 未指定の場合は体重の変化の方向から "fat-loss" / "fat-gain" とし、
+ * 体重が変わらない場合は undefined（変化なし）を返します。
+ *
+ * @param currentWeightKg - 現在体重（kg）
+ * @param targetWeightKg - 目標体重（kg）
+ * @param transformation - 指定された変化の種類
+ * @returns 変化の種類
+ */
+export function resolveTransformation(
+  currentWeightKg: number,
+  targetWeightKg: number,
+  transformation?: TransformationType
+): TransformationType | undefined {
+  if (transformation) return transformation;
+  const change = getWeightChange(currentWeightKg, targetWeightKg);
+  if (change === 'same') return undefined;
+  return change === 'lighter' ? 'fat-loss' : 'fat-gain';
+}
+
+/**
+ * 変化の種類が目標体重の変化の方向と矛盾しないかを判定する
+ *
+ * @example
+ * ```typescript
+ * isConsistentTransformation('recomposition', 70, 70); // true
+ * isConsistentTransformation('fat-loss', 70, 75); // false
+ * ```
+ */
+export function isConsistentTransformation(
+  transformation: TransformationType,
+  currentWeightKg: number,
+  targetWeightKg: number
+): boolean {
+  return TRANSFORMATION_WEIGHT_CHANGES[transformation].includes(
+    getWeightChange(currentWeightKg, targetWeightKg)
+  );
+}
+
+/**
+ * 体型を変化させる必要がない（元画像をそのまま返す）目標かを判定する
+ *
+ * 体重が変わらず、体重を保ったまま変化する種類（リコンポジション・引き締め）も
+ * 指定されていない場合に true を返します。
+ */
+export function isPassthroughTarget(
+  currentWeightKg: number,
+  targetWeightKg: number,
+  transformation?: TransformationType
+): boolean {
+  if (targetWeightKg !== currentWeightKg) return false;
+  return (
+    !transformation ||
+    !TRANSFORMATION_WEIGHT_CHANGES[transformation].includes('same')
+  );
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatHeight,
+  formatHeightRange,
+  formatWeight,
+  formatWeightRange,
+  toCentimeters,
+  toHeightFields,
+  toKilograms,
+  toWeightFields,
+} from './units';
+
+describe('toCentimeters / toKilograms', () => {
+  it('ft/in と lb をメートル法へ変換する', () => {
+    expect(toCentimeters({ heightFt: 5, heightIn: 10 }, 'us')).toBe(177.8);
+    expect(toCentimeters({ heightFt: 6 }, 'uk')).toBe(182.9);
+    expect(toKilograms({ currentWeightLb: 180 }, 'us', 'currentWeight')).toBe(
+      81.65
+    );
+  });
+
+  it('英国の単位系は st と端数の lb を合算する', () => {
+    expect(toKilograms({ weightSt: 12, weightLb: 6 }, 'uk', 'weight')).toBe(
+      78.93
+    );
+    expect(toKilograms({ weightSt: 11 }, 'uk', 'weight')).toBe(69.85);
+  });
+
+  it('メートル法はそのまま返す', () => {
+    expect(toCentimeters({ heightCm: 170 }, 'metric')).toBe(170);
+    expect(toKilograms({ weightKg: 65.5 }, 'metric', 'weight')).toBe(65.5);
+  });
+});
+
+describe('toHeightFields / toWeightFields', () => {
+  it('変換した値を入力と同じ単位系のフィールドへ戻せる', () => {
+    expect(toHeightFields(177.8, 'us')).toEqual({ heightFt: 5, heightIn: 10 });
+    expect(toWeightFields(81.65, 'us', 'currentWeight')).toEqual({
+      currentWeightLb: 180,
+    });
+    expect(toWeightFields(78.93, 'uk', 'weight')).toEqual({
+      weightSt: 12,
+      weightLb: 6,
+    });
+    expect(toWeightFields(70, 'metric', 'weight')).toEqual({ weightKg: 70 });
+  });
+});
+
+describe('formatHeight / formatWeight', () => {
+  it('単位系の表記へ変換する', () => {
+    expect(formatHeight(177.8, 'us')).toBe('5 ft 10 in');
+    expect(formatHeight(170, 'metric')).toBe('170 cm');
+    expect(formatWeight(70, 'us')).toBe('154.3 lb');
+    expect(formatWeight(70, 'uk')).toBe('11 st 0.3 lb');
+  });
+});
+
+describe('formatHeightRange / formatWeightRange', () => {
+  it('メートル法は既存のメッセージと同じ表記を返す', () => {
+    expect(formatHeightRange(120, 220, 'metric')).toBe('120 and 220 cm');
+    expect(formatWeightRange(20, 300, 'metric')).toBe('20 and 300 kg');
+  });
+
+  it('表記した値が範囲内に収まるよう下限は切り上げ、上限は切り捨てる', () => {
+    expect(formatHeightRange(120, 220, 'us')).toBe(
+      '3 ft 11.3 in and 7 ft 2.6 in'
+    );
+    expect(formatWeightRange(20, 300, 'us')).toBe('44.1 and 661.3 lb');
+    expect(formatWeightRange(20, 300, 'uk')).toBe(
+      '3 st 2.1 lb and 47 st 3.3 lb'
+    );
+    expect(
+      toKilograms({ weightLb: 661.3 }, 'us', 'weight')
+    ).toBeLessThanOrEqual(300);
+    expect(
+      toKilograms({ weightLb: 44.1 }, 'us', 'weight')
+    ).toBeGreaterThanOrEqual(20);
+  });
+});
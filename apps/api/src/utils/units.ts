@@ -0,0 +1,211 @@
+/**
+ * 単位系ユーティリティ
+ *
+ * ヤード・ポンド法（米国: lb・ft/in、英国: st/lb・ft/in）の身長・体重とメートル法
+ * （cm・kg）を相互に変換し、単位系ごとのフィールド名・表示形式を提供します。
+ * 内部の計算（BMI・プロンプト）はメートル法で行い、入出力のみ呼び出し元の単位系を使用します。
+ */
+
+/** 対応する単位系 */
+export const UNIT_SYSTEMS = ['metric', 'us', 'uk'] as const;
+
+/**
+ * 単位系
+ * - "metric": cm・kg
+ * - "us": ft/in・lb
+ * - "uk": ft/in・st/lb
+ */
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+/** 1 ポンドあたりのキログラム（国際ポンド） */
+export const KG_PER_POUND = 0.45359237;
+
+/** 1 インチあたりのセンチメートル */
+export const CM_PER_INCH = 2.54;
+
+/** 1 フィートあたりのインチ */
+const INCHES_PER_FOOT = 12;
+
+/** 1 ストーンあたりのポンド */
+const POUNDS_PER_STONE = 14;
+
+/**
+ * 指定した桁数に丸める
+ */
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * 単位系の身長を cm へ変換する
+ *
+ * メートル法は `heightCm`、ヤード・ポンド法は `heightFt` と `heightIn`（省略時 0）を使用します。
+ *
+ * @param fields - 身長のフィールド
+ * @param unitSystem - 単位系
+ * @returns 身長（cm、小数点以下1桁）
+ */
+export function toCentimeters(
+  fields: { heightCm?: number; heightFt?: number; heightIn?: number },
+  unitSystem: UnitSystem
+): number {
+  if (unitSystem === 'metric') return fields.heightCm ?? 0;
+  const inches =
+    (fields.heightFt ?? 0) * INCHES_PER_FOOT + (fields.heightIn ?? 0);
+  return round(inches * CM_PER_INCH, 1);
+}
+
+/**
+ * 単位系の体重を kg へ変換する
+ *
+ * `name` が "weight" の場合、メートル法は `weightKg`、米国は `weightLb`、
+ * 英国は `weightSt` と `weightLb`（端数のポンド、省略時 0）を使用します。
+ *
+ * @param fields - 体重のフィールド
+ * @param unitSystem - 単位系
+ * @param name - フィールド名の接頭辞（"weight", "currentWeight" など）
+ * @returns 体重（kg、小数点以下2桁）
+ */
+export function toKilograms(
+  fields: Record<string, number | undefined>,
+  unitSystem: UnitSystem,
+  name: string
+): number {
+  if (unitSystem === 'metric') return fields[`${name}Kg`] ?? 0;
+  const pounds =
+    (unitSystem === 'uk' ? (fields[`${name}St`] ?? 0) * POUNDS_PER_STONE : 0) +
+    (fields[`${name}Lb`] ?? 0);
+  return round(pounds * KG_PER_POUND, 2);
+}
+
+/**
+ * インチを ft/in のフィールドへ分割する
+ */
+function splitInches(inches: number): { heightFt: number; heightIn: number } {
+  const heightFt = Math.floor(inches / INCHES_PER_FOOT);
+  return { heightFt, heightIn: round(inches - heightFt * INCHES_PER_FOOT, 1) };
+}
+
+/**
+ * ポンドを単位系の体重の表記へ変換する（英国は st と端数の lb）
+ */
+function formatPounds(pounds: number, unitSystem: UnitSystem): string {
+  if (unitSystem !== 'uk') return `${pounds} lb`;
+  const stone = Math.floor(pounds / POUNDS_PER_STONE);
+  return `${stone} st ${round(pounds - stone * POUNDS_PER_STONE, 1)} lb`;
+}
+
+/**
+ * cm の身長を単位系のフィールドへ変換する
+ *
+ * @param heightCm - 身長（cm）
+ * @param unitSystem - 単位系
+ * @returns `{ heightCm }` または `{ heightFt, heightIn }`（インチは小数点以下1桁）
+ */
+export function toHeightFields(
+  heightCm: number,
+  unitSystem: UnitSystem
+): Record<string, number> {
+  if (unitSystem === 'metric') return { heightCm };
+  return splitInches(round(heightCm / CM_PER_INCH, 1));
+}
+
+/**
+ * kg の体重を単位系のフィールドへ変換する
+ *
+ * @param weightKg - 体重（kg）
+ * @param unitSystem - 単位系
+ * @param name - フィールド名の接頭辞（"weight", "currentWeight" など）
+ * @returns `{ weightKg }`・`{ weightLb }`・`{ weightSt, weightLb }` の形式（ポンドは小数点以下1桁）
+ */
+export function toWeightFields(
+  weightKg: number,
+  unitSystem: UnitSystem,
+  name: string
+): Record<string, number> {
+  if (unitSystem === 'metric') return { [`${name}Kg`]: weightKg };
+  const pounds = round(weightKg / KG_PER_POUND, 1);
+  if (unitSystem === 'us') return { [`${name}Lb`]: pounds };
+  const stone = Math.floor(pounds / POUNDS_PER_STONE);
+  return {
+    [`${name}St`]: stone,
+    [`${name}Lb`]: round(pounds - stone * POUNDS_PER_STONE, 1),
+  };
+}
+
+/**
+ * 身長を単位系の表記へ変換する
+ *
+ * @example
+ * ```typescript
+ * formatHeight(177.8, 'us'); // '5 ft 10 in'
+ * ```
+ */
+export function formatHeight(heightCm: number, unitSystem: UnitSystem): string {
+  if (unitSystem === 'metric') return `${heightCm} cm`;
+  const { heightFt, heightIn } = splitInches(round(heightCm / CM_PER_INCH, 1));
+  return `${heightFt} ft ${heightIn} in`;
+}
+
+/**
+ * 体重を単位系の表記へ変換する
+ *
+ * @example
+ * ```typescript
+ * formatWeight(70, 'us'); // '154.3 lb'
+ * formatWeight(70, 'uk'); // '11 st 0.3 lb'
+ * ```
+ */
+export function formatWeight(weightKg: number, unitSystem: UnitSystem): string {
+  if (unitSystem === 'metric') return `${weightKg} kg`;
+  return formatPounds(round(weightKg / KG_PER_POUND, 1), unitSystem);
+}
+
+/**
+ * 身長の範囲を単位系の表記へ変換する（検証エラーのメッセージ用）
+ *
+ * 表記した値が範囲内に収まるよう、下限は切り上げ・上限は切り捨てで丸めます。
+ *
+ * @example
+ * ```typescript
+ * formatHeightRange(120, 220, 'metric'); // '120 and 220 cm'
+ * formatHeightRange(120, 220, 'us'); // '3 ft 11.3 in and 7 ft 2.6 in'
+ * ```
+ */
+export function formatHeightRange(
+  minCm: number,
+  maxCm: number,
+  unitSystem: UnitSystem
+): string {
+  if (unitSystem === 'metric') return `${minCm} and ${maxCm} cm`;
+  const [min, max] = [
+    splitInches(Math.ceil((minCm / CM_PER_INCH) * 10) / 10),
+    splitInches(Math.floor((maxCm / CM_PER_INCH) * 10) / 10),
+  ];
+  return `${min.heightFt} ft ${min.heightIn} in and ${max.heightFt} ft ${max.heightIn} in`;
+}
+
+/**
+ * 体重の範囲を単位系の表記へ変換する（検証エラーのメッセージ用）
+ *
+ * 表記した値が範囲内に収まるよう、下限は切り上げ・上限は切り捨てで丸めます。
+ *
+ * @example
+ * ```typescript
+ * formatWeightRange(20, 300, 'metric'); // '20 and 300 kg'
+ * formatWeightRange(20, 300, 'us'); // '44.1 and 661.3 lb'
+ * ```
+ */
+export function formatWeightRange(
+  minKg: number,
+  maxKg: number,
+  unitSystem: UnitSystem
+): string {
+  if (unitSystem === 'metric') return `${minKg} and ${maxKg} kg`;
+  const min = Math.ceil((minKg / KG_PER_POUND) * 10) / 10;
+  const max = Math.floor((maxKg / KG_PER_POUND) * 10) / 10;
+  return unitSystem === 'us'
+    ? `${min} and ${max} lb`
+    : `${formatPounds(min, unitSystem)} and ${formatPounds(max, unitSystem)}`;
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+
+import { createWeightPlan, getMaxWeeklyRateKg } from './weight-plan';
+
+const startDate = new Date('2025-01-01T00:00:00Z');
+
+describe('createWeightPlan', () => {
+  it('既定の変化量と間隔でマイルストーンの予定日・体重・BMI を求める', () => {
+    const plan = createWeightPlan({
+      heightCm: 170,
+      currentWeightKg: 80,
+      goalWeightKg: 74,
+      startDate,
+    });
+
+    expect(plan.direction).toBe('loss');
+    expect(plan.weeklyRateKg).toBe(0.5);
+    expect(plan.totalWeeks).toBe(12);
+    expect(plan.targetDate).toBe('2025-03-26');
+    expect(plan.rateAdjustment).toBeUndefined();
+    expect(plan.milestones).toEqual([
+      {
+        milestone: 1,
+        label: 'week-4',
+        week: 4,
+        date: '2025-01-29',
+        weightKg: 78,
+        bmi: 27,
+        category: 'Overweight',
+        categoryLabel: 'Overweight',
+      },
+      {
+        milestone: 2,
+        label: 'week-8',
+        week: 8,
+        date: '2025-02-26',
+        weightKg: 76,
+        bmi: 26.3,
+        category: 'Overweight',
+        categoryLabel: 'Overweight',
+      },
+      {
+        milestone: 3,
+        label: 'week-12',
+        week: 12,
+        date: '2025-03-26',
+        weightKg: 74,
+        bmi: 25.6,
+        category: 'Overweight',
+        categoryLabel: 'Overweight',
+      },
+    ]);
+  });
+
+  it('端数の週で目標に到達する場合は最後のマイルストーンを目標体重にする', () => {
+    const plan = createWeightPlan({
+      heightCm: 170,
+      currentWeightKg: 60,
+      goalWeightKg: 61,
+      weeklyRateKg: 0.3,
+      milestoneIntervalWeeks: 2,
+      startDate,
+    });
+
+    expect(plan.direction).toBe('gain');
+    expect(plan.totalWeeks).toBe(4);
+    expect(plan.milestones.map((m) => [m.week, m.weightKg])).toEqual([
+      [2, 60.6],
+      [4, 61],
+    ]);
+  });
+
+  it('選択した判定基準と言語で BMI 分類を求める', () => {
+    const plan = createWeightPlan({
+      heightCm: 170,
+      currentWeightKg: 80,
+      goalWeightKg: 74,
+      startDate,
+      bmiStandard: 'jasso',
+      locale: 'ja',
+    });
+
+    expect(
+      plan.milestones.map((m) => [m.bmi, m.category, m.categoryLabel])
+    ).toEqual([
+      [27, 'Obesity, Grade 1', '肥満（1度）'],
+      [26.3, 'Obesity, Grade 1', '肥満（1度）'],
+      [25.6, 'Obesity, Grade 1', '肥満（1度）'],
+    ]);
+  });
+
+  it('丸めると現在体重と同じになる週はマイルストーンに含めない', () => {
+    const plan = createWeightPlan({
+      heightCm: 170,
+      currentWeightKg: 80,
+      goalWeightKg: 79.8,
+      weeklyRateKg: 0.05,
+      milestoneIntervalWeeks: 1,
+      startDate,
+    });
+
+    // 1 週目は 79.95kg → 80.0kg となり現在体重と変わらない
+    expect(plan.totalWeeks).toBe(4);
+    expect(
+      plan.milestones.map((m) => [m.milestone, m.week, m.weightKg])
+    ).toEqual([
+      [1, 2, 79.9],
+      [2, 3, 79.9],
+      [3, 4, 79.8],
+    ]);
+  });
+
+  it('上限を超える変化量は上限に丸めて調整内容を記録する', () => {
+    const plan = createWeightPlan({
+      heightCm: 160,
+      currentWeightKg: 60,
+      goalWeightKg: 54,
+      weeklyRateKg: 2,
+      startDate,
+    });
+
+    expect(plan.weeklyRateKg).toBe(0.6);
+    expect(plan.maxWeeklyRateKg).toBe(0.6);
+    expect(plan.totalWeeks).toBe(10);
+    expect(plan.rateAdjustment).toEqual({
+      requestedWeeklyRateKg: 2,
+      appliedWeeklyRateKg: 0.6,
+      reason: expect.stringContaining('0.6 kg/week'),
+    });
+  });
+
+  it('開始日の時刻は切り捨てて UTC の日付として扱う', () => {
+    const plan = createWeightPlan({
+      heightCm: 170,
+      currentWeightKg: 70,
+      goalWeightKg: 69.5,
+      startDate: new Date('2025-06-30T23:59:59Z'),
+    });
+
+    expect(plan.startDate).toBe('2025-06-30');
+    expect(plan.targetDate).toBe('2025-07-07');
+  });
+
+  it('目標体重が現在体重と同じ場合は例外をスローする', () => {
+    expect(() =>
+      createWeightPlan({
+        heightCm: 170,
+        currentWeightKg: 70,
+        goalWeightKg: 70,
+        startDate,
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('getMaxWeeklyRateKg', () => {
+  it('減量は 1kg と現在体重の 1% の小さい方、増量は 0.5kg', () => {
+    expect(getMaxWeeklyRateKg('loss', 150)).toBe(1);
+    expect(getMaxWeeklyRateKg('loss', 55)).toBe(0.55);
+    expect(getMaxWeeklyRateKg('gain', 150)).toBe(0.5);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * 減量・増量計画ユーティリティ
+ *
+ * 現在体重・目標体重・週あたりの変化量から、マイルストーン（一定間隔の週ごとの
+ * 予定日・体重・BMI）のスケジュールを作成します。医学的に妥当な範囲を超える
+ * 変化量は上限に丸め、その内容を計画に記録します。
+ */
+
+import {
+  type BMILocale,
+  type BMIStandard,
+  calculateBMI,
+  getBMICategory,
+} from './bmi';
+
+/** 減量時の週あたりの変化量の既定値（kg） */
+export const DEFAULT_WEEKLY_LOSS_KG = 0.5;
+
+/** 増量時の週あたりの変化量の既定値（kg） */
+export const DEFAULT_WEEKLY_GAIN_KG = 0.25;
+
+/** 減量時の週あたりの変化量の上限（kg） */
+export const MAX_WEEKLY_LOSS_KG = 1.0;
+
+/** 減量時の週あたりの変化量の上限（現在体重に対する割合） */
+export const MAX_WEEKLY_LOSS_RATIO = 0.01;
+
+/** 増量時の週あたりの変化量の上限（kg） */
+export const MAX_WEEKLY_GAIN_KG = 0.5;
+
+/** マイルストーンの間隔の既定値（週） */
+export const DEFAULT_MILESTONE_INTERVAL_WEEKS = 4;
+
+/** 1 日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 計画の作成オプション
+ */
+export interface WeightPlanOptions {
+  /** 身長（cm） */
+  heightCm: number;
+  /** 現在体重（kg） */
+  currentWeightKg: number;
+  /** 目標体重（kg、現在体重と異なる値） */
+  goalWeightKg: number;
+  /**
+   * 週あたりの変化量（kg、正の値）
+   * @description 未指定時は減量 0.5kg・増量 0.25kg。上限を超える場合は上限に丸める
+   */
+  weeklyRateKg?: number;
+  /**
+   * マイルストーンの間隔（週）
+   * @default 4
+   */
+  milestoneIntervalWeeks?: number;
+  /** 開始日（UTC の日付として扱う） */
+  startDate: Date;
+  /**
+   * BMI 分類の判定基準
+   * @default 'who'
+   */
+  bmiStandard?: BMIStandard;
+  /**
+   * BMI 分類名（`categoryLabel`）の言語
+   * @default 'en'
+   */
+  locale?: BMILocale;
+}
+
+/**
+ * 計画の 1 マイルストーン
+ */
+export interface WeightPlanMilestone {
+  /** マイルストーンの番号（1 始まり） */
+  milestone: number;
+  /** 生成画像のラベル（"week-4" など） */
+  label: string;
+  /** 開始からの週数 */
+  week: number;
+  /** 予定日（YYYY-MM-DD） */
+  date: string;
+  /** 予定体重（kg、小数点以下1桁。最後のマイルストーンは目標体重） */
+  weightKg: number;
+  /** 予定体重の BMI */
+  bmi: number;
+  /** 予定体重の BMI 分類（判定基準の英語の分類名） */
+  category: string;
+  /** 予定体重の BMI 分類名（`locale` の言語） */
+  categoryLabel: string;
+}
+
+/**
+ * 週あたりの変化量の調整内容
+ */
+export interface WeightPlanRateAdjustment {
+  /** 指定された変化量（kg/週） */
+  requestedWeeklyRateKg: number;
+  /** 適用した変化量（kg/週） */
+  appliedWeeklyRateKg: number;
+  /** 調整の理由 */
+  reason: string;
+}
+
+/**
+ * 作成した計画
+ */
+export interface WeightPlan {
+  /** 減量か増量か */
+  direction: 'loss' | 'gain';
+  /** 適用した週あたりの変化量（kg） */
+  weeklyRateKg: number;
+  /** 週あたりの変化量の上限（kg） */
+  maxWeeklyRateKg: number;
+  /** 上限を超えたため変化量を調整した場合の内容 */
+  rateAdjustment?: WeightPlanRateAdjustment;
+  /** 目標体重に到達するまでの週数 */
+  totalWeeks: number;
+  /** 開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 目標体重への到達予定日（YYYY-MM-DD） */
+  targetDate: string;
+  /** マイルストーン（週数の昇順。最後が目標体重） */
+  milestones: WeightPlanMilestone[];
+}
+
+/**
+ * 日付を UTC の YYYY-MM-DD 形式へ変換する
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 週あたりの変化量の上限を求める
+ *
+ * 減量は 1kg/週と現在体重の 1%/週の小さい方、増量は 0.5kg/週です。
+ *
+ * @param direction - 減量か増量か
+ * @param currentWeightKg - 現在体重（kg）
+ * @returns 週あたりの変化量の上限（kg、小数点以下2桁）
+ */
+export function getMaxWeeklyRateKg(
+  direction: 'loss' | 'gain',
+  currentWeightKg: number
+): number {
+  if (direction === 'gain') return MAX_WEEKLY_GAIN_KG;
+  const limit = Math.min(
+    MAX_WEEKLY_LOSS_KG,
+    currentWeightKg * MAX_WEEKLY_LOSS_RATIO
+  );
+  return Math.round(limit * 100) / 100;
+}
+
+/**
+ * 目標体重までのマイルストーンのスケジュールを作成する
+ *
+ * 開始日から `milestoneIntervalWeeks` 週ごとに予定体重を求め、目標体重に到達する週を
+ * 最後のマイルストーンとします。予定体重を丸めると現在体重と同じになる週は含めません。
+ * 週あたりの変化量が上限を超える場合は上限に丸め、`rateAdjustment` に記録します。
+ *
+ * @param options - 計画の作成オプション
+ * @returns 作成した計画
+ *
+ * @example
+ * ```typescript
+ * const plan = createWeightPlan({
+ *   heightCm: 170,
+ *   currentWeightKg: 80,
+ *   goalWeightKg: 72,
+ *   startDate: new Date('2025-01-01'),
+ * });
+ * plan.milestones.at(-1); // { week: 16, date: '2025-04-23', weightKg: 72, ... }
+ * ```
+ */
+export function createWeightPlan(options: WeightPlanOptions): WeightPlan {
+  const {
+    heightCm,
+    currentWeightKg,
+    goalWeightKg,
+    startDate,
+    bmiStandard = 'who',
+    locale = 'en',
+  } = options;
+  if (goalWeightKg === currentWeightKg) {
+    throw new RangeError('Goal weight must differ from the current weight');
+  }
+
+  const direction = goalWeightKg < currentWeightKg ? 'loss' : 'gain';
+  const maxWeeklyRateKg = getMaxWeeklyRateKg(direction, currentWeightKg);
+  const requestedWeeklyRateKg =
+    options.weeklyRateKg ??
+    (direction === 'loss' ? DEFAULT_WEEKLY_LOSS_KG : DEFAULT_WEEKLY_GAIN_KG);
+  const weeklyRateKg = Math.min(requestedWeeklyRateKg, maxWeeklyRateKg);
+  const rateAdjustment =
+    weeklyRateKg < requestedWeeklyRateKg
+      ? {
+          requestedWeeklyRateKg,
+          appliedWeeklyRateKg: weeklyRateKg,
+          reason: `Weekly ${direction} rate exceeds the safe limit of ${maxWeeklyRateKg} kg/week`,
+        }
+      : undefined;
+
+  // 浮動小数点の誤差で 1 週増えないよう、わずかに切り下げてから切り上げる
+  const totalWeeks = Math.max(
+    1,
+    Math.ceil(Math.abs(goalWeightKg - currentWeightKg) / weeklyRateKg - 1e-9)
+  );
+  const interval = Math.max(
+    1,
+    Math.floor(
+      options.milestoneIntervalWeeks ?? DEFAULT_MILESTONE_INTERVAL_WEEKS
+    )
+  );
+  const weeks: number[] = [];
+  for (let week = interval; week < totalWeeks; week += interval) {
+    weeks.push(week);
+  }
+  weeks.push(totalWeeks);
+
+  const sign = direction === 'loss' ? -1 : 1;
+  const start = Date.UTC(
+    startDate.getUTCFullYear(),
+    startDate.getUTCMonth(),
+    startDate.getUTCDate()
+  );
+  const milestones = weeks
+    .map((week) => ({
+      week,
+      weightKg:
+        week === totalWeeks
+          ? goalWeightKg
+          : Math.round((currentWeightKg + sign * weeklyRateKg * week) * 10) /
+            10,
+    }))
+    // 変化量が小さく、丸めると現在体重に戻る週は変化が無いため含めない
+    .filter(({ weightKg }) => weightKg !== currentWeightKg)
+    .map(({ week, weightKg }, index) => {
+      const bmi = calculateBMI(heightCm, weightKg);
+      return {
+        milestone: index + 1,
+        label: `week-${week}`,
+        week,
+        date: formatDate(new Date(start + week * 7 * DAY_MS)),
+        weightKg,
+        bmi,
+        category: getBMICategory(bmi, bmiStandard),
+        categoryLabel: getBMICategory(bmi, bmiStandard, locale),
+      };
+    });
+
+  return {
+    direction,
+    weeklyRateKg,
+    maxWeeklyRateKg,
+    ...(rateAdjustment && { rateAdjustment }),
+    totalWeeks,
+    startDate: formatDate(new Date(start)),
+    targetDate: milestones[milestones.length - 1].date,
+    milestones,
+  };
+}